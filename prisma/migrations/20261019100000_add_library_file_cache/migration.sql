@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "LibraryFile" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "filePath" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "size" REAL NOT NULL,
+    "mtimeMs" REAL NOT NULL,
+    "hash" TEXT NOT NULL,
+    "metadata" TEXT NOT NULL,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LibraryFile_filePath_key" ON "LibraryFile"("filePath");
+
+-- CreateIndex
+CREATE INDEX "LibraryFile_hash_idx" ON "LibraryFile"("hash");
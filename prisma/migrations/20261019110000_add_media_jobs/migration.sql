@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "MediaJob" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "type" TEXT NOT NULL,
+    "entity" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "filePath" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "runAfter" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" DATETIME,
+    "finishedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "MediaJob_status_runAfter_idx" ON "MediaJob"("status", "runAfter");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MediaJob_type_entity_entityId_key" ON "MediaJob"("type", "entity", "entityId");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Track" ADD COLUMN "transposeCents" INTEGER;
+
+-- AlterTable
+ALTER TABLE "JamTrack" ADD COLUMN "transposeCents" INTEGER;
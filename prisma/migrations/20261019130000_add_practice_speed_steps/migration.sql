@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "PracticeSpeedStep" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sessionId" TEXT NOT NULL,
+    "speed" INTEGER NOT NULL,
+    "repetitions" INTEGER NOT NULL DEFAULT 0,
+    "startedAt" DATETIME NOT NULL,
+    CONSTRAINT "PracticeSpeedStep_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "PracticeSession" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "PracticeSpeedStep_sessionId_idx" ON "PracticeSpeedStep"("sessionId");
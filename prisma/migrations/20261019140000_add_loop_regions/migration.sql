@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "LoopRegion" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "start" REAL NOT NULL,
+    "end" REAL NOT NULL,
+    "playbackSpeed" INTEGER,
+    "leadIn" REAL,
+    "trackId" TEXT,
+    "jamTrackId" TEXT,
+    "bookVideoId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "LoopRegion_trackId_fkey" FOREIGN KEY ("trackId") REFERENCES "Track" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "LoopRegion_jamTrackId_fkey" FOREIGN KEY ("jamTrackId") REFERENCES "JamTrack" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "LoopRegion_bookVideoId_fkey" FOREIGN KEY ("bookVideoId") REFERENCES "BookVideo" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "LoopRegion_trackId_idx" ON "LoopRegion"("trackId");
+
+-- CreateIndex
+CREATE INDEX "LoopRegion_jamTrackId_idx" ON "LoopRegion"("jamTrackId");
+
+-- CreateIndex
+CREATE INDEX "LoopRegion_bookVideoId_idx" ON "LoopRegion"("bookVideoId");
+
+-- AlterTable
+ALTER TABLE "PracticeSession" ADD COLUMN "loopRegionId" TEXT REFERENCES "LoopRegion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE INDEX "PracticeSession_loopRegionId_idx" ON "PracticeSession"("loopRegionId");
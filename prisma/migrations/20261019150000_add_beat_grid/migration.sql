@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Track" ADD COLUMN "detectedTempo" REAL;
+ALTER TABLE "Track" ADD COLUMN "beatOffset" REAL;
+
+-- AlterTable
+ALTER TABLE "JamTrack" ADD COLUMN "detectedTempo" REAL;
+ALTER TABLE "JamTrack" ADD COLUMN "beatOffset" REAL;
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "JamTrackChord" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "start" REAL NOT NULL,
+    "end" REAL NOT NULL,
+    "root" TEXT NOT NULL,
+    "chordType" TEXT NOT NULL,
+    "jamTrackId" TEXT NOT NULL,
+    CONSTRAINT "JamTrackChord_jamTrackId_fkey" FOREIGN KEY ("jamTrackId") REFERENCES "JamTrack" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "JamTrackChord_jamTrackId_idx" ON "JamTrackChord"("jamTrackId");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "JamTrack" ADD COLUMN "rootNote" TEXT;
+ALTER TABLE "JamTrack" ADD COLUMN "scaleType" TEXT;
+ALTER TABLE "JamTrack" ADD COLUMN "detectedRootNote" TEXT;
+ALTER TABLE "JamTrack" ADD COLUMN "detectedScaleType" TEXT;
+ALTER TABLE "JamTrack" ADD COLUMN "keyConfidence" REAL;
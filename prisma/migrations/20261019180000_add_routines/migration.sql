@@ -0,0 +1,71 @@
+-- CreateTable
+CREATE TABLE "Routine" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "RoutineBlock" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "routineId" TEXT NOT NULL,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "kind" TEXT NOT NULL,
+    "label" TEXT,
+    "durationSeconds" INTEGER NOT NULL,
+    "trackId" TEXT,
+    "jamTrackId" TEXT,
+    "chapterId" TEXT,
+    "bookVideoId" TEXT,
+    "videoId" TEXT,
+    "tool" TEXT,
+    "rootNote" TEXT,
+    "scaleType" TEXT,
+    "bpm" INTEGER,
+    "timeSignature" TEXT,
+    CONSTRAINT "RoutineBlock_routineId_fkey" FOREIGN KEY ("routineId") REFERENCES "Routine" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "RoutineBlock_trackId_fkey" FOREIGN KEY ("trackId") REFERENCES "Track" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "RoutineBlock_jamTrackId_fkey" FOREIGN KEY ("jamTrackId") REFERENCES "JamTrack" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "RoutineBlock_chapterId_fkey" FOREIGN KEY ("chapterId") REFERENCES "Chapter" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "RoutineBlock_bookVideoId_fkey" FOREIGN KEY ("bookVideoId") REFERENCES "BookVideo" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "RoutineBlock_videoId_fkey" FOREIGN KEY ("videoId") REFERENCES "Video" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "RoutineRun" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "routineId" TEXT,
+    "routineName" TEXT NOT NULL,
+    "startTime" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "durationSeconds" REAL NOT NULL,
+    "blocksCompleted" INTEGER NOT NULL,
+    "blocksTotal" INTEGER NOT NULL,
+    "completed" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "RoutineRun_routineId_fkey" FOREIGN KEY ("routineId") REFERENCES "Routine" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "RoutineBlock_routineId_idx" ON "RoutineBlock"("routineId");
+
+-- CreateIndex
+CREATE INDEX "RoutineBlock_trackId_idx" ON "RoutineBlock"("trackId");
+
+-- CreateIndex
+CREATE INDEX "RoutineBlock_jamTrackId_idx" ON "RoutineBlock"("jamTrackId");
+
+-- CreateIndex
+CREATE INDEX "RoutineBlock_chapterId_idx" ON "RoutineBlock"("chapterId");
+
+-- CreateIndex
+CREATE INDEX "RoutineBlock_bookVideoId_idx" ON "RoutineBlock"("bookVideoId");
+
+-- CreateIndex
+CREATE INDEX "RoutineBlock_videoId_idx" ON "RoutineBlock"("videoId");
+
+-- CreateIndex
+CREATE INDEX "RoutineRun_routineId_idx" ON "RoutineRun"("routineId");
+
+-- CreateIndex
+CREATE INDEX "RoutineRun_startTime_idx" ON "RoutineRun"("startTime");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Track" ADD COLUMN "toneSettings" TEXT;
+
+-- AlterTable
+ALTER TABLE "JamTrack" ADD COLUMN "toneSettings" TEXT;
@@ -0,0 +1,37 @@
+-- RedefineTables
+-- JamTrackPdf and PageSyncPoint were created by 20260207200000_jam_track_multi_pdf
+-- and later dropped from the schema without a migration. Redefine them with the
+-- current columns, keeping the PDFs (not the Guitar Pro rows) and their sync points.
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_JamTrackPdf" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "filePath" TEXT NOT NULL,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "jamTrackId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "JamTrackPdf_jamTrackId_fkey" FOREIGN KEY ("jamTrackId") REFERENCES "JamTrack" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_JamTrackPdf" ("id", "name", "filePath", "sortOrder", "jamTrackId")
+SELECT "id", "name", "filePath", "sortOrder", "jamTrackId" FROM "JamTrackPdf"
+WHERE "fileType" = 'pdf' AND "jamTrackId" IN (SELECT "id" FROM "JamTrack");
+CREATE TABLE "new_PageSyncPoint" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "timestamp" REAL NOT NULL,
+    "page" INTEGER NOT NULL,
+    "pdfId" TEXT NOT NULL,
+    CONSTRAINT "PageSyncPoint_pdfId_fkey" FOREIGN KEY ("pdfId") REFERENCES "JamTrackPdf" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_PageSyncPoint" ("id", "timestamp", "page", "pdfId")
+SELECT "id", "timeInSeconds", "pageNumber", "jamTrackPdfId" FROM "PageSyncPoint"
+WHERE "jamTrackPdfId" IN (SELECT "id" FROM "new_JamTrackPdf");
+DROP TABLE "PageSyncPoint";
+DROP TABLE "JamTrackPdf";
+ALTER TABLE "new_JamTrackPdf" RENAME TO "JamTrackPdf";
+ALTER TABLE "new_PageSyncPoint" RENAME TO "PageSyncPoint";
+CREATE UNIQUE INDEX "JamTrackPdf_filePath_key" ON "JamTrackPdf"("filePath");
+CREATE INDEX "JamTrackPdf_jamTrackId_idx" ON "JamTrackPdf"("jamTrackId");
+CREATE INDEX "PageSyncPoint_pdfId_idx" ON "PageSyncPoint"("pdfId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
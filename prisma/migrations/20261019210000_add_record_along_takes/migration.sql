@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "Recording" ADD COLUMN "trackId" TEXT REFERENCES "Track" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "Recording" ADD COLUMN "jamTrackId" TEXT REFERENCES "JamTrack" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "Recording" ADD COLUMN "sourceStart" REAL;
+ALTER TABLE "Recording" ADD COLUMN "alignOffset" REAL;
+ALTER TABLE "Recording" ADD COLUMN "latencyMs" REAL;
+ALTER TABLE "Recording" ADD COLUMN "playbackSpeed" INTEGER;
+ALTER TABLE "Recording" ADD COLUMN "loopStart" REAL;
+ALTER TABLE "Recording" ADD COLUMN "loopEnd" REAL;
+
+-- CreateIndex
+CREATE INDEX "Recording_trackId_idx" ON "Recording"("trackId");
+
+-- CreateIndex
+CREATE INDEX "Recording_jamTrackId_idx" ON "Recording"("jamTrackId");
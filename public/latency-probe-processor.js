@@ -0,0 +1,30 @@
+// AudioWorklet that hands the microphone signal back to the main thread with
+// the context frame it arrived at, for round-trip latency measurement (see
+// src/lib/latency.ts). Blocks are batched so the port isn't flooded.
+
+const BATCH_FRAMES = 4096;
+
+class LatencyProbeProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.batch = new Float32Array(BATCH_FRAMES);
+    this.batchLength = 0;
+    this.batchStartFrame = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    if (this.batchLength === 0) this.batchStartFrame = currentFrame;
+    this.batch.set(channel.subarray(0, Math.min(channel.length, BATCH_FRAMES - this.batchLength)), this.batchLength);
+    this.batchLength += channel.length;
+    if (this.batchLength >= BATCH_FRAMES) {
+      this.port.postMessage({ startFrame: this.batchStartFrame, samples: this.batch });
+      this.batch = new Float32Array(BATCH_FRAMES);
+      this.batchLength = 0;
+    }
+    return true;
+  }
+}
+
+registerProcessor("latency-probe-processor", LatencyProbeProcessor);
@@ -0,0 +1,79 @@
+// AudioWorklet pitch shifter for the BottomPlayer (see src/lib/pitchShift.ts).
+//
+// Classic two-tap delay-line shifter: each tap reads the recent input at a
+// rate of `pitchRatio` through a delay that sweeps across a short window, and
+// the taps are half a window apart with sin² gains that sum to one, so each
+// tap's jump back to the start of the window happens while it is silent.
+// Tempo is untouched; speed changes happen upstream on the media element.
+
+const WINDOW_SECONDS = 0.06;
+
+class PitchShiftProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [{ name: "pitchRatio", defaultValue: 1, minValue: 0.5, maxValue: 2, automationRate: "k-rate" }];
+  }
+
+  constructor() {
+    super();
+    this.windowSize = Math.round(WINDOW_SECONDS * sampleRate);
+    this.bufferSize = this.windowSize * 2 + 2;
+    this.buffers = [];
+    this.writeIndex = 0;
+    this.phase = 0;
+  }
+
+  read(buffer, delay) {
+    let pos = this.writeIndex - delay;
+    while (pos < 0) pos += this.bufferSize;
+    const i = Math.floor(pos);
+    const frac = pos - i;
+    const a = buffer[i % this.bufferSize];
+    const b = buffer[(i + 1) % this.bufferSize];
+    return a + (b - a) * frac;
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    const output = outputs[0];
+    if (!input || input.length === 0) return true;
+
+    const ratio = parameters.pitchRatio[0];
+    while (this.buffers.length < input.length) this.buffers.push(new Float32Array(this.bufferSize));
+
+    const frames = input[0].length;
+    const step = (1 - ratio) / this.windowSize;
+    const startIndex = this.writeIndex;
+    const startPhase = this.phase;
+
+    for (let ch = 0; ch < output.length; ch++) {
+      const inData = input[Math.min(ch, input.length - 1)];
+      const outData = output[ch];
+      const buffer = this.buffers[Math.min(ch, input.length - 1)];
+      this.writeIndex = startIndex;
+      this.phase = startPhase;
+
+      for (let n = 0; n < frames; n++) {
+        buffer[this.writeIndex] = inData[n];
+
+        if (ratio === 1) {
+          outData[n] = inData[n];
+        } else {
+          const phaseB = (this.phase + 0.5) % 1;
+          const gainA = Math.sin(Math.PI * this.phase) ** 2;
+          const gainB = 1 - gainA;
+          // +1 keeps the read position behind the sample just written
+          outData[n] =
+            gainA * this.read(buffer, this.phase * this.windowSize + 1) +
+            gainB * this.read(buffer, phaseB * this.windowSize + 1);
+          this.phase = (this.phase + step + 1) % 1;
+        }
+
+        this.writeIndex = (this.writeIndex + 1) % this.bufferSize;
+      }
+    }
+
+    return true;
+  }
+}
+
+registerProcessor("pitch-shift-processor", PitchShiftProcessor);
@@ -6,9 +6,9 @@ import BookGrid from "@/components/BookGrid";
 import TrackListView from "@/components/TrackListView";
 import JamTracksView from "@/components/JamTracksView";
 import JamTrackCompactSelector from "@/components/JamTrackCompactSelector";
-import BottomPlayer, { MarkerBarState } from "@/components/BottomPlayer";
+import BottomPlayer, { MarkerBarState, AutoPlayRequest } from "@/components/BottomPlayer";
 import MarkersBar from "@/components/MarkersBar";
-import TopNav from "@/components/TopNav";
+import TopNav, { MetronomeRequest } from "@/components/TopNav";
 import Fretboard from "@/components/Fretboard";
 import CircleOfFifths from "@/components/CircleOfFifths";
 import ChordBuilder from "@/components/ChordBuilder";
@@ -20,11 +20,20 @@ import Tools from "@/components/Tools";
 import MetricsView from "@/components/MetricsView";
 import CAGEDSystem from "@/components/CAGEDSystem";
 import HomeView from "@/components/HomeView";
+import RoutineRunnerBar from "@/components/RoutineRunnerBar";
 import GuitarProViewer from "@/components/GuitarProViewer";
-import UploadModal from "@/components/UploadModal";
+import JamTrackPdfPanel from "@/components/JamTrackPdfPanel";
+import UploadModal, { type SplitUploadOptions } from "@/components/UploadModal";
 import VideoPlayer from "@/components/VideoPlayer";
-import { AuthorSummary, BookSummary, Book, Track, TrackTab, Marker, JamTrack, JamTrackMarker, BookVideo, BookVideoMarker, SearchResultTrack, SearchResultBook, SearchResultJamTrack } from "@/types";
+import { AuthorSummary, BookSummary, Book, Track, TrackTab, Marker, JamTrack, JamTrackMarker, BookVideo, BookVideoMarker, SearchResultTrack, SearchResultBook, SearchResultJamTrack, RoutineBlock } from "@/types";
 import TrackTabsModal from "@/components/TrackTabsModal";
+import { usePlayQueue, PlayQueueItem } from "@/hooks/usePlayQueue";
+import { useRoutineRunner } from "@/hooks/useRoutineRunner";
+import { useInputDevices } from "@/hooks/useInputDevices";
+import { routineToolUrl } from "@/lib/routines";
+import { getBookCoverUrl } from "@/lib/covers";
+import type { MediaSessionInfo } from "@/lib/mediaSession";
+import { consumeScanStream, initialScanProgress, type ScanProgress } from "@/lib/scanStream";
 
 type Section = 'home' | 'lessons' | 'videos' | 'fretboard' | 'chords' | 'tools' | 'circle' | 'jamtracks' | 'recordings' | 'metrics' | 'caged';
 
@@ -55,6 +64,18 @@ export default function Home() {
   const [currentBookId, setCurrentBookId] = useState<string | null>(null);
   const [currentJamTrackId, setCurrentJamTrackId] = useState<string | null>(null);
 
+  // Keyboard, MIDI and pedal input for the bindings the player and PDF viewer act on
+  useInputDevices();
+
+  // Play queue: the player reports each finish, the page opens the next item
+  const playQueue = usePlayQueue();
+  const [autoPlay, setAutoPlay] = useState<AutoPlayRequest | null>(null);
+  const autoPlayTokenRef = useRef(0);
+  const [metronomeRequest, setMetronomeRequest] = useState<MetronomeRequest | null>(null);
+  const metronomeTokenRef = useRef(0);
+  // Whether the running routine turned the metronome on, so it only stops its own
+  const routineMetronomeRef = useRef(false);
+
   // Ref so fetchLibrary callback can access current selectedBookId
   const selectedBookIdRef = useRef<string | null>(null);
   selectedBookIdRef.current = selectedBookId;
@@ -70,6 +91,8 @@ export default function Home() {
     [jamTracks, currentJamTrackId]
   );
   const [isScanning, setIsScanning] = useState(false);
+  const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null);
+  const scanAbortRef = useRef<AbortController | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [isUploadingJamTracks, setIsUploadingJamTracks] = useState(false);
   const [isImportingFromYouTube, setIsImportingFromYouTube] = useState(false);
@@ -389,19 +412,39 @@ export default function Home() {
   };
 
   const handleScan = async () => {
+    const controller = new AbortController();
+    scanAbortRef.current = controller;
     setIsScanning(true);
+    setScanProgress(initialScanProgress());
     try {
-      const response = await fetch("/api/library/scan", { method: "POST" });
+      const response = await fetch("/api/library/scan", { method: "POST", signal: controller.signal });
       if (response.ok) {
+        await consumeScanStream(response, setScanProgress);
         await fetchLibrary();
       }
     } catch (error) {
-      console.error("Error scanning library:", error);
+      if (error instanceof Error && error.name === "AbortError") {
+        setScanProgress(prev => prev && { ...prev, status: "cancelled", currentFile: null });
+        // A scan cancelled after it started saving may have changed the library
+        await fetchLibrary();
+      } else {
+        console.error("Error scanning library:", error);
+        setScanProgress(prev => prev && { ...prev, status: "error", errorMessage: "Failed to scan library" });
+      }
     } finally {
+      scanAbortRef.current = null;
       setIsScanning(false);
     }
   };
 
+  const handleScanCancel = useCallback(() => {
+    scanAbortRef.current?.abort();
+  }, []);
+
+  const handleScanDismiss = useCallback(() => {
+    setScanProgress(null);
+  }, []);
+
   const handleUpload = async (files: FileList, authorName?: string, bookName?: string) => {
     setIsUploading(true);
     try {
@@ -427,6 +470,36 @@ export default function Home() {
     }
   };
 
+  const handleSplitUpload = async (file: File, options: SplitUploadOptions, authorName?: string, bookName?: string) => {
+    setIsUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("mode", options.mode);
+      if (options.cue) formData.append("cue", options.cue);
+      formData.append("thresholdDb", String(options.thresholdDb));
+      formData.append("minSilence", String(options.minSilence));
+      if (authorName) formData.append("authorName", authorName);
+      if (bookName) formData.append("bookName", bookName);
+
+      const response = await fetch("/api/library/split", {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || `Failed to split ${file.name}`);
+      }
+      await fetchLibrary();
+    } catch (error) {
+      console.error("Error splitting upload:", error);
+      throw error;
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
   const handlePdfBookUpload = async (file: File, authorName: string, bookName: string) => {
     setIsUploading(true);
     try {
@@ -561,6 +634,140 @@ export default function Home() {
     }
   };
 
+  // Open a track or jam track wherever it lives and have the player start it
+  const openAndPlay = (
+    kind: PlayQueueItem["kind"],
+    id: string,
+    authorId: string | null,
+    bookId: string | null,
+    delaySeconds: number,
+    countIn: boolean,
+  ) => {
+    autoPlayTokenRef.current += 1;
+    setAutoPlay({ token: autoPlayTokenRef.current, trackId: id, delaySeconds, countIn });
+    if (kind === "jamTrack") {
+      handleGoToTrackFromMetrics(null, id, null, null);
+    } else {
+      handleGoToTrackFromMetrics(id, null, authorId, bookId);
+    }
+  };
+
+  const openQueueItem = (item: PlayQueueItem, delaySeconds: number, countIn: boolean) => {
+    openAndPlay(item.kind, item.id, item.authorId, item.bookId, delaySeconds, countIn);
+  };
+
+  const requestMetronome = (playing: boolean, bpm?: number | null, timeSignature?: string | null) => {
+    metronomeTokenRef.current += 1;
+    setMetronomeRequest({
+      token: metronomeTokenRef.current,
+      playing,
+      bpm: bpm ?? undefined,
+      timeSignature: timeSignature ?? undefined,
+    });
+  };
+
+  // Open what a routine block points at as the block starts
+  const openRoutineBlock = (block: RoutineBlock) => {
+    window.dispatchEvent(new Event('practiceSessionFlush'));
+    switch (block.kind) {
+      case "track":
+        if (block.trackId) openAndPlay("track", block.trackId, block.authorId, block.bookId, 0, false);
+        break;
+      case "jamTrack":
+        if (block.jamTrackId) openAndPlay("jamTrack", block.jamTrackId, null, null, 0, false);
+        break;
+      case "chapter":
+        if (block.firstTrackId) {
+          openAndPlay("track", block.firstTrackId, block.authorId, block.bookId, 0, false);
+        } else {
+          handleGoToTrackFromMetrics(null, null, block.authorId, block.bookId);
+        }
+        break;
+      case "bookVideo":
+        handleGoToTrackFromMetrics(null, null, block.authorId, block.bookId, block.bookVideoId);
+        break;
+      case "video":
+        handleGoToTrackFromMetrics(null, null, null, null, null, block.videoId);
+        break;
+      case "tool":
+        router.push(routineToolUrl(block));
+        break;
+    }
+
+    if (block.bpm != null) {
+      routineMetronomeRef.current = true;
+      requestMetronome(true, block.bpm, block.timeSignature);
+    } else if (routineMetronomeRef.current) {
+      routineMetronomeRef.current = false;
+      requestMetronome(false);
+    }
+  };
+
+  const routineRunner = useRoutineRunner({
+    onBlockStart: openRoutineBlock,
+    onStop: () => {
+      if (routineMetronomeRef.current) {
+        routineMetronomeRef.current = false;
+        requestMetronome(false);
+      }
+    },
+  });
+
+  const handlePlayQueueAt = (index: number | null) => {
+    const item = playQueue.playAt(index);
+    if (item) openQueueItem(item, 0, false);
+  };
+
+  const handlePlayerFinish = () => {
+    const { items, currentIndex, gapSeconds, countIn } = playQueue.queue;
+    // Only tracks the queue opened move it on
+    if (currentIndex === null) return;
+    const playingId = currentTrack?.id ?? currentJamTrack?.id;
+    if (items[currentIndex]?.id !== playingId) return;
+    const next = playQueue.advance();
+    if (next) openQueueItem(next, gapSeconds, countIn);
+  };
+
+  // Lock screen / media notification details for what's playing
+  const currentAuthor = authors.find(a => a.id === currentAuthorId) ?? null;
+  const currentBookSummary = currentAuthor?.books.find(b => b.id === currentBookId) ?? null;
+  const playerMediaInfo: MediaSessionInfo | null = currentTrack
+    ? {
+        title: currentTrack.title,
+        album: currentBookSummary?.name,
+        artist: currentAuthor?.name,
+        artworkUrl: currentBookSummary ? getBookCoverUrl(currentBookSummary) : null,
+      }
+    : currentJamTrack
+      ? { title: currentJamTrack.title, album: "Jam tracks" }
+      : null;
+  const videoMediaInfo: MediaSessionInfo | null = selectedVideo
+    ? {
+        title: selectedVideo.title || selectedVideo.filename,
+        album: selectedBookDetail?.name,
+        artist: selectedAuthor?.name,
+        artworkUrl: selectedBookDetail ? getBookCoverUrl(selectedBookDetail) : null,
+      }
+    : null;
+
+  // Tracks either side of the current one in its chapter (or the book's
+  // uncategorized tracks), for the media keys once they run out of markers
+  const chapterNeighbours = useMemo(() => {
+    if (!currentTrack || selectedBookDetail?.id !== currentTrack.bookId) return { previous: null, next: null };
+    const siblings = currentTrack.chapterId
+      ? selectedBookDetail.chapters?.find(ch => ch.id === currentTrack.chapterId)?.tracks ?? []
+      : selectedBookDetail.tracks;
+    const index = siblings.findIndex(t => t.id === currentTrack.id);
+    if (index === -1) return { previous: null, next: null };
+    return { previous: siblings[index - 1] ?? null, next: siblings[index + 1] ?? null };
+  }, [currentTrack, selectedBookDetail]);
+
+  const playChapterNeighbour = (track: Track | null) => {
+    if (!track) return;
+    window.dispatchEvent(new Event('practiceSessionFlush'));
+    openAndPlay("track", track.id, currentAuthorId, track.bookId, 0, false);
+  };
+
   const handleJamTrackSelect = async (jamTrack: JamTrack) => {
     setCurrentJamTrackId(jamTrack.id);
     setCurrentTrack(null);
@@ -1017,6 +1224,37 @@ export default function Home() {
     }
   };
 
+  // Analyse the audio for tempo and first downbeat, replacing the stored tempo
+  const handleDetectTempo = async () => {
+    const url = currentJamTrack
+      ? `/api/jamtracks/${currentJamTrack.id}/beat-grid`
+      : currentTrack
+        ? `/api/tracks/${currentTrack.id}/beat-grid`
+        : null;
+    if (!url) return;
+
+    try {
+      const response = await fetch(url, { method: "POST" });
+      if (!response.ok) {
+        throw new Error("Failed to detect tempo");
+      }
+      const grid: Pick<Track, "tempo" | "detectedTempo" | "beatOffset"> = await response.json();
+
+      if (currentJamTrack) {
+        setJamTracks(prev => prev.map(jt =>
+          jt.id === currentJamTrack.id ? { ...jt, ...grid } : jt
+        ));
+      } else if (currentTrack) {
+        setCurrentTrack(prev =>
+          prev?.id === currentTrack.id ? { ...prev, ...grid } : prev
+        );
+        updateTrackInBookDetail(currentTrack.id, t => ({ ...t, ...grid }));
+      }
+    } catch (error) {
+      console.error("Error detecting tempo:", error);
+    }
+  };
+
   const handleBookUpdate = async (
     bookId: string,
     bookName: string,
@@ -1563,6 +1801,22 @@ export default function Home() {
     );
   };
 
+  const handleJamTrackKeyChange = async (jamTrackId: string, rootNote: string | null, scaleType: string | null) => {
+    const response = await fetch(`/api/jamtracks/${jamTrackId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ rootNote, scaleType }),
+    });
+
+    if (!response.ok) {
+      throw new Error("Failed to update jam track key");
+    }
+
+    setJamTracks((prev) =>
+      prev.map((jt) => (jt.id === jamTrackId ? { ...jt, rootNote, scaleType } : jt))
+    );
+  };
+
   const handleJamTrackDelete = async (jamTrackId: string) => {
     const response = await fetch(`/api/jamtracks/${jamTrackId}`, {
       method: "DELETE",
@@ -1592,7 +1846,8 @@ export default function Home() {
 
       if (response.ok) {
         const updated = await response.json();
-        setJamTracks((prev) => prev.map((jt) => (jt.id === jamTrackId ? updated : jt)));
+        // The GP routes don't load markers or PDFs, so keep ours
+        setJamTracks((prev) => prev.map((jt) => (jt.id === jamTrackId ? { ...jt, gpFilePath: updated.gpFilePath } : jt)));
       } else {
         const data = await response.json().catch(() => ({}));
         console.error("GP upload failed:", data);
@@ -1609,7 +1864,7 @@ export default function Home() {
       });
       if (response.ok) {
         const updated = await response.json();
-        setJamTracks((prev) => prev.map((jt) => (jt.id === jamTrackId ? updated : jt)));
+        setJamTracks((prev) => prev.map((jt) => (jt.id === jamTrackId ? { ...jt, gpFilePath: updated.gpFilePath } : jt)));
       }
     } catch (error) {
       console.error("Error removing GP file:", error);
@@ -1727,11 +1982,28 @@ export default function Home() {
         onSearchBookSelect={handleSearchBookSelect}
         onSearchJamTrackSelect={handleSearchJamTrackSelect}
         onGoToTrack={handleGoToTrackFromMetrics}
+        playQueue={playQueue}
+        onPlayQueueAt={handlePlayQueueAt}
+        metronomeRequest={metronomeRequest}
       />
 
+      {routineRunner.state && (
+        <RoutineRunnerBar
+          state={routineRunner.state}
+          onTogglePause={routineRunner.togglePause}
+          onSkip={routineRunner.next}
+          onStop={routineRunner.stop}
+        />
+      )}
+
       {/* Section Content */}
       {activeSection === 'home' ? (
-        <HomeView onGoToTrack={handleGoToTrackFromMetrics} authors={authors} />
+        <HomeView
+          onGoToTrack={handleGoToTrackFromMetrics}
+          authors={authors}
+          allJamTracks={jamTracks}
+          onStartRoutine={routineRunner.start}
+        />
       ) : activeSection === 'lessons' ? (
         <>
           <div className="flex flex-col xl:flex-row flex-1 min-h-0">
@@ -1787,6 +2059,7 @@ export default function Home() {
                     onAudioUpload={handleAudioUploadForBook}
                     onLibraryRefresh={fetchLibrary}
                     onExtractAudio={handleExtractAudio}
+                    onAddToQueue={playQueue.add}
                     extractingVideoId={extractingVideoId}
                   />
                 ) : (
@@ -1797,6 +2070,9 @@ export default function Home() {
                     onUploadClick={() => setIsUploadModalOpen(true)}
                     isScanning={isScanning}
                     isUploading={isUploading}
+                    scanProgress={scanProgress}
+                    onScanCancel={handleScanCancel}
+                    onScanDismiss={handleScanDismiss}
                   />
                 )}
               </div>
@@ -1822,6 +2098,11 @@ export default function Home() {
                   onSeekReady={stableOnSeekReady}
                   onTrackTabs={currentTrack ? () => setTabsTrack(currentTrack) : undefined}
                   trackTabsCount={currentTrack?.tabs?.length ?? 0}
+                  onFinish={handlePlayerFinish}
+                  autoPlay={autoPlay}
+                  mediaInfo={playerMediaInfo}
+                  onNextTrack={chapterNeighbours.next ? () => playChapterNeighbour(chapterNeighbours.next) : undefined}
+                  onPreviousTrack={chapterNeighbours.previous ? () => playChapterNeighbour(chapterNeighbours.previous) : undefined}
                 />
               </div>
             </div>
@@ -1846,6 +2127,7 @@ export default function Home() {
                     onClearMarkers={() =>
                       handleVideoMarkersClear(selectedVideo.bookId, selectedVideo.id)
                     }
+                    mediaInfo={videoMediaInfo}
                   />
                 </div>
               ) : pdfPath ? (
@@ -1893,7 +2175,16 @@ export default function Home() {
                         totalCountInBeats={markerBarState.totalCountInBeats}
                         trackTempo={markerBarState.trackTempo}
                         trackTimeSignature={markerBarState.trackTimeSignature}
+                        loopRegions={markerBarState.loopRegions}
+                        activeLoopRegionId={markerBarState.activeLoopRegionId}
+                        currentLoop={markerBarState.currentLoop}
+                        playbackSpeed={markerBarState.playbackSpeed}
+                        onPlayLoopRegion={markerBarState.playLoopRegion}
+                        onSaveLoopRegion={markerBarState.saveLoopRegion}
+                        onUpdateLoopRegion={markerBarState.updateLoopRegion}
+                        onDeleteLoopRegion={markerBarState.deleteLoopRegion}
                         onTempoChange={handleTempoChange}
+                        onDetectTempo={handleDetectTempo}
                         currentPdfPage={pdfPage}
                         hasPdf={!!pdfPath}
                         pageFlipAnticipation={pageFlipAnticipation}
@@ -1947,7 +2238,16 @@ export default function Home() {
               totalCountInBeats={markerBarState.totalCountInBeats}
               trackTempo={markerBarState.trackTempo}
               trackTimeSignature={markerBarState.trackTimeSignature}
+              loopRegions={markerBarState.loopRegions}
+              activeLoopRegionId={markerBarState.activeLoopRegionId}
+              currentLoop={markerBarState.currentLoop}
+              playbackSpeed={markerBarState.playbackSpeed}
+              onPlayLoopRegion={markerBarState.playLoopRegion}
+              onSaveLoopRegion={markerBarState.saveLoopRegion}
+              onUpdateLoopRegion={markerBarState.updateLoopRegion}
+              onDeleteLoopRegion={markerBarState.deleteLoopRegion}
               onTempoChange={handleTempoChange}
+              onDetectTempo={handleDetectTempo}
               currentPdfPage={pdfPage}
               hasPdf={!!pdfPath}
               pageFlipAnticipation={pageFlipAnticipation}
@@ -2013,7 +2313,9 @@ export default function Home() {
                     onJamTrackComplete={handleJamTrackComplete}
                     onJamTrackInProgress={handleJamTrackInProgress}
                     onJamTrackFavorite={handleJamTrackFavorite}
+                    onJamTrackKeyChange={handleJamTrackKeyChange}
                     onJamTrackDelete={handleJamTrackDelete}
+                    onAddToQueue={playQueue.add}
                     onGpUpload={handleJamTrackGpUpload}
                     onGpDelete={handleJamTrackGpDelete}
                     onUpload={handleJamTrackUpload}
@@ -2044,6 +2346,7 @@ export default function Home() {
                   currentJamTrack={currentJamTrack}
                   onJamTrackSelect={handleJamTrackSelect}
                   onJamTrackUpdate={handleJamTrackUpdate}
+                  onJamTrackKeyChange={handleJamTrackKeyChange}
                   onUpload={handleJamTrackUpload}
                   isUploading={isUploadingJamTracks}
                   onYouTubeImport={handleYouTubeImport}
@@ -2060,7 +2363,9 @@ export default function Home() {
                   onJamTrackUpdate={handleJamTrackUpdate}
                   onJamTrackComplete={handleJamTrackComplete}
                   onJamTrackInProgress={handleJamTrackInProgress}
+                  onJamTrackKeyChange={handleJamTrackKeyChange}
                   onJamTrackDelete={handleJamTrackDelete}
+                  onAddToQueue={playQueue.add}
                   onGpUpload={handleJamTrackGpUpload}
                   onGpDelete={handleJamTrackGpDelete}
                   onUpload={handleJamTrackUpload}
@@ -2070,22 +2375,20 @@ export default function Home() {
                 />
               </div>
 
-              {/* Middle: Guitar Pro tab viewer + optional markers sidebar */}
+              {/* Middle: Guitar Pro tab and PDF viewer + optional markers sidebar */}
               <div className="hidden xl:flex flex-1 min-h-0 overflow-hidden" style={{ maxHeight: 'calc(100vh - 280px)' }}>
                 <div className="flex-1 flex flex-col overflow-hidden min-w-0">
-                  {currentJamTrack.gpFilePath ? (
-                    <GuitarProViewer filePath={currentJamTrack.gpFilePath} />
-                  ) : (
-                    <div className="h-full flex items-center justify-center bg-gray-900 text-gray-500">
-                      <div className="text-center">
-                        <svg className="w-16 h-16 mx-auto mb-4 opacity-50" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                        </svg>
-                        <p className="text-lg">No Guitar Pro tab attached</p>
-                        <p className="text-sm mt-2">Use &quot;Add Guitar Pro tab&quot; on the track row to attach a .gp / .gpx / .gp5 file.</p>
-                      </div>
-                    </div>
-                  )}
+                  <JamTrackPdfPanel
+                    key={currentJamTrack.id}
+                    jamTrack={currentJamTrack}
+                    currentTime={markerBarState?.currentTime ?? 0}
+                    onPdfsChange={(jamTrackId, pdfs) =>
+                      setJamTracks((prev) => prev.map((jt) => (jt.id === jamTrackId ? { ...jt, pdfs } : jt)))
+                    }
+                    guitarPro={
+                      currentJamTrack.gpFilePath ? <GuitarProViewer filePath={currentJamTrack.gpFilePath} /> : undefined
+                    }
+                  />
                 </div>
                 {markerBarState && markerBarState.showMarkers && (
                   <div className="w-64 border-l border-gray-700 bg-gray-900 flex flex-col overflow-hidden">
@@ -2118,7 +2421,16 @@ export default function Home() {
                       totalCountInBeats={markerBarState.totalCountInBeats}
                       trackTempo={markerBarState.trackTempo}
                       trackTimeSignature={markerBarState.trackTimeSignature}
+                      loopRegions={markerBarState.loopRegions}
+                      activeLoopRegionId={markerBarState.activeLoopRegionId}
+                      currentLoop={markerBarState.currentLoop}
+                      playbackSpeed={markerBarState.playbackSpeed}
+                      onPlayLoopRegion={markerBarState.playLoopRegion}
+                      onSaveLoopRegion={markerBarState.saveLoopRegion}
+                      onUpdateLoopRegion={markerBarState.updateLoopRegion}
+                      onDeleteLoopRegion={markerBarState.deleteLoopRegion}
                       onTempoChange={handleTempoChange}
+                      onDetectTempo={handleDetectTempo}
                     />
                   </div>
                 )}
@@ -2138,6 +2450,11 @@ export default function Home() {
                   onMarkerBarStateChange={setMarkerBarState}
                   onTimeUpdate={stableOnTimeUpdate}
                   onSeekReady={stableOnSeekReady}
+                  onFinish={handlePlayerFinish}
+                  autoPlay={autoPlay}
+                  mediaInfo={playerMediaInfo}
+                  onNextTrack={chapterNeighbours.next ? () => playChapterNeighbour(chapterNeighbours.next) : undefined}
+                  onPreviousTrack={chapterNeighbours.previous ? () => playChapterNeighbour(chapterNeighbours.previous) : undefined}
                 />
               </div>
 
@@ -2172,7 +2489,16 @@ export default function Home() {
                     totalCountInBeats={markerBarState.totalCountInBeats}
                     trackTempo={markerBarState.trackTempo}
                     trackTimeSignature={markerBarState.trackTimeSignature}
+                    loopRegions={markerBarState.loopRegions}
+                    activeLoopRegionId={markerBarState.activeLoopRegionId}
+                    currentLoop={markerBarState.currentLoop}
+                    playbackSpeed={markerBarState.playbackSpeed}
+                    onPlayLoopRegion={markerBarState.playLoopRegion}
+                    onSaveLoopRegion={markerBarState.saveLoopRegion}
+                    onUpdateLoopRegion={markerBarState.updateLoopRegion}
+                    onDeleteLoopRegion={markerBarState.deleteLoopRegion}
                     onTempoChange={handleTempoChange}
+                    onDetectTempo={handleDetectTempo}
                   />
                 </div>
               )}
@@ -2223,13 +2549,18 @@ export default function Home() {
       ) : activeSection === 'circle' ? (
         <CircleOfFifths />
       ) : activeSection === 'chords' ? (
-        <ChordBuilder />
+        <ChordBuilder initialRoot={searchParams.get('root')} initialType={searchParams.get('type')} />
       ) : activeSection === 'metrics' ? (
         <MetricsView onGoToTrack={handleGoToTrackFromMetrics} />
       ) : activeSection === 'caged' ? (
         <CAGEDSystem />
       ) : (
-        <Fretboard />
+        <Fretboard
+          key={searchParams.toString()}
+          initialKey={searchParams.get('key')}
+          initialScale={searchParams.get('scale')}
+          initialMode={searchParams.get('mode')}
+        />
       )}
 
       {/* Upload Modal */}
@@ -2239,6 +2570,7 @@ export default function Home() {
         onAudioUpload={handleUpload}
         onPdfBookUpload={handlePdfBookUpload}
         onVideoUpload={handleBulkVideoUpload}
+        onSplitUpload={handleSplitUpload}
         authors={authors}
       />
 
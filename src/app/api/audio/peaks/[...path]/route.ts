@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import * as path from "path";
+import { getWaveformPeaks, pickPeaksLevel } from "@/lib/waveformPeaks";
+import type { WaveformPeaksResponse } from "@/types";
+
+const MUSIC_DIR = process.env.MUSIC_DIR || "./music";
+const DEFAULT_MAX_PEAKS = 100_000;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  const { path: pathSegments } = await params;
+  const absolutePath = path.resolve(path.join(MUSIC_DIR, ...pathSegments));
+
+  // Security: ensure the path is within the music directory
+  const musicDirAbsolute = path.resolve(MUSIC_DIR);
+  if (!absolutePath.startsWith(musicDirAbsolute)) {
+    return NextResponse.json({ error: "Invalid path" }, { status: 403 });
+  }
+
+  // Long files fall back to a coarser level so tablets don't hold millions of points
+  const maxPeaks = Number(request.nextUrl.searchParams.get("maxPeaks")) || DEFAULT_MAX_PEAKS;
+
+  try {
+    const data = await getWaveformPeaks(absolutePath);
+    const level = pickPeaksLevel(data, maxPeaks);
+    const body: WaveformPeaksResponse = {
+      duration: data.duration,
+      peaksPerSecond: level.peaksPerSecond,
+      peaks: level.peaks,
+    };
+
+    const etag = `"${data.mtimeMs.toString(36)}-${data.size.toString(36)}-${level.peaksPerSecond}"`;
+    if (request.headers.get("if-none-match") === etag) {
+      return new NextResponse(null, { status: 304, headers: { ETag: etag } });
+    }
+
+    return NextResponse.json(body, {
+      headers: { "Cache-Control": "public, max-age=86400", ETag: etag },
+    });
+  } catch (error) {
+    console.error(`Error generating waveform peaks for ${absolutePath}:`, error);
+    return NextResponse.json({ error: "Peaks not available" }, { status: 404 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { BackupError, restoreBackup } from "@/lib/databaseBackup";
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { safetyBackup } = await restoreBackup(id);
+    return NextResponse.json({ success: true, safetyBackup });
+  } catch (error) {
+    if (error instanceof BackupError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error restoring backup:", error);
+    return NextResponse.json(
+      { error: "Failed to restore backup" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import * as fs from "fs";
+import { BackupError, deleteBackup, getBackupPath } from "@/lib/databaseBackup";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const filePath = await getBackupPath(id);
+    const stat = fs.statSync(filePath);
+
+    const stream = fs.createReadStream(filePath);
+    const readableStream = new ReadableStream({
+      start(controller) {
+        stream.on("data", (chunk) => controller.enqueue(chunk));
+        stream.on("end", () => controller.close());
+        stream.on("error", (err) => controller.error(err));
+      },
+      cancel() {
+        stream.destroy();
+      },
+    });
+
+    return new NextResponse(readableStream, {
+      headers: {
+        "Content-Type": "application/vnd.sqlite3",
+        "Content-Length": stat.size.toString(),
+        "Content-Disposition": `attachment; filename="${id}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof BackupError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error downloading backup:", error);
+    return NextResponse.json(
+      { error: "Failed to download backup" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    await deleteBackup(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof BackupError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error deleting backup:", error);
+    return NextResponse.json(
+      { error: "Failed to delete backup" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { BackupError, createBackup, getBackupSettings, listBackups } from "@/lib/databaseBackup";
+
+export async function GET() {
+  try {
+    const backups = await listBackups();
+    return NextResponse.json({ backups, ...getBackupSettings() });
+  } catch (error) {
+    console.error("Error listing backups:", error);
+    return NextResponse.json(
+      { error: "Failed to list backups" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST() {
+  try {
+    const backup = await createBackup("manual");
+    return NextResponse.json(backup, { status: 201 });
+  } catch (error) {
+    if (error instanceof BackupError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error creating backup:", error);
+    return NextResponse.json(
+      { error: "Failed to create backup" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { BookArchiveError, createBookArchive } from "@/lib/bookArchive";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { stream, filename } = await createBookArchive(id);
+
+    const readableStream = new ReadableStream({
+      start(controller) {
+        stream.on("data", (chunk) => controller.enqueue(chunk));
+        stream.on("end", () => controller.close());
+        stream.on("error", (err) => controller.error(err));
+      },
+      cancel() {
+        stream.destroy();
+      },
+    });
+
+    return new NextResponse(readableStream, {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof BookArchiveError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error exporting book:", error);
+    return NextResponse.json(
+      { error: "Failed to export book" },
+      { status: 500 }
+    );
+  }
+}
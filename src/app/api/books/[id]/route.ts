@@ -6,6 +6,7 @@ import * as fsp from "fs/promises";
 import NodeID3 from "node-id3";
 import { WaveFile } from "wavefile";
 import { File as TagFile } from "node-taglib-sharp";
+import { peaksPathFor } from "@/lib/waveformPeaks";
 
 const MUSIC_DIR = process.env.MUSIC_DIR || "./music";
 
@@ -112,6 +113,7 @@ export async function DELETE(
       } catch {
         console.warn(`Could not delete track file: ${track.filePath}`);
       }
+      await fsp.rm(peaksPathFor(filePath), { force: true });
     }
 
     // Delete video files from disk
@@ -318,6 +320,7 @@ export async function PUT(
           await fsp.access(oldFullPath);
           if (oldFullPath !== newFullPath) {
             await fsp.rename(oldFullPath, newFullPath);
+            await fsp.rename(peaksPathFor(oldFullPath), peaksPathFor(newFullPath)).catch(() => {});
             await prisma.track.update({
               where: { id: track.id },
               data: { filePath: newRelativePath },
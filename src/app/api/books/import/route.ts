@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createWriteStream } from "fs";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+import { BookArchiveError, importBookArchive } from "@/lib/bookArchive";
+
+// The zip is sent as the raw request body so large video archives stream to disk
+export async function POST(request: NextRequest) {
+  if (!request.body) {
+    return NextResponse.json({ error: "No archive provided" }, { status: 400 });
+  }
+
+  const tempPath = path.join(os.tmpdir(), `book-import-${Date.now()}.zip`);
+  try {
+    await pipeline(
+      Readable.fromWeb(request.body as NodeReadableStream<Uint8Array>),
+      createWriteStream(tempPath)
+    );
+
+    const result = await importBookArchive(tempPath);
+    return NextResponse.json(
+      {
+        ...result,
+        message: `Imported "${result.bookName}" by ${result.authorName} (${result.tracks} tracks, ${result.videos} videos)`,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof BookArchiveError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error importing book:", error);
+    return NextResponse.json(
+      { error: "Failed to import book" },
+      { status: 500 }
+    );
+  } finally {
+    await fs.rm(tempPath, { force: true });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { analyzeBeatGrid } from "@/lib/mediaJobs";
+
+// Detect the tempo and first downbeat now, replacing the stored tempo
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const updated = await analyzeBeatGrid("jamTrack", id, true);
+    if (!updated) {
+      return NextResponse.json({ error: "Jam track not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      tempo: updated.tempo,
+      detectedTempo: updated.detectedTempo,
+      beatOffset: updated.beatOffset,
+    });
+  } catch (error) {
+    console.error("Error detecting jam track tempo:", error);
+    return NextResponse.json(
+      { error: "Failed to detect tempo" },
+      { status: 500 }
+    );
+  }
+}
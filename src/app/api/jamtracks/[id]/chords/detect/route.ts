@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { analyzeChords } from "@/lib/mediaJobs";
+
+// Detect the chords now, replacing the current timeline
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const chords = await analyzeChords(id);
+    if (!chords) {
+      return NextResponse.json({ error: "Jam track not found" }, { status: 404 });
+    }
+    return NextResponse.json(chords);
+  } catch (error) {
+    console.error("Error detecting jam track chords:", error);
+    return NextResponse.json({ error: "Failed to detect chords" }, { status: 500 });
+  }
+}
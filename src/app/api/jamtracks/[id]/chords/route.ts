@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { CHORD_FORMULAS, NOTES } from "@/lib/musicTheory";
+
+interface ChordInput {
+  start: number;
+  end: number;
+  root: string;
+  chordType: string;
+}
+
+function isValidChord(chord: ChordInput): boolean {
+  return (
+    typeof chord.start === "number" &&
+    typeof chord.end === "number" &&
+    chord.start >= 0 &&
+    chord.end > chord.start &&
+    (NOTES as readonly string[]).includes(chord.root) &&
+    chord.chordType in CHORD_FORMULAS
+  );
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const chords = await prisma.jamTrackChord.findMany({
+      where: { jamTrackId: id },
+      orderBy: { start: "asc" },
+    });
+    return NextResponse.json(chords);
+  } catch (error) {
+    console.error("Error fetching jam track chords:", error);
+    return NextResponse.json({ error: "Failed to fetch chords" }, { status: 500 });
+  }
+}
+
+// Replace the whole chord timeline; the lane edits it as one list
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const chords: ChordInput[] = body.chords;
+
+    if (!Array.isArray(chords) || !chords.every(isValidChord)) {
+      return NextResponse.json(
+        { error: "Each chord needs start < end, a root from NOTES and a known chordType" },
+        { status: 400 }
+      );
+    }
+
+    await prisma.$transaction([
+      prisma.jamTrackChord.deleteMany({ where: { jamTrackId: id } }),
+      prisma.jamTrackChord.createMany({
+        data: chords.map(({ start, end, root, chordType }) => ({ start, end, root, chordType, jamTrackId: id })),
+      }),
+    ]);
+
+    const saved = await prisma.jamTrackChord.findMany({
+      where: { jamTrackId: id },
+      orderBy: { start: "asc" },
+    });
+    return NextResponse.json(saved);
+  } catch (error) {
+    console.error("Error saving jam track chords:", error);
+    return NextResponse.json({ error: "Failed to save chords" }, { status: 500 });
+  }
+}
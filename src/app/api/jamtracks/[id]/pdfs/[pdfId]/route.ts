@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { jamTrackPdfsInclude } from "@/lib/jamTrackPdfs";
+
+const MUSIC_DIR = process.env.MUSIC_DIR || "./music";
+
+// Renames the tab only; the file keeps the name it was uploaded under
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; pdfId: string }> }
+) {
+  try {
+    const { id, pdfId } = await params;
+    const body = await request.json();
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+
+    if (!name) {
+      return NextResponse.json({ error: "Name is required" }, { status: 400 });
+    }
+
+    const pdf = await prisma.jamTrackPdf.update({
+      where: { id: pdfId, jamTrackId: id },
+      data: { name },
+      include: jamTrackPdfsInclude.include,
+    });
+
+    return NextResponse.json(pdf);
+  } catch (error) {
+    console.error("Error renaming jam track PDF:", error);
+    return NextResponse.json({ error: "Failed to rename PDF" }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; pdfId: string }> }
+) {
+  try {
+    const { id, pdfId } = await params;
+    const pdf = await prisma.jamTrackPdf.findFirst({ where: { id: pdfId, jamTrackId: id } });
+    if (!pdf) {
+      return NextResponse.json({ error: "PDF not found" }, { status: 404 });
+    }
+
+    const absolutePath = path.join(path.resolve(MUSIC_DIR), pdf.filePath);
+    try {
+      await fs.unlink(absolutePath);
+    } catch {
+      console.warn(`Could not delete PDF file: ${absolutePath}`);
+    }
+
+    await prisma.jamTrackPdf.delete({ where: { id: pdfId } });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting jam track PDF:", error);
+    return NextResponse.json({ error: "Failed to delete PDF" }, { status: 500 });
+  }
+}
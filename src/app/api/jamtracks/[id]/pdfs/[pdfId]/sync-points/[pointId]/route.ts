@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; pdfId: string; pointId: string }> }
+) {
+  try {
+    const { pdfId, pointId } = await params;
+    const body = await request.json();
+    const { timestamp, page } = body;
+
+    if (timestamp !== undefined && (typeof timestamp !== "number" || !(timestamp >= 0))) {
+      return NextResponse.json({ error: "timestamp must be zero or more seconds" }, { status: 400 });
+    }
+    if (page !== undefined && (!Number.isInteger(page) || page < 1)) {
+      return NextResponse.json({ error: "page must be a page number from 1" }, { status: 400 });
+    }
+
+    const syncPoint = await prisma.pageSyncPoint.update({
+      where: { id: pointId, pdfId },
+      data: {
+        ...(timestamp !== undefined && { timestamp }),
+        ...(page !== undefined && { page }),
+      },
+    });
+
+    return NextResponse.json(syncPoint);
+  } catch (error) {
+    console.error("Error updating page sync point:", error);
+    return NextResponse.json({ error: "Failed to update sync point" }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; pdfId: string; pointId: string }> }
+) {
+  try {
+    const { pdfId, pointId } = await params;
+    await prisma.pageSyncPoint.delete({ where: { id: pointId, pdfId } });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting page sync point:", error);
+    return NextResponse.json({ error: "Failed to delete sync point" }, { status: 500 });
+  }
+}
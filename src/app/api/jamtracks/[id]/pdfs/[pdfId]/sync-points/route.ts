@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; pdfId: string }> }
+) {
+  try {
+    const { id, pdfId } = await params;
+    const body = await request.json();
+    const { timestamp, page } = body;
+
+    if (typeof timestamp !== "number" || !(timestamp >= 0) || !Number.isInteger(page) || page < 1) {
+      return NextResponse.json(
+        { error: "timestamp must be zero or more seconds and page a page number from 1" },
+        { status: 400 }
+      );
+    }
+
+    const pdf = await prisma.jamTrackPdf.findFirst({ where: { id: pdfId, jamTrackId: id } });
+    if (!pdf) {
+      return NextResponse.json({ error: "PDF not found" }, { status: 404 });
+    }
+
+    const syncPoint = await prisma.pageSyncPoint.create({
+      data: { pdfId, timestamp, page },
+    });
+
+    return NextResponse.json(syncPoint, { status: 201 });
+  } catch (error) {
+    console.error("Error creating page sync point:", error);
+    return NextResponse.json({ error: "Failed to create sync point" }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { jamTrackPdfsInclude } from "@/lib/jamTrackPdfs";
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { pdfIds } = body;
+
+    if (!Array.isArray(pdfIds)) {
+      return NextResponse.json({ error: "pdfIds must be an array" }, { status: 400 });
+    }
+
+    await prisma.$transaction(
+      pdfIds.map((pdfId: string, index: number) =>
+        prisma.jamTrackPdf.update({
+          where: { id: pdfId, jamTrackId: id },
+          data: { sortOrder: index },
+        })
+      )
+    );
+
+    const pdfs = await prisma.jamTrackPdf.findMany({
+      where: { jamTrackId: id },
+      ...jamTrackPdfsInclude,
+    });
+
+    return NextResponse.json(pdfs);
+  } catch (error) {
+    console.error("Error reordering jam track PDFs:", error);
+    return NextResponse.json({ error: "Failed to reorder PDFs" }, { status: 500 });
+  }
+}
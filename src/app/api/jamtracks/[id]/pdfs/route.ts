@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { jamTrackPdfsInclude } from "@/lib/jamTrackPdfs";
+
+const MUSIC_DIR = process.env.MUSIC_DIR || "./music";
+
+function sanitizeName(name: string): string {
+  return name.replace(/[<>:"/\\|?*]/g, "_").trim();
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const pdfs = await prisma.jamTrackPdf.findMany({
+      where: { jamTrackId: id },
+      ...jamTrackPdfsInclude,
+    });
+    return NextResponse.json(pdfs);
+  } catch (error) {
+    console.error("Error fetching jam track PDFs:", error);
+    return NextResponse.json({ error: "Failed to fetch PDFs" }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const jamTrack = await prisma.jamTrack.findUnique({
+      where: { id },
+      include: { pdfs: { select: { sortOrder: true } } },
+    });
+    if (!jamTrack) {
+      return NextResponse.json({ error: "Jam track not found" }, { status: 404 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get("pdf") as File | null;
+    if (!file) {
+      return NextResponse.json({ error: "No PDF file provided" }, { status: 400 });
+    }
+    if (!file.name.toLowerCase().endsWith(".pdf")) {
+      return NextResponse.json({ error: "File must be a PDF" }, { status: 400 });
+    }
+
+    const requestedName = formData.get("name");
+    const name =
+      (typeof requestedName === "string" && requestedName.trim()) || path.basename(file.name, path.extname(file.name));
+
+    // Stored next to the jam track's audio, named after the PDF
+    const musicPath = path.resolve(MUSIC_DIR);
+    const trackFolder = path.dirname(path.join(musicPath, jamTrack.filePath));
+    await fs.mkdir(trackFolder, { recursive: true });
+    const baseName = sanitizeName(name) || "Sheet music";
+    let fileName = `${baseName}.pdf`;
+    for (let n = 2; ; n++) {
+      try {
+        await fs.access(path.join(trackFolder, fileName));
+        fileName = `${baseName} (${n}).pdf`;
+      } catch {
+        break;
+      }
+    }
+    const targetAbs = path.join(trackFolder, fileName);
+    await fs.writeFile(targetAbs, Buffer.from(await file.arrayBuffer()));
+
+    const sortOrder = jamTrack.pdfs.reduce((max, pdf) => Math.max(max, pdf.sortOrder + 1), 0);
+    const pdf = await prisma.jamTrackPdf.create({
+      data: {
+        jamTrackId: id,
+        name,
+        filePath: path.relative(musicPath, targetAbs),
+        sortOrder,
+      },
+      include: jamTrackPdfsInclude.include,
+    });
+
+    return NextResponse.json(pdf, { status: 201 });
+  } catch (error) {
+    console.error("Error uploading jam track PDF:", error);
+    return NextResponse.json({ error: "Failed to upload PDF" }, { status: 500 });
+  }
+}
@@ -4,6 +4,10 @@ import * as path from "path";
 import * as fs from "fs/promises";
 import NodeID3 from "node-id3";
 import { File as TagFile } from "node-taglib-sharp";
+import { peaksPathFor } from "@/lib/waveformPeaks";
+import { NOTES, SCALE_FORMULAS } from "@/lib/musicTheory";
+import { parseToneSettings } from "@/lib/playerTone";
+import { jamTrackPdfsInclude } from "@/lib/jamTrackPdfs";
 
 const MUSIC_DIR = process.env.MUSIC_DIR || "./music";
 
@@ -15,7 +19,22 @@ interface UpdateJamTrackBody {
   tempo?: number | null;
   timeSignature?: string;
   playbackSpeed?: number | null;
+  transposeCents?: number | null;
+  beatOffset?: number | null;
+  rootNote?: string | null;
+  scaleType?: string | null;
   volume?: number | null;
+  toneSettings?: string | null;
+}
+
+function isValidRootNote(note: unknown): note is string {
+  return typeof note === "string" && (NOTES as readonly string[]).includes(note);
+}
+
+function isValidScaleType(scale: unknown): scale is string {
+  if (typeof scale !== "string") return false;
+  if (scale === "None") return false;
+  return Object.prototype.hasOwnProperty.call(SCALE_FORMULAS, scale);
 }
 
 export async function GET(
@@ -26,7 +45,10 @@ export async function GET(
     const { id } = await params;
     const jamTrack = await prisma.jamTrack.findUnique({
       where: { id },
-      include: { markers: { orderBy: { timestamp: "asc" } } },
+      include: {
+        markers: { orderBy: { timestamp: "asc" } },
+        pdfs: jamTrackPdfsInclude,
+      },
     });
     if (!jamTrack) {
       return NextResponse.json({ error: "Jam track not found" }, { status: 404 });
@@ -63,7 +85,38 @@ export async function PATCH(
     if (body.tempo !== undefined) updateData.tempo = body.tempo;
     if (body.timeSignature !== undefined) updateData.timeSignature = body.timeSignature;
     if (body.playbackSpeed !== undefined) updateData.playbackSpeed = body.playbackSpeed;
+    if (body.transposeCents !== undefined) {
+      if (body.transposeCents !== null && (body.transposeCents < -1200 || body.transposeCents > 1200)) {
+        return NextResponse.json({ error: "Transpose must be within one octave" }, { status: 400 });
+      }
+      updateData.transposeCents = body.transposeCents;
+    }
+    if (body.beatOffset !== undefined) {
+      if (body.beatOffset !== null && !(body.beatOffset >= 0)) {
+        return NextResponse.json({ error: "Beat offset must be zero or more seconds" }, { status: 400 });
+      }
+      updateData.beatOffset = body.beatOffset;
+    }
+    // The key is set as a pair; nulls clear it back to the detected key
+    if (body.rootNote !== undefined || body.scaleType !== undefined) {
+      const clearing = body.rootNote === null && body.scaleType === null;
+      if (!clearing && !(isValidRootNote(body.rootNote) && isValidScaleType(body.scaleType))) {
+        return NextResponse.json(
+          { error: "Key needs a rootNote from NOTES and a scaleType from SCALE_FORMULAS, or both null" },
+          { status: 400 }
+        );
+      }
+      updateData.rootNote = body.rootNote;
+      updateData.scaleType = body.scaleType;
+    }
     if (body.volume !== undefined) updateData.volume = body.volume;
+    if (body.toneSettings !== undefined) {
+      const tone = body.toneSettings ? parseToneSettings(body.toneSettings) : null;
+      if (body.toneSettings && !tone) {
+        return NextResponse.json({ error: "Invalid tone settings" }, { status: 400 });
+      }
+      updateData.toneSettings = tone ? JSON.stringify(tone) : null;
+    }
 
     if (body.title !== undefined) {
       const jamTrack = await prisma.jamTrack.findUnique({ where: { id } });
@@ -93,7 +146,10 @@ export async function PATCH(
     const updatedJamTrack = await prisma.jamTrack.update({
       where: { id },
       data: updateData,
-      include: { markers: { orderBy: { timestamp: "asc" } } },
+      include: {
+        markers: { orderBy: { timestamp: "asc" } },
+        pdfs: jamTrackPdfsInclude,
+      },
     });
     return NextResponse.json(updatedJamTrack);
   } catch (error) {
@@ -111,7 +167,7 @@ export async function DELETE(
 ) {
   try {
     const { id } = await params;
-    const jamTrack = await prisma.jamTrack.findUnique({ where: { id } });
+    const jamTrack = await prisma.jamTrack.findUnique({ where: { id }, include: { pdfs: true } });
     if (!jamTrack) {
       return NextResponse.json({ error: "Jam track not found" }, { status: 404 });
     }
@@ -123,6 +179,7 @@ export async function DELETE(
     } catch {
       console.warn(`Could not delete audio file: ${audioPath}`);
     }
+    await fs.rm(peaksPathFor(audioPath), { force: true });
 
     if (jamTrack.gpFilePath) {
       const gpAbsPath = path.join(musicPath, jamTrack.gpFilePath);
@@ -133,6 +190,15 @@ export async function DELETE(
       }
     }
 
+    for (const pdf of jamTrack.pdfs) {
+      const pdfAbsPath = path.join(musicPath, pdf.filePath);
+      try {
+        await fs.unlink(pdfAbsPath);
+      } catch {
+        console.warn(`Could not delete PDF file: ${pdfAbsPath}`);
+      }
+    }
+
     const trackFolder = path.dirname(audioPath);
     try {
       const files = await fs.readdir(trackFolder);
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { retryFailedMediaJobs } from "@/lib/mediaJobs";
+
+export async function POST() {
+  try {
+    const retried = await retryFailedMediaJobs();
+    return NextResponse.json({ retried });
+  } catch (error) {
+    console.error("Error retrying failed jobs:", error);
+    return NextResponse.json(
+      { error: "Failed to retry jobs" },
+      { status: 500 }
+    );
+  }
+}
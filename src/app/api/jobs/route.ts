@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { getMediaJobsStatus } from "@/lib/mediaJobs";
+
+export async function GET() {
+  try {
+    const status = await getMediaJobsStatus();
+    return NextResponse.json(status);
+  } catch (error) {
+    console.error("Error fetching job status:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch job status" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { applyIntegrityFix, buildIntegrityReport, IntegrityFixError } from "@/lib/libraryIntegrity";
+
+export async function GET() {
+  try {
+    const report = await buildIntegrityReport();
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Error checking library integrity:", error);
+    return NextResponse.json(
+      { error: "Failed to check library integrity" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    if (!body.fix || !body.kind || !body.entity) {
+      return NextResponse.json(
+        { error: "fix, kind and entity are required" },
+        { status: 400 }
+      );
+    }
+
+    await applyIntegrityFix(body);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof IntegrityFixError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error applying integrity fix:", error);
+    return NextResponse.json(
+      { error: "Failed to apply fix" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ReorganizeError, rollbackReorganize } from "@/lib/libraryReorganize";
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const results = await rollbackReorganize(id);
+    const successCount = results.filter((r) => r.success).length;
+
+    return NextResponse.json({
+      message: `Rolled back ${successCount} of ${results.length} tracks`,
+      results,
+    });
+  } catch (error) {
+    if (error instanceof ReorganizeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error rolling back reorganize:", error);
+    return NextResponse.json(
+      { error: "Failed to roll back reorganize" },
+      { status: 500 }
+    );
+  }
+}
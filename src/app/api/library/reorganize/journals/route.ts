@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { listReorganizeJournals } from "@/lib/libraryReorganize";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ journals: await listReorganizeJournals() });
+  } catch (error) {
+    console.error("Error listing reorganize journals:", error);
+    return NextResponse.json(
+      { error: "Failed to list reorganize journals" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { jamTrackPdfsInclude } from "@/lib/jamTrackPdfs";
 
 export async function GET() {
   try {
@@ -34,7 +35,10 @@ export async function GET() {
       }),
       prisma.jamTrack.findMany({
         orderBy: { title: "asc" },
-        include: { markers: { orderBy: { timestamp: "asc" } } },
+        include: {
+          markers: { orderBy: { timestamp: "asc" } },
+          pdfs: jamTrackPdfsInclude,
+        },
       }),
     ]);
 
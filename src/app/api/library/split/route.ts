@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import * as mm from "music-metadata";
+import { AudioSplitError, parseCueSheet, planSplit, splitIntoBook } from "@/lib/audioSplitter";
+import { sanitizeFilename } from "@/lib/trackNaming";
+
+const SUPPORTED_EXTENSIONS = [".mp3", ".flac", ".wav", ".ogg", ".m4a", ".aac"];
+
+function optionalNumber(value: FormDataEntryValue | null): number | undefined {
+  if (typeof value !== "string" || value.trim() === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Upload one long audio file and split it into tracks, either from an
+ * accompanying cue sheet or at silences. Author and book come from the form,
+ * then the cue sheet, then the file's tags.
+ */
+export async function POST(request: NextRequest) {
+  let tempPath: string | null = null;
+  try {
+    const formData = await request.formData();
+    const file = formData.get("file") as File | null;
+    const cue = formData.get("cue") as File | null;
+    const mode = formData.get("mode") === "cue" ? "cue" : "silence";
+
+    if (!file) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 });
+    }
+    const ext = path.extname(file.name).toLowerCase();
+    if (!SUPPORTED_EXTENSIONS.includes(ext)) {
+      return NextResponse.json({ error: `Unsupported file type: ${ext}` }, { status: 400 });
+    }
+    if (mode === "cue" && !cue) {
+      return NextResponse.json({ error: "No cue sheet provided" }, { status: 400 });
+    }
+
+    tempPath = path.join(os.tmpdir(), `split-upload-${Date.now()}${ext}`);
+    await fs.writeFile(tempPath, Buffer.from(await file.arrayBuffer()));
+
+    const cueText = cue ? await cue.text() : "";
+    const plan = await planSplit(
+      tempPath,
+      mode === "cue"
+        ? { mode: "cue", cueText }
+        : {
+            mode: "silence",
+            thresholdDb: optionalNumber(formData.get("thresholdDb")),
+            minSilence: optionalNumber(formData.get("minSilence")),
+          }
+    );
+
+    const sheet = cue ? parseCueSheet(cueText) : null;
+    const metadata = await mm.parseFile(tempPath).catch(() => null);
+    const authorName = sanitizeFilename(
+      (formData.get("authorName") as string | null)?.trim() ||
+        sheet?.performer ||
+        metadata?.common.artist ||
+        "Unknown Author"
+    );
+    const bookName = sanitizeFilename(
+      (formData.get("bookName") as string | null)?.trim() ||
+        sheet?.title ||
+        metadata?.common.album ||
+        path.basename(file.name, ext)
+    );
+
+    const author = await prisma.author.upsert({
+      where: { name: authorName },
+      update: {},
+      create: { name: authorName },
+    });
+    const book = await prisma.book.upsert({
+      where: { name_authorId: { name: bookName, authorId: author.id } },
+      update: {},
+      create: { name: bookName, authorId: author.id },
+    });
+
+    const tracks = await splitIntoBook(tempPath, plan.segments, book.id);
+
+    return NextResponse.json({
+      message: `Split ${file.name} into ${tracks.length} tracks`,
+      bookId: book.id,
+      tracks,
+    });
+  } catch (error) {
+    if (error instanceof AudioSplitError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error splitting upload:", error);
+    return NextResponse.json(
+      { error: "Failed to split file" },
+      { status: 500 }
+    );
+  } finally {
+    if (tempPath) await fs.rm(tempPath, { force: true });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { name, start, end, playbackSpeed, leadIn } = body;
+
+    const existing = await prisma.loopRegion.findUnique({ where: { id }, select: { start: true, end: true } });
+    if (!existing) {
+      return NextResponse.json({ error: "Loop region not found" }, { status: 404 });
+    }
+    const nextStart = start ?? existing.start;
+    const nextEnd = end ?? existing.end;
+    if (nextStart < 0 || nextEnd <= nextStart) {
+      return NextResponse.json({ error: "end must be after start" }, { status: 400 });
+    }
+    if (playbackSpeed != null && (playbackSpeed < 10 || playbackSpeed > 200)) {
+      return NextResponse.json({ error: "playbackSpeed must be between 10 and 200" }, { status: 400 });
+    }
+
+    const region = await prisma.loopRegion.update({
+      where: { id },
+      data: {
+        ...(name !== undefined && { name }),
+        ...(start !== undefined && { start }),
+        ...(end !== undefined && { end }),
+        ...(playbackSpeed !== undefined && { playbackSpeed }),
+        ...(leadIn !== undefined && { leadIn }),
+      },
+    });
+
+    return NextResponse.json(region);
+  } catch (error) {
+    console.error("Error updating loop region:", error);
+    return NextResponse.json({ error: "Failed to update loop region" }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    await prisma.loopRegion.delete({
+      where: { id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting loop region:", error);
+    return NextResponse.json({ error: "Failed to delete loop region" }, { status: 500 });
+  }
+}
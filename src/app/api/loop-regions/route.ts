@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+
+const OWNER_KEYS = ["trackId", "jamTrackId", "bookVideoId"] as const;
+
+/** List the loop regions of one track, jam track or book video, in playback order. */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const owner = OWNER_KEYS.find((key) => searchParams.get(key));
+    if (!owner) {
+      return NextResponse.json({ error: "trackId, jamTrackId, or bookVideoId required" }, { status: 400 });
+    }
+
+    const regions = await prisma.loopRegion.findMany({
+      where: { [owner]: searchParams.get(owner) },
+      orderBy: { start: "asc" },
+    });
+
+    return NextResponse.json(regions);
+  } catch (error) {
+    console.error("Error fetching loop regions:", error);
+    return NextResponse.json({ error: "Failed to fetch loop regions" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { name, start, end, playbackSpeed, leadIn } = body;
+
+    const owners = OWNER_KEYS.filter((key) => body[key]);
+    if (owners.length !== 1) {
+      return NextResponse.json({ error: "Exactly one of trackId, jamTrackId, or bookVideoId required" }, { status: 400 });
+    }
+    if (!name || typeof start !== "number" || typeof end !== "number") {
+      return NextResponse.json({ error: "Missing required fields: name, start, end" }, { status: 400 });
+    }
+    if (start < 0 || end <= start) {
+      return NextResponse.json({ error: "end must be after start" }, { status: 400 });
+    }
+    if (playbackSpeed != null && (playbackSpeed < 10 || playbackSpeed > 200)) {
+      return NextResponse.json({ error: "playbackSpeed must be between 10 and 200" }, { status: 400 });
+    }
+
+    const region = await prisma.loopRegion.create({
+      data: {
+        name,
+        start,
+        end,
+        playbackSpeed: playbackSpeed ?? null,
+        leadIn: leadIn ?? null,
+        [owners[0]]: body[owners[0]],
+      },
+    });
+
+    return NextResponse.json(region, { status: 201 });
+  } catch (error) {
+    console.error("Error creating loop region:", error);
+    return NextResponse.json({ error: "Failed to create loop region" }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+
+/** Routine runs in the last `days` days, newest first. */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const days = parseInt(searchParams.get("days") ?? "30");
+
+    const since = new Date();
+    since.setDate(since.getDate() - days);
+    since.setHours(0, 0, 0, 0);
+
+    const runs = await prisma.routineRun.findMany({
+      where: { startTime: { gte: since } },
+      orderBy: { startTime: "desc" },
+    });
+
+    return NextResponse.json(runs);
+  } catch (error) {
+    console.error("Error fetching routine runs:", error);
+    return NextResponse.json({ error: "Failed to fetch routine runs" }, { status: 500 });
+  }
+}
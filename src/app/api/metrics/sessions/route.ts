@@ -1,10 +1,114 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 
+const CSV_COLUMNS = [
+  "startTime",
+  "durationSeconds",
+  "playbackSpeed",
+  "completedSession",
+  "type",
+  "trackTitle",
+  "loopRegion",
+  "book",
+  "author",
+  "trackId",
+  "jamTrackId",
+  "bookVideoId",
+  "videoId",
+] as const;
+
+interface SpeedStepInput {
+  speed: number;
+  repetitions?: number;
+  startedAt: string;
+}
+
+function isValidSpeedSteps(value: unknown): value is SpeedStepInput[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (step) =>
+        step &&
+        typeof step.speed === "number" &&
+        step.speed >= 10 &&
+        step.speed <= 200 &&
+        (step.repetitions === undefined || (typeof step.repetitions === "number" && step.repetitions >= 0)) &&
+        typeof step.startedAt === "string" &&
+        !isNaN(new Date(step.startedAt).getTime())
+    )
+  );
+}
+
+function csvCell(value: unknown): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Export the whole practice history as a download: `?format=csv` (default)
+ * or `?format=json`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const format = request.nextUrl.searchParams.get("format") === "json" ? "json" : "csv";
+    const sessions = await prisma.practiceSession.findMany({
+      orderBy: { startTime: "asc" },
+      include: {
+        track: { select: { book: { select: { name: true, author: { select: { name: true } } } } } },
+        bookVideo: { select: { book: { select: { name: true, author: { select: { name: true } } } } } },
+        loopRegion: { select: { name: true } },
+      },
+    });
+
+    const rows = sessions.map((s) => {
+      const book = s.track?.book ?? s.bookVideo?.book ?? null;
+      return {
+        startTime: s.startTime.toISOString(),
+        durationSeconds: s.durationSeconds,
+        playbackSpeed: s.playbackSpeed,
+        completedSession: s.completedSession,
+        type: s.trackId ? "track" : s.jamTrackId ? "jamTrack" : s.bookVideoId ? "bookVideo" : "video",
+        trackTitle: s.trackTitle,
+        loopRegion: s.loopRegion?.name ?? null,
+        book: book?.name ?? null,
+        author: book?.author.name ?? null,
+        trackId: s.trackId,
+        jamTrackId: s.jamTrackId,
+        bookVideoId: s.bookVideoId,
+        videoId: s.videoId,
+      };
+    });
+
+    const date = new Date().toISOString().slice(0, 10);
+    if (format === "json") {
+      return new NextResponse(JSON.stringify(rows, null, 2), {
+        headers: {
+          "Content-Type": "application/json",
+          "Content-Disposition": `attachment; filename="practice-history-${date}.json"`,
+        },
+      });
+    }
+
+    const csv = [
+      CSV_COLUMNS.join(","),
+      ...rows.map((row) => CSV_COLUMNS.map((column) => csvCell(row[column])).join(",")),
+    ].join("\n");
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="practice-history-${date}.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting practice sessions:", error);
+    return NextResponse.json({ error: "Failed to export practice sessions" }, { status: 500 });
+  }
+}
+
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { trackId, jamTrackId, bookVideoId, videoId, durationSeconds, playbackSpeed, completedSession } = body;
+    const { trackId, jamTrackId, bookVideoId, videoId, loopRegionId, durationSeconds, playbackSpeed, completedSession, speedSteps } = body;
 
     if (!trackId && !jamTrackId && !bookVideoId && !videoId) {
       return NextResponse.json({ error: "trackId, jamTrackId, bookVideoId, or videoId required" }, { status: 400 });
@@ -12,6 +116,9 @@ export async function POST(request: NextRequest) {
     if (!durationSeconds || durationSeconds < 4) {
       return NextResponse.json({ error: "durationSeconds must be >= 4" }, { status: 400 });
     }
+    if (speedSteps !== undefined && !isValidSpeedSteps(speedSteps)) {
+      return NextResponse.json({ error: "speedSteps must be a list of { speed, repetitions, startedAt }" }, { status: 400 });
+    }
 
     // Look up track title for snapshot
     let trackTitle = "Unknown";
@@ -33,16 +140,33 @@ export async function POST(request: NextRequest) {
       trackTitle = video.title;
     }
 
+    // A region deleted while its session was in flight just leaves the session unlinked
+    const loopRegion = loopRegionId
+      ? await prisma.loopRegion.findUnique({ where: { id: loopRegionId }, select: { id: true } })
+      : null;
+
     const session = await prisma.practiceSession.create({
       data: {
         trackId: trackId || null,
         jamTrackId: jamTrackId || null,
         bookVideoId: bookVideoId || null,
         videoId: videoId || null,
+        loopRegionId: loopRegion?.id ?? null,
         durationSeconds,
         playbackSpeed: playbackSpeed ?? 100,
         completedSession: completedSession ?? false,
         trackTitle,
+        ...(speedSteps?.length
+          ? {
+              speedSteps: {
+                create: (speedSteps as SpeedStepInput[]).map((step) => ({
+                  speed: Math.round(step.speed),
+                  repetitions: Math.round(step.repetitions ?? 0),
+                  startedAt: new Date(step.startedAt),
+                })),
+              },
+            }
+          : {}),
       },
     });
 
@@ -21,6 +21,10 @@ export async function GET(
         durationSeconds: true,
         completedSession: true,
         trackTitle: true,
+        speedSteps: {
+          select: { speed: true, repetitions: true, startedAt: true },
+          orderBy: { startedAt: "asc" },
+        },
       },
       orderBy: { startTime: "asc" },
     });
@@ -38,6 +42,12 @@ export async function GET(
         speed: s.playbackSpeed,
         durationSeconds: Math.round(s.durationSeconds),
         completed: s.completedSession,
+        // Speed trainer ramp within the session, if it was used
+        steps: s.speedSteps.map((step) => ({
+          date: step.startedAt.toISOString(),
+          speed: step.speed,
+          repetitions: step.repetitions,
+        })),
       })),
     });
   } catch (error) {
@@ -1,9 +1,13 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 
-export async function GET() {
+// ?trackId= or ?jamTrackId= lists the record-along takes of one track
+export async function GET(request: NextRequest) {
   try {
+    const trackId = request.nextUrl.searchParams.get("trackId");
+    const jamTrackId = request.nextUrl.searchParams.get("jamTrackId");
     const recordings = await prisma.recording.findMany({
+      where: trackId ? { trackId } : jamTrackId ? { jamTrackId } : undefined,
       orderBy: { createdAt: "desc" },
     });
     return NextResponse.json(recordings);
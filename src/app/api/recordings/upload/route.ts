@@ -27,6 +27,14 @@ function sanitizeName(name: string): string {
   return name.replace(/[<>:"/\\|?*]/g, "_").trim();
 }
 
+/** Optional numeric form field; null when missing or not a finite number. */
+function optionalNumber(formData: FormData, name: string): number | null {
+  const raw = formData.get(name);
+  if (raw === null || raw === "") return null;
+  const value = parseFloat(raw.toString());
+  return Number.isFinite(value) ? value : null;
+}
+
 function timestampSlug(): string {
   const d = new Date();
   const pad = (n: number) => n.toString().padStart(2, "0");
@@ -44,6 +52,25 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "No file provided" }, { status: 400 });
     }
 
+    // Record-along takes link back to the track that played under them
+    const trackId = formData.get("trackId")?.toString() || null;
+    const jamTrackId = formData.get("jamTrackId")?.toString() || null;
+    if (trackId && jamTrackId) {
+      return NextResponse.json({ error: "A take belongs to a track or a jam track, not both" }, { status: 400 });
+    }
+    if (trackId && !(await prisma.track.findUnique({ where: { id: trackId }, select: { id: true } }))) {
+      return NextResponse.json({ error: "Track not found" }, { status: 400 });
+    }
+    if (jamTrackId && !(await prisma.jamTrack.findUnique({ where: { id: jamTrackId }, select: { id: true } }))) {
+      return NextResponse.json({ error: "Jam track not found" }, { status: 400 });
+    }
+    const loopStart = optionalNumber(formData, "loopStart");
+    const loopEnd = optionalNumber(formData, "loopEnd");
+    if ((loopStart === null) !== (loopEnd === null) || (loopStart !== null && loopEnd !== null && loopEnd <= loopStart)) {
+      return NextResponse.json({ error: "Invalid loop" }, { status: 400 });
+    }
+    const playbackSpeed = optionalNumber(formData, "playbackSpeed");
+
     const mimeType = file.type || "audio/webm";
     const duration = durationRaw ? parseFloat(durationRaw.toString()) : 0;
     const ext = extFromMime(mimeType);
@@ -67,6 +94,14 @@ export async function POST(request: NextRequest) {
         filePath: relativePath,
         duration,
         mimeType,
+        trackId,
+        jamTrackId,
+        sourceStart: optionalNumber(formData, "sourceStart"),
+        alignOffset: optionalNumber(formData, "alignOffset"),
+        latencyMs: optionalNumber(formData, "latencyMs"),
+        playbackSpeed: playbackSpeed !== null ? Math.round(playbackSpeed) : null,
+        loopStart,
+        loopEnd,
       },
     });
 
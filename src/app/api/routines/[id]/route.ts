@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { RoutineBlockInput, routineBlockData, routineBlockError, routineInclude, serializeRoutine } from "@/lib/routines";
+
+// Rename a routine and replace its blocks; the editor saves them as one list
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    const blocks: RoutineBlockInput[] = body.blocks;
+
+    if (!name) {
+      return NextResponse.json({ error: "name is required" }, { status: 400 });
+    }
+    if (!Array.isArray(blocks)) {
+      return NextResponse.json({ error: "blocks must be a list" }, { status: 400 });
+    }
+    for (const block of blocks) {
+      const blockError = routineBlockError(block);
+      if (blockError) return NextResponse.json({ error: blockError }, { status: 400 });
+    }
+
+    const existing = await prisma.routine.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      return NextResponse.json({ error: "Routine not found" }, { status: 404 });
+    }
+
+    await prisma.$transaction([
+      prisma.routineBlock.deleteMany({ where: { routineId: id } }),
+      prisma.routine.update({
+        where: { id },
+        data: {
+          name,
+          blocks: { create: blocks.map(routineBlockData) },
+        },
+      }),
+    ]);
+
+    const routine = await prisma.routine.findUnique({ where: { id }, include: routineInclude });
+    return NextResponse.json(routine ? serializeRoutine(routine) : null);
+  } catch (error) {
+    console.error("Error updating routine:", error);
+    return NextResponse.json({ error: "Failed to update routine" }, { status: 500 });
+  }
+}
+
+// Past runs stay in the metrics under the routine's name
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    await prisma.routine.delete({ where: { id } });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting routine:", error);
+    return NextResponse.json({ error: "Failed to delete routine" }, { status: 500 });
+  }
+}
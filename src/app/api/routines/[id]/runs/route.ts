@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+
+/** Log a run of a routine; stopped runs are logged too, as not completed. */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { startTime, durationSeconds, blocksCompleted } = body;
+
+    if (typeof durationSeconds !== "number" || durationSeconds < 1) {
+      return NextResponse.json({ error: "durationSeconds must be >= 1" }, { status: 400 });
+    }
+    if (!Number.isInteger(blocksCompleted) || blocksCompleted < 0) {
+      return NextResponse.json({ error: "blocksCompleted must be a whole number" }, { status: 400 });
+    }
+    const started = startTime ? new Date(startTime) : new Date(Date.now() - durationSeconds * 1000);
+    if (isNaN(started.getTime())) {
+      return NextResponse.json({ error: "startTime must be a date" }, { status: 400 });
+    }
+
+    const routine = await prisma.routine.findUnique({
+      where: { id },
+      select: { name: true, _count: { select: { blocks: true } } },
+    });
+    if (!routine) {
+      return NextResponse.json({ error: "Routine not found" }, { status: 404 });
+    }
+
+    const blocksTotal = routine._count.blocks;
+    const run = await prisma.routineRun.create({
+      data: {
+        routineId: id,
+        routineName: routine.name,
+        startTime: started,
+        durationSeconds,
+        blocksCompleted: Math.min(blocksCompleted, blocksTotal),
+        blocksTotal,
+        completed: blocksCompleted >= blocksTotal,
+      },
+    });
+
+    return NextResponse.json(run, { status: 201 });
+  } catch (error) {
+    console.error("Error logging routine run:", error);
+    return NextResponse.json({ error: "Failed to log routine run" }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { RoutineBlockInput, routineBlockData, routineBlockError, routineInclude, serializeRoutine } from "@/lib/routines";
+
+export async function GET() {
+  try {
+    const routines = await prisma.routine.findMany({
+      orderBy: { name: "asc" },
+      include: routineInclude,
+    });
+    return NextResponse.json(routines.map(serializeRoutine));
+  } catch (error) {
+    console.error("Error fetching routines:", error);
+    return NextResponse.json({ error: "Failed to fetch routines" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    const blocks: RoutineBlockInput[] = body.blocks ?? [];
+
+    if (!name) {
+      return NextResponse.json({ error: "name is required" }, { status: 400 });
+    }
+    if (!Array.isArray(blocks)) {
+      return NextResponse.json({ error: "blocks must be a list" }, { status: 400 });
+    }
+    for (const block of blocks) {
+      const blockError = routineBlockError(block);
+      if (blockError) return NextResponse.json({ error: blockError }, { status: 400 });
+    }
+
+    const routine = await prisma.routine.create({
+      data: {
+        name,
+        blocks: { create: blocks.map(routineBlockData) },
+      },
+      include: routineInclude,
+    });
+
+    return NextResponse.json(serializeRoutine(routine), { status: 201 });
+  } catch (error) {
+    console.error("Error creating routine:", error);
+    return NextResponse.json({ error: "Failed to create routine" }, { status: 500 });
+  }
+}
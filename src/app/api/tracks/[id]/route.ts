@@ -106,7 +106,7 @@ export async function PATCH(
         id: true, title: true, trackNumber: true, filePath: true, duration: true,
         bookId: true, chapterId: true, sortOrder: true, pdfPage: true,
         completed: true, inProgress: true, favorite: true, tempo: true,
-        timeSignature: true, playbackSpeed: true, volume: true, lufs: true,
+        timeSignature: true, playbackSpeed: true, transposeCents: true, volume: true, toneSettings: true, lufs: true,
         notes: true, sourceVideoId: true,
       },
     });
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AudioSplitError, planTrackSplit, splitExistingTrack } from "@/lib/audioSplitter";
+import type { AudioSplitSegment } from "@/types";
+
+interface SplitBody {
+  mode?: "markers" | "silence";
+  thresholdDb?: number;
+  minSilence?: number;
+  /** Return the planned pieces without writing anything. */
+  dryRun?: boolean;
+  /** Pieces as reviewed (and possibly renamed) after a dry run; planned afresh if omitted. */
+  segments?: AudioSplitSegment[];
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body: SplitBody = await request.json();
+
+    let segments = body.segments;
+    if (!segments || body.dryRun) {
+      const plan = await planTrackSplit(
+        id,
+        body.mode === "silence"
+          ? { mode: "silence", thresholdDb: body.thresholdDb, minSilence: body.minSilence }
+          : { mode: "markers" }
+      );
+      if (body.dryRun) return NextResponse.json(plan);
+      segments = plan.segments;
+    }
+
+    const tracks = await splitExistingTrack(id, segments);
+    return NextResponse.json({ message: `Split into ${tracks.length} tracks`, tracks });
+  } catch (error) {
+    if (error instanceof AudioSplitError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error splitting track:", error);
+    return NextResponse.json(
+      { error: "Failed to split track" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { parseToneSettings } from "@/lib/playerTone";
 
 interface UpdateTempoBody {
   tempo?: number | null;
   timeSignature?: string;
   playbackSpeed?: number | null;
+  transposeCents?: number | null;
+  beatOffset?: number | null;
   volume?: number | null;
+  toneSettings?: string | null;
 }
 
 export async function PATCH(
@@ -15,7 +19,7 @@ export async function PATCH(
   try {
     const { id } = await params;
     const body: UpdateTempoBody = await request.json();
-    const { tempo, timeSignature, playbackSpeed, volume } = body;
+    const { tempo, timeSignature, playbackSpeed, transposeCents, beatOffset, volume, toneSettings } = body;
 
     // Validate tempo range if provided
     if (tempo !== null && tempo !== undefined && (tempo < 20 || tempo > 300)) {
@@ -42,6 +46,22 @@ export async function PATCH(
       );
     }
 
+    // Validate transpose range if provided (cents, one octave either way)
+    if (transposeCents !== null && transposeCents !== undefined && (transposeCents < -1200 || transposeCents > 1200)) {
+      return NextResponse.json(
+        { error: "Transpose must be within one octave" },
+        { status: 400 }
+      );
+    }
+
+    // Validate first-beat offset if provided (seconds from the start)
+    if (beatOffset !== null && beatOffset !== undefined && !(beatOffset >= 0)) {
+      return NextResponse.json(
+        { error: "Beat offset must be zero or more seconds" },
+        { status: 400 }
+      );
+    }
+
     // Validate volume range if provided
     if (volume !== null && volume !== undefined && (volume < 0 || volume > 100)) {
       return NextResponse.json(
@@ -50,7 +70,16 @@ export async function PATCH(
       );
     }
 
-    const updateData: { tempo?: number | null; timeSignature?: string; playbackSpeed?: number | null; volume?: number | null } = {};
+    // Validate tone settings JSON if provided; stored normalized
+    const parsedTone = toneSettings ? parseToneSettings(toneSettings) : null;
+    if (toneSettings && !parsedTone) {
+      return NextResponse.json(
+        { error: "Invalid tone settings" },
+        { status: 400 }
+      );
+    }
+
+    const updateData: { tempo?: number | null; timeSignature?: string; playbackSpeed?: number | null; transposeCents?: number | null; beatOffset?: number | null; volume?: number | null; toneSettings?: string | null } = {};
     if (tempo !== undefined) {
       updateData.tempo = tempo;
     }
@@ -60,9 +89,18 @@ export async function PATCH(
     if (playbackSpeed !== undefined) {
       updateData.playbackSpeed = playbackSpeed;
     }
+    if (transposeCents !== undefined) {
+      updateData.transposeCents = transposeCents;
+    }
+    if (beatOffset !== undefined) {
+      updateData.beatOffset = beatOffset;
+    }
     if (volume !== undefined) {
       updateData.volume = volume;
     }
+    if (toneSettings !== undefined) {
+      updateData.toneSettings = parsedTone ? JSON.stringify(parsedTone) : null;
+    }
 
     const updatedTrack = await prisma.track.update({
       where: { id },
@@ -0,0 +1,190 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { DEFAULT_DEVICE_ID } from '@/lib/audioSink';
+import {
+  DevicePair,
+  LatencyCalibration,
+  LatencyMeasurement,
+  getLatencyCalibrations,
+  measureRoundTripLatency,
+  removeLatencyCalibration,
+  resolveDevicePair,
+  saveLatencyCalibration,
+  subscribeToLatencyChanges,
+} from '@/lib/latency';
+
+type Step = 'setup' | 'measuring' | 'result';
+
+function deviceName(devices: MediaDeviceInfo[], kind: MediaDeviceKind, id: string): string {
+  if (id === DEFAULT_DEVICE_ID) return 'System default';
+  return devices.find((d) => d.kind === kind && d.deviceId === id)?.label || 'Unknown device';
+}
+
+function pairName(devices: MediaDeviceInfo[], pair: DevicePair): string {
+  return `${deviceName(devices, 'audiooutput', pair.outputId)} → ${deviceName(devices, 'audioinput', pair.inputId)}`;
+}
+
+/**
+ * Tools card for calibrating audio latency: plays test clicks through the
+ * selected output, times them on the selected input and saves the round trip
+ * for that device pair. Record-along takes and the note trainer's listen mode
+ * use it.
+ */
+export default function AudioLatencyPanel() {
+  const [step, setStep] = useState<Step>('setup');
+  const [pair, setPair] = useState<DevicePair | null>(null);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [calibrations, setCalibrations] = useState<LatencyCalibration[]>([]);
+  const [measurement, setMeasurement] = useState<LatencyMeasurement | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = () => {
+      setCalibrations(getLatencyCalibrations());
+      resolveDevicePair().then(setPair).catch((err) => console.error('Failed to resolve devices:', err));
+      navigator.mediaDevices?.enumerateDevices()
+        .then(setDevices)
+        .catch((err) => console.warn('enumerateDevices failed', err));
+    };
+    load();
+    return subscribeToLatencyChanges(load);
+  }, []);
+
+  const current = pair
+    ? calibrations.find((c) => c.outputId === pair.outputId && c.inputId === pair.inputId) ?? null
+    : null;
+
+  const handleMeasure = async () => {
+    setStep('measuring');
+    setError(null);
+    setMeasurement(null);
+    try {
+      setMeasurement(await measureRoundTripLatency());
+      // Device labels are only readable once the mic has been allowed
+      setDevices(await navigator.mediaDevices.enumerateDevices());
+    } catch (err) {
+      console.error('Latency measurement failed:', err);
+      setError(err instanceof Error ? err.message : 'Measurement failed');
+    } finally {
+      setStep('result');
+    }
+  };
+
+  const handleSave = () => {
+    if (!measurement) return;
+    saveLatencyCalibration(measurement.pair, measurement.ms);
+    setMeasurement(null);
+    setStep('setup');
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg border border-gray-700 p-6">
+      <h2 className="text-lg font-semibold text-white mb-2">Audio Latency</h2>
+      <p className="text-gray-400 text-sm mb-6">
+        Measure how long sound takes from the speakers back into the microphone, so record-along takes line up
+        with the track and the note trainer listens at the right moment. Each output and input pair is calibrated
+        separately; pick the devices with the audio device picker first.
+      </p>
+
+      {/* Current devices */}
+      <div className="mb-4 text-sm">
+        <div className="text-gray-300">{pair ? pairName(devices, pair) : 'Finding devices...'}</div>
+        <div className="text-xs text-gray-500">
+          {current
+            ? `Calibrated: ${Math.round(current.ms)} ms (${new Date(current.measuredAt).toLocaleDateString()})`
+            : 'Not calibrated yet'}
+        </div>
+      </div>
+
+      {step === 'setup' && (
+        <div className="space-y-3">
+          <ol className="list-decimal list-inside text-sm text-gray-400 space-y-1">
+            <li>Set the output to the level you practice at.</li>
+            <li>Put the microphone where it normally is, or loop the interface output back into its input with a cable.</li>
+            <li>Keep the room quiet while six clicks play.</li>
+          </ol>
+          <button
+            onClick={handleMeasure}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm transition-colors"
+          >
+            Play test clicks
+          </button>
+        </div>
+      )}
+
+      {step === 'measuring' && (
+        <p className="text-sm text-gray-300 animate-pulse">Listening for the clicks...</p>
+      )}
+
+      {step === 'result' && (
+        <div className="space-y-3">
+          {error ? (
+            <p className="text-sm text-red-400">{error}</p>
+          ) : measurement && (
+            <div className="text-sm">
+              <p className="text-white">
+                Round trip: <span className="font-semibold">{Math.round(measurement.ms)} ms</span>
+              </p>
+              <p className="text-xs text-gray-500">
+                Heard {measurement.clickDelaysMs.length} of {measurement.clicksPlayed} clicks
+                ({measurement.clickDelaysMs.map((ms) => Math.round(ms)).join(', ')} ms)
+              </p>
+              {pair && (measurement.pair.outputId !== pair.outputId || measurement.pair.inputId !== pair.inputId) && (
+                <p className="text-xs text-yellow-400">The devices changed while measuring; this is saved for the devices used.</p>
+              )}
+            </div>
+          )}
+          <div className="flex gap-2">
+            {measurement && !error && (
+              <button
+                onClick={handleSave}
+                className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg text-sm transition-colors"
+              >
+                Save for these devices
+              </button>
+            )}
+            <button
+              onClick={handleMeasure}
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg text-sm transition-colors"
+            >
+              Try again
+            </button>
+            <button
+              onClick={() => {
+                setMeasurement(null);
+                setError(null);
+                setStep('setup');
+              }}
+              className="px-4 py-2 text-gray-400 hover:text-white text-sm transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Saved pairs */}
+      {calibrations.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wide mb-2">Saved</h3>
+          <div className="space-y-1.5">
+            {calibrations.map((c) => (
+              <div key={`${c.outputId}|${c.inputId}`} className="flex items-center gap-3 text-sm">
+                <span className="text-gray-300 flex-1 min-w-0 truncate">{pairName(devices, c)}</span>
+                <span className="text-gray-400 font-mono">{Math.round(c.ms)} ms</span>
+                <button
+                  onClick={() => removeLatencyCalibration(c)}
+                  className="text-gray-500 hover:text-red-400"
+                  title="Remove calibration"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,8 @@
 
 import { memo } from "react";
 import { AuthorSummary } from "@/types";
+import type { ScanProgress } from "@/lib/scanStream";
+import ScanProgressPanel from "./ScanProgressPanel";
 
 interface AuthorSidebarProps {
   authors: AuthorSummary[];
@@ -15,6 +17,9 @@ interface AuthorSidebarProps {
   inProgressCount: number;
   isInProgressSelected: boolean;
   onInProgressSelect: () => void;
+  scanProgress?: ScanProgress | null;
+  onScanCancel?: () => void;
+  onScanDismiss?: () => void;
 }
 
 const AuthorSidebar = memo(function AuthorSidebar({
@@ -29,6 +34,9 @@ const AuthorSidebar = memo(function AuthorSidebar({
   inProgressCount,
   isInProgressSelected,
   onInProgressSelect,
+  scanProgress,
+  onScanCancel,
+  onScanDismiss,
 }: AuthorSidebarProps) {
   const isBusy = isScanning || isUploading;
 
@@ -94,6 +102,9 @@ const AuthorSidebar = memo(function AuthorSidebar({
 
       {/* Actions */}
       <div className="border-t border-gray-700 p-3 space-y-2">
+        {scanProgress && onScanCancel && onScanDismiss && (
+          <ScanProgressPanel progress={scanProgress} onCancel={onScanCancel} onDismiss={onScanDismiss} />
+        )}
         <button
           onClick={onScan}
           disabled={isBusy}
@@ -3,6 +3,8 @@
 import { useState, useMemo, memo } from "react";
 import { AuthorSummary, BookSummary } from "@/types";
 import { getBookCoverUrl } from "@/lib/covers";
+import type { ScanProgress } from "@/lib/scanStream";
+import ScanProgressPanel from "./ScanProgressPanel";
 
 const BookCard = memo(function BookCard({ book, authorName, onClick }: { book: BookSummary; authorName: string; onClick: () => void }) {
   const [hasError, setHasError] = useState(false);
@@ -91,6 +93,9 @@ interface BookGridProps {
   onUploadClick: () => void;
   isScanning: boolean;
   isUploading: boolean;
+  scanProgress: ScanProgress | null;
+  onScanCancel: () => void;
+  onScanDismiss: () => void;
 }
 
 type SortOption = "author" | "book" | "completion";
@@ -102,6 +107,9 @@ const BookGrid = memo(function BookGrid({
   onUploadClick,
   isScanning,
   isUploading,
+  scanProgress,
+  onScanCancel,
+  onScanDismiss,
 }: BookGridProps) {
   const [sortBy, setSortBy] = useState<SortOption>("author");
 
@@ -210,6 +218,10 @@ const BookGrid = memo(function BookGrid({
         </div>
       </div>
 
+      {scanProgress && (
+        <ScanProgressPanel progress={scanProgress} onCancel={onScanCancel} onDismiss={onScanDismiss} />
+      )}
+
       {/* Book Grid */}
       {books.length === 0 ? (
         <div className="text-gray-500 text-center py-12">
@@ -1,20 +1,58 @@
 "use client";
 
 import { useRef, useState, useEffect, useCallback, memo, useMemo } from "react";
-import { Track, Marker, JamTrack, JamTrackMarker } from "@/types";
+import { Track, Marker, JamTrack, JamTrackMarker, LoopRegion, WaveformPeaksResponse } from "@/types";
 import WaveSurfer from "wavesurfer.js";
 import RegionsPlugin from "wavesurfer.js/dist/plugins/regions.js";
 import { playCountIn } from "@/lib/clickGenerator";
 
 import KeyboardShortcutsHelp from "./KeyboardShortcutsHelp";
 import MarkerNameDialog from "./MarkerNameDialog";
+import SpeedTrainerControls from "./SpeedTrainerControls";
+import ClickTrackControls from "./ClickTrackControls";
+import ToneControls from "./ToneControls";
+import RecordAlongControls, { PlaybackSetup } from "./RecordAlongControls";
+import ChordLane, { ChordLaneChord } from "./ChordLane";
+import type { LoopRegionFields } from "./LoopRegionDialog";
 import { usePracticeSessionTracker } from "@/hooks/usePracticeSessionTracker";
+import { useMediaSession } from "@/hooks/useMediaSession";
+import { subscribeToInputActions } from "@/lib/inputBindings";
+import { MediaSessionInfo, markerSkipTarget } from "@/lib/mediaSession";
 import {
   AUTO_SPARK_ID,
   applyAudioContextSink,
   getAudioSinkPreference,
   subscribeToAudioSinkChanges,
 } from "@/lib/audioSink";
+import {
+  clampTransposeCents,
+  createPitchShiftNode,
+  formatTranspose,
+  setPitchShiftCents,
+} from "@/lib/pitchShift";
+import {
+  DEFAULT_TONE_SETTINGS,
+  ToneChain,
+  ToneSettings,
+  applyToneSettings,
+  createToneChain,
+  disconnectToneChain,
+  parseToneSettings,
+  serializeToneSettings,
+} from "@/lib/playerTone";
+import { BeatGrid, alignCountIn, getBeatGrid, snapLoopToBarLines } from "@/lib/beatGrid";
+import {
+  ClickTrackSettings,
+  getClickTrackSettings,
+  setClickTrackSettings,
+  startClickTrack,
+} from "@/lib/clickTrack";
+import {
+  SpeedTrainerSettings,
+  getSpeedTrainerSettings,
+  nextTrainerSpeed,
+  setSpeedTrainerSettings,
+} from "@/lib/speedTrainer";
 
 export interface MarkerBarState {
   showMarkers: boolean;
@@ -36,6 +74,26 @@ export interface MarkerBarState {
   trackTempo: number | null;
   trackTimeSignature: string;
   volume: number;
+  // Saved loop regions
+  loopRegions: LoopRegion[];
+  activeLoopRegionId: string | null;
+  currentLoop: { start: number; end: number } | null;
+  playbackSpeed: number;
+  playLoopRegion: (region: LoopRegion) => void;
+  saveLoopRegion: (fields: LoopRegionFields) => void;
+  updateLoopRegion: (regionId: string, fields: LoopRegionFields) => void;
+  deleteLoopRegion: (regionId: string) => void;
+}
+
+/** Ask the player to start a track by itself once it has loaded. */
+export interface AutoPlayRequest {
+  /** New for every request, so the same track can be started again. */
+  token: number;
+  trackId: string;
+  /** Silence before starting, in seconds. */
+  delaySeconds: number;
+  /** Count in at the track's tempo (when it has one) before playing. */
+  countIn: boolean;
 }
 
 interface BottomPlayerProps {
@@ -52,6 +110,15 @@ interface BottomPlayerProps {
   compact?: boolean;
   onTrackTabs?: () => void;
   trackTabsCount?: number;
+  /** Playback reached the end and isn't looping or repeating. */
+  onFinish?: () => void;
+  autoPlay?: AutoPlayRequest | null;
+  /** Book, author and cover for the lock screen and media notifications. */
+  mediaInfo?: MediaSessionInfo | null;
+  /** Media key "next" past the last marker: open the next track in the chapter. */
+  onNextTrack?: () => void;
+  /** Media key "previous" at the start: open the previous track in the chapter. */
+  onPreviousTrack?: () => void;
 }
 
 function BottomPlayer({
@@ -68,6 +135,11 @@ function BottomPlayer({
   compact = false,
   onTrackTabs,
   trackTabsCount = 0,
+  onFinish,
+  autoPlay = null,
+  mediaInfo = null,
+  onNextTrack,
+  onPreviousTrack,
 }: BottomPlayerProps) {
   const waveformRef = useRef<HTMLDivElement>(null);
   const waveformContainerRef = useRef<HTMLDivElement>(null);
@@ -86,10 +158,33 @@ function BottomPlayer({
   const [isLoading, setIsLoading] = useState(false);
   const [zoom, setZoom] = useState(1);
   const [playbackSpeed, setPlaybackSpeed] = useState(100);
+  // Lowered by the record-along balance while a take plays over the track
+  const [trackMixLevel, setTrackMixLevel] = useState(1);
   const sessionTracker = usePracticeSessionTracker(track, playbackSpeed);
+
+  // First-beat offset as nudged in the player; dropped once the track's own
+  // value changes (a new detection) or another track loads
+  const [beatOffsetEdit, setBeatOffsetEdit] = useState<{ trackId: string; base: number | null; value: number } | null>(null);
+  const beatOffset =
+    track && beatOffsetEdit?.trackId === track.id && beatOffsetEdit.base === track.beatOffset
+      ? beatOffsetEdit.value
+      : track?.beatOffset ?? null;
+  const beatGrid = useMemo(
+    () => (track ? getBeatGrid({ ...track, beatOffset }) : null),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [track?.tempo, track?.detectedTempo, beatOffset, track?.timeSignature]
+  );
+
+  // Metronome click over playback; without a detected downbeat it counts from 0
+  const [clickSettings, setClickSettings] = useState<ClickTrackSettings>(getClickTrackSettings);
+  const clickGridRef = useRef<BeatGrid | null>(null);
+  const clickVolumeRef = useRef(clickSettings.volume);
   const sessionTrackerRef = useRef(sessionTracker);
   sessionTrackerRef.current = sessionTracker;
   const [speedInputValue, setSpeedInputValue] = useState("");
+  const [transposeCents, setTransposeCents] = useState(0);
+  const transposeCentsRef = useRef(0);
+  const [toneSettings, setToneSettings] = useState<ToneSettings>(DEFAULT_TONE_SETTINGS);
   const [volume, setVolume] = useState(50);
   const volumeRef = useRef(50);
   volumeRef.current = volume;
@@ -109,7 +204,14 @@ function BottomPlayer({
   const lastSeekPositionRef = useRef<number | null>(null); // Track where we seeked to avoid false stop triggers
   const [isRepeatEnabled, setIsRepeatEnabled] = useState(false);
   const isRepeatEnabledRef = useRef(false);
+  const onFinishRef = useRef(onFinish);
+  useEffect(() => {
+    onFinishRef.current = onFinish;
+  });
+  // Track whose audio is loaded in WaveSurfer, set once it's ready
+  const loadedTrackIdRef = useRef<string | null>(null);
   const restartPlaybackRef = useRef<() => void>(() => {});
+  const reportMediaPositionRef = useRef<(duration: number, position: number, playbackRate: number) => void>(() => {});
 
   // A/B loop state
   const [loopA, setLoopA] = useState<number | null>(null);
@@ -118,11 +220,29 @@ function BottomPlayer({
   const loopBRef = useRef<number | null>(null);
   const abRegionRef = useRef<ReturnType<RegionsPlugin['addRegion']> | null>(null);
 
+  // Speed trainer state (ramps the A/B loop's speed after clean passes)
+  const [trainerSettings, setTrainerSettings] = useState<SpeedTrainerSettings>(getSpeedTrainerSettings);
+  const [isTrainerActive, setIsTrainerActive] = useState(false);
+  const [isTrainerComplete, setIsTrainerComplete] = useState(false);
+  const [trainerReps, setTrainerReps] = useState(0);
+  const isTrainerActiveRef = useRef(false);
+  const trainerPassRef = useRef<() => void>(() => {});
+
+  // Saved loop regions for the current track
+  const [loopRegions, setLoopRegions] = useState<LoopRegion[]>([]);
+  const [activeLoopRegionId, setActiveLoopRegionId] = useState<string | null>(null);
+
+  // Chord timeline (jam tracks only)
+  const [chords, setChords] = useState<ChordLaneChord[]>([]);
+  const [isDetectingChords, setIsDetectingChords] = useState(false);
+
   // Web Audio API refs for LUFS normalization and volume control
   const audioContextRef = useRef<AudioContext | null>(null);
   const gainNodeRef = useRef<GainNode | null>(null);
   const volumeGainNodeRef = useRef<GainNode | null>(null);
   const sourceNodeRef = useRef<MediaElementAudioSourceNode | null>(null);
+  const pitchNodeRef = useRef<AudioWorkletNode | null>(null);
+  const toneChainRef = useRef<ToneChain | null>(null);
 
   // Volume normalization state (LUFS-based)
   const [normalizeVolume, setNormalizeVolume] = useState(() => {
@@ -211,6 +331,9 @@ function BottomPlayer({
 
   const saveSpeedTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const saveVolumeTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const saveTransposeTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const saveToneTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const saveBeatOffsetTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const handlePlaybackSpeed = (speed: number) => {
     const clampedSpeed = Math.max(10, Math.min(200, speed));
@@ -241,6 +364,55 @@ function BottomPlayer({
     }
   };
 
+  // Transpose in cents; the pitch shifter sits after the media element, so it
+  // stacks with the (pitch-preserving) speed change above
+  const handleTranspose = (cents: number) => {
+    const clampedCents = clampTransposeCents(cents);
+    setTransposeCents(clampedCents);
+    transposeCentsRef.current = clampedCents;
+    if (pitchNodeRef.current) {
+      setPitchShiftCents(pitchNodeRef.current, clampedCents);
+    }
+    if (track) {
+      if (saveTransposeTimeoutRef.current) clearTimeout(saveTransposeTimeoutRef.current);
+      const trackId = track.id;
+      const isJamTrack = !('bookId' in track);
+      saveTransposeTimeoutRef.current = setTimeout(() => {
+        const url = isJamTrack
+          ? `/api/jamtracks/${trackId}`
+          : `/api/tracks/${trackId}/tempo`;
+        fetch(url, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ transposeCents: clampedCents }),
+        }).catch(err => console.error("Failed to save transpose:", err));
+      }, 500);
+    }
+  };
+
+  // EQ, mid/side and channel solo; the tone chain sits after the pitch shifter
+  const handleToneSettings = (settings: ToneSettings) => {
+    setToneSettings(settings);
+    if (toneChainRef.current) {
+      applyToneSettings(toneChainRef.current, settings);
+    }
+    if (track) {
+      if (saveToneTimeoutRef.current) clearTimeout(saveToneTimeoutRef.current);
+      const trackId = track.id;
+      const isJamTrack = !('bookId' in track);
+      saveToneTimeoutRef.current = setTimeout(() => {
+        const url = isJamTrack
+          ? `/api/jamtracks/${trackId}`
+          : `/api/tracks/${trackId}/tempo`;
+        fetch(url, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ toneSettings: serializeToneSettings(settings) }),
+        }).catch(err => console.error("Failed to save tone settings:", err));
+      }, 500);
+    }
+  };
+
   // LUFS normalization via Web Audio API GainNode (allows boost above 1.0)
   const TARGET_LUFS = -14;
 
@@ -264,7 +436,7 @@ function BottomPlayer({
     // Also update the Web Audio volume gain node (handles browsers where
     // createMediaElementSource bypasses HTMLMediaElement.volume)
     if (volumeGainNodeRef.current) {
-      volumeGainNodeRef.current.gain.value = clampedVolume / 100;
+      volumeGainNodeRef.current.gain.value = (clampedVolume / 100) * trackMixLevel;
     }
     // Debounced save to DB
     if (track) {
@@ -296,6 +468,7 @@ function BottomPlayer({
 
     setIsLoading(true);
     isLoadingRef.current = true;
+    loadedTrackIdRef.current = null;
 
     const regions = RegionsPlugin.create();
 
@@ -320,12 +493,20 @@ function BottomPlayer({
       setDuration(ws.getDuration());
       setIsLoading(false);
       isLoadingRef.current = false;
+      loadedTrackIdRef.current = track.id;
 
       // Apply saved playback speed for this track
       const speed = track.playbackSpeed ?? 100;
       setPlaybackSpeed(speed);
       ws.setPlaybackRate(speed / 100, true);
 
+      const cents = track.transposeCents ?? 0;
+      setTransposeCents(cents);
+      transposeCentsRef.current = cents;
+
+      const tone = parseToneSettings(track.toneSettings) ?? DEFAULT_TONE_SETTINGS;
+      setToneSettings(tone);
+
       // Apply per-track volume (default 50%)
       const vol = track.volume ?? 50;
       setVolume(vol);
@@ -344,10 +525,28 @@ function BottomPlayer({
           volumeGainNodeRef.current = ctx.createGain();
           volumeGainNodeRef.current.gain.value = vol / 100;
           sourceNodeRef.current = ctx.createMediaElementSource(mediaEl);
-          // Chain: source → normalization gain → volume gain → destination
-          sourceNodeRef.current.connect(gainNodeRef.current);
+          toneChainRef.current = createToneChain(ctx, tone);
+          // Chain: source → tone → normalization gain → volume gain → destination
+          sourceNodeRef.current.connect(toneChainRef.current.input);
+          toneChainRef.current.output.connect(gainNodeRef.current);
           gainNodeRef.current.connect(volumeGainNodeRef.current);
           volumeGainNodeRef.current.connect(ctx.destination);
+
+          // Splice the pitch shifter in once its worklet has loaded:
+          // source → pitch shift → tone
+          const source = sourceNodeRef.current;
+          createPitchShiftNode(ctx, transposeCentsRef.current)
+            .then((pitchNode) => {
+              if (sourceNodeRef.current !== source || !toneChainRef.current) return;
+              source.disconnect();
+              source.connect(pitchNode);
+              pitchNode.connect(toneChainRef.current.input);
+              pitchNodeRef.current = pitchNode;
+              setPitchShiftCents(pitchNode, transposeCentsRef.current);
+            })
+            .catch((e) => console.error("Failed to set up pitch shifting:", e));
+        } else if (toneChainRef.current) {
+          applyToneSettings(toneChainRef.current, tone, true);
         }
         applyNormGain();
         void applyAudioContextSink(
@@ -401,10 +600,13 @@ function BottomPlayer({
     });
     ws.on("seeking", (time) => {
       console.log("[BP] ws:seeking event  time=", time);
+      reportMediaPositionRef.current(ws.getDuration(), time, ws.getPlaybackRate());
     });
     ws.on("finish", () => {
       sessionTrackerRef.current.onFinish();
-      if (loopARef.current !== null && loopBRef.current !== null) {
+      if (loopARef.current !== null && loopBRef.current !== null && isTrainerActiveRef.current) {
+        trainerPassRef.current();
+      } else if (loopARef.current !== null && loopBRef.current !== null) {
         // A/B loop active: seek to A and continue playing
         ws.seekTo(loopARef.current / ws.getDuration());
         lastSeekPositionRef.current = loopARef.current;
@@ -413,6 +615,7 @@ function BottomPlayer({
         restartPlaybackRef.current();
       } else {
         if (isMountedRef.current) setIsPlaying(false);
+        onFinishRef.current?.();
       }
     });
 
@@ -425,7 +628,21 @@ function BottomPlayer({
       console.error('WaveSurfer error:', error);
     });
 
-    ws.load(`/api/audio/${encodeURIComponent(track.filePath)}`);
+    // Draw from server-side peaks so the audio can stream instead of being
+    // downloaded and decoded in the browser; fall back to decoding if unavailable
+    const audioUrl = `/api/audio/${encodeURIComponent(track.filePath)}`;
+    const maxPeaks = compact ? 30_000 : 100_000;
+    fetch(`/api/audio/peaks/${encodeURIComponent(track.filePath)}?maxPeaks=${maxPeaks}`)
+      .then((res) => (res.ok ? (res.json() as Promise<WaveformPeaksResponse>) : null))
+      .catch(() => null)
+      .then((data) => {
+        if (wavesurferRef.current !== ws) return;
+        if (data && data.peaks.length > 0) {
+          ws.load(audioUrl, [data.peaks], data.duration);
+        } else {
+          ws.load(audioUrl);
+        }
+      });
 
     wavesurferRef.current = ws;
     // Store WaveSurfer's internal scroll container for scroll/zoom management
@@ -481,6 +698,9 @@ function BottomPlayer({
       setLoopA(null); // Clear A/B loop when track changes
       setLoopB(null);
       abRegionRef.current = null;
+      setIsTrainerActive(false); // The trainer runs on the loop
+      isTrainerActiveRef.current = false;
+      setIsTrainerComplete(false);
       initWaveSurfer();
     }
 
@@ -492,6 +712,14 @@ function BottomPlayer({
         try { sourceNodeRef.current.disconnect(); } catch { /* ignore */ }
         sourceNodeRef.current = null;
       }
+      if (pitchNodeRef.current) {
+        try { pitchNodeRef.current.disconnect(); } catch { /* ignore */ }
+        pitchNodeRef.current = null;
+      }
+      if (toneChainRef.current) {
+        disconnectToneChain(toneChainRef.current);
+        toneChainRef.current = null;
+      }
       if (gainNodeRef.current) {
         try { gainNodeRef.current.disconnect(); } catch { /* ignore */ }
         gainNodeRef.current = null;
@@ -564,9 +792,9 @@ function BottomPlayer({
       wavesurferRef.current.setVolume(volume / 100);
     }
     if (volumeGainNodeRef.current) {
-      volumeGainNodeRef.current.gain.value = volume / 100;
+      volumeGainNodeRef.current.gain.value = (volume / 100) * trackMixLevel;
     }
-  }, [volume, isLoading]);
+  }, [volume, isLoading, trackMixLevel]);
 
   // Route audio to the selected output device via AudioContext.setSinkId.
   // Re-applies on devicechange so unplug/replug of the preferred device is honored.
@@ -694,6 +922,143 @@ function BottomPlayer({
     }
   }, [isPlaying, currentTime, duration, stopMarker, loopA, loopB]);
 
+  // Speed trainer: start (or restart) a pass at A, with a count-in at the
+  // pass's speed when enabled and the track has a tempo
+  const beginTrainerPass = async (speed: number) => {
+    const ws = wavesurferRef.current;
+    if (!ws || loopA === null || !duration) return;
+
+    const withCountIn = trainerSettings.countIn && !!track?.tempo && track.tempo > 0;
+    // With a beat grid the count-in leads into the bar line of A, not A itself
+    const { start, preroll } = withCountIn && beatGrid ? alignCountIn(beatGrid, loopA) : { start: loopA, preroll: 0 };
+    if (withCountIn) ws.pause();
+    ws.seekTo(start / duration);
+    lastSeekPositionRef.current = start;
+
+    if (withCountIn && track?.tempo) {
+      const timeSignature = track.timeSignature || "4/4";
+      setIsCountingIn(true);
+      setCurrentCountInBeat(0);
+      setTotalCountInBeats(parseInt(timeSignature.split("/")[0]) || 4);
+
+      await playCountIn({
+        bpm: (beatGrid?.bpm ?? track.tempo) * (speed / 100),
+        timeSignature,
+        volume,
+        preroll: preroll / (speed / 100),
+        onBeat: (beat, total) => {
+          setCurrentCountInBeat(beat);
+          setTotalCountInBeats(total);
+        },
+      });
+
+      setIsCountingIn(false);
+      setCurrentCountInBeat(0);
+    }
+
+    wavesurferRef.current?.play();
+  };
+
+  const startSpeedTrainer = () => {
+    if (loopA === null || loopB === null) return;
+    const speed = trainerSettings.startSpeed;
+    setIsTrainerActive(true);
+    isTrainerActiveRef.current = true;
+    setIsTrainerComplete(false);
+    setTrainerReps(0);
+    handlePlaybackSpeed(speed);
+    sessionTracker.onSpeedStep(speed);
+    if (wavesurferRef.current?.isPlaying()) wavesurferRef.current.stop();
+    void beginTrainerPass(speed);
+  };
+
+  const stopSpeedTrainer = (complete = false) => {
+    setIsTrainerActive(false);
+    isTrainerActiveRef.current = false;
+    setIsTrainerComplete(complete);
+    setTrainerReps(0);
+  };
+
+  // Playback reached B with the trainer on: count the pass, step up the
+  // speed once enough clean passes are in, and go round again
+  const handleTrainerPass = () => {
+    sessionTracker.onSpeedStepRepetition();
+    let speed = playbackSpeed;
+    const reps = trainerReps + 1;
+    if (reps >= trainerSettings.repsPerStep) {
+      const next = nextTrainerSpeed(trainerSettings, playbackSpeed);
+      if (next === null) {
+        stopSpeedTrainer(true);
+      } else {
+        speed = next;
+        handlePlaybackSpeed(next);
+        sessionTracker.onSpeedStep(next);
+        setTrainerReps(0);
+      }
+    } else {
+      setTrainerReps(reps);
+    }
+    void beginTrainerPass(speed);
+  };
+
+  const handleTrainerSettingsChange = (settings: SpeedTrainerSettings) => {
+    setTrainerSettings(settings);
+    setSpeedTrainerSettings(settings);
+  };
+
+  const handleClickSettingsChange = (settings: ClickTrackSettings) => {
+    setClickSettings(settings);
+    setClickTrackSettings(settings);
+  };
+
+  const handleBeatOffset = (offset: number) => {
+    if (!track) return;
+    setBeatOffsetEdit({ trackId: track.id, base: track.beatOffset, value: offset });
+    // Debounced save to DB
+    if (saveBeatOffsetTimeoutRef.current) clearTimeout(saveBeatOffsetTimeoutRef.current);
+    const trackId = track.id;
+    const isJamTrack = !('bookId' in track);
+    saveBeatOffsetTimeoutRef.current = setTimeout(() => {
+      const url = isJamTrack
+        ? `/api/jamtracks/${trackId}`
+        : `/api/tracks/${trackId}/tempo`;
+      fetch(url, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ beatOffset: offset }),
+      }).catch(err => console.error("Failed to save beat offset:", err));
+    }, 500);
+  };
+
+  // Keep the click track's grid and volume current without restarting it
+  useEffect(() => {
+    clickGridRef.current =
+      beatGrid ?? (track?.tempo && track.tempo > 0 ? getBeatGrid({ ...track, beatOffset: 0 }) : null);
+    clickVolumeRef.current = clickSettings.volume;
+  });
+
+  // The click follows the playhead, so seeks, loops and speed changes stay in phase
+  useEffect(() => {
+    if (clickSettings.muted) return;
+    return startClickTrack({
+      getPosition: () => {
+        const ws = wavesurferRef.current;
+        return {
+          time: ws?.getCurrentTime() ?? 0,
+          rate: ws?.getPlaybackRate() ?? 1,
+          playing: !!ws?.isPlaying(),
+        };
+      },
+      getGrid: () => clickGridRef.current,
+      getVolume: () => clickVolumeRef.current,
+    });
+  }, [clickSettings.muted]);
+
+  // Keep the pass handler current for the loop effect and WaveSurfer callbacks
+  useEffect(() => {
+    trainerPassRef.current = handleTrainerPass;
+  });
+
   // A/B loop: seek back to A when playback reaches B
   useEffect(() => {
     if (loopA === null || loopB === null || !isPlaying || !wavesurferRef.current || !duration) return;
@@ -708,6 +1073,10 @@ function BottomPlayer({
     }
 
     if (currentTime >= loopB - 0.05 && currentTime < loopB + 1) {
+      if (isTrainerActiveRef.current) {
+        trainerPassRef.current();
+        return;
+      }
       wavesurferRef.current.seekTo(loopA / duration);
       lastSeekPositionRef.current = loopA;
     }
@@ -831,15 +1200,19 @@ function BottomPlayer({
     if (track?.tempo && track.tempo > 0) {
       const timeSignature = track.timeSignature || "4/4";
       const beats = parseInt(timeSignature.split("/")[0]) || 4;
+      const rate = playbackSpeed / 100;
 
       setIsCountingIn(true);
       setCurrentCountInBeat(0);
       setTotalCountInBeats(beats);
 
+      // With a beat grid, any intro before the first downbeat plays under the
+      // count-in so the click lines up with the track's own bars
       await playCountIn({
-        bpm: track.tempo,
+        bpm: beatGrid ? beatGrid.bpm * rate : track.tempo,
         timeSignature,
         volume,
+        preroll: beatGrid ? alignCountIn(beatGrid, 0).preroll / rate : 0,
         onBeat: (beat, total) => {
           setCurrentCountInBeat(beat);
           setTotalCountInBeats(total);
@@ -851,11 +1224,44 @@ function BottomPlayer({
     }
 
     wavesurferRef.current?.play();
-  }, [duration, isCountingIn, track?.tempo, track?.timeSignature, volume]);
+  }, [duration, isCountingIn, track?.tempo, track?.timeSignature, volume, beatGrid, playbackSpeed]);
 
   // Keep refs in sync for use in WaveSurfer event callbacks
   restartPlaybackRef.current = restartPlayback;
 
+  // Start the track a queue advanced to, after its gap, once it has loaded
+  const autoPlayTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const handledAutoPlayRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (!autoPlay || handledAutoPlayRef.current === autoPlay.token) return;
+    if (!track || track.id !== autoPlay.trackId || loadedTrackIdRef.current !== track.id || !duration || isLoading) return;
+    handledAutoPlayRef.current = autoPlay.token;
+    autoPlayTimerRef.current = setTimeout(() => {
+      autoPlayTimerRef.current = null;
+      const ws = wavesurferRef.current;
+      // Started by hand during the gap
+      if (!ws || ws.isPlaying()) return;
+      if (autoPlay.countIn) {
+        restartPlaybackRef.current();
+      } else {
+        // The same track queued twice in a row is still sitting at its end
+        ws.seekTo(0);
+        lastSeekPositionRef.current = 0;
+        ws.play();
+      }
+    }, autoPlay.delaySeconds * 1000);
+  }, [autoPlay, track, duration, isLoading]);
+
+  // A pending start belongs to the track it was for
+  useEffect(() => {
+    return () => {
+      if (autoPlayTimerRef.current) {
+        clearTimeout(autoPlayTimerRef.current);
+        autoPlayTimerRef.current = null;
+      }
+    };
+  }, [track?.id]);
+
   const toggleRepeat = useCallback(() => {
     setIsRepeatEnabled(prev => {
       const next = !prev;
@@ -868,6 +1274,8 @@ function BottomPlayer({
   const setLoopPointA = useCallback(() => {
     const time = currentTimeRef.current;
     setLoopA(time);
+    setActiveLoopRegionId(null); // A hand-set loop is no longer the saved region
+    sessionTrackerRef.current.onLoopRegionChange(null);
     if (loopBRef.current !== null && time >= loopBRef.current) {
       setLoopB(null);
     }
@@ -885,12 +1293,28 @@ function BottomPlayer({
   const clearLoop = useCallback(() => {
     setLoopA(null);
     setLoopB(null);
+    setActiveLoopRegionId(null);
+    sessionTrackerRef.current.onLoopRegionChange(null);
+    setIsTrainerActive(false);
+    isTrainerActiveRef.current = false;
     if (abRegionRef.current) {
       try { abRegionRef.current.remove(); } catch { /* may already be removed */ }
       abRegionRef.current = null;
     }
   }, []);
 
+  // Move the A/B loop to the nearest bar lines of the detected beat grid
+  const snapLoopToBars = useCallback(() => {
+    if (!beatGrid || loopA === null || loopB === null || !duration) return;
+    const snapped = snapLoopToBarLines(beatGrid, loopA, loopB, duration);
+    if (!snapped) return;
+    setLoopA(snapped.start);
+    setLoopB(snapped.end);
+    setActiveLoopRegionId(null);
+    sessionTrackerRef.current.onLoopRegionChange(null);
+    lastSeekPositionRef.current = null;
+  }, [beatGrid, loopA, loopB, duration]);
+
   const jumpToMarker = useCallback(async (timestamp: number) => {
     if (!wavesurferRef.current || !duration) return;
     console.log("[BP] jumpToMarker  timestamp=", timestamp, " duration=", duration, " tempo=", track?.tempo);
@@ -911,15 +1335,19 @@ function BottomPlayer({
       setCurrentCountInBeat(0);
       setTotalCountInBeats(beats);
 
-      // Seek to marker position (stopped)
-      wavesurferRef.current.seekTo(timestamp / duration);
-      lastSeekPositionRef.current = timestamp; // Guard against false stop triggers
+      // Seek to marker position (stopped), or with a beat grid to the
+      // downbeat of its bar so the count-in lands on the track's real bar line
+      const { start, preroll } = beatGrid ? alignCountIn(beatGrid, timestamp) : { start: timestamp, preroll: 0 };
+      const rate = playbackSpeed / 100;
+      wavesurferRef.current.seekTo(start / duration);
+      lastSeekPositionRef.current = start; // Guard against false stop triggers
 
       // Play count-in clicks
       await playCountIn({
-        bpm: track.tempo,
+        bpm: beatGrid ? beatGrid.bpm * rate : track.tempo,
         timeSignature,
         volume,
+        preroll: preroll / rate,
         onBeat: (beat, total) => {
           setCurrentCountInBeat(beat);
           setTotalCountInBeats(total);
@@ -939,7 +1367,223 @@ function BottomPlayer({
 
       wavesurferRef.current.play();
     }
-  }, [duration, leadIn, track?.tempo, track?.timeSignature, volume]);
+  }, [duration, leadIn, track?.tempo, track?.timeSignature, volume, beatGrid, playbackSpeed]);
+
+  // Load saved loop regions whenever the track changes
+  useEffect(() => {
+    setLoopRegions([]);
+    setActiveLoopRegionId(null);
+    if (!track) return;
+    const owner = 'bookId' in track ? 'trackId' : 'jamTrackId';
+    let cancelled = false;
+    fetch(`/api/loop-regions?${owner}=${encodeURIComponent(track.id)}`)
+      .then((res) => (res.ok ? res.json() : []))
+      .then((regions: LoopRegion[]) => {
+        if (!cancelled) setLoopRegions(regions);
+      })
+      .catch((err) => console.error("Failed to load loop regions:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [track?.id]);
+
+  // Load the chord timeline whenever the jam track changes
+  useEffect(() => {
+    setChords([]);
+    if (!track || 'bookId' in track) return;
+    let cancelled = false;
+    fetch(`/api/jamtracks/${track.id}/chords`)
+      .then((res) => (res.ok ? res.json() : []))
+      .then((loaded: ChordLaneChord[]) => {
+        if (!cancelled) setChords(loaded);
+      })
+      .catch((err) => console.error("Failed to load chords:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [track?.id]);
+
+  const saveChords = useCallback(async (next: ChordLaneChord[]) => {
+    if (!track || 'bookId' in track) return;
+    setChords(next);
+    try {
+      const res = await fetch(`/api/jamtracks/${track.id}/chords`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ chords: next }),
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+    } catch (err) {
+      console.error("Failed to save chords:", err);
+    }
+  }, [track]);
+
+  const detectChords = useCallback(async () => {
+    if (!track || 'bookId' in track) return;
+    setIsDetectingChords(true);
+    try {
+      const res = await fetch(`/api/jamtracks/${track.id}/chords/detect`, { method: "POST" });
+      if (!res.ok) throw new Error((await res.json()).error);
+      setChords(await res.json());
+    } catch (err) {
+      console.error("Failed to detect chords:", err);
+    } finally {
+      setIsDetectingChords(false);
+    }
+  }, [track]);
+
+  const seekTo = useCallback((time: number) => {
+    if (!wavesurferRef.current || !duration) return;
+    wavesurferRef.current.seekTo(Math.max(0, Math.min(1, time / duration)));
+    lastSeekPositionRef.current = time;
+  }, [duration]);
+
+  // Headphone buttons, media keys and the lock screen. Next/previous step
+  // through markers, then on to the neighbouring tracks in the chapter.
+  const mediaSession = useMediaSession(track ? mediaInfo ?? { title: track.title } : null, {
+    play: () => {
+      if (wavesurferRef.current && !wavesurferRef.current.isPlaying()) void togglePlay();
+    },
+    pause: () => wavesurferRef.current?.pause(),
+    seekTo,
+    seekBy: (offset) => seekTo(currentTimeRef.current + offset),
+    next: () => {
+      const target = markerSkipTarget(track?.markers.map((m) => m.timestamp) ?? [], currentTimeRef.current, "next");
+      if (typeof target === "number") void jumpToMarker(target);
+      else onNextTrack?.();
+    },
+    previous: () => {
+      const target = markerSkipTarget(track?.markers.map((m) => m.timestamp) ?? [], currentTimeRef.current, "previous");
+      if (typeof target === "number") void jumpToMarker(target);
+      else if (onPreviousTrack) onPreviousTrack();
+      else seekTo(0);
+    },
+  });
+
+  useEffect(() => {
+    reportMediaPositionRef.current = mediaSession.setPosition;
+  }, [mediaSession.setPosition]);
+
+  // Keep the lock screen scrubber in step with play state and speed
+  useEffect(() => {
+    if (!track) return;
+    mediaSession.setPlaybackState(isPlaying ? "playing" : "paused");
+    mediaSession.setPosition(duration, currentTimeRef.current, playbackSpeed / 100);
+  }, [mediaSession, track, isPlaying, duration, playbackSpeed]);
+
+  const handlePlaybackSpeedRef = useRef(handlePlaybackSpeed);
+  useEffect(() => {
+    handlePlaybackSpeedRef.current = handlePlaybackSpeed;
+  });
+
+  // Loop a saved region at its preferred speed, starting from its lead-in
+  // (or a count-in when the track has a tempo)
+  const playLoopRegion = useCallback((region: LoopRegion) => {
+    if (!wavesurferRef.current || !duration) return;
+    setLoopA(region.start);
+    setLoopB(Math.min(region.end, duration));
+    setActiveLoopRegionId(region.id);
+    sessionTrackerRef.current.onLoopRegionChange(region.id);
+    if (region.playbackSpeed != null) handlePlaybackSpeedRef.current(region.playbackSpeed);
+
+    if (region.leadIn != null && !(track?.tempo && track.tempo > 0)) {
+      wavesurferRef.current.stop();
+      const startTime = Math.max(0, region.start - region.leadIn);
+      wavesurferRef.current.seekTo(startTime / duration);
+      lastSeekPositionRef.current = startTime;
+      wavesurferRef.current.play();
+    } else {
+      void jumpToMarker(region.start);
+    }
+  }, [duration, jumpToMarker, track?.tempo]);
+
+  // Record-along: takes start the track from loop A or the playhead, and play
+  // back with the speed and loop they were recorded at
+  const getRecordAlongPlayback = useCallback(() => ({
+    time: currentTimeRef.current,
+    speed: playbackSpeedRef.current,
+    loop: loopARef.current !== null && loopBRef.current !== null
+      ? { start: loopARef.current, end: loopBRef.current }
+      : null,
+  }), []);
+
+  const playRecordAlongFrom = useCallback((time: number, setup?: PlaybackSetup) => {
+    if (!wavesurferRef.current || !duration) return;
+    wavesurferRef.current.pause();
+    if (setup) {
+      handlePlaybackSpeedRef.current(setup.speed);
+      if (setup.loop) {
+        setLoopA(setup.loop.start);
+        setLoopB(Math.min(setup.loop.end, duration));
+        loopARef.current = setup.loop.start;
+        loopBRef.current = Math.min(setup.loop.end, duration);
+        setActiveLoopRegionId(null);
+        sessionTrackerRef.current.onLoopRegionChange(null);
+      } else {
+        clearLoop();
+      }
+    }
+    wavesurferRef.current.seekTo(Math.max(0, Math.min(1, time / duration)));
+    lastSeekPositionRef.current = time;
+    wavesurferRef.current.play();
+  }, [duration, clearLoop]);
+
+  const pauseForRecordAlong = useCallback(() => {
+    wavesurferRef.current?.pause();
+  }, []);
+
+  const saveLoopRegion = useCallback(async (fields: LoopRegionFields) => {
+    if (!track || loopA === null || loopB === null) return;
+    try {
+      const res = await fetch("/api/loop-regions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...fields,
+          start: loopA,
+          end: loopB,
+          ['bookId' in track ? 'trackId' : 'jamTrackId']: track.id,
+        }),
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+      const region: LoopRegion = await res.json();
+      setLoopRegions((prev) => [...prev, region].sort((a, b) => a.start - b.start));
+      setActiveLoopRegionId(region.id);
+      sessionTrackerRef.current.onLoopRegionChange(region.id);
+    } catch (err) {
+      console.error("Failed to save loop region:", err);
+    }
+  }, [track, loopA, loopB]);
+
+  const updateLoopRegion = useCallback(async (regionId: string, fields: LoopRegionFields) => {
+    try {
+      const res = await fetch(`/api/loop-regions/${regionId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(fields),
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+      const region: LoopRegion = await res.json();
+      setLoopRegions((prev) => prev.map((r) => (r.id === region.id ? region : r)));
+    } catch (err) {
+      console.error("Failed to update loop region:", err);
+    }
+  }, []);
+
+  const deleteLoopRegion = useCallback(async (regionId: string) => {
+    try {
+      // Save the time practised on the region while it still exists
+      if (activeLoopRegionId === regionId) {
+        setActiveLoopRegionId(null);
+        await sessionTrackerRef.current.onLoopRegionChange(null);
+      }
+      const res = await fetch(`/api/loop-regions/${regionId}`, { method: "DELETE" });
+      if (!res.ok) throw new Error((await res.json()).error);
+      setLoopRegions((prev) => prev.filter((r) => r.id !== regionId));
+    } catch (err) {
+      console.error("Failed to delete loop region:", err);
+    }
+  }, [activeLoopRegionId]);
 
   const wasPlayingBeforeMarkerDialogRef = useRef(false);
 
@@ -989,72 +1633,82 @@ function BottomPlayer({
   const clearLoopRef = useRef(clearLoop);
   clearLoopRef.current = clearLoop;
 
-  // Keyboard shortcuts
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
-        return;
-      }
-
-      if (e.code === "Space") {
-        e.preventDefault();
-        togglePlayRef.current();
-      }
-
-      if (e.code === "KeyM" && track) {
-        e.preventDefault();
-        handleOpenMarkerDialog();
-      }
+  const playbackSpeedRef = useRef(playbackSpeed);
+  playbackSpeedRef.current = playbackSpeed;
+  const jumpToMarkerRef = useRef(jumpToMarker);
+  jumpToMarkerRef.current = jumpToMarker;
 
-      if (e.code === "ArrowLeft") {
-        e.preventDefault();
-        if (wavesurferRef.current) {
+  // Bound keys, MIDI foot switches and pedals (see lib/inputBindings)
+  useEffect(() => {
+    return subscribeToInputActions((action) => {
+      switch (action) {
+        case "playPause":
+          if (!track) return false;
+          togglePlayRef.current();
+          return true;
+        case "restart":
+          if (!wavesurferRef.current) return false;
           // Pause first to prevent multiple playback instances
           if (wavesurferRef.current.isPlaying()) {
             wavesurferRef.current.pause();
           }
           wavesurferRef.current.seekTo(0);
           wavesurferRef.current.play();
+          return true;
+        case "addMarker":
+          if (!track) return false;
+          handleOpenMarkerDialog();
+          return true;
+        case "nextMarker":
+        case "previousMarker": {
+          if (!track) return false;
+          const target = markerSkipTarget(
+            track.markers.map((m) => m.timestamp),
+            currentTimeRef.current,
+            action === "nextMarker" ? "next" : "previous"
+          );
+          if (typeof target === "number") void jumpToMarkerRef.current(target);
+          else if (target === "start") void jumpToMarkerRef.current(0);
+          return true;
         }
-      }
-
-      // A/B loop: 'A' cycles through set A -> set B -> clear + set new A
-      if (e.code === "KeyA" && track) {
-        e.preventDefault();
-        if (loopARef.current !== null && loopBRef.current !== null) {
+        // A/B loop: cycles through set A -> set B -> clear + set new A
+        case "loopPoint":
+          if (!track) return false;
+          if (loopARef.current !== null && loopBRef.current !== null) {
+            clearLoopRef.current();
+            setLoopPointARef.current();
+          } else if (loopARef.current !== null) {
+            setLoopPointBRef.current();
+          } else {
+            setLoopPointARef.current();
+          }
+          return true;
+        case "clearLoop":
+          if (loopARef.current === null) return false;
           clearLoopRef.current();
-          setLoopPointARef.current();
-        } else if (loopARef.current !== null) {
-          setLoopPointBRef.current();
-        } else {
-          setLoopPointARef.current();
-        }
+          return true;
+        case "speedUp":
+          if (!track) return false;
+          handlePlaybackSpeedRef.current(playbackSpeedRef.current + 5);
+          return true;
+        case "speedDown":
+          if (!track) return false;
+          handlePlaybackSpeedRef.current(playbackSpeedRef.current - 5);
+          return true;
+        case "volumeUp":
+          handleVolume(Math.min(100, volumeRef.current + 5));
+          return true;
+        case "volumeDown":
+          handleVolume(Math.max(0, volumeRef.current - 5));
+          return true;
+        case "showHelp":
+          setShowShortcutsHelp(prev => !prev);
+          return true;
+        default:
+          // Page turns are the PDF viewer's
+          return false;
       }
-
-      // Escape clears A/B loop
-      if (e.code === "Escape" && loopARef.current !== null) {
-        e.preventDefault();
-        clearLoopRef.current();
-      }
-
-      if (e.key === "+" || e.key === "=") {
-        e.preventDefault();
-        handleVolume(Math.min(100, volumeRef.current + 5));
-      }
-
-      if (e.key === "-") {
-        e.preventDefault();
-        handleVolume(Math.max(0, volumeRef.current - 5));
-      }
-
-      if (e.key === "?") {
-        e.preventDefault();
-        setShowShortcutsHelp(prev => !prev);
-      }
-    };
-
-    window.addEventListener("keydown", handleKeyDown);
-    return () => window.removeEventListener("keydown", handleKeyDown);
+    });
   }, [track, handleOpenMarkerDialog, handleVolume]);
 
   // Handle marker label click to set/clear stop marker
@@ -1088,9 +1742,17 @@ function BottomPlayer({
         trackTempo: track?.tempo ?? null,
         trackTimeSignature: track?.timeSignature || "4/4",
         volume,
+        loopRegions,
+        activeLoopRegionId,
+        currentLoop: loopA !== null && loopB !== null ? { start: loopA, end: loopB } : null,
+        playbackSpeed,
+        playLoopRegion,
+        saveLoopRegion,
+        updateLoopRegion,
+        deleteLoopRegion,
       });
     }
-  }, [showMarkers, leadIn, editingMarkerId, editingMarkerName, jumpToMarker, addMarker, formatTime, isCountingIn, currentCountInBeat, totalCountInBeats, track?.tempo, track?.timeSignature, volume, currentTime]);
+  }, [showMarkers, leadIn, editingMarkerId, editingMarkerName, jumpToMarker, addMarker, formatTime, isCountingIn, currentCountInBeat, totalCountInBeats, track?.tempo, track?.timeSignature, volume, currentTime, loopRegions, activeLoopRegionId, loopA, loopB, playbackSpeed, playLoopRegion, saveLoopRegion, updateLoopRegion, deleteLoopRegion]);
 
   if (!track) {
     return (
@@ -1176,6 +1838,15 @@ function BottomPlayer({
                   <span className="hidden sm:inline tabular-nums">A:{formatTime(loopA)}</span>
                 ) : null}
               </button>
+              {loopA !== null && loopB !== null && beatGrid && (
+                <button
+                  onClick={snapLoopToBars}
+                  className="hidden sm:flex h-5 px-1 items-center text-[10px] font-medium text-blue-300 hover:text-white transition-colors"
+                  title="Snap loop to bars"
+                >
+                  Bars
+                </button>
+              )}
               {loopA !== null && (
                 <button
                   onClick={clearLoop}
@@ -1189,6 +1860,52 @@ function BottomPlayer({
               )}
             </div>
 
+            {/* Speed Trainer - Hide on mobile */}
+            <div className="hidden sm:block">
+              <SpeedTrainerControls
+                settings={trainerSettings}
+                onSettingsChange={handleTrainerSettingsChange}
+                isActive={isTrainerActive}
+                isComplete={isTrainerComplete}
+                currentSpeed={playbackSpeed}
+                cleanReps={trainerReps}
+                hasLoop={loopA !== null && loopB !== null}
+                hasTempo={!!track.tempo && track.tempo > 0}
+                onStart={startSpeedTrainer}
+                onStop={() => stopSpeedTrainer()}
+                onMiss={() => setTrainerReps(0)}
+              />
+            </div>
+
+            {/* Click Track - Hide on mobile */}
+            <div className="hidden sm:block">
+              <ClickTrackControls
+                settings={clickSettings}
+                onSettingsChange={handleClickSettingsChange}
+                hasTempo={!!track.tempo && track.tempo > 0}
+                beatOffset={beatOffset}
+                onBeatOffsetChange={handleBeatOffset}
+              />
+            </div>
+
+            {/* EQ and channels - Hide on mobile */}
+            <div className="hidden sm:block">
+              <ToneControls settings={toneSettings} onSettingsChange={handleToneSettings} />
+            </div>
+
+            {/* Record along - Hide on mobile */}
+            <div className="hidden sm:block">
+              <RecordAlongControls
+                key={track.id}
+                track={track}
+                isPlaying={isPlaying}
+                getPlayback={getRecordAlongPlayback}
+                playFrom={playRecordAlongFrom}
+                pause={pauseForRecordAlong}
+                onTrackLevelChange={setTrackMixLevel}
+              />
+            </div>
+
             {/* Play Button */}
             <button
               onClick={togglePlay}
@@ -1273,6 +1990,46 @@ function BottomPlayer({
               <span className="text-gray-500 text-xs">%</span>
             </div>
 
+            {/* Transpose */}
+            <div className="flex items-center gap-1 sm:gap-2">
+              <span className="text-gray-500">Key:</span>
+              <button
+                onClick={() => handleTranspose(transposeCents - 100)}
+                className="w-6 h-6 flex items-center justify-center bg-gray-700 hover:bg-gray-600 text-gray-300 hover:text-white rounded text-sm font-bold"
+                title="Transpose down a semitone"
+              >♭</button>
+              <button
+                onClick={() => handleTranspose(0)}
+                className={`min-w-[2.5rem] px-1.5 py-0.5 rounded text-xs font-medium tabular-nums transition-colors ${
+                  transposeCents !== 0
+                    ? "bg-green-600 text-white"
+                    : "bg-gray-700 text-gray-400 hover:text-white hover:bg-gray-600"
+                }`}
+                title="Transpose in semitones (click to reset)"
+              >
+                {formatTranspose(transposeCents)}
+              </button>
+              <button
+                onClick={() => handleTranspose(transposeCents + 100)}
+                className="w-6 h-6 flex items-center justify-center bg-gray-700 hover:bg-gray-600 text-gray-300 hover:text-white rounded text-sm font-bold"
+                title="Transpose up a semitone"
+              >♯</button>
+              <input
+                type="number"
+                min={-50}
+                max={50}
+                step={5}
+                value={transposeCents - Math.trunc(transposeCents / 100) * 100}
+                onChange={(e) => {
+                  const fine = Math.max(-50, Math.min(50, parseInt(e.target.value, 10) || 0));
+                  handleTranspose(Math.trunc(transposeCents / 100) * 100 + fine);
+                }}
+                className="hidden sm:block w-12 px-1 py-0.5 bg-gray-700 border border-gray-600 rounded text-center text-xs focus:outline-none focus:border-green-500"
+                title="Fine tune in cents"
+              />
+              <span className="hidden sm:inline text-gray-500 text-xs">¢</span>
+            </div>
+
             {/* Zoom - Hide on mobile */}
             <div className="hidden md:flex items-center gap-2">
               <span className="text-gray-500">Zoom:</span>
@@ -1434,6 +2191,22 @@ function BottomPlayer({
             )}
           </div>
 
+          {/* Chord lane (jam tracks only) */}
+          {!('bookId' in track) && duration > 0 && !isLoading && containerWidth > 0 && (
+            <ChordLane
+              chords={chords}
+              duration={duration}
+              containerWidth={containerWidth}
+              zoom={zoom}
+              scrollLeft={scrollLeft}
+              currentTime={currentTime}
+              isDetecting={isDetectingChords}
+              onSeek={seekTo}
+              onChange={saveChords}
+              onDetect={detectChords}
+            />
+          )}
+
           {/* Markers Panel (below waveform) */}
           {showMarkers && !externalMarkersBar && (
             <div className="border-t border-gray-700 pt-2 mt-2">
@@ -4,6 +4,7 @@ import { useState, useMemo, memo } from "react";
 import { Chapter, Track, BookVideo, AuthorSummary, Book } from "@/types";
 import InProgressIndicator from "./InProgressIndicator";
 import { formatDuration } from "@/lib/formatting";
+import { PlayQueueEntry, queueEntriesForChapter, queueEntryForTrack } from "@/hooks/usePlayQueue";
 
 interface ChapterSectionProps {
   chapter: Chapter;
@@ -38,6 +39,7 @@ interface ChapterSectionProps {
   onExtractAudio?: (video: BookVideo) => void;
   extractingVideoId?: string | null;
   onAssignToChapter?: (itemType: "track" | "video", itemId: string, chapterId: string | null) => Promise<void>;
+  onAddToQueue?: (entries: PlayQueueEntry[]) => void;
 }
 
 export default memo(function ChapterSection({
@@ -73,6 +75,7 @@ export default memo(function ChapterSection({
   onExtractAudio,
   extractingVideoId,
   onAssignToChapter,
+  onAddToQueue,
 }: ChapterSectionProps) {
   const [isDeleting, setIsDeleting] = useState(false);
   const [isDragOver, setIsDragOver] = useState(false);
@@ -213,6 +216,17 @@ export default memo(function ChapterSection({
 
         {/* Chapter Actions */}
         <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+          {onAddToQueue && chapter.tracks.length > 0 && (
+            <button
+              onClick={() => onAddToQueue(queueEntriesForChapter(chapter, author.id, book))}
+              className="p-1 text-gray-400 hover:text-blue-400 hover:bg-gray-700 rounded transition-colors"
+              title="Add chapter to play queue"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h12M4 12h8M4 18h8m9-3h-6m3-3v6" />
+              </svg>
+            </button>
+          )}
           {onChapterEdit && (
             <button
               onClick={() => onChapterEdit(chapter)}
@@ -304,6 +318,21 @@ export default memo(function ChapterSection({
               {/* Track Title */}
               <span className="flex-1 truncate">{track.title}</span>
 
+              {onAddToQueue && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onAddToQueue([queueEntryForTrack(track, author.id, book)]);
+                  }}
+                  className="p-1 text-gray-500 hover:text-blue-400 opacity-0 group-hover:opacity-100 transition-opacity shrink-0"
+                  title="Add to play queue"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h12M4 12h8M4 18h8m9-3h-6m3-3v6" />
+                  </svg>
+                </button>
+              )}
+
               {/* Quick action icons for linked media */}
               {track.sourceVideoId && videoById.has(track.sourceVideoId) && (
                 <div className="flex items-center gap-1">
@@ -6,6 +6,11 @@ import ChordDiagram from './components/ChordDiagram';
 import ChordFretboard from './components/ChordFretboard';
 import ChordInfoPanel from './components/ChordInfoPanel';
 
+interface ChordBuilderProps {
+  initialRoot?: string | null;
+  initialType?: string | null;
+}
+
 /**
  * ChordBuilder - Interactive chord explorer and library page.
  *
@@ -19,8 +24,10 @@ import ChordInfoPanel from './components/ChordInfoPanel';
  * Layout:
  *   - Large screens: 3-column (selector | diagram | info) with fretboard below
  *   - Small screens: stacked vertically
+ *
+ * `initialRoot`/`initialType` preselect a chord, e.g. from a jam track's chord lane.
  */
-export default function ChordBuilder() {
+export default function ChordBuilder({ initialRoot, initialType }: ChordBuilderProps = {}) {
   const {
     selectedRoot,
     selectedType,
@@ -37,7 +44,7 @@ export default function ChordBuilder() {
     nextVoicing,
     prevVoicing,
     playCurrentChord,
-  } = useChordBuilder();
+  } = useChordBuilder(initialRoot, initialType);
 
   return (
     <div
@@ -67,9 +67,16 @@ const MINOR_SCALE_DEGREES = ['i', 'ii\u00B0', 'III', 'iv', 'v', 'VI', 'VII'];
 // Hook
 // ---------------------------------------------------------------------------
 
-export function useChordBuilder(): ChordBuilderState & ChordBuilderActions {
-  const [selectedRoot, setSelectedRoot] = useState('C');
-  const [selectedType, setSelectedType] = useState('Major');
+export function useChordBuilder(
+  initialRoot?: string | null,
+  initialType?: string | null,
+): ChordBuilderState & ChordBuilderActions {
+  const [selectedRoot, setSelectedRoot] = useState(() =>
+    initialRoot && getNoteIndex(initialRoot) !== -1 ? initialRoot : 'C',
+  );
+  const [selectedType, setSelectedType] = useState(() =>
+    initialType && initialType in CHORD_FORMULAS ? initialType : 'Major',
+  );
   const [currentVoicingIndex, setCurrentVoicingIndex] = useState(0);
 
   // Derived: chord symbol (e.g. "Am7")
@@ -0,0 +1,233 @@
+"use client";
+
+import { useState } from "react";
+import { JamTrackChord } from "@/types";
+import { CHORD_FORMULAS, NOTES } from "@/lib/musicTheory";
+import { getChordSymbol } from "@/components/ChordBuilder/types";
+
+/** A chord as the lane edits it; ids are assigned by the server on save. */
+export type ChordLaneChord = Pick<JamTrackChord, "start" | "end" | "root" | "chordType">;
+
+interface ChordLaneProps {
+  chords: ChordLaneChord[];
+  duration: number;
+  containerWidth: number;
+  zoom: number;
+  scrollLeft: number;
+  currentTime: number;
+  isDetecting: boolean;
+  onSeek: (time: number) => void;
+  onChange: (chords: ChordLaneChord[]) => void;
+  onDetect: () => void;
+}
+
+// A chord added into an empty stretch covers this much at most
+const NEW_CHORD_SECONDS = 2;
+// Splits closer than this to a chord's edge would leave a sliver
+const MIN_CHORD_SECONDS = 0.1;
+
+const chordTypes = Object.keys(CHORD_FORMULAS);
+
+/**
+ * Chord names along the jam track waveform, scrolled and zoomed with it.
+ * Clicking a chord seeks there and opens it for editing; clicking an empty
+ * stretch adds a chord.
+ */
+export default function ChordLane({
+  chords,
+  duration,
+  containerWidth,
+  zoom,
+  scrollLeft,
+  currentTime,
+  isDetecting,
+  onSeek,
+  onChange,
+  onDetect,
+}: ChordLaneProps) {
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const selected = selectedIndex !== null ? chords[selectedIndex] ?? null : null;
+
+  // WaveSurfer scales waveform to at least fill container
+  const waveformWidth = Math.max(containerWidth, duration * zoom);
+  const pixelsPerSecond = waveformWidth / duration;
+
+  const replaceSelected = (replacement: ChordLaneChord[]) => {
+    if (selectedIndex === null) return;
+    onChange([...chords.slice(0, selectedIndex), ...replacement, ...chords.slice(selectedIndex + 1)]);
+  };
+
+  const addChordAt = (time: number) => {
+    const before = chords.filter((c) => c.end <= time);
+    const after = chords.find((c) => c.start > time);
+    const previous = before[before.length - 1];
+    const gapStart = previous?.end ?? 0;
+    const gapEnd = after?.start ?? duration;
+    const start = Math.max(gapStart, Math.min(time, gapEnd - NEW_CHORD_SECONDS));
+    const chord: ChordLaneChord = {
+      start,
+      end: Math.min(gapEnd, start + NEW_CHORD_SECONDS),
+      // Most often the chord carries on, so start from the one before
+      root: previous?.root ?? "C",
+      chordType: previous?.chordType ?? "Major",
+    };
+    const next = [...chords, chord].sort((a, b) => a.start - b.start);
+    onChange(next);
+    setSelectedIndex(next.indexOf(chord));
+  };
+
+  const handleLaneClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (e.target !== e.currentTarget) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const time = (e.clientX - rect.left + scrollLeft) / pixelsPerSecond;
+    if (time >= 0 && time < duration) addChordAt(time);
+  };
+
+  const canSplit =
+    selected !== null &&
+    currentTime > selected.start + MIN_CHORD_SECONDS &&
+    currentTime < selected.end - MIN_CHORD_SECONDS;
+
+  return (
+    <div className="mt-1">
+      <div
+        onClick={handleLaneClick}
+        className="relative h-6 overflow-hidden rounded bg-gray-900 cursor-copy"
+        title="Click an empty spot to add a chord"
+      >
+        {chords.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center gap-2 text-[11px] text-gray-500 pointer-events-none">
+            {isDetecting ? (
+              "Detecting chords..."
+            ) : (
+              <>
+                No chords yet
+                <button
+                  onClick={onDetect}
+                  className="pointer-events-auto px-2 py-0.5 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded"
+                >
+                  Detect chords
+                </button>
+                <button
+                  onClick={() => addChordAt(currentTime)}
+                  className="pointer-events-auto px-2 py-0.5 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded"
+                >
+                  Add chord
+                </button>
+              </>
+            )}
+          </div>
+        )}
+        {chords.map((chord, index) => {
+          const left = chord.start * pixelsPerSecond - scrollLeft;
+          const width = (chord.end - chord.start) * pixelsPerSecond;
+          // Only render if within visible bounds
+          if (left + width < 0 || left > containerWidth) return null;
+
+          const isActive = currentTime >= chord.start && currentTime < chord.end;
+          const isSelected = index === selectedIndex;
+          return (
+            <button
+              key={`${chord.start}-${index}`}
+              onClick={() => {
+                setSelectedIndex(isSelected ? null : index);
+                onSeek(chord.start);
+              }}
+              className={`absolute top-0 bottom-0 px-1 border-l border-gray-900 text-left text-[10px] font-semibold truncate transition-colors ${
+                isSelected
+                  ? "bg-indigo-500 text-white"
+                  : isActive
+                    ? "bg-indigo-600/80 text-white"
+                    : "bg-indigo-900/60 hover:bg-indigo-800 text-indigo-200"
+              }`}
+              style={{ left, width }}
+              title={`${getChordSymbol(chord.root, chord.chordType)} (${chord.root} ${chord.chordType})`}
+            >
+              {getChordSymbol(chord.root, chord.chordType)}
+            </button>
+          );
+        })}
+      </div>
+
+      {selected && selectedIndex !== null && (
+        <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-gray-400">
+          <select
+            value={selected.root}
+            onChange={(e) => replaceSelected([{ ...selected, root: e.target.value }])}
+            className="px-1 py-0.5 bg-gray-700 border border-gray-600 rounded text-white"
+            aria-label="Chord root"
+          >
+            {NOTES.map((note) => (
+              <option key={note} value={note}>
+                {note}
+              </option>
+            ))}
+          </select>
+          <select
+            value={selected.chordType}
+            onChange={(e) => replaceSelected([{ ...selected, chordType: e.target.value }])}
+            className="px-1 py-0.5 bg-gray-700 border border-gray-600 rounded text-white"
+            aria-label="Chord type"
+          >
+            {chordTypes.map((type) => (
+              <option key={type} value={type}>
+                {getChordSymbol(selected.root, type)} ({type})
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => {
+              replaceSelected([
+                { ...selected, end: currentTime },
+                { ...selected, start: currentTime },
+              ]);
+              setSelectedIndex(selectedIndex + 1);
+            }}
+            disabled={!canSplit}
+            className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:hover:bg-gray-700 text-gray-200 rounded"
+            title="Split this chord at the playhead"
+          >
+            Split at playhead
+          </button>
+          <button
+            onClick={() => {
+              replaceSelected([]);
+              setSelectedIndex(null);
+            }}
+            className="px-2 py-0.5 bg-gray-700 hover:bg-red-700 text-gray-200 rounded"
+          >
+            Delete
+          </button>
+          {/* New tab, so the jam track keeps playing */}
+          <a
+            href={`/chords?root=${encodeURIComponent(selected.root)}&type=${encodeURIComponent(selected.chordType)}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded"
+          >
+            Open in Chord Builder
+          </a>
+          <button
+            onClick={() => {
+              if (confirm("Replace all chords with a fresh detection?")) {
+                setSelectedIndex(null);
+                onDetect();
+              }
+            }}
+            disabled={isDetecting}
+            className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 text-gray-200 rounded"
+          >
+            {isDetecting ? "Detecting..." : "Re-detect"}
+          </button>
+          <button
+            onClick={() => setSelectedIndex(null)}
+            className="ml-auto px-1 text-gray-500 hover:text-white"
+            aria-label="Close chord editor"
+          >
+            ✕
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import { useState } from "react";
+import { ClickTrackSettings } from "@/lib/clickTrack";
+
+interface ClickTrackControlsProps {
+  settings: ClickTrackSettings;
+  onSettingsChange: (settings: ClickTrackSettings) => void;
+  hasTempo: boolean;
+  beatOffset: number | null;
+  onBeatOffsetChange: (offset: number) => void;
+}
+
+const NUDGE_SECONDS = 0.01;
+
+/** Player button and popover for the metronome click over the track. */
+export default function ClickTrackControls({
+  settings,
+  onSettingsChange,
+  hasTempo,
+  beatOffset,
+  onBeatOffsetChange,
+}: ClickTrackControlsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const isOn = hasTempo && !settings.muted;
+  const offset = beatOffset ?? 0;
+
+  const nudge = (delta: number) => onBeatOffsetChange(Math.max(0, Math.round((offset + delta) * 1000) / 1000));
+
+  return (
+    <div className="relative shrink-0">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`h-8 flex items-center gap-1 px-2 rounded-full text-xs font-medium transition-colors ${
+          isOn
+            ? "bg-yellow-600 hover:bg-yellow-700 text-white"
+            : "bg-gray-700 hover:bg-gray-600 text-gray-400"
+        }`}
+        title="Click track"
+        aria-expanded={isOpen}
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M9 3h6l4 18H5L9 3zM12 15l5-9" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 w-60 bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-3 z-50 text-xs">
+          <h4 className="text-sm font-medium text-white mb-2">Click Track</h4>
+          {!hasTempo ? (
+            <p className="text-gray-400">Set or detect a tempo first.</p>
+          ) : (
+            <div className="space-y-3">
+              <label className="flex items-center gap-2 text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={!settings.muted}
+                  onChange={(e) => onSettingsChange({ ...settings, muted: !e.target.checked })}
+                  className="rounded bg-gray-700 border-gray-600"
+                />
+                Click along with the track
+              </label>
+
+              <label className="flex items-center gap-2 text-gray-400">
+                Volume
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  value={settings.volume}
+                  onChange={(e) => onSettingsChange({ ...settings, volume: parseInt(e.target.value, 10) })}
+                  className="flex-1 accent-yellow-500"
+                />
+                <span className="w-7 text-right tabular-nums text-gray-300">{settings.volume}</span>
+              </label>
+
+              <div className="text-gray-400">
+                First beat at
+                <div className="flex items-center gap-1 mt-1">
+                  <button
+                    onClick={() => nudge(-NUDGE_SECONDS)}
+                    className="w-6 h-6 bg-gray-700 hover:bg-gray-600 rounded text-gray-200"
+                    title="Earlier by 10 ms"
+                  >
+                    −
+                  </button>
+                  {/* Committed on blur so partial input isn't clamped while typing */}
+                  <input
+                    key={offset}
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    defaultValue={offset}
+                    onBlur={(e) => {
+                      const value = parseFloat(e.target.value);
+                      if (!Number.isNaN(value)) onBeatOffsetChange(Math.max(0, value));
+                    }}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") (e.target as HTMLInputElement).blur();
+                    }}
+                    className="w-20 px-2 py-0.5 bg-gray-700 border border-gray-600 rounded text-center text-white focus:outline-none focus:border-green-500"
+                  />
+                  <button
+                    onClick={() => nudge(NUDGE_SECONDS)}
+                    className="w-6 h-6 bg-gray-700 hover:bg-gray-600 rounded text-gray-200"
+                    title="Later by 10 ms"
+                  >
+                    +
+                  </button>
+                  <span className="text-gray-500">sec</span>
+                </div>
+                {beatOffset === null && (
+                  <p className="text-gray-500 mt-1">Not detected yet; the click starts from 0.</p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { DatabaseBackup, DatabaseBackupReason } from '@/types';
+
+const REASON_LABELS: Record<DatabaseBackupReason, string> = {
+  manual: 'Manual',
+  scheduled: 'Scheduled',
+  'pre-restore': 'Before restore',
+};
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Tools card for database snapshots: create, download, restore, delete, plus practice history export. */
+export default function DatabaseBackupPanel() {
+  const [backups, setBackups] = useState<DatabaseBackup[]>([]);
+  const [settings, setSettings] = useState<{ retention: number; scheduleHours: number | null } | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [result, setResult] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const fetchBackups = async () => {
+    try {
+      const res = await fetch('/api/backups');
+      const data = await res.json();
+      if (res.ok) {
+        setBackups(data.backups);
+        setSettings({ retention: data.retention, scheduleHours: data.scheduleHours });
+      } else {
+        setResult({ type: 'error', message: data.error || 'Failed to load backups' });
+      }
+    } catch (err) {
+      console.error('Failed to fetch backups:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBackups();
+  }, []);
+
+  const handleCreate = async () => {
+    setBusy('create');
+    setResult(null);
+    try {
+      const res = await fetch('/api/backups', { method: 'POST' });
+      const data = await res.json();
+      if (res.ok) {
+        setResult({ type: 'success', message: `Backup created: ${data.id}` });
+        await fetchBackups();
+      } else {
+        setResult({ type: 'error', message: data.error || 'Backup failed' });
+      }
+    } catch {
+      setResult({ type: 'error', message: 'An unexpected error occurred' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRestore = async (backup: DatabaseBackup) => {
+    if (!confirm(`Replace the current library database with the backup from ${new Date(backup.createdAt).toLocaleString()}? The current database is backed up first.`)) return;
+    setBusy(backup.id);
+    setResult(null);
+    try {
+      const res = await fetch(`/api/backups/${encodeURIComponent(backup.id)}/restore`, { method: 'POST' });
+      const data = await res.json();
+      if (res.ok) {
+        setResult({ type: 'success', message: 'Backup restored. Reload the page to see the restored library.' });
+        await fetchBackups();
+      } else {
+        setResult({ type: 'error', message: data.error || 'Restore failed' });
+      }
+    } catch {
+      setResult({ type: 'error', message: 'An unexpected error occurred' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDelete = async (backup: DatabaseBackup) => {
+    if (!confirm(`Delete backup ${backup.id}?`)) return;
+    setBusy(backup.id);
+    setResult(null);
+    try {
+      const res = await fetch(`/api/backups/${encodeURIComponent(backup.id)}`, { method: 'DELETE' });
+      if (res.ok) {
+        await fetchBackups();
+      } else {
+        const data = await res.json();
+        setResult({ type: 'error', message: data.error || 'Delete failed' });
+      }
+    } catch {
+      setResult({ type: 'error', message: 'An unexpected error occurred' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg border border-gray-700 p-6">
+      <h2 className="text-lg font-semibold text-white mb-2">Database Backups</h2>
+      <p className="text-gray-400 text-sm mb-6">
+        Snapshot the library database (tracks, markers, tabs, practice history) and restore it later.
+        {settings && (
+          <>
+            {' '}Keeping the newest {settings.retention}
+            {settings.scheduleHours ? `, with an automatic backup every ${settings.scheduleHours}h` : ''}.
+          </>
+        )}
+      </p>
+
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={handleCreate}
+            disabled={busy !== null}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white text-sm font-medium rounded-md transition-colors"
+          >
+            {busy === 'create' ? 'Backing up...' : 'Back Up Now'}
+          </button>
+          <span className="text-sm text-gray-400">
+            Practice history:{' '}
+            <a href="/api/metrics/sessions?format=csv" download className="text-blue-400 hover:text-blue-300">CSV</a>
+            {' · '}
+            <a href="/api/metrics/sessions?format=json" download className="text-blue-400 hover:text-blue-300">JSON</a>
+          </span>
+        </div>
+
+        {isLoading ? (
+          <p className="text-gray-400 text-sm">Loading backups...</p>
+        ) : backups.length === 0 ? (
+          <p className="text-gray-400 text-sm">No backups yet.</p>
+        ) : (
+          <div className="space-y-1 max-h-72 overflow-y-auto">
+            {backups.map((backup) => (
+              <div key={backup.id} className="flex items-center gap-2 bg-gray-700 rounded p-2 text-sm">
+                <span className="text-gray-200 flex-1 truncate" title={backup.id}>
+                  {new Date(backup.createdAt).toLocaleString()}
+                </span>
+                <span className="text-xs text-gray-400 shrink-0">{REASON_LABELS[backup.reason]}</span>
+                <span className="text-xs text-gray-500 shrink-0 w-16 text-right">{formatSize(backup.size)}</span>
+                <a
+                  href={`/api/backups/${encodeURIComponent(backup.id)}`}
+                  download
+                  className="px-2 py-1 text-xs rounded-md bg-gray-600 hover:bg-gray-500 text-white transition-colors shrink-0"
+                >
+                  Download
+                </a>
+                <button
+                  onClick={() => handleRestore(backup)}
+                  disabled={busy !== null}
+                  className="px-2 py-1 text-xs rounded-md bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50 transition-colors shrink-0"
+                >
+                  {busy === backup.id ? '...' : 'Restore'}
+                </button>
+                <button
+                  onClick={() => handleDelete(backup)}
+                  disabled={busy !== null}
+                  className="text-gray-400 hover:text-red-400 disabled:opacity-30 p-1 shrink-0"
+                  title="Delete"
+                >
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {result && (
+          <p className={`text-sm ${result.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>
+            {result.message}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
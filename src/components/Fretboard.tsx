@@ -5,6 +5,7 @@ import {
   NOTES,
   SCALE_FORMULAS,
   getNoteAtFret,
+  getNoteIndex,
 } from '@/lib/musicTheory';
 import type { ScaleType } from '@/lib/musicTheory';
 import {
@@ -24,11 +25,23 @@ import { useNoteTrainer, NoteTrainerControls } from '@/components/NoteTrainer';
 // Component
 // ---------------------------------------------------------------------------
 
-export default function Fretboard() {
+interface FretboardProps {
+  /** Preselected key and scale, e.g. from a jam track's scale suggestions. */
+  initialKey?: string | null;
+  initialScale?: string | null;
+  /** 'trainer' opens the Note Trainer, 'exercise' the practice exercise tab. */
+  initialMode?: string | null;
+}
+
+export default function Fretboard({ initialKey, initialScale, initialMode }: FretboardProps = {}) {
   const [showNoteNames, setShowNoteNames] = useState(true);
-  const [selectedScale, setSelectedScale] = useState<ScaleType>('None');
-  const [selectedKey, setSelectedKey] = useState('C');
-  const [trainerMode, setTrainerMode] = useState(false);
+  const [selectedScale, setSelectedScale] = useState<ScaleType>(() =>
+    initialScale && initialScale in SCALE_FORMULAS ? initialScale : 'None',
+  );
+  const [selectedKey, setSelectedKey] = useState(() =>
+    initialKey && getNoteIndex(initialKey) !== -1 ? initialKey : 'C',
+  );
+  const [trainerMode, setTrainerMode] = useState(initialMode === 'trainer');
 
   const enhancements = useFretboardEnhancements({
     selectedKey,
@@ -216,7 +229,11 @@ export default function Fretboard() {
         {!trainer.isRunning && (
           <div className="mt-6 w-full flex flex-col lg:flex-row gap-4 items-start">
             <div className="flex-1 min-w-0">
-              <ScaleReferenceTabs root={selectedKey} scaleType={selectedScale} />
+              <ScaleReferenceTabs
+                root={selectedKey}
+                scaleType={selectedScale}
+                initialTab={initialMode === 'exercise' ? 'practice' : undefined}
+              />
             </div>
             <ScaleSongsPanel root={selectedKey} scaleType={selectedScale} />
           </div>
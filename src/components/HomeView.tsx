@@ -1,8 +1,9 @@
 "use client";
 
 import { useState, useEffect, useMemo } from "react";
-import { AuthorSummary } from "@/types";
+import { AuthorSummary, JamTrack, Routine } from "@/types";
 import { getBookCoverUrl } from "@/lib/covers";
+import RoutinesPanel from "./RoutinesPanel";
 
 interface FavoriteTrack {
   trackId: string;
@@ -64,9 +65,12 @@ function isToday(iso: string): boolean {
 interface Props {
   onGoToTrack: (trackId: string | null, jamTrackId: string | null, authorId: string | null, bookId: string | null, bookVideoId?: string | null, videoId?: string | null) => void;
   authors: AuthorSummary[];
+  /** The whole jam track library, for picking routine blocks. */
+  allJamTracks: JamTrack[];
+  onStartRoutine: (routine: Routine) => void;
 }
 
-export default function HomeView({ onGoToTrack, authors }: Props) {
+export default function HomeView({ onGoToTrack, authors, allJamTracks, onStartRoutine }: Props) {
   const [tracks, setTracks] = useState<FavoriteTrack[]>([]);
   const [jamTracks, setJamTracks] = useState<FavoriteJamTrack[]>([]);
   const [inProgressItems, setInProgressItems] = useState<InProgressItem[]>([]);
@@ -242,6 +246,9 @@ export default function HomeView({ onGoToTrack, authors }: Props) {
 
           {/* Right column - 50% */}
           <div className="lg:w-1/2 min-h-0 flex flex-col gap-4">
+              {/* Routines */}
+              <RoutinesPanel authors={authors} jamTracks={allJamTracks} onStartRoutine={onStartRoutine} />
+
               {/* Favorites */}
               {hasFavorites && (
                 <div className="flex-1 min-h-0 flex flex-col bg-gray-800 rounded-lg border border-gray-700 p-4">
@@ -0,0 +1,344 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  DEFAULT_INPUT_BINDINGS,
+  INPUT_ACTIONS,
+  InputAction,
+  InputBindingSettings,
+  InputTrigger,
+  bindTrigger,
+  captureNextTrigger,
+  getInputBindingSettings,
+  handleInputTrigger,
+  sameTrigger,
+  setInputBindingSettings,
+  subscribeToInputBindingChanges,
+  subscribeToInputTriggers,
+  triggerLabel,
+} from '@/lib/inputBindings';
+
+type SimulatedSource = 'keyboard' | 'note' | 'cc' | 'program' | 'gamepad';
+
+const SIMULATED_SOURCES: { id: SimulatedSource; label: string }[] = [
+  { id: 'keyboard', label: 'Keyboard key' },
+  { id: 'note', label: 'MIDI note' },
+  { id: 'cc', label: 'MIDI CC (foot switch)' },
+  { id: 'program', label: 'MIDI program change' },
+  { id: 'gamepad', label: 'Gamepad / pedal button' },
+];
+
+const MAX_LOG_ENTRIES = 8;
+
+function actionLabel(action: InputAction): string {
+  return INPUT_ACTIONS.find((a) => a.id === action)?.label ?? action;
+}
+
+/**
+ * Tools card for the input bindings: rebind actions by pressing a key, foot
+ * switch or pedal (learn mode), turn on MIDI, and try bindings out with a
+ * simulated device.
+ */
+export default function InputBindingsPanel() {
+  const [settings, setSettings] = useState<InputBindingSettings>(() => getInputBindingSettings());
+  const [learning, setLearning] = useState<InputAction | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [midiInputs, setMidiInputs] = useState<string[] | null>(null);
+  const [midiError, setMidiError] = useState<string | null>(null);
+  const [gamepads, setGamepads] = useState<string[]>([]);
+  const [log, setLog] = useState<{ id: number; trigger: InputTrigger; action: InputAction | null }[]>([]);
+
+  // Simulated device
+  const [simSource, setSimSource] = useState<SimulatedSource>('cc');
+  const [simKey, setSimKey] = useState('a');
+  const [simNumber, setSimNumber] = useState(64);
+  const [simChannel, setSimChannel] = useState(1);
+
+  useEffect(() => subscribeToInputBindingChanges(setSettings), []);
+
+  useEffect(() => {
+    let nextId = 0;
+    return subscribeToInputTriggers((trigger, action) => {
+      nextId += 1;
+      const id = nextId;
+      setLog((prev) => [{ id, trigger, action }, ...prev].slice(0, MAX_LOG_ENTRIES));
+    });
+  }, []);
+
+  // Learn mode: the next press from any device is bound to the action
+  useEffect(() => {
+    if (!learning) return;
+    return captureNextTrigger((trigger) => {
+      const current = getInputBindingSettings();
+      const { bindings, movedFrom } = bindTrigger(current.bindings, learning, trigger);
+      setInputBindingSettings({ ...current, bindings });
+      setNotice(
+        movedFrom
+          ? `${triggerLabel(trigger)} moved from "${actionLabel(movedFrom)}" to "${actionLabel(learning)}".`
+          : `${triggerLabel(trigger)} now triggers "${actionLabel(learning)}".`
+      );
+      setLearning(null);
+    });
+  }, [learning]);
+
+  // Browsers only report gamepads once a button has been pressed on them
+  useEffect(() => {
+    const update = () => {
+      setGamepads(navigator.getGamepads().flatMap((gamepad) => (gamepad ? [gamepad.id] : [])));
+    };
+    window.addEventListener('gamepadconnected', update);
+    window.addEventListener('gamepaddisconnected', update);
+    return () => {
+      window.removeEventListener('gamepadconnected', update);
+      window.removeEventListener('gamepaddisconnected', update);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!settings.midiEnabled) return;
+    let access: MIDIAccess | null = null;
+    const update = () => {
+      const names: string[] = [];
+      access?.inputs.forEach((input) => names.push(input.name || 'Unnamed MIDI input'));
+      setMidiInputs(names);
+    };
+    const supported = 'requestMIDIAccess' in navigator;
+    const request = supported
+      ? navigator.requestMIDIAccess()
+      : Promise.reject(new Error('This browser has no Web MIDI support.'));
+    request
+      .then((midi) => {
+        access = midi;
+        midi.addEventListener('statechange', update);
+        setMidiError(null);
+        update();
+      })
+      .catch((err) => {
+        console.error('MIDI access failed:', err);
+        setMidiError(
+          supported
+            ? 'MIDI access was blocked. Allow it in the browser\'s site settings.'
+            : 'This browser has no Web MIDI support.'
+        );
+      });
+    return () => access?.removeEventListener('statechange', update);
+  }, [settings.midiEnabled]);
+
+  const save = (next: InputBindingSettings) => {
+    setInputBindingSettings(next);
+    setSettings(next);
+  };
+
+  const removeTrigger = (action: InputAction, trigger: InputTrigger) => {
+    save({
+      ...settings,
+      bindings: { ...settings.bindings, [action]: settings.bindings[action].filter((t) => !sameTrigger(t, trigger)) },
+    });
+  };
+
+  const handleResetDefaults = () => {
+    if (!confirm('Reset all bindings to the defaults? MIDI and pedal bindings are removed.')) return;
+    setLearning(null);
+    setNotice(null);
+    save({ ...settings, bindings: DEFAULT_INPUT_BINDINGS });
+  };
+
+  const simulatedTrigger = (): InputTrigger => {
+    switch (simSource) {
+      case 'keyboard':
+        return { source: 'keyboard', key: simKey.length === 1 ? simKey.toLowerCase() : simKey };
+      case 'gamepad':
+        return { source: 'gamepad', button: Math.max(0, simNumber - 1) };
+      default:
+        return { source: 'midi', type: simSource, channel: simChannel, number: Math.max(0, Math.min(127, simNumber)) };
+    }
+  };
+
+  const groups = INPUT_ACTIONS.reduce<{ group: string; actions: typeof INPUT_ACTIONS }[]>((acc, action) => {
+    const group = acc.find((g) => g.group === action.group);
+    if (group) group.actions.push(action);
+    else acc.push({ group: action.group, actions: [action] });
+    return acc;
+  }, []);
+
+  return (
+    <div className="bg-gray-800 rounded-lg border border-gray-700 p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-lg font-semibold text-white">Input Bindings</h2>
+        <button
+          onClick={handleResetDefaults}
+          className="text-sm text-gray-400 hover:text-white transition-colors"
+        >
+          Reset to defaults
+        </button>
+      </div>
+      <p className="text-gray-400 text-sm mb-6">
+        Control the player and sheet music hands-free with keyboard shortcuts, MIDI foot controllers and
+        gamepad or Bluetooth page-turner pedals. Click Learn, then press the key, switch or pedal to bind it.
+        Bindings are saved in this browser.
+      </p>
+
+      {/* Devices */}
+      <div className="space-y-2 mb-6 text-sm">
+        <label className="flex items-center gap-2 text-gray-300">
+          <input
+            type="checkbox"
+            checked={settings.midiEnabled}
+            onChange={(e) => {
+              if (!e.target.checked) {
+                setMidiInputs(null);
+                setMidiError(null);
+              }
+              save({ ...settings, midiEnabled: e.target.checked });
+            }}
+            className="accent-green-500"
+          />
+          Listen to MIDI devices
+        </label>
+        {settings.midiEnabled && (
+          <p className={`ml-6 text-xs ${midiError ? 'text-red-400' : 'text-gray-500'}`}>
+            {midiError
+              ?? (midiInputs === null
+                ? 'Waiting for MIDI access...'
+                : midiInputs.length > 0
+                  ? `Inputs: ${midiInputs.join(', ')}`
+                  : 'No MIDI inputs connected.')}
+          </p>
+        )}
+        <p className="text-xs text-gray-500">
+          {gamepads.length > 0
+            ? `Gamepads / pedals: ${gamepads.join(', ')}`
+            : 'Gamepads and USB pedals appear once one of their buttons is pressed. Bluetooth page turners usually act as a keyboard.'}
+        </p>
+      </div>
+
+      {notice && <p className="text-sm text-green-400 mb-4">{notice}</p>}
+
+      {/* Bindings */}
+      <div className="space-y-5">
+        {groups.map((group) => (
+          <div key={group.group}>
+            <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wide mb-2">{group.group}</h3>
+            <div className="space-y-1.5">
+              {group.actions.map((action) => (
+                <div key={action.id} className="flex items-center gap-3">
+                  <span className="text-gray-300 text-sm w-48 shrink-0">{action.label}</span>
+                  <div className="flex flex-wrap items-center gap-1 flex-1 min-w-0">
+                    {settings.bindings[action.id].map((trigger) => (
+                      <span
+                        key={triggerLabel(trigger)}
+                        className="flex items-center gap-1 px-2 py-0.5 bg-gray-700 border border-gray-600 rounded text-xs text-gray-200 font-mono"
+                      >
+                        {triggerLabel(trigger)}
+                        <button
+                          onClick={() => removeTrigger(action.id, trigger)}
+                          className="text-gray-500 hover:text-red-400"
+                          title="Remove binding"
+                        >
+                          ×
+                        </button>
+                      </span>
+                    ))}
+                    {settings.bindings[action.id].length === 0 && learning !== action.id && (
+                      <span className="text-xs text-gray-600">Unbound</span>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => {
+                      setNotice(null);
+                      setLearning(learning === action.id ? null : action.id);
+                    }}
+                    className={`shrink-0 px-2 py-1 text-xs rounded transition-colors ${
+                      learning === action.id
+                        ? 'bg-green-600 text-white animate-pulse'
+                        : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                    }`}
+                  >
+                    {learning === action.id ? 'Press now… (cancel)' : 'Learn'}
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Simulated device */}
+      <div className="mt-6 pt-6 border-t border-gray-700">
+        <h3 className="text-sm font-medium text-white mb-1">Test with a simulated device</h3>
+        <p className="text-gray-400 text-xs mb-3">
+          Send a press as if it came from a controller, to check a binding (or to learn one) without the hardware.
+        </p>
+        <div className="flex flex-wrap items-end gap-2 text-sm">
+          <select
+            value={simSource}
+            onChange={(e) => setSimSource(e.target.value as SimulatedSource)}
+            className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:border-green-500"
+          >
+            {SIMULATED_SOURCES.map((source) => (
+              <option key={source.id} value={source.id}>{source.label}</option>
+            ))}
+          </select>
+          {simSource === 'keyboard' ? (
+            <input
+              value={simKey}
+              onChange={(e) => setSimKey(e.target.value)}
+              placeholder="Key, e.g. a or PageDown"
+              className="w-40 px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:border-green-500"
+            />
+          ) : (
+            <label className="flex flex-col text-xs text-gray-400">
+              {simSource === 'gamepad' ? 'Button' : simSource === 'note' ? 'Note' : simSource === 'cc' ? 'Controller' : 'Program'}
+              <input
+                type="number"
+                min={simSource === 'gamepad' ? 1 : 0}
+                max={127}
+                value={simNumber}
+                onChange={(e) => setSimNumber(parseInt(e.target.value, 10) || 0)}
+                className="w-20 px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:border-green-500"
+              />
+            </label>
+          )}
+          {simSource !== 'keyboard' && simSource !== 'gamepad' && (
+            <label className="flex flex-col text-xs text-gray-400">
+              Channel
+              <input
+                type="number"
+                min={1}
+                max={16}
+                value={simChannel}
+                onChange={(e) => setSimChannel(Math.max(1, Math.min(16, parseInt(e.target.value, 10) || 1)))}
+                className="w-16 px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:border-green-500"
+              />
+            </label>
+          )}
+          <button
+            onClick={() => handleInputTrigger(simulatedTrigger())}
+            disabled={simSource === 'keyboard' && !simKey}
+            className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-md transition-colors"
+          >
+            Press
+          </button>
+        </div>
+
+        <div className="mt-4">
+          <h4 className="text-xs font-medium text-gray-400 uppercase tracking-wide mb-1">Recent input</h4>
+          {log.length === 0 ? (
+            <p className="text-xs text-gray-600">Press a bound key, switch or pedal (or the Press button) to see it here.</p>
+          ) : (
+            <ul className="space-y-0.5 text-xs font-mono">
+              {log.map((entry) => (
+                <li key={entry.id} className="flex justify-between gap-4">
+                  <span className="text-gray-300">{triggerLabel(entry.trigger)}</span>
+                  <span className={entry.action ? 'text-green-400' : 'text-gray-600'}>
+                    {entry.action ? actionLabel(entry.action) : 'not bound'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,12 +2,14 @@
 
 import { useState, useRef, useEffect } from 'react';
 import type { JamTrack } from '@/types';
+import JamTrackKeyControls from './JamTrackKeyControls';
 
 interface JamTrackCompactSelectorProps {
   jamTracks: JamTrack[];
   currentJamTrack: JamTrack;
   onJamTrackSelect: (jamTrack: JamTrack) => void;
   onJamTrackUpdate?: (jamTrackId: string, title: string, tempo: number | null, timeSignature: string) => Promise<void>;
+  onJamTrackKeyChange?: (jamTrackId: string, rootNote: string | null, scaleType: string | null) => Promise<void>;
   onUpload?: (files: FileList) => Promise<void>;
   isUploading?: boolean;
   onYouTubeImport?: (url: string, title?: string) => Promise<void>;
@@ -19,6 +21,7 @@ export default function JamTrackCompactSelector({
   currentJamTrack,
   onJamTrackSelect,
   onJamTrackUpdate,
+  onJamTrackKeyChange,
   onUpload,
   isUploading,
   onYouTubeImport,
@@ -123,6 +126,9 @@ export default function JamTrackCompactSelector({
           </svg>
         </button>
 
+        {/* Key and scale suggestions */}
+        <JamTrackKeyControls jamTrack={currentJamTrack} onKeyChange={onJamTrackKeyChange} />
+
         {/* Edit Button */}
         {onJamTrackUpdate && (
           <button
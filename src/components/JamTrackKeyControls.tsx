@@ -0,0 +1,178 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { JamTrack } from "@/types";
+import { NOTES, SCALE_FORMULAS, suggestScalesForKey } from "@/lib/musicTheory";
+
+interface JamTrackKeyControlsProps {
+  jamTrack: JamTrack;
+  onKeyChange?: (jamTrackId: string, rootNote: string | null, scaleType: string | null) => Promise<void>;
+}
+
+// Below this the detected key is shown as a guess to check by ear
+const LOW_CONFIDENCE = 0.5;
+
+const keyScaleTypes = Object.keys(SCALE_FORMULAS).filter((s) => s !== "None");
+
+/** The key to play in: set by hand, else detected, else unknown. */
+function getJamTrackKey(jamTrack: JamTrack): { rootNote: string; scaleType: string; isManual: boolean } | null {
+  if (jamTrack.rootNote && jamTrack.scaleType) {
+    return { rootNote: jamTrack.rootNote, scaleType: jamTrack.scaleType, isManual: true };
+  }
+  if (jamTrack.detectedRootNote && jamTrack.detectedScaleType) {
+    return { rootNote: jamTrack.detectedRootNote, scaleType: jamTrack.detectedScaleType, isManual: false };
+  }
+  return null;
+}
+
+/**
+ * Key button for a jam track, with a popover to correct the key and links to
+ * scales that fit it. Scales open in the Scale Explorer in a new tab, so the
+ * track keeps playing.
+ */
+export default function JamTrackKeyControls({ jamTrack, onKeyChange }: JamTrackKeyControlsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const key = getJamTrackKey(jamTrack);
+  const hasDetectedKey = jamTrack.detectedRootNote !== null && jamTrack.detectedScaleType !== null;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    document.addEventListener("keydown", handleEscape);
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+      document.removeEventListener("keydown", handleEscape);
+    };
+  }, [isOpen]);
+
+  const changeKey = async (rootNote: string | null, scaleType: string | null) => {
+    if (!onKeyChange) return;
+    setIsSaving(true);
+    try {
+      await onKeyChange(jamTrack.id, rootNote, scaleType);
+    } catch (error) {
+      console.error("Failed to save jam track key:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="relative shrink-0" ref={containerRef}>
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          setIsOpen(!isOpen);
+        }}
+        className="flex items-center gap-1 px-2 py-0.5 bg-gray-700 hover:bg-gray-600 rounded text-xs text-gray-300 transition-colors"
+        title="Key and scales to solo with"
+        aria-expanded={isOpen}
+      >
+        Key:
+        <span className="font-medium text-white">{key ? `${key.rootNote} ${key.scaleType}` : "unknown"}</span>
+        {key && !key.isManual && jamTrack.keyConfidence !== null && jamTrack.keyConfidence < LOW_CONFIDENCE && (
+          <span className="text-amber-400" title="Low confidence">?</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div
+          onClick={(e) => e.stopPropagation()}
+          className="absolute top-full mt-2 left-0 w-72 bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-3 z-50 text-xs"
+        >
+          <h4 className="text-sm font-medium text-white mb-2">Key</h4>
+          <div className="flex items-center gap-2">
+            <select
+              value={key?.rootNote ?? ""}
+              onChange={(e) => changeKey(e.target.value, key?.scaleType ?? "Major")}
+              disabled={!onKeyChange || isSaving}
+              className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white focus:outline-none focus:border-purple-500"
+              aria-label="Key root"
+            >
+              {!key && <option value="">-</option>}
+              {NOTES.map((note) => (
+                <option key={note} value={note}>
+                  {note}
+                </option>
+              ))}
+            </select>
+            <select
+              value={key?.scaleType ?? ""}
+              onChange={(e) => changeKey(key?.rootNote ?? "C", e.target.value)}
+              disabled={!onKeyChange || isSaving}
+              className="flex-1 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white focus:outline-none focus:border-purple-500"
+              aria-label="Key scale"
+            >
+              {!key && <option value="">-</option>}
+              {keyScaleTypes.map((scale) => (
+                <option key={scale} value={scale}>
+                  {scale}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <p className="text-gray-500 mt-1">
+            {key?.isManual ? (
+              <>
+                Set by hand
+                {hasDetectedKey && (
+                  <>
+                    {" "}
+                    - detected {jamTrack.detectedRootNote} {jamTrack.detectedScaleType}.{" "}
+                    <button
+                      onClick={() => changeKey(null, null)}
+                      disabled={isSaving}
+                      className="text-purple-300 hover:text-purple-200"
+                    >
+                      Use detected
+                    </button>
+                  </>
+                )}
+              </>
+            ) : key && jamTrack.keyConfidence !== null ? (
+              <>
+                Detected, {Math.round(jamTrack.keyConfidence * 100)}% confidence
+                {jamTrack.keyConfidence < LOW_CONFIDENCE && "; check it by ear"}
+              </>
+            ) : (
+              "Not detected yet; set it by hand or wait for background analysis."
+            )}
+          </p>
+
+          {key && (
+            <>
+              <h4 className="text-sm font-medium text-white mt-3 mb-1">Solo with</h4>
+              <div className="flex flex-wrap gap-1">
+                {suggestScalesForKey(key.scaleType).map(({ scaleType, outsideNotes }) => (
+                  <a
+                    key={scaleType}
+                    href={`/fretboard?key=${encodeURIComponent(key.rootNote)}&scale=${encodeURIComponent(scaleType)}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="px-2 py-0.5 bg-purple-600/20 hover:bg-purple-600/40 rounded text-purple-200"
+                    title={
+                      outsideNotes === 0
+                        ? "Every note is in the key"
+                        : "One note outside the key, for color"
+                    }
+                  >
+                    {key.rootNote} {scaleType}
+                  </a>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
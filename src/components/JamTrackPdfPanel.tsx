@@ -0,0 +1,312 @@
+"use client";
+
+import { useState, useRef, ReactNode } from "react";
+import { JamTrack, JamTrackPdf, PageSyncPoint } from "@/types";
+import { formatDuration } from "@/lib/formatting";
+import PdfViewer from "./PdfViewer";
+
+interface JamTrackPdfPanelProps {
+  jamTrack: JamTrack;
+  /** Playback position, for page sync. */
+  currentTime: number;
+  onPdfsChange: (jamTrackId: string, pdfs: JamTrackPdf[]) => void;
+  /** Guitar Pro viewer shown as the first tab, when the jam track has a tab file. */
+  guitarPro?: ReactNode;
+}
+
+const GP_TAB = "gp";
+
+/**
+ * Tabbed sheet music for a jam track: its Guitar Pro tab and named PDFs,
+ * which can be added, renamed, dragged into order and deleted. Each PDF turns
+ * its own pages from sync points added at the playhead.
+ */
+export default function JamTrackPdfPanel({ jamTrack, currentTime, onPdfsChange, guitarPro }: JamTrackPdfPanelProps) {
+  const pdfs = jamTrack.pdfs ?? [];
+  const [selectedTab, setSelectedTab] = useState<string | null>(null);
+  const [pages, setPages] = useState<Record<string, number>>({});
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const [showSyncPoints, setShowSyncPoints] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dragId, setDragId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Fall back to the first tab when nothing (or a deleted PDF) is selected
+  const activeTab =
+    selectedTab === GP_TAB && guitarPro
+      ? GP_TAB
+      : pdfs.find((pdf) => pdf.id === selectedTab)?.id ?? (guitarPro ? GP_TAB : pdfs[0]?.id ?? null);
+  const activePdf = pdfs.find((pdf) => pdf.id === activeTab) ?? null;
+
+  const updatePdf = (pdfId: string, update: (pdf: JamTrackPdf) => JamTrackPdf) => {
+    onPdfsChange(jamTrack.id, pdfs.map((pdf) => (pdf.id === pdfId ? update(pdf) : pdf)));
+  };
+
+  const handleUpload = async (file: File) => {
+    setIsUploading(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append("pdf", file);
+      const res = await fetch(`/api/jamtracks/${jamTrack.id}/pdfs`, { method: "POST", body: formData });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to upload PDF");
+      }
+      const pdf: JamTrackPdf = await res.json();
+      onPdfsChange(jamTrack.id, [...pdfs, pdf]);
+      setSelectedTab(pdf.id);
+    } catch (err) {
+      console.error("Error uploading jam track PDF:", err);
+      setError(err instanceof Error ? err.message : "Failed to upload PDF");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleRename = async (pdfId: string) => {
+    const name = renameValue.trim();
+    setRenamingId(null);
+    if (!name || name === pdfs.find((pdf) => pdf.id === pdfId)?.name) return;
+    try {
+      const res = await fetch(`/api/jamtracks/${jamTrack.id}/pdfs/${pdfId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      if (res.ok) updatePdf(pdfId, (pdf) => ({ ...pdf, name }));
+    } catch (err) {
+      console.error("Error renaming jam track PDF:", err);
+    }
+  };
+
+  const handleDelete = async (pdf: JamTrackPdf) => {
+    if (!confirm(`Delete "${pdf.name}"? The PDF file is removed too.`)) return;
+    try {
+      const res = await fetch(`/api/jamtracks/${jamTrack.id}/pdfs/${pdf.id}`, { method: "DELETE" });
+      if (res.ok) onPdfsChange(jamTrack.id, pdfs.filter((p) => p.id !== pdf.id));
+    } catch (err) {
+      console.error("Error deleting jam track PDF:", err);
+    }
+  };
+
+  const handleDrop = async (targetId: string) => {
+    const fromIndex = pdfs.findIndex((pdf) => pdf.id === dragId);
+    const toIndex = pdfs.findIndex((pdf) => pdf.id === targetId);
+    if (fromIndex === -1 || toIndex === -1 || fromIndex === toIndex) return;
+    const next = [...pdfs];
+    const [moved] = next.splice(fromIndex, 1);
+    next.splice(toIndex, 0, moved);
+    const reordered = next.map((pdf, i) => ({ ...pdf, sortOrder: i }));
+    onPdfsChange(jamTrack.id, reordered);
+    try {
+      await fetch(`/api/jamtracks/${jamTrack.id}/pdfs/reorder`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ pdfIds: reordered.map((pdf) => pdf.id) }),
+      });
+    } catch (err) {
+      console.error("Error reordering jam track PDFs:", err);
+    }
+  };
+
+  const addSyncPoint = async (pdf: JamTrackPdf) => {
+    const timestamp = Math.round(currentTime * 100) / 100;
+    const page = pages[pdf.id] ?? 1;
+    try {
+      const res = await fetch(`/api/jamtracks/${jamTrack.id}/pdfs/${pdf.id}/sync-points`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ timestamp, page }),
+      });
+      if (!res.ok) return;
+      const point: PageSyncPoint = await res.json();
+      updatePdf(pdf.id, (p) => ({
+        ...p,
+        syncPoints: [...p.syncPoints, point].sort((a, b) => a.timestamp - b.timestamp),
+      }));
+    } catch (err) {
+      console.error("Error adding page sync point:", err);
+    }
+  };
+
+  const deleteSyncPoint = async (pdf: JamTrackPdf, pointId: string) => {
+    try {
+      const res = await fetch(`/api/jamtracks/${jamTrack.id}/pdfs/${pdf.id}/sync-points/${pointId}`, {
+        method: "DELETE",
+      });
+      if (res.ok) {
+        updatePdf(pdf.id, (p) => ({ ...p, syncPoints: p.syncPoints.filter((point) => point.id !== pointId) }));
+      }
+    } catch (err) {
+      console.error("Error deleting page sync point:", err);
+    }
+  };
+
+  const tabClass = (active: boolean) =>
+    `flex items-center gap-1 px-3 py-1.5 text-xs rounded-t border-b-2 -mb-px transition-colors whitespace-nowrap ${
+      active ? "text-white border-green-500 bg-gray-800" : "text-gray-400 border-transparent hover:text-white hover:bg-gray-800/50"
+    }`;
+
+  return (
+    <div className="h-full flex flex-col bg-gray-900 min-h-0">
+      {/* Tab bar */}
+      <div className="flex items-end gap-1 px-2 pt-1 border-b border-gray-700 bg-gray-900 overflow-x-auto shrink-0">
+        {guitarPro && (
+          <button onClick={() => setSelectedTab(GP_TAB)} className={tabClass(activeTab === GP_TAB)}>
+            Guitar Pro
+          </button>
+        )}
+        {pdfs.map((pdf) => (
+          <div
+            key={pdf.id}
+            draggable={renamingId !== pdf.id}
+            onDragStart={(e) => {
+              e.dataTransfer.setData("text/plain", pdf.id);
+              setDragId(pdf.id);
+            }}
+            onDragEnd={() => setDragId(null)}
+            onDragOver={(e) => dragId && e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              void handleDrop(pdf.id);
+            }}
+            className={`${tabClass(activeTab === pdf.id)} ${dragId === pdf.id ? "opacity-50" : ""}`}
+          >
+            {renamingId === pdf.id ? (
+              <input
+                value={renameValue}
+                onChange={(e) => setRenameValue(e.target.value)}
+                onBlur={() => handleRename(pdf.id)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") (e.target as HTMLInputElement).blur();
+                  if (e.key === "Escape") setRenamingId(null);
+                }}
+                className="w-32 px-1 bg-gray-700 border border-gray-600 rounded text-white focus:outline-none focus:border-green-500"
+                autoFocus
+              />
+            ) : (
+              <button
+                onClick={() => setSelectedTab(pdf.id)}
+                onDoubleClick={() => {
+                  setRenamingId(pdf.id);
+                  setRenameValue(pdf.name);
+                }}
+                title="Double-click to rename, drag to reorder"
+              >
+                {pdf.name}
+              </button>
+            )}
+            {activeTab === pdf.id && renamingId !== pdf.id && (
+              <button
+                onClick={() => handleDelete(pdf)}
+                className="ml-1 text-gray-500 hover:text-red-400"
+                title="Delete PDF"
+              >
+                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            )}
+          </div>
+        ))}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isUploading}
+          className="px-2 py-1.5 text-xs text-gray-400 hover:text-white disabled:opacity-50 whitespace-nowrap"
+          title="Attach a PDF"
+        >
+          {isUploading ? "Uploading..." : "+ PDF"}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".pdf,application/pdf"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void handleUpload(file);
+            e.target.value = "";
+          }}
+        />
+
+        {activePdf && (
+          <div className="relative ml-auto flex items-center gap-1 pb-1 shrink-0">
+            <button
+              onClick={() => addSyncPoint(activePdf)}
+              className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded text-gray-200"
+              title="Turn to the page shown now when playback reaches the current time"
+            >
+              Sync page {pages[activePdf.id] ?? 1} @ {formatDuration(currentTime)}
+            </button>
+            <button
+              onClick={() => setShowSyncPoints(!showSyncPoints)}
+              className={`px-2 py-1 text-xs rounded ${showSyncPoints ? "bg-green-600/30 text-green-400" : "bg-gray-700 hover:bg-gray-600 text-gray-400"}`}
+              aria-expanded={showSyncPoints}
+            >
+              {activePdf.syncPoints.length} sync point{activePdf.syncPoints.length !== 1 ? "s" : ""}
+            </button>
+            {showSyncPoints && (
+              <div className="absolute right-0 top-full mt-1 w-52 max-h-64 overflow-y-auto bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-2 z-50 text-xs">
+                {activePdf.syncPoints.length === 0 ? (
+                  <p className="text-gray-500">
+                    Play to where a page starts, show that page, then press Sync page.
+                  </p>
+                ) : (
+                  activePdf.syncPoints.map((point) => (
+                    <div key={point.id} className="flex items-center justify-between px-1 py-0.5 rounded hover:bg-gray-700/50">
+                      <span className="text-gray-300 tabular-nums">
+                        {formatDuration(point.timestamp)} → page {point.page}
+                      </span>
+                      <button
+                        onClick={() => deleteSyncPoint(activePdf, point.id)}
+                        className="text-gray-500 hover:text-red-400"
+                        title="Delete sync point"
+                      >
+                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {error && <p className="px-3 py-1 text-xs text-red-400 shrink-0">{error}</p>}
+
+      {/* Content */}
+      <div className="flex-1 min-h-0 overflow-hidden">
+        {activeTab === GP_TAB ? (
+          guitarPro
+        ) : activePdf ? (
+          <PdfViewer
+            key={activePdf.id}
+            pdfPath={activePdf.filePath}
+            currentPage={pages[activePdf.id] ?? 1}
+            onPageChange={(page) => setPages((prev) => ({ ...prev, [activePdf.id]: page }))}
+            syncPoints={activePdf.syncPoints}
+            currentTime={currentTime}
+          />
+        ) : (
+          <div className="h-full flex items-center justify-center text-gray-500">
+            <div className="text-center">
+              <svg className="w-16 h-16 mx-auto mb-4 opacity-50" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+              </svg>
+              <p className="text-lg">No sheet music attached</p>
+              <p className="text-sm mt-2">
+                Attach PDFs with &quot;+ PDF&quot; above, or a .gp / .gpx / .gp5 file with &quot;Add Guitar Pro tab&quot; on the track row.
+              </p>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
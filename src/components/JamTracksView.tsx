@@ -3,7 +3,9 @@
 import { useState, useRef, useEffect, memo } from "react";
 import { JamTrack } from "@/types";
 import InProgressIndicator from "./InProgressIndicator";
+import JamTrackKeyControls from "./JamTrackKeyControls";
 import { formatDuration } from "@/lib/formatting";
+import { PlayQueueEntry, queueEntryForJamTrack } from "@/hooks/usePlayQueue";
 
 interface JamTrackEditModalProps {
   jamTrack: JamTrack;
@@ -101,7 +103,9 @@ interface JamTracksViewProps {
   onJamTrackComplete?: (jamTrackId: string, completed: boolean) => Promise<void>;
   onJamTrackInProgress?: (jamTrackId: string, inProgress: boolean) => Promise<void>;
   onJamTrackFavorite?: (jamTrackId: string, favorite: boolean) => Promise<void>;
+  onJamTrackKeyChange?: (jamTrackId: string, rootNote: string | null, scaleType: string | null) => Promise<void>;
   onJamTrackDelete?: (jamTrackId: string) => Promise<void>;
+  onAddToQueue?: (entries: PlayQueueEntry[]) => void;
   onGpUpload?: (jamTrackId: string, file: File) => Promise<void>;
   onGpDelete?: (jamTrackId: string) => Promise<void>;
   onUpload?: (files: FileList) => Promise<void>;
@@ -118,7 +122,9 @@ const JamTracksView = memo(function JamTracksView({
   onJamTrackComplete,
   onJamTrackInProgress,
   onJamTrackFavorite,
+  onJamTrackKeyChange,
   onJamTrackDelete,
+  onAddToQueue,
   onGpUpload,
   onGpDelete,
   onUpload,
@@ -457,6 +463,21 @@ const JamTracksView = memo(function JamTracksView({
                   {formatDuration(jamTrack.duration)}
                 </span>
 
+                {onAddToQueue && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onAddToQueue([queueEntryForJamTrack(jamTrack)]);
+                    }}
+                    className="p-1 text-gray-500 hover:text-blue-400 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0"
+                    title="Add to play queue"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h12M4 12h8M4 18h8m9-3h-6m3-3v6" />
+                    </svg>
+                  </button>
+                )}
+
                 {onJamTrackUpdate && (
                   <button
                     onClick={(e) => {
@@ -491,6 +512,8 @@ const JamTracksView = memo(function JamTracksView({
 
               {currentJamTrack?.id === jamTrack.id && (
                 <div className="flex items-center gap-2 px-4 pb-2 pt-0 flex-wrap">
+                  <JamTrackKeyControls jamTrack={jamTrack} onKeyChange={onJamTrackKeyChange} />
+
                   {jamTrack.gpFilePath ? (
                     <div className="flex items-center gap-1 px-2 py-0.5 bg-blue-600/20 rounded text-xs text-blue-300">
                       <span>Guitar Pro tab attached</span>
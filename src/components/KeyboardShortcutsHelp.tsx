@@ -1,47 +1,37 @@
 "use client";
 
 import { useEffect } from "react";
+import { INPUT_ACTIONS, getInputBindingSettings, triggerLabel } from "@/lib/inputBindings";
 
 interface KeyboardShortcutsHelpProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
-const shortcuts = [
-  {
-    group: "Playback",
-    items: [
-      { keys: ["Space"], description: "Play / Pause" },
-      { keys: ["\u2190"], description: "Jump to start & play" },
-      { keys: ["+"], description: "Volume up (+5)" },
-      { keys: ["-"], description: "Volume down (-5)" },
-    ],
-  },
-  {
-    group: "Markers",
-    items: [
-      { keys: ["M"], description: "Add marker at current time" },
-      { keys: ["1"], description: "Jump to marker 1" },
-      { keys: ["2"], description: "Jump to marker 2" },
-      { keys: ["..."], description: "" },
-      { keys: ["0"], description: "Jump to marker 10" },
-    ],
-  },
-  {
-    group: "A/B Loop",
-    items: [
-      { keys: ["A"], description: "Set A / Set B / Reset loop" },
-      { keys: ["Esc"], description: "Clear loop" },
-    ],
-  },
-  {
-    group: "Other",
-    items: [
-      { keys: ["?"], description: "Show this help" },
-    ],
-  },
+// Marker number keys are handled by the markers bar, not the bindings
+const MARKER_NUMBER_ITEMS = [
+  { keys: ["1"], description: "Jump to marker 1" },
+  { keys: ["2"], description: "Jump to marker 2" },
+  { keys: ["..."], description: "" },
+  { keys: ["0"], description: "Jump to marker 10" },
 ];
 
+function getShortcutGroups() {
+  const { bindings } = getInputBindingSettings();
+  const groups: { group: string; items: { keys: string[]; description: string }[] }[] = [];
+  for (const action of INPUT_ACTIONS) {
+    let group = groups.find((g) => g.group === action.group);
+    if (!group) {
+      group = { group: action.group, items: [] };
+      groups.push(group);
+    }
+    const keys = bindings[action.id].map(triggerLabel);
+    group.items.push({ keys: keys.length > 0 ? keys : ["—"], description: action.label });
+  }
+  groups.find((g) => g.group === "Markers")?.items.push(...MARKER_NUMBER_ITEMS);
+  return groups;
+}
+
 export default function KeyboardShortcutsHelp({ isOpen, onClose }: KeyboardShortcutsHelpProps) {
   useEffect(() => {
     if (!isOpen) return;
@@ -55,6 +45,7 @@ export default function KeyboardShortcutsHelp({ isOpen, onClose }: KeyboardShort
   }, [isOpen, onClose]);
 
   if (!isOpen) return null;
+  const shortcuts = getShortcutGroups();
 
   return (
     <div
@@ -66,7 +57,7 @@ export default function KeyboardShortcutsHelp({ isOpen, onClose }: KeyboardShort
         onClick={(e) => e.stopPropagation()}
       >
         <div className="flex items-center justify-between p-5 border-b border-gray-700">
-          <h2 className="text-lg font-semibold text-white">Keyboard Shortcuts</h2>
+          <h2 className="text-lg font-semibold text-white">Shortcuts &amp; Controls</h2>
           <button
             onClick={onClose}
             className="text-gray-400 hover:text-white transition-colors"
@@ -108,7 +99,8 @@ export default function KeyboardShortcutsHelp({ isOpen, onClose }: KeyboardShort
           ))}
         </div>
 
-        <div className="p-4 border-t border-gray-700 text-center">
+        <div className="p-4 border-t border-gray-700 text-center space-y-1">
+          <p className="text-xs text-gray-500">Rebind keys, MIDI foot switches and pedals in Tools → Input Bindings</p>
           <span className="text-xs text-gray-500">Press <kbd className="px-1.5 py-0.5 bg-gray-700 border border-gray-600 rounded text-xs text-gray-300 font-mono">Esc</kbd> to close</span>
         </div>
       </div>
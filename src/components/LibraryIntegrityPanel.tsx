@@ -0,0 +1,173 @@
+'use client';
+
+import { useState } from 'react';
+import type { IntegrityEntity, IntegrityFix, IntegrityIssue, IntegrityIssueKind, IntegrityReport } from '@/types';
+
+const KIND_LABELS: Record<IntegrityIssueKind, string> = {
+  missingFile: 'Missing files',
+  orphanFile: 'Files not in the library',
+  zeroDuration: 'Zero-length tracks',
+  brokenGpLink: 'Broken Guitar Pro links',
+};
+
+const ENTITY_LABELS: Record<IntegrityEntity, string> = {
+  track: 'Track',
+  jamTrack: 'Jam track',
+  bookPdf: 'Book PDF',
+  bookVideo: 'Book video',
+  recording: 'Recording',
+  backingTrack: 'Backing track',
+};
+
+function fixLabel(issue: IntegrityIssue, fix: IntegrityFix): string {
+  if (fix === 'relink') return 'Relink';
+  if (fix === 'import') return 'Import';
+  if (issue.kind === 'brokenGpLink') return 'Clear link';
+  if (issue.entity === 'bookPdf') return 'Clear PDF';
+  return 'Delete row';
+}
+
+/** Tools card that lists database rows and files that disagree, with one-click repairs. */
+export default function LibraryIntegrityPanel() {
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [busyIssueId, setBusyIssueId] = useState<string | null>(null);
+  const [relinkTargets, setRelinkTargets] = useState<Record<string, string>>({});
+  const [result, setResult] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const runCheck = async () => {
+    setIsChecking(true);
+    setResult(null);
+    try {
+      const res = await fetch('/api/library/integrity');
+      const data = await res.json();
+      if (res.ok) {
+        setReport(data);
+        setRelinkTargets({});
+      } else {
+        setResult({ type: 'error', message: data.error || 'Check failed' });
+      }
+    } catch {
+      setResult({ type: 'error', message: 'An unexpected error occurred' });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const applyFix = async (issue: IntegrityIssue, fix: IntegrityFix) => {
+    const target = relinkTargets[issue.id] ?? issue.candidates[0];
+    if (fix === 'deleteRow' && issue.kind !== 'brokenGpLink' && issue.entity !== 'bookPdf') {
+      if (!confirm(`Delete "${issue.label}" from the library?`)) return;
+    }
+
+    setBusyIssueId(issue.id);
+    setResult(null);
+    try {
+      const res = await fetch('/api/library/integrity', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          fix,
+          kind: issue.kind,
+          entity: issue.entity,
+          rowId: issue.rowId,
+          path: issue.path,
+          target: fix === 'relink' ? target : undefined,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setResult({ type: 'error', message: data.error || 'Fix failed' });
+        return;
+      }
+      // One fix can resolve several issues (a relink also clears the orphan), so re-check
+      const check = await fetch('/api/library/integrity');
+      if (check.ok) setReport(await check.json());
+      setResult({ type: 'success', message: `Fixed: ${issue.label}` });
+    } catch {
+      setResult({ type: 'error', message: 'An unexpected error occurred' });
+    } finally {
+      setBusyIssueId(null);
+    }
+  };
+
+  const grouped = new Map<IntegrityIssueKind, IntegrityIssue[]>();
+  for (const issue of report?.issues ?? []) {
+    grouped.set(issue.kind, [...(grouped.get(issue.kind) ?? []), issue]);
+  }
+
+  return (
+    <div className="bg-gray-800 rounded-lg border border-gray-700 p-6">
+      <h2 className="text-lg font-semibold text-white mb-2">Library Integrity</h2>
+      <p className="text-gray-400 text-sm mb-6">
+        Find tracks, PDFs, videos and recordings whose files are gone, files on disk that
+        aren&apos;t in the library, zero-length tracks and broken Guitar Pro links.
+      </p>
+
+      <div className="space-y-4">
+        <button
+          onClick={runCheck}
+          disabled={isChecking || busyIssueId !== null}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white text-sm font-medium rounded-md transition-colors"
+        >
+          {isChecking ? 'Checking...' : report ? 'Check Again' : 'Check Library'}
+        </button>
+
+        {report && report.issues.length === 0 && (
+          <p className="text-sm text-green-400">No problems found.</p>
+        )}
+
+        {[...grouped.entries()].map(([kind, issues]) => (
+          <div key={kind}>
+            <h3 className="text-sm font-medium text-gray-300 mb-2">
+              {KIND_LABELS[kind]} ({issues.length})
+            </h3>
+            <div className="space-y-1 max-h-72 overflow-y-auto">
+              {issues.map((issue) => (
+                <div key={issue.id} className="bg-gray-700 rounded p-2 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-gray-400 shrink-0">{ENTITY_LABELS[issue.entity]}</span>
+                    <span className="text-gray-200 flex-1 truncate" title={issue.path}>{issue.label}</span>
+                    {issue.fixes.map((fix) => (
+                      <button
+                        key={fix}
+                        onClick={() => applyFix(issue, fix)}
+                        disabled={busyIssueId !== null}
+                        className={`px-2 py-1 text-xs rounded-md text-white disabled:opacity-50 transition-colors shrink-0 ${
+                          fix === 'deleteRow' ? 'bg-gray-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+                        }`}
+                      >
+                        {busyIssueId === issue.id ? '...' : fixLabel(issue, fix)}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 truncate mt-0.5" title={issue.path}>{issue.path}</p>
+                  {issue.candidates.length > 1 && (
+                    <select
+                      value={relinkTargets[issue.id] ?? issue.candidates[0]}
+                      onChange={(e) => setRelinkTargets((prev) => ({ ...prev, [issue.id]: e.target.value }))}
+                      className="mt-1 w-full bg-gray-800 border border-gray-600 rounded-md px-2 py-1 text-white text-xs focus:outline-none focus:border-blue-500"
+                    >
+                      {issue.candidates.map((candidate) => (
+                        <option key={candidate} value={candidate}>{candidate}</option>
+                      ))}
+                    </select>
+                  )}
+                  {issue.candidates.length === 1 && (
+                    <p className="text-xs text-gray-400 truncate mt-0.5">Found at {issue.candidates[0]}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        {result && (
+          <p className={`text-sm ${result.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>
+            {result.message}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { ReorganizeChange, ReorganizeJournalSummary, ReorganizePlan } from '@/types';
+
+interface ReorganizeResult {
+  track: string;
+  success: boolean;
+  error?: string;
+}
+
+function summarizeResults(verb: string, results: ReorganizeResult[]): { type: 'success' | 'error'; message: string } {
+  const failed = results.filter((r) => !r.success);
+  if (failed.length === 0) return { type: 'success', message: `${verb} ${results.length} tracks` };
+  const first = failed[0];
+  return {
+    type: 'error',
+    message: `${verb} ${results.length - failed.length} of ${results.length} tracks. ${first.track}: ${first.error}${failed.length > 1 ? ` (and ${failed.length - 1} more)` : ''}`,
+  };
+}
+
+function ChangeDetails({ change }: { change: ReorganizeChange }) {
+  return (
+    <div className="min-w-0 flex-1">
+      {change.oldPath !== change.newPath ? (
+        <>
+          <p className="text-xs text-red-300 truncate" title={change.oldPath}>- {change.oldPath}</p>
+          <p className="text-xs text-green-300 truncate" title={change.newPath}>+ {change.newPath}</p>
+        </>
+      ) : (
+        <p className="text-xs text-gray-300 truncate" title={change.oldPath}>{change.oldPath}</p>
+      )}
+      <div className="flex flex-wrap gap-x-3 text-xs text-gray-400 mt-0.5">
+        {change.movesFolder && <span>Moves folder</span>}
+        {change.title && <span>Title: {change.title.from} → {change.title.to}</span>}
+        {change.trackNumber && <span>Track #: {change.trackNumber.from || '–'} → {change.trackNumber.to}</span>}
+        {change.tags && <span>Rewrites ID3 tags</span>}
+      </div>
+    </div>
+  );
+}
+
+/** Tools card to preview a library reorganize, pick which changes to apply, and roll back the last one. */
+export default function LibraryReorganizePanel() {
+  const [plan, setPlan] = useState<ReorganizePlan | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [journals, setJournals] = useState<ReorganizeJournalSummary[]>([]);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [result, setResult] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const fetchJournals = async () => {
+    try {
+      const res = await fetch('/api/library/reorganize/journals');
+      if (res.ok) setJournals((await res.json()).journals);
+    } catch (err) {
+      console.error('Failed to fetch reorganize journals:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchJournals();
+  }, []);
+
+  const handlePreview = async () => {
+    setBusy('preview');
+    setResult(null);
+    try {
+      const res = await fetch('/api/library/reorganize', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dryRun: true }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setPlan(data);
+        setSelected(new Set(data.changes.map((c: ReorganizeChange) => c.id)));
+      } else {
+        setResult({ type: 'error', message: data.error || 'Preview failed' });
+      }
+    } catch {
+      setResult({ type: 'error', message: 'An unexpected error occurred' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleApply = async () => {
+    if (selected.size === 0) return;
+    setBusy('apply');
+    setResult(null);
+    try {
+      const res = await fetch('/api/library/reorganize', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ changes: [...selected] }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setResult(summarizeResults('Reorganized', data.results));
+        setPlan(null);
+        await fetchJournals();
+      } else {
+        setResult({ type: 'error', message: data.error || 'Reorganize failed' });
+      }
+    } catch {
+      setResult({ type: 'error', message: 'An unexpected error occurred' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRollback = async (journal: ReorganizeJournalSummary) => {
+    if (!confirm(`Undo the reorganize from ${new Date(journal.createdAt).toLocaleString()}? Files move back to their previous names.`)) return;
+    setBusy(journal.id);
+    setResult(null);
+    try {
+      const res = await fetch(`/api/library/reorganize/journals/${encodeURIComponent(journal.id)}/rollback`, { method: 'POST' });
+      const data = await res.json();
+      if (res.ok) {
+        setResult(summarizeResults('Rolled back', data.results));
+        setPlan(null);
+        await fetchJournals();
+      } else {
+        setResult({ type: 'error', message: data.error || 'Rollback failed' });
+      }
+    } catch {
+      setResult({ type: 'error', message: 'An unexpected error occurred' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const allSelected = plan !== null && selected.size === plan.changes.length;
+  const latestJournal = journals.find((j) => j.status !== 'rolledBack');
+
+  return (
+    <div className="bg-gray-800 rounded-lg border border-gray-700 p-6">
+      <h2 className="text-lg font-semibold text-white mb-2">Reorganize Library</h2>
+      <p className="text-gray-400 text-sm mb-6">
+        Rename and move track files into Author/Book/NN - Title and tidy titles and ID3 tags.
+        Review the changes first; every run is journaled so the latest one can be rolled back.
+      </p>
+
+      <div className="space-y-4">
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={handlePreview}
+            disabled={busy !== null}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white text-sm font-medium rounded-md transition-colors"
+          >
+            {busy === 'preview' ? 'Planning...' : plan ? 'Preview Again' : 'Preview Changes'}
+          </button>
+          {plan && plan.changes.length > 0 && (
+            <button
+              onClick={handleApply}
+              disabled={busy !== null || selected.size === 0}
+              className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white text-sm font-medium rounded-md transition-colors"
+            >
+              {busy === 'apply' ? 'Applying...' : `Apply ${selected.size} Change${selected.size === 1 ? '' : 's'}`}
+            </button>
+          )}
+        </div>
+
+        {plan && plan.changes.length === 0 && (
+          <p className="text-sm text-green-400">All {plan.unchanged} tracks are already organized.</p>
+        )}
+
+        {plan && plan.changes.length > 0 && (
+          <div>
+            <label className="flex items-center gap-2 text-sm text-gray-300 mb-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={() => setSelected(allSelected ? new Set() : new Set(plan.changes.map((c) => c.id)))}
+                className="rounded bg-gray-700 border-gray-600"
+              />
+              {plan.changes.length} changes ({plan.unchanged} tracks already organized)
+            </label>
+            <div className="space-y-1 max-h-96 overflow-y-auto">
+              {plan.changes.map((change) => (
+                <label key={change.id} className="flex items-start gap-2 bg-gray-700 rounded p-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(change.id)}
+                    onChange={() => toggle(change.id)}
+                    className="mt-0.5 rounded bg-gray-800 border-gray-600"
+                  />
+                  <ChangeDetails change={change} />
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {journals.length > 0 && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-300 mb-2">Previous runs</h3>
+            <div className="space-y-1 max-h-48 overflow-y-auto">
+              {journals.map((journal) => (
+                <div key={journal.id} className="flex items-center gap-2 bg-gray-700 rounded p-2 text-sm">
+                  <span className="text-gray-200 flex-1 truncate">{new Date(journal.createdAt).toLocaleString()}</span>
+                  <span className="text-xs text-gray-400 shrink-0">
+                    {journal.changes} changes{journal.failed > 0 ? `, ${journal.failed} failed` : ''}
+                  </span>
+                  {journal.status === 'rolledBack' ? (
+                    <span className="text-xs text-gray-500 shrink-0">Rolled back</span>
+                  ) : journal.id === latestJournal?.id ? (
+                    <button
+                      onClick={() => handleRollback(journal)}
+                      disabled={busy !== null}
+                      className="px-2 py-1 text-xs rounded-md bg-gray-600 hover:bg-red-700 text-white disabled:opacity-50 transition-colors shrink-0"
+                    >
+                      {busy === journal.id ? '...' : 'Roll Back'}
+                    </button>
+                  ) : null}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {result && (
+          <p className={`text-sm ${result.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>
+            {result.message}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { useState } from "react";
+
+export interface LoopRegionFields {
+  name: string;
+  playbackSpeed: number | null;
+  leadIn: number | null;
+}
+
+interface LoopRegionDialogProps {
+  start: number;
+  end: number;
+  formatTime: (seconds: number) => string;
+  onSave: (fields: LoopRegionFields) => void;
+  onCancel: () => void;
+  // Pre-filled values: the current loop's when saving, the region's when editing
+  initialName?: string;
+  initialSpeed?: number | null;
+  initialLeadIn?: number | null;
+  isEditMode?: boolean;
+}
+
+function parseOptional(value: string, min: number, max: number): number | null {
+  if (value.trim() === "") return null;
+  const n = parseFloat(value);
+  return Number.isNaN(n) ? null : Math.max(min, Math.min(max, n));
+}
+
+/** Name, speed and lead-in for a loop region. Render only while open: the fields are initialised on mount. */
+export default function LoopRegionDialog({
+  start,
+  end,
+  formatTime,
+  onSave,
+  onCancel,
+  initialName,
+  initialSpeed,
+  initialLeadIn,
+  isEditMode = false,
+}: LoopRegionDialogProps) {
+  const [name, setName] = useState(initialName ?? "");
+  const [speed, setSpeed] = useState(initialSpeed != null ? String(initialSpeed) : "");
+  const [leadIn, setLeadIn] = useState(initialLeadIn != null ? String(initialLeadIn) : "");
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const parsedSpeed = parseOptional(speed, 10, 200);
+    onSave({
+      name: trimmed,
+      playbackSpeed: parsedSpeed === null ? null : Math.round(parsedSpeed),
+      leadIn: parseOptional(leadIn, 0, 30),
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" && name.trim()) {
+      handleSave();
+    } else if (e.key === "Escape") {
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 border border-gray-700 rounded-lg p-6 shadow-xl max-w-md w-full mx-4">
+        <h3 className="text-lg font-semibold text-white mb-4">
+          {isEditMode ? "Edit Loop" : "Save Loop"}
+        </h3>
+
+        <div className="mb-4">
+          <label className="block text-sm text-gray-400 mb-2">
+            Loop: <span className="text-blue-400 font-mono">{formatTime(start)} – {formatTime(end)}</span>
+          </label>
+          <input
+            autoFocus
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="e.g. Solo bars 17-24"
+            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-green-500"
+          />
+        </div>
+
+        <div className="flex gap-4 mb-4">
+          <div>
+            <label className="block text-sm text-gray-400 mb-2">
+              Speed <span className="text-gray-500">(%, optional)</span>
+            </label>
+            <input
+              type="number"
+              min={10}
+              max={200}
+              value={speed}
+              onChange={(e) => setSpeed(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Current"
+              className="w-24 px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-green-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-gray-400 mb-2">
+              Lead-in <span className="text-gray-500">(sec, optional)</span>
+            </label>
+            <input
+              type="number"
+              min={0}
+              max={30}
+              value={leadIn}
+              onChange={(e) => setLeadIn(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Default"
+              className="w-24 px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-green-500"
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!name.trim()}
+            className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded text-sm"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 "use client";
 
 import { useEffect, useState, useRef, useCallback, memo, useMemo } from "react";
-import { Marker, JamTrackMarker } from "@/types";
+import { Marker, JamTrackMarker, LoopRegion } from "@/types";
 import { createTapTempo } from "@/lib/tapTempo";
 import MarkerNameDialog from "./MarkerNameDialog";
+import LoopRegionDialog, { LoopRegionFields } from "./LoopRegionDialog";
 
 interface MarkersBarProps {
   markers: (Marker | JamTrackMarker)[];
@@ -29,6 +30,7 @@ interface MarkersBarProps {
   trackTempo?: number | null;
   trackTimeSignature?: string;
   onTempoChange?: (tempo: number | null, timeSignature: string) => void;
+  onDetectTempo?: () => Promise<void>;
   // PDF page props
   currentPdfPage?: number | null;
   hasPdf?: boolean;
@@ -37,6 +39,15 @@ interface MarkersBarProps {
   // Early page flip
   pageFlipAnticipation?: boolean;
   onPageFlipAnticipationChange?: (value: boolean) => void;
+  // Saved loop regions
+  loopRegions?: LoopRegion[];
+  activeLoopRegionId?: string | null;
+  currentLoop?: { start: number; end: number } | null;
+  playbackSpeed?: number;
+  onPlayLoopRegion?: (region: LoopRegion) => void;
+  onSaveLoopRegion?: (fields: LoopRegionFields) => void;
+  onUpdateLoopRegion?: (regionId: string, fields: LoopRegionFields) => void;
+  onDeleteLoopRegion?: (regionId: string) => void;
 }
 
 const MarkersBar = memo(function MarkersBar({
@@ -57,21 +68,35 @@ const MarkersBar = memo(function MarkersBar({
   trackTempo = null,
   trackTimeSignature = "4/4",
   onTempoChange,
+  onDetectTempo,
   currentPdfPage,
   hasPdf = false,
   layout = "horizontal",
   pageFlipAnticipation = false,
   onPageFlipAnticipationChange,
+  loopRegions = [],
+  activeLoopRegionId = null,
+  currentLoop = null,
+  playbackSpeed = 100,
+  onPlayLoopRegion,
+  onSaveLoopRegion,
+  onUpdateLoopRegion,
+  onDeleteLoopRegion,
 }: MarkersBarProps) {
   const [tapBpm, setTapBpm] = useState<number | null>(null);
   const [tapCount, setTapCount] = useState(0);
   const tapTempoRef = useRef(createTapTempo());
+  const [isDetectingTempo, setIsDetectingTempo] = useState(false);
 
   // Dialog state - used for both add and edit
   const [showDialog, setShowDialog] = useState(false);
   const [pendingMarkerTimestamp, setPendingMarkerTimestamp] = useState(0);
   const [editingMarker, setEditingMarker] = useState<(Marker | JamTrackMarker) | null>(null);
 
+  // Loop region dialog: saving the current A/B loop, or editing a saved region
+  const [showLoopDialog, setShowLoopDialog] = useState(false);
+  const [editingRegion, setEditingRegion] = useState<LoopRegion | null>(null);
+
   const handleTap = useCallback(() => {
     const bpm = tapTempoRef.current.tap();
     setTapBpm(bpm);
@@ -96,6 +121,16 @@ const MarkersBar = memo(function MarkersBar({
     tapTempoRef.current.reset();
   }, [onTempoChange, trackTimeSignature]);
 
+  const handleDetectTempo = useCallback(async () => {
+    if (!onDetectTempo) return;
+    setIsDetectingTempo(true);
+    try {
+      await onDetectTempo();
+    } finally {
+      setIsDetectingTempo(false);
+    }
+  }, [onDetectTempo]);
+
   const handleTimeSignatureChange = useCallback((newTimeSignature: string) => {
     if (onTempoChange) {
       onTempoChange(trackTempo, newTimeSignature);
@@ -133,6 +168,16 @@ const MarkersBar = memo(function MarkersBar({
     setEditingMarker(null);
   }, []);
 
+  const handleLoopDialogSave = useCallback((fields: LoopRegionFields) => {
+    if (editingRegion) {
+      onUpdateLoopRegion?.(editingRegion.id, fields);
+    } else {
+      onSaveLoopRegion?.(fields);
+    }
+    setShowLoopDialog(false);
+    setEditingRegion(null);
+  }, [editingRegion, onUpdateLoopRegion, onSaveLoopRegion]);
+
   // Keyboard shortcuts: 1-9 jump to marker 1-9, 0 jumps to marker 10
   useEffect(() => {
     if (!visible) return;
@@ -235,6 +280,16 @@ const MarkersBar = memo(function MarkersBar({
             >
               Tap
             </button>
+            {onDetectTempo && !tapBpm && (
+              <button
+                onClick={handleDetectTempo}
+                disabled={isDetectingTempo}
+                className="px-2 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded text-xs"
+                title="Detect the tempo and first downbeat from the audio"
+              >
+                {isDetectingTempo ? "Detecting…" : "Detect"}
+              </button>
+            )}
             {tapBpm && (
               <>
                 <span className="text-xs text-purple-400 font-mono">{tapBpm} BPM</span>
@@ -258,6 +313,19 @@ const MarkersBar = memo(function MarkersBar({
             Add Marker
           </button>
 
+          {onSaveLoopRegion && currentLoop && !activeLoopRegionId && (
+            <button
+              onClick={() => {
+                setEditingRegion(null);
+                setShowLoopDialog(true);
+              }}
+              className="px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded text-xs"
+              title={`Save the A/B loop ${formatTime(currentLoop.start)}–${formatTime(currentLoop.end)}`}
+            >
+              Save Loop
+            </button>
+          )}
+
           {markers.length > 0 && (
             <button
               onClick={onClearAll}
@@ -286,6 +354,71 @@ const MarkersBar = memo(function MarkersBar({
         </div>
       </div>
 
+      {/* Saved Loop Regions */}
+      {loopRegions.length > 0 && onPlayLoopRegion && (
+        <div className={isVertical
+          ? "flex flex-col gap-1 mt-2 shrink-0"
+          : "flex flex-wrap justify-center items-center gap-2 mt-2 w-full"
+        }>
+          {loopRegions.map((region) => (
+            <div
+              key={region.id}
+              onClick={() => onPlayLoopRegion(region)}
+              role="button"
+              tabIndex={0}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" || e.key === " ") {
+                  e.preventDefault();
+                  onPlayLoopRegion(region);
+                }
+              }}
+              className={`flex items-center gap-1 px-2 py-1 rounded text-xs group transition-colors cursor-pointer border ${
+                region.id === activeLoopRegionId
+                  ? "bg-blue-600 border-blue-500"
+                  : "bg-gray-700 border-blue-500/40 hover:bg-gray-600"
+              }`}
+              title={`Loop ${formatTime(region.start)}–${formatTime(region.end)}`}
+            >
+              <span className="font-bold text-blue-300">⟲</span>
+              <span className="truncate">{region.name}</span>
+              <span className="text-blue-300 font-mono">
+                {formatTime(region.start)}–{formatTime(region.end)}
+              </span>
+              {region.playbackSpeed != null && (
+                <span className="text-[10px] text-gray-300 font-mono">@{region.playbackSpeed}%</span>
+              )}
+              {onUpdateLoopRegion && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setEditingRegion(region);
+                    setShowLoopDialog(true);
+                  }}
+                  className="p-0.5 text-white hover:text-white opacity-0 group-hover:opacity-100 transition-opacity ml-auto"
+                  title="Edit loop"
+                >
+                  <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                  </svg>
+                </button>
+              )}
+              {onDeleteLoopRegion && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDeleteLoopRegion(region.id);
+                  }}
+                  className="opacity-0 group-hover:opacity-100 text-white hover:text-red-300"
+                  title="Delete loop"
+                >
+                  ×
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Markers List */}
       {markers.length > 0 && (
         <div className={isVertical
@@ -378,6 +511,23 @@ const MarkersBar = memo(function MarkersBar({
         initialName={editingMarker?.name}
         initialPdfPage={editingMarker && 'pdfPage' in editingMarker ? (editingMarker as Marker).pdfPage : undefined}
       />
+
+      {showLoopDialog && (
+        <LoopRegionDialog
+          start={editingRegion?.start ?? currentLoop?.start ?? 0}
+          end={editingRegion?.end ?? currentLoop?.end ?? 0}
+          formatTime={formatTime}
+          onSave={handleLoopDialogSave}
+          onCancel={() => {
+            setShowLoopDialog(false);
+            setEditingRegion(null);
+          }}
+          isEditMode={editingRegion !== null}
+          initialName={editingRegion?.name}
+          initialSpeed={editingRegion ? editingRegion.playbackSpeed : playbackSpeed}
+          initialLeadIn={editingRegion ? editingRegion.leadIn : null}
+        />
+      )}
     </div>
   );
 });
@@ -5,6 +5,8 @@ import MetricsSummaryCards from "./metrics/MetricsSummaryCards";
 import PracticeHistoryChart from "./metrics/PracticeHistoryChart";
 import TopTracksTable from "./metrics/TopTracksTable";
 import SpeedProgressionChart from "./metrics/SpeedProgressionChart";
+import RoutineRunsTable from "./metrics/RoutineRunsTable";
+import { RoutineRun } from "@/types";
 
 type Period = "30" | "90" | "365";
 
@@ -39,7 +41,13 @@ interface HistoryDataPoint {
 
 interface SpeedData {
   title: string | null;
-  sessions: { date: string; speed: number; durationSeconds: number; completed: boolean }[];
+  sessions: {
+    date: string;
+    speed: number;
+    durationSeconds: number;
+    completed: boolean;
+    steps: { date: string; speed: number; repetitions: number }[];
+  }[];
 }
 
 interface Props {
@@ -52,20 +60,23 @@ export default function MetricsView({ onGoToTrack }: Props) {
   const [topTracks, setTopTracks] = useState<TrackMetric[]>([]);
   const [history, setHistory] = useState<HistoryDataPoint[]>([]);
   const [speedData, setSpeedData] = useState<SpeedData | null>(null);
+  const [routineRuns, setRoutineRuns] = useState<RoutineRun[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   const fetchData = useCallback(async () => {
     setIsLoading(true);
     try {
-      const [summaryRes, tracksRes, historyRes] = await Promise.all([
+      const [summaryRes, tracksRes, historyRes, routinesRes] = await Promise.all([
         fetch("/api/metrics/summary"),
         fetch("/api/metrics/top-tracks?limit=20&sortBy=totalTime"),
         fetch(`/api/metrics/history?days=${period}`),
+        fetch(`/api/metrics/routines?days=${period}`),
       ]);
 
       if (summaryRes.ok) setSummary(await summaryRes.json());
       if (tracksRes.ok) setTopTracks(await tracksRes.json());
       if (historyRes.ok) setHistory(await historyRes.json());
+      if (routinesRes.ok) setRoutineRuns(await routinesRes.json());
     } catch {
       // Silently handle fetch errors
     } finally {
@@ -154,6 +165,9 @@ export default function MetricsView({ onGoToTrack }: Props) {
           />
         )}
 
+        {/* Routine runs in the period (hidden until there are any) */}
+        <RoutineRunsTable runs={routineRuns} isLoading={isLoading} />
+
         {/* Top Tracks Table */}
         <TopTracksTable
           tracks={topTracks}
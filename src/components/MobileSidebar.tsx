@@ -2,6 +2,7 @@
 
 import AuthorSidebar from './AuthorSidebar';
 import type { AuthorSummary } from '@/types';
+import type { ScanProgress } from '@/lib/scanStream';
 
 interface MobileSidebarProps {
   isOpen: boolean;
@@ -17,6 +18,9 @@ interface MobileSidebarProps {
   inProgressCount: number;
   isInProgressSelected: boolean;
   onInProgressSelect: () => void;
+  scanProgress?: ScanProgress | null;
+  onScanCancel?: () => void;
+  onScanDismiss?: () => void;
 }
 
 export default function MobileSidebar({
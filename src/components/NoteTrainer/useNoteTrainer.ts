@@ -11,6 +11,7 @@ import {
 } from '@/lib/audioGenerator';
 import { freqToNote } from '@/lib/tuner/presets';
 import { withInputDevice } from '@/lib/audioSink';
+import { getDeviceLatencyMs } from '@/lib/latency';
 
 // MIDI of each open string in standard tuning (low E → high E)
 const OPEN_STRING_MIDI = [40, 45, 50, 55, 59, 64] as const;
@@ -120,6 +121,9 @@ export function useNoteTrainer() {
   const rafRef = useRef<number | null>(null);
   // Set during reveal to receive pitch-class notifications
   const onPitchRef = useRef<((noteName: string) => void) | null>(null);
+  // Calibrated round trip for the selected devices: the count-in reaches the
+  // player and their note reaches the detector this much later
+  const latencyMsRef = useRef(0);
 
   // Keep configRef in sync
   configRef.current = config;
@@ -185,6 +189,7 @@ export function useNoteTrainer() {
         }),
       });
       streamRef.current = stream;
+      latencyMsRef.current = (await getDeviceLatencyMs()) ?? 0;
 
       const AudioCtx = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
       const ctx = new AudioCtx();
@@ -236,9 +241,11 @@ export function useNoteTrainer() {
           clearTimeout(timer);
           resolve(hit);
         };
-        const timer = setTimeout(() => finish(false), timeoutMs);
+        // Both windows are shifted by the round-trip latency
+        const latencyMs = latencyMsRef.current;
+        const timer = setTimeout(() => finish(false), timeoutMs + latencyMs);
         // Grace period so a residual transient doesn't count as the answer.
-        const graceUntil = performance.now() + MIC_MATCH_GRACE_MS;
+        const graceUntil = performance.now() + MIC_MATCH_GRACE_MS + latencyMs;
         onPitchRef.current = (name: string) => {
           if (cycleIdRef.current !== id) return finish(false);
           if (performance.now() < graceUntil) return;
@@ -2,6 +2,9 @@
 
 import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import dynamic from "next/dynamic";
+import type { PageSyncPoint } from "@/types";
+import { syncedPageAt } from "@/lib/jamTrackPdfs";
+import { subscribeToInputActions } from "@/lib/inputBindings";
 
 // Dynamically import react-pdf to avoid SSR issues
 const Document = dynamic(
@@ -28,6 +31,9 @@ interface SinglePdfViewerProps {
   onPageChange: (page: number) => void;
   version?: number;
   onFitToPageChange?: (fitToPage: boolean) => void;
+  /** Turn pages by themselves as playback passes these points. */
+  syncPoints?: Pick<PageSyncPoint, "timestamp" | "page">[];
+  currentTime?: number;
 }
 
 // Only render pages within this distance from the visible page
@@ -42,6 +48,8 @@ function SinglePdfViewerInner({
   onPageChange,
   version = 0,
   onFitToPageChange,
+  syncPoints,
+  currentTime,
 }: SinglePdfViewerProps) {
   const [numPages, setNumPages] = useState<number>(0);
   const [isLoading, setIsLoading] = useState(true);
@@ -317,6 +325,31 @@ function SinglePdfViewerInner({
     setTimeout(scrollToPage, 0);
   };
 
+  // Follow sync points only when playback crosses one, so pages turned by
+  // hand stay put until the next point
+  const syncedPage = syncPoints && currentTime !== undefined ? syncedPageAt(syncPoints, currentTime) : null;
+  useEffect(() => {
+    if (syncedPage !== null && numPages > 0) goToPage(syncedPage);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [syncedPage, numPages]);
+
+  // Page-turner pedals and keys bound to next/previous page (see lib/inputBindings)
+  const turnPageRef = useRef<(delta: number) => boolean>(() => false);
+  useEffect(() => {
+    turnPageRef.current = (delta) => {
+      if (numPages === 0) return false;
+      goToPage(visiblePage + delta);
+      return true;
+    };
+  });
+  useEffect(() => {
+    return subscribeToInputActions((action) => {
+      if (action === "nextPage") return turnPageRef.current(1);
+      if (action === "previousPage") return turnPageRef.current(-1);
+      return false;
+    });
+  }, []);
+
   // Calculate which pages should be rendered (visible page ± buffer)
   const getPageRange = () => {
     const startPage = Math.max(1, visiblePage - PAGE_BUFFER);
@@ -0,0 +1,204 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import type { PlayQueue } from "@/hooks/usePlayQueue";
+
+interface Props {
+  playQueue: PlayQueue;
+  /** Open and start the item at this index, or stop the queue with null. */
+  onPlayAt: (index: number | null) => void;
+}
+
+export default function PlayQueueDropdown({ playQueue, onPlayAt }: Props) {
+  const { queue, remove, move, clear, setGapSeconds, setCountIn } = playQueue;
+  const [isOpen, setIsOpen] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const current = queue.currentIndex;
+
+  // Close on click outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handler = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handler);
+    return () => document.removeEventListener("mousedown", handler);
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      {/* Button */}
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-1 px-2 py-2 rounded-md text-sm font-medium transition-colors ${
+          isOpen || current !== null
+            ? "bg-blue-600/20 text-blue-400"
+            : "text-gray-400 hover:text-blue-400 hover:bg-gray-700/50"
+        }`}
+        title="Play Queue"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h10M4 18h10m4-6l4 3-4 3v-6z" />
+        </svg>
+        {queue.items.length > 0 && <span className="text-xs">{queue.items.length}</span>}
+      </button>
+
+      {/* Dropdown */}
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-1 w-80 bg-gray-800 border border-gray-700 rounded-lg shadow-2xl z-50">
+          <div className="px-3 py-2 border-b border-gray-700 flex items-center gap-2">
+            <span className="text-sm font-medium text-white flex-1">Play Queue</span>
+            {queue.items.length > 0 && (
+              <button
+                onClick={clear}
+                className="text-xs text-gray-400 hover:text-red-400 transition-colors"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+
+          <div className="px-3 py-2 border-b border-gray-700 flex items-center gap-3 text-xs text-gray-400">
+            <label className="flex items-center gap-1">
+              Gap
+              <input
+                type="number"
+                min={0}
+                max={30}
+                value={queue.gapSeconds}
+                onChange={(e) => setGapSeconds(Number(e.target.value) || 0)}
+                className="w-12 px-1 py-0.5 bg-gray-700 border border-gray-600 rounded text-white focus:outline-none focus:border-blue-500"
+              />
+              s
+            </label>
+            <label className="flex items-center gap-1" title="Count each item in at its tempo">
+              <input
+                type="checkbox"
+                checked={queue.countIn}
+                onChange={(e) => setCountIn(e.target.checked)}
+                className="accent-blue-500"
+              />
+              Count-in
+            </label>
+          </div>
+
+          {queue.items.length === 0 ? (
+            <div className="p-3 text-center text-gray-400 text-sm">
+              Queue is empty. Add tracks, chapters, books or jam tracks with their + buttons.
+            </div>
+          ) : (
+            <div className="py-1 max-h-80 overflow-y-auto">
+              {queue.items.map((item, index) => {
+                const isCurrent = index === current;
+                return (
+                  <div
+                    key={item.key}
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = "move";
+                      e.dataTransfer.setData("text/plain", item.key);
+                      setDragIndex(index);
+                    }}
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={() => {
+                      if (dragIndex !== null) move(dragIndex, index);
+                      setDragIndex(null);
+                    }}
+                    onDragEnd={() => setDragIndex(null)}
+                    className={`flex items-center gap-2 px-3 py-1.5 group cursor-grab ${
+                      isCurrent ? "bg-blue-600/20" : "hover:bg-gray-700/50"
+                    } ${dragIndex === index ? "opacity-50" : ""}`}
+                  >
+                    <span className={`text-xs w-4 text-right shrink-0 ${isCurrent ? "text-blue-400" : "text-gray-500"}`}>
+                      {index + 1}
+                    </span>
+                    {item.kind === "jamTrack" && (
+                      <span className="text-xs bg-purple-500/20 text-purple-400 px-1.5 py-0.5 rounded shrink-0">Jam</span>
+                    )}
+                    <button
+                      onClick={() => onPlayAt(index)}
+                      className="min-w-0 flex-1 text-left"
+                      title="Play from here"
+                    >
+                      <span className={`text-sm truncate block ${isCurrent ? "text-blue-300" : "text-white"}`}>
+                        {item.title}
+                      </span>
+                      {item.kind === "track" && item.subtitle && (
+                        <span className="text-gray-500 text-xs truncate block">{item.subtitle}</span>
+                      )}
+                    </button>
+                    <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity shrink-0">
+                      <button
+                        onClick={() => move(index, index - 1)}
+                        disabled={index === 0}
+                        className="p-0.5 text-gray-400 hover:text-white disabled:opacity-30"
+                        aria-label="Move up"
+                      >
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                        </svg>
+                      </button>
+                      <button
+                        onClick={() => move(index, index + 1)}
+                        disabled={index === queue.items.length - 1}
+                        className="p-0.5 text-gray-400 hover:text-white disabled:opacity-30"
+                        aria-label="Move down"
+                      >
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                        </svg>
+                      </button>
+                      <button
+                        onClick={() => remove(item.key)}
+                        className="p-0.5 text-gray-400 hover:text-red-400"
+                        aria-label="Remove from queue"
+                      >
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {queue.items.length > 0 && (
+            <div className="px-3 py-2 border-t border-gray-700 flex items-center gap-2">
+              {current !== null ? (
+                <>
+                  <button
+                    onClick={() => onPlayAt(current + 1 < queue.items.length ? current + 1 : null)}
+                    className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 text-xs rounded transition-colors"
+                  >
+                    Next
+                  </button>
+                  <button
+                    onClick={() => onPlayAt(null)}
+                    className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 text-xs rounded transition-colors"
+                  >
+                    Stop queue
+                  </button>
+                </>
+              ) : (
+                <button
+                  onClick={() => onPlayAt(0)}
+                  className="px-2 py-1 bg-blue-600 hover:bg-blue-500 text-white text-xs rounded transition-colors"
+                >
+                  Play queue
+                </button>
+              )}
+              <span className="ml-auto text-xs text-gray-500">
+                {current !== null ? `${current + 1} of ${queue.items.length}` : `${queue.items.length} items`}
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,378 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useAudioRecorder } from "@/hooks/useAudioRecorder";
+import { routeMediaElementToSink } from "@/lib/audioSink";
+import {
+  getDeviceLatencyMs,
+  measureRoundTripLatency,
+  saveLatencyCalibration,
+  subscribeToLatencyChanges,
+} from "@/lib/latency";
+import { JamTrack, Recording, Track } from "@/types";
+
+export interface PlaybackSetup {
+  /** Percent, as in the player's speed control. */
+  speed: number;
+  loop: { start: number; end: number } | null;
+}
+
+interface RecordAlongControlsProps {
+  track: Track | JamTrack;
+  isPlaying: boolean;
+  /** Where the player is now, with its speed and A-B loop. */
+  getPlayback: () => PlaybackSetup & { time: number };
+  /** Play the track from `time`, first switching to `setup` when given. */
+  playFrom: (time: number, setup?: PlaybackSetup) => void;
+  pause: () => void;
+  /** Track level (0–1) under the balance while a take plays back. */
+  onTrackLevelChange: (level: number) => void;
+}
+
+interface TakeSession extends PlaybackSetup {
+  sourceStart: number;
+  /** Seconds from capture starting to the track starting. */
+  leadIn: number;
+  latencyMs: number;
+  sawPlaying: boolean;
+}
+
+function formatTime(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, "0")}`;
+}
+
+function audioUrl(filePath: string): string {
+  return `/api/audio/${filePath.split("/").map(encodeURIComponent).join("/")}`;
+}
+
+/**
+ * Player button and popover for recording takes over the track. Each take
+ * stores where it lines up with the track (shifted by the measured round-trip
+ * latency), the speed and the loop, so it plays back mixed in time with it.
+ */
+export default function RecordAlongControls({
+  track,
+  isPlaying,
+  getPlayback,
+  playFrom,
+  pause,
+  onTrackLevelChange,
+}: RecordAlongControlsProps) {
+  const recorder = useAudioRecorder();
+  const [isOpen, setIsOpen] = useState(false);
+  const [takes, setTakes] = useState<Recording[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [latencyMs, setLatencyMs] = useState<number | null>(null);
+  const [measuring, setMeasuring] = useState(false);
+  const [latencyError, setLatencyError] = useState<string | null>(null);
+  const [playingTakeId, setPlayingTakeId] = useState<string | null>(null);
+  // 0 = track only, 50 = both at full level, 100 = take only
+  const [balance, setBalance] = useState(50);
+
+  const sessionRef = useRef<TakeSession | null>(null);
+  const takeAudioRef = useRef<HTMLAudioElement | null>(null);
+  const isJamTrack = !("bookId" in track);
+  const trackLevel = Math.min(1, (100 - balance) / 50);
+  const takeLevel = Math.min(1, balance / 50);
+
+  const fetchTakes = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/recordings?${isJamTrack ? "jamTrackId" : "trackId"}=${encodeURIComponent(track.id)}`);
+      if (!res.ok) throw new Error("Failed to load takes");
+      setTakes(await res.json());
+    } catch (err) {
+      console.error(err);
+    }
+  }, [track.id, isJamTrack]);
+
+  useEffect(() => {
+    if (isOpen) void fetchTakes();
+  }, [isOpen, fetchTakes]);
+
+  // Latency calibrated for the selected output/input pair
+  useEffect(() => {
+    const load = () => void getDeviceLatencyMs().then(setLatencyMs);
+    load();
+    return subscribeToLatencyChanges(load);
+  }, []);
+
+  const stopTake = useCallback(() => {
+    const audio = takeAudioRef.current;
+    if (audio) {
+      audio.pause();
+      audio.removeAttribute("src");
+      audio.load();
+      takeAudioRef.current = null;
+    }
+    setPlayingTakeId(null);
+  }, []);
+
+  // The track only gives way to a take while one is playing
+  useEffect(() => {
+    onTrackLevelChange(playingTakeId ? trackLevel : 1);
+  }, [playingTakeId, trackLevel, onTrackLevelChange]);
+
+  useEffect(() => {
+    if (takeAudioRef.current) takeAudioRef.current.volume = takeLevel;
+  }, [takeLevel]);
+
+  useEffect(() => () => {
+    takeAudioRef.current?.pause();
+    takeAudioRef.current = null;
+    onTrackLevelChange(1);
+  }, [onTrackLevelChange]);
+
+  const handleStop = useCallback(async () => {
+    const session = sessionRef.current;
+    sessionRef.current = null;
+    pause();
+    const result = await recorder.stop();
+    if (!result || !session) return;
+    setUploading(true);
+    try {
+      const ext = result.mimeType.includes("mp4") ? "mp4" : result.mimeType.includes("ogg") ? "ogg" : "webm";
+      const fd = new FormData();
+      fd.append("file", new File([result.blob], `take.${ext}`, { type: result.mimeType }));
+      fd.append("title", `${track.title} take`);
+      fd.append("duration", result.duration.toString());
+      fd.append(isJamTrack ? "jamTrackId" : "trackId", track.id);
+      fd.append("sourceStart", session.sourceStart.toString());
+      fd.append("alignOffset", (session.leadIn + session.latencyMs / 1000).toString());
+      fd.append("latencyMs", session.latencyMs.toString());
+      fd.append("playbackSpeed", session.speed.toString());
+      if (session.loop) {
+        fd.append("loopStart", session.loop.start.toString());
+        fd.append("loopEnd", session.loop.end.toString());
+      }
+      const res = await fetch("/api/recordings/upload", { method: "POST", body: fd });
+      if (!res.ok) throw new Error("Upload failed");
+      await fetchTakes();
+    } catch (err) {
+      console.error("Upload error:", err);
+      alert("Could not save take");
+    } finally {
+      setUploading(false);
+    }
+  }, [pause, recorder, track.id, track.title, isJamTrack, fetchTakes]);
+
+  const handleRecord = useCallback(async () => {
+    stopTake();
+    const { time, speed, loop } = getPlayback();
+    pause();
+    const sourceStart = loop ? loop.start : time;
+    const latencyMs = (await getDeviceLatencyMs()) ?? 0;
+    const capturedAt = await recorder.start();
+    if (capturedAt === null) return;
+    const startedAt = performance.now();
+    playFrom(sourceStart);
+    sessionRef.current = {
+      sourceStart,
+      speed,
+      loop,
+      leadIn: (startedAt - capturedAt) / 1000,
+      latencyMs,
+      sawPlaying: false,
+    };
+  }, [stopTake, getPlayback, pause, recorder, playFrom]);
+
+  // Stopping the track (or it reaching the end) ends the take, since
+  // anything recorded after that no longer lines up
+  const handleStopRef = useRef(handleStop);
+  useEffect(() => {
+    handleStopRef.current = handleStop;
+  });
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+    if (isPlaying) session.sawPlaying = true;
+    else if (session.sawPlaying) void handleStopRef.current();
+  }, [isPlaying]);
+
+  // Pausing the track also stops a take playing back with it
+  useEffect(() => {
+    if (!isPlaying && takeAudioRef.current && !takeAudioRef.current.paused) stopTake();
+  }, [isPlaying, stopTake]);
+
+  const playTake = useCallback((take: Recording) => {
+    stopTake();
+    pause();
+    const audio = new Audio(audioUrl(take.filePath));
+    audio.preload = "auto";
+    audio.volume = takeLevel;
+    takeAudioRef.current = audio;
+    setPlayingTakeId(take.id);
+    void routeMediaElementToSink(audio);
+    audio.addEventListener("ended", () => {
+      if (takeAudioRef.current === audio) stopTake();
+    });
+    audio.addEventListener("loadedmetadata", () => {
+      if (takeAudioRef.current !== audio) return;
+      audio.currentTime = take.alignOffset ?? 0;
+      const loop = take.loopStart != null && take.loopEnd != null ? { start: take.loopStart, end: take.loopEnd } : null;
+      playFrom(take.sourceStart ?? 0, { speed: take.playbackSpeed ?? 100, loop });
+      audio.play().catch((err) => {
+        console.error("Failed to play take:", err);
+        stopTake();
+      });
+    }, { once: true });
+  }, [stopTake, pause, takeLevel, playFrom]);
+
+  const handleDelete = useCallback(async (id: string) => {
+    if (!confirm("Delete this take? This cannot be undone.")) return;
+    try {
+      const res = await fetch(`/api/recordings/${id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Delete failed");
+      if (playingTakeId === id) stopTake();
+      setTakes((prev) => prev.filter((t) => t.id !== id));
+    } catch (err) {
+      console.error(err);
+      alert("Could not delete take");
+    }
+  }, [playingTakeId, stopTake]);
+
+  const handleMeasure = useCallback(async () => {
+    pause();
+    stopTake();
+    setMeasuring(true);
+    setLatencyError(null);
+    try {
+      const measurement = await measureRoundTripLatency();
+      saveLatencyCalibration(measurement.pair, measurement.ms);
+    } catch (err) {
+      console.error("Latency measurement failed:", err);
+      setLatencyError(err instanceof Error ? err.message : "Measurement failed");
+    } finally {
+      setMeasuring(false);
+    }
+  }, [pause, stopTake]);
+
+  const isRecording = recorder.status === "recording";
+  const isBusy = recorder.status === "requesting" || recorder.status === "stopping" || uploading;
+
+  return (
+    <div className="relative shrink-0">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`h-8 flex items-center gap-1 px-2 rounded-full text-xs font-medium transition-colors ${
+          isRecording
+            ? "bg-red-600 hover:bg-red-700 text-white animate-pulse"
+            : playingTakeId
+            ? "bg-teal-600 hover:bg-teal-700 text-white"
+            : "bg-gray-700 hover:bg-gray-600 text-gray-400"
+        }`}
+        title="Record along"
+        aria-expanded={isOpen}
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M12 15a3 3 0 003-3V6a3 3 0 10-6 0v6a3 3 0 003 3zm6-3a6 6 0 01-12 0m6 6v3" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 w-80 bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-3 z-50 text-xs">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-medium text-white">Record along</h4>
+            <span className="text-gray-500">
+              Latency {latencyMs !== null ? `${Math.round(latencyMs)} ms` : "not measured"}
+              <button
+                onClick={handleMeasure}
+                disabled={measuring || isRecording}
+                className="ml-2 text-gray-400 hover:text-white disabled:opacity-50"
+                title="Play test clicks through the output and time them on the input"
+              >
+                {measuring ? "Measuring…" : "Measure"}
+              </button>
+            </span>
+          </div>
+
+          {latencyError && <p className="text-red-400 mb-2">{latencyError}</p>}
+          {latencyMs === null && !latencyError && (
+            <p className="text-gray-500 mb-2">
+              Measure the latency for these devices once (or use Tools → Audio Latency), so takes line up with the track.
+            </p>
+          )}
+
+          <div className="flex items-center gap-2 mb-3">
+            <button
+              onClick={isRecording ? handleStop : handleRecord}
+              disabled={isBusy || measuring}
+              className={`px-3 py-1.5 rounded font-medium text-white disabled:opacity-50 ${
+                isRecording ? "bg-gray-600 hover:bg-gray-500" : "bg-red-600 hover:bg-red-700"
+              }`}
+            >
+              {isRecording ? "Stop" : uploading ? "Saving…" : "Record take"}
+            </button>
+            {isRecording && (
+              <>
+                <span className="text-gray-300 tabular-nums">{formatTime(recorder.durationMs / 1000)}</span>
+                <div className="flex-1 h-1.5 bg-gray-700 rounded overflow-hidden">
+                  <div className="h-full bg-green-500" style={{ width: `${Math.round(recorder.level * 100)}%` }} />
+                </div>
+              </>
+            )}
+            {!isRecording && (
+              <span className="text-gray-500">Starts the track from loop A or the playhead</span>
+            )}
+          </div>
+          {recorder.error && <p className="text-red-400 mb-2">{recorder.error}</p>}
+
+          <div className="mb-2">
+            <div className="flex justify-between text-gray-400 mb-1">
+              <span>Track</span>
+              <span>Balance</span>
+              <span>Take</span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={balance}
+              onChange={(e) => setBalance(parseInt(e.target.value))}
+              className="w-full accent-teal-500"
+            />
+          </div>
+
+          {takes.length === 0 ? (
+            <p className="text-gray-500">No takes for this track yet.</p>
+          ) : (
+            <ul className="space-y-1 max-h-48 overflow-y-auto">
+              {takes.map((take) => (
+                <li key={take.id} className="flex items-center gap-2 py-1 border-t border-gray-700 first:border-t-0">
+                  <button
+                    onClick={() => {
+                      if (playingTakeId !== take.id) return playTake(take);
+                      pause();
+                      stopTake();
+                    }}
+                    disabled={isRecording}
+                    className="w-6 h-6 flex items-center justify-center rounded-full bg-gray-700 hover:bg-gray-600 text-white disabled:opacity-50"
+                    title={playingTakeId === take.id ? "Stop" : "Play with the track"}
+                  >
+                    {playingTakeId === take.id ? "■" : "▶"}
+                  </button>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-gray-200 truncate">{take.title}</div>
+                    <div className="text-gray-500">
+                      {formatTime(take.duration)} · from {formatTime(take.sourceStart ?? 0)}
+                      {take.playbackSpeed != null && take.playbackSpeed !== 100 && ` · ${take.playbackSpeed}%`}
+                      {take.loopStart != null && take.loopEnd != null && " · loop"}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleDelete(take.id)}
+                    className="text-gray-500 hover:text-red-400"
+                    title="Delete take"
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import type { RoutineRunnerState } from "@/hooks/useRoutineRunner";
+import { describeRoutineBlock } from "@/lib/routines";
+
+function formatCountdown(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return `${m}:${s.toString().padStart(2, "0")}`;
+}
+
+interface Props {
+  state: RoutineRunnerState;
+  onTogglePause: () => void;
+  onSkip: () => void;
+  onStop: () => void;
+}
+
+/** Countdown and controls for the running routine, floating under the nav. */
+export default function RoutineRunnerBar({ state, onTogglePause, onSkip, onStop }: Props) {
+  const { routine, index, remainingSeconds, isPaused } = state;
+  const block = routine.blocks[index];
+  const nextBlock = routine.blocks[index + 1] ?? null;
+  const progress = block.durationSeconds > 0 ? 1 - remainingSeconds / block.durationSeconds : 1;
+
+  return (
+    <div className="fixed top-16 left-1/2 -translate-x-1/2 z-40 w-[min(36rem,calc(100vw-2rem))] bg-gray-800 border border-gray-700 rounded-lg shadow-2xl overflow-hidden">
+      <div className="flex items-center gap-3 px-3 py-2">
+        <div className="min-w-0 flex-1">
+          <div className="text-xs text-gray-400 truncate">
+            {routine.name} · {index + 1}/{routine.blocks.length}
+            {nextBlock && <span className="text-gray-500"> · next: {describeRoutineBlock(nextBlock)}</span>}
+          </div>
+          <div className="text-sm text-white font-medium truncate">{describeRoutineBlock(block)}</div>
+        </div>
+        <span className={`text-2xl font-mono tabular-nums shrink-0 ${isPaused ? "text-gray-500" : "text-green-400"}`}>
+          {formatCountdown(remainingSeconds)}
+        </span>
+        <div className="flex items-center gap-1 shrink-0">
+          <button
+            onClick={onTogglePause}
+            className="p-1.5 rounded text-gray-300 hover:text-white hover:bg-gray-700 transition-colors"
+            title={isPaused ? "Resume routine" : "Pause routine"}
+          >
+            {isPaused ? (
+              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                <path d="M8 5v14l11-7z" />
+              </svg>
+            ) : (
+              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                <path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z" />
+              </svg>
+            )}
+          </button>
+          <button
+            onClick={onSkip}
+            className="p-1.5 rounded text-gray-300 hover:text-white hover:bg-gray-700 transition-colors"
+            title={nextBlock ? "Skip to next block" : "Finish routine"}
+          >
+            <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+              <path d="M6 18l8.5-6L6 6v12zM16 6v12h2V6h-2z" />
+            </svg>
+          </button>
+          <button
+            onClick={onStop}
+            className="p-1.5 rounded text-gray-300 hover:text-red-400 hover:bg-gray-700 transition-colors"
+            title="Stop routine"
+          >
+            <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+              <path d="M6 6h12v12H6z" />
+            </svg>
+          </button>
+        </div>
+      </div>
+      <div className="h-1 bg-gray-700">
+        <div className="h-full bg-green-500 transition-[width] duration-300" style={{ width: `${Math.min(1, progress) * 100}%` }} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { AuthorSummary, JamTrack, Routine } from "@/types";
+import { RoutineBlockInput } from "@/lib/routines";
+import RoutineEditModal from "./modals/RoutineEditModal";
+
+interface Props {
+  authors: AuthorSummary[];
+  jamTracks: JamTrack[];
+  onStartRoutine: (routine: Routine) => void;
+}
+
+export default function RoutinesPanel({ authors, jamTracks, onStartRoutine }: Props) {
+  const [routines, setRoutines] = useState<Routine[]>([]);
+  // undefined: closed, null: creating a new routine
+  const [editing, setEditing] = useState<Routine | null | undefined>(undefined);
+
+  const fetchRoutines = useCallback(async () => {
+    try {
+      const res = await fetch("/api/routines");
+      if (res.ok) setRoutines(await res.json());
+    } catch (err) {
+      console.error("Failed to fetch routines:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetch("/api/routines")
+      .then((res) => (res.ok ? res.json() : []))
+      .then(setRoutines)
+      .catch((err) => console.error("Failed to fetch routines:", err));
+  }, []);
+
+  const handleSave = async (name: string, blocks: RoutineBlockInput[]) => {
+    const res = await fetch(editing ? `/api/routines/${editing.id}` : "/api/routines", {
+      method: editing ? "PUT" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name, blocks }),
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      throw new Error(data.error || "Failed to save routine");
+    }
+    await fetchRoutines();
+  };
+
+  const handleDelete = async (routine: Routine) => {
+    if (!confirm(`Delete routine "${routine.name}"? Past runs stay in your metrics.`)) return;
+    try {
+      const res = await fetch(`/api/routines/${routine.id}`, { method: "DELETE" });
+      if (res.ok) setRoutines((prev) => prev.filter((r) => r.id !== routine.id));
+    } catch (err) {
+      console.error("Failed to delete routine:", err);
+    }
+  };
+
+  return (
+    <div className="shrink-0 max-h-[40%] flex flex-col bg-gray-800 rounded-lg border border-gray-700 p-4">
+      <div className="flex items-center justify-between mb-3 shrink-0">
+        <h2 className="text-white font-medium flex items-center gap-2">
+          <svg className="w-5 h-5 text-green-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+          </svg>
+          Routines
+        </h2>
+        <button
+          onClick={() => setEditing(null)}
+          className="text-sm text-gray-400 hover:text-white transition-colors"
+        >
+          + New routine
+        </button>
+      </div>
+      {routines.length === 0 ? (
+        <p className="text-gray-500 text-sm">
+          Build a timed practice plan from tracks, jam tracks, videos, the metronome and theory tools.
+        </p>
+      ) : (
+        <div className="space-y-1 overflow-y-auto min-h-0 flex-1">
+          {routines.map((routine) => {
+            const totalMinutes = Math.round(routine.blocks.reduce((sum, b) => sum + b.durationSeconds, 0) / 60);
+            return (
+              <div key={routine.id} className="flex items-center gap-3 px-3 py-2 rounded-md hover:bg-gray-700/50 transition-colors group">
+                <button
+                  onClick={() => onStartRoutine(routine)}
+                  disabled={routine.blocks.length === 0}
+                  className="shrink-0 p-1.5 rounded-full bg-green-600 hover:bg-green-500 disabled:bg-gray-600 text-white transition-colors"
+                  title="Start routine"
+                >
+                  <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 24 24">
+                    <path d="M8 5v14l11-7z" />
+                  </svg>
+                </button>
+                <div className="min-w-0 flex-1">
+                  <span className="text-white text-sm truncate block">{routine.name}</span>
+                  <span className="text-gray-500 text-xs">
+                    {routine.blocks.length} block{routine.blocks.length !== 1 ? "s" : ""} · {totalMinutes} min
+                  </span>
+                </div>
+                <button
+                  onClick={() => setEditing(routine)}
+                  className="p-1 text-gray-500 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Edit routine"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                  </svg>
+                </button>
+                <button
+                  onClick={() => handleDelete(routine)}
+                  className="p-1 text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Delete routine"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                  </svg>
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {editing !== undefined && (
+        <RoutineEditModal
+          routine={editing}
+          authors={authors}
+          jamTracks={jamTracks}
+          onClose={() => setEditing(undefined)}
+          onSave={handleSave}
+        />
+      )}
+    </div>
+  );
+}
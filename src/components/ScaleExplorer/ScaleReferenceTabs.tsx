@@ -13,6 +13,8 @@ import PracticeExerciseTab from './PracticeExerciseTab';
 interface ScaleReferenceTabsProps {
   root: string;
   scaleType: ScaleType;
+  /** Tab to open on, e.g. straight to the exercise for a practice routine. */
+  initialTab?: ReferenceTab;
 }
 
 type ReferenceTab = 'chords' | 'intervals' | 'practice';
@@ -31,8 +33,8 @@ const TABS: { id: ReferenceTab; label: string }[] = [
  * Tabbed reference section shown below the fretboard, centralizing the
  * scale's chords/progressions and the general interval reference in one place.
  */
-export default function ScaleReferenceTabs({ root, scaleType }: ScaleReferenceTabsProps) {
-  const [activeTab, setActiveTab] = useState<ReferenceTab>('chords');
+export default function ScaleReferenceTabs({ root, scaleType, initialTab = 'chords' }: ScaleReferenceTabsProps) {
+  const [activeTab, setActiveTab] = useState<ReferenceTab>(initialTab);
 
   return (
     <div className="w-full text-left">
@@ -0,0 +1,127 @@
+"use client";
+
+import { useState } from "react";
+import type { ScanPhase, ScanProgress } from "@/lib/scanStream";
+
+interface ScanProgressPanelProps {
+  progress: ScanProgress;
+  onCancel: () => void;
+  onDismiss: () => void;
+}
+
+const PHASE_LABELS: Record<ScanPhase, string> = {
+  queued: "Waiting for another scan to finish…",
+  discovering: "Discovering files…",
+  parsing: "Reading metadata…",
+  jamTracks: "Scanning jam tracks…",
+  videos: "Scanning book videos…",
+  saving: "Saving to library…",
+  cleanup: "Removing missing files…",
+  reorganizing: "Organizing files…",
+  queueing: "Queueing background analysis…",
+};
+
+/** Live progress for a streaming library scan, with cancel while running and a summary when done. */
+export default function ScanProgressPanel({ progress, onCancel, onDismiss }: ScanProgressPanelProps) {
+  const [showErrors, setShowErrors] = useState(false);
+  const running = progress.status === "running";
+
+  let percent: number | null = null;
+  if ((progress.phase === "parsing" || progress.phase === "jamTracks") && progress.filesDiscovered > 0) {
+    percent = (progress.filesParsed / progress.filesDiscovered) * 100;
+  }
+
+  let title: string;
+  if (progress.status === "done") title = progress.result?.message ?? "Library scan complete";
+  else if (progress.status === "cancelled") title = "Scan cancelled";
+  else if (progress.status === "error") title = progress.errorMessage ?? "Scan failed";
+  else title = PHASE_LABELS[progress.phase];
+
+  const files = progress.result?.files;
+
+  return (
+    <div className="mb-6 rounded-lg border border-gray-700 bg-gray-800/60 p-4 text-sm">
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <span
+          className={`font-medium ${
+            progress.status === "error" ? "text-red-400" : progress.status === "done" ? "text-green-400" : "text-gray-200"
+          }`}
+        >
+          {title}
+        </span>
+        {running ? (
+          <button
+            onClick={onCancel}
+            className="px-2.5 py-1 text-xs rounded-md bg-gray-700 text-gray-300 hover:bg-red-700 hover:text-white transition-colors"
+          >
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={onDismiss}
+            className="p-1 text-gray-500 hover:text-white transition-colors"
+            title="Dismiss"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        )}
+      </div>
+
+      {running && (
+        <div className="h-1.5 w-full rounded-full bg-gray-700 overflow-hidden mb-2">
+          {percent === null ? (
+            <div className="h-full w-full bg-green-600/60 animate-pulse" />
+          ) : (
+            <div
+              className="h-full bg-green-500 transition-[width] duration-200 ease-out"
+              style={{ width: `${Math.min(100, Math.max(0, percent))}%` }}
+            />
+          )}
+        </div>
+      )}
+
+      {running && progress.currentFile && (
+        <p className="text-xs text-gray-500 truncate mb-2" title={progress.currentFile}>
+          {progress.currentFile}
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-400">
+        <span>{progress.filesParsed} / {progress.filesDiscovered} files</span>
+        <span>{progress.filesChanged} new or changed</span>
+        <span>{progress.videosFound} videos</span>
+        <span>{progress.booksSaved} books saved</span>
+        {progress.result?.jobs && progress.result.jobs.queued > 0 && (
+          <span>{progress.result.jobs.queued} analysis jobs queued</span>
+        )}
+        {files && (
+          <span>
+            {files.added} added &bull; {files.changed} changed &bull; {files.moved} moved &bull; {files.removed} removed
+          </span>
+        )}
+      </div>
+
+      {progress.errors.length > 0 && (
+        <div className="mt-2">
+          <button
+            onClick={() => setShowErrors((v) => !v)}
+            className="text-xs text-red-400 hover:text-red-300"
+          >
+            {progress.errors.length} error{progress.errors.length !== 1 ? "s" : ""} {showErrors ? "▾" : "▸"}
+          </button>
+          {showErrors && (
+            <ul className="mt-1 max-h-32 overflow-y-auto space-y-0.5 text-xs text-gray-500">
+              {progress.errors.map((e, i) => (
+                <li key={i} className="truncate" title={`${e.path}: ${e.error}`}>
+                  <span className="text-gray-400">{e.path}</span>: {e.error}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
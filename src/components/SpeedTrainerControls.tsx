@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from "react";
+import { SpeedTrainerSettings, normalizeSpeedTrainerSettings } from "@/lib/speedTrainer";
+
+interface SpeedTrainerControlsProps {
+  settings: SpeedTrainerSettings;
+  onSettingsChange: (settings: SpeedTrainerSettings) => void;
+  isActive: boolean;
+  isComplete: boolean;
+  currentSpeed: number;
+  cleanReps: number;
+  hasLoop: boolean;
+  hasTempo: boolean;
+  onStart: () => void;
+  onStop: () => void;
+  onMiss: () => void;
+}
+
+const NUMBER_FIELDS: { key: "startSpeed" | "targetSpeed" | "stepPercent" | "repsPerStep"; label: string; suffix: string }[] = [
+  { key: "startSpeed", label: "Start at", suffix: "%" },
+  { key: "targetSpeed", label: "Up to", suffix: "%" },
+  { key: "stepPercent", label: "Step", suffix: "%" },
+  { key: "repsPerStep", label: "Clean passes", suffix: "" },
+];
+
+/** Player button and popover for the A-B loop speed trainer. */
+export default function SpeedTrainerControls({
+  settings,
+  onSettingsChange,
+  isActive,
+  isComplete,
+  currentSpeed,
+  cleanReps,
+  hasLoop,
+  hasTempo,
+  onStart,
+  onStop,
+  onMiss,
+}: SpeedTrainerControlsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative shrink-0">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`h-8 flex items-center gap-1 px-2 rounded-full text-xs font-medium transition-colors ${
+          isActive
+            ? "bg-orange-600 hover:bg-orange-700 text-white"
+            : "bg-gray-700 hover:bg-gray-600 text-gray-400"
+        }`}
+        title="Speed trainer"
+        aria-expanded={isOpen}
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" />
+        </svg>
+        {isActive && (
+          <span className="tabular-nums">
+            {currentSpeed}% {cleanReps}/{settings.repsPerStep}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 w-64 bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-3 z-50 text-xs">
+          <h4 className="text-sm font-medium text-white mb-2">Speed Trainer</h4>
+          <p className="text-gray-400 mb-3">
+            Loops A-B, raising the speed after each run of clean passes until the target.
+          </p>
+
+          <div className="grid grid-cols-2 gap-2 mb-3">
+            {NUMBER_FIELDS.map((field) => (
+              <label key={field.key} className="flex flex-col gap-1 text-gray-400">
+                {field.label}
+                <div className="flex items-center gap-1">
+                  {/* Committed on blur so partial input isn't clamped while typing */}
+                  <input
+                    key={settings[field.key]}
+                    type="number"
+                    defaultValue={settings[field.key]}
+                    disabled={isActive}
+                    onBlur={(e) =>
+                      onSettingsChange(
+                        normalizeSpeedTrainerSettings({ ...settings, [field.key]: parseInt(e.target.value, 10) })
+                      )
+                    }
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") (e.target as HTMLInputElement).blur();
+                    }}
+                    className="w-16 px-2 py-0.5 bg-gray-700 border border-gray-600 rounded text-center text-white focus:outline-none focus:border-green-500 disabled:opacity-50"
+                  />
+                  <span className="text-gray-500">{field.suffix}</span>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          <label className={`flex items-center gap-2 mb-3 ${hasTempo ? "text-gray-300" : "text-gray-500"}`}>
+            <input
+              type="checkbox"
+              checked={settings.countIn && hasTempo}
+              disabled={!hasTempo}
+              onChange={(e) => onSettingsChange({ ...settings, countIn: e.target.checked })}
+              className="rounded bg-gray-700 border-gray-600"
+            />
+            Count-in before each pass{!hasTempo && " (set a tempo first)"}
+          </label>
+
+          {isActive ? (
+            <div className="space-y-2">
+              <p className="text-gray-300 tabular-nums">
+                {currentSpeed}% · {cleanReps} of {settings.repsPerStep} clean passes
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={onMiss}
+                  className="flex-1 px-2 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded transition-colors"
+                  title="That pass wasn't clean: restart the count for this speed"
+                >
+                  Missed
+                </button>
+                <button
+                  onClick={onStop}
+                  className="flex-1 px-2 py-1 bg-red-600 hover:bg-red-700 text-white rounded transition-colors"
+                >
+                  Stop
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {isComplete && <p className="text-green-400">Reached {settings.targetSpeed}%.</p>}
+              <button
+                onClick={onStart}
+                disabled={!hasLoop}
+                className="w-full px-2 py-1 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded transition-colors"
+                title={hasLoop ? undefined : "Set an A-B loop first"}
+              >
+                {hasLoop ? "Start" : "Set an A-B loop first"}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+"use client";
+
+import { useState } from "react";
+import {
+  ChannelSolo,
+  DEFAULT_TONE_SETTINGS,
+  EQ_GAIN_RANGE,
+  EQ_PRESETS,
+  EqBand,
+  ToneSettings,
+  isDefaultTone,
+} from "@/lib/playerTone";
+
+interface ToneControlsProps {
+  settings: ToneSettings;
+  onSettingsChange: (settings: ToneSettings) => void;
+}
+
+const BAND_LABELS = ["Low", "Low mid", "High mid", "High"];
+const CHANNEL_OPTIONS: { id: ChannelSolo; label: string }[] = [
+  { id: "left", label: "L" },
+  { id: "both", label: "Both" },
+  { id: "right", label: "R" },
+];
+
+function formatFrequency(hz: number): string {
+  return hz >= 1000 ? `${(hz / 1000).toFixed(hz >= 10000 ? 0 : 1)}k` : `${Math.round(hz)}`;
+}
+
+/** Player button and popover for EQ, center-channel cancellation and channel solo. */
+export default function ToneControls({ settings, onSettingsChange }: ToneControlsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const isOn = !isDefaultTone(settings);
+  const activePreset = EQ_PRESETS.find((preset) =>
+    preset.eq.every((band, i) =>
+      band.frequency === settings.eq[i].frequency && band.gain === settings.eq[i].gain && band.q === settings.eq[i].q
+    )
+  );
+
+  const updateBand = (index: number, changes: Partial<EqBand>) => {
+    onSettingsChange({
+      ...settings,
+      eq: settings.eq.map((band, i) => (i === index ? { ...band, ...changes } : band)),
+    });
+  };
+
+  return (
+    <div className="relative shrink-0">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`h-8 flex items-center gap-1 px-2 rounded-full text-xs font-medium transition-colors ${
+          isOn
+            ? "bg-teal-600 hover:bg-teal-700 text-white"
+            : "bg-gray-700 hover:bg-gray-600 text-gray-400"
+        }`}
+        title="EQ and channels"
+        aria-expanded={isOpen}
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M6 4v6m0 4v6M12 4v2m0 4v10M18 4v10m0 4v2M4 12h4M10 8h4M16 16h4" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 w-72 bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-3 z-50 text-xs">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-medium text-white">Tone</h4>
+            {isOn && (
+              <button
+                onClick={() => onSettingsChange(DEFAULT_TONE_SETTINGS)}
+                className="text-gray-400 hover:text-white"
+              >
+                Reset
+              </button>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-1">
+              {EQ_PRESETS.map((preset) => (
+                <button
+                  key={preset.id}
+                  onClick={() => onSettingsChange({ ...settings, eq: preset.eq })}
+                  className={`px-2 py-0.5 rounded ${
+                    activePreset?.id === preset.id
+                      ? "bg-teal-600 text-white"
+                      : "bg-gray-700 hover:bg-gray-600 text-gray-300"
+                  }`}
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              {settings.eq.map((band, i) => (
+                <div key={i} className="text-gray-400">
+                  <div className="flex items-center justify-between">
+                    <span>{BAND_LABELS[i]}</span>
+                    <span className="tabular-nums text-gray-300">
+                      {band.gain > 0 ? "+" : ""}{band.gain} dB @ {formatFrequency(band.frequency)} Hz
+                    </span>
+                  </div>
+                  <input
+                    type="range"
+                    min={-EQ_GAIN_RANGE}
+                    max={EQ_GAIN_RANGE}
+                    step={1}
+                    value={band.gain}
+                    onChange={(e) => updateBand(i, { gain: parseInt(e.target.value, 10) })}
+                    onDoubleClick={() => updateBand(i, { gain: 0 })}
+                    className="w-full accent-teal-500"
+                    aria-label={`${BAND_LABELS[i]} gain`}
+                  />
+                  <div className="flex items-center gap-2">
+                    {/* Log scale so the slider spends as much travel on bass as on treble */}
+                    <input
+                      type="range"
+                      min={Math.log10(20)}
+                      max={Math.log10(20000)}
+                      step={0.01}
+                      value={Math.log10(band.frequency)}
+                      onChange={(e) => updateBand(i, { frequency: Math.round(Math.pow(10, parseFloat(e.target.value))) })}
+                      className="flex-1 accent-gray-400"
+                      aria-label={`${BAND_LABELS[i]} frequency`}
+                    />
+                    {band.type === "peaking" && (
+                      <label className="flex items-center gap-1">
+                        Q
+                        <input
+                          type="number"
+                          min={0.1}
+                          max={18}
+                          step={0.1}
+                          value={band.q}
+                          onChange={(e) => {
+                            const q = parseFloat(e.target.value);
+                            if (q > 0) updateBand(i, { q: Math.min(18, q) });
+                          }}
+                          className="w-12 px-1 py-0.5 bg-gray-700 border border-gray-600 rounded text-center text-white focus:outline-none focus:border-teal-500"
+                        />
+                      </label>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="border-t border-gray-700 pt-2 space-y-2">
+              <label className="flex items-center gap-2 text-gray-400" title="Lower to cancel what's panned to the middle">
+                <span className="w-12">Center</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  value={Math.round(settings.center * 100)}
+                  onChange={(e) => onSettingsChange({ ...settings, center: parseInt(e.target.value, 10) / 100 })}
+                  className="flex-1 accent-teal-500"
+                />
+                <span className="w-8 text-right tabular-nums text-gray-300">{Math.round(settings.center * 100)}%</span>
+              </label>
+              <label className="flex items-center gap-2 text-gray-400" title="Lower to isolate what's panned to the middle">
+                <span className="w-12">Sides</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  value={Math.round(settings.sides * 100)}
+                  onChange={(e) => onSettingsChange({ ...settings, sides: parseInt(e.target.value, 10) / 100 })}
+                  className="flex-1 accent-teal-500"
+                />
+                <span className="w-8 text-right tabular-nums text-gray-300">{Math.round(settings.sides * 100)}%</span>
+              </label>
+              <div className="flex items-center gap-2 text-gray-400">
+                <span className="w-12">Solo</span>
+                <div className="flex gap-1">
+                  {CHANNEL_OPTIONS.map((option) => (
+                    <button
+                      key={option.id}
+                      onClick={() => onSettingsChange({ ...settings, channel: option.id })}
+                      className={`px-2 py-0.5 rounded ${
+                        settings.channel === option.id
+                          ? "bg-teal-600 text-white"
+                          : "bg-gray-700 hover:bg-gray-600 text-gray-300"
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
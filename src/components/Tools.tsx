@@ -2,6 +2,11 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { Author } from '@/types';
+import LibraryIntegrityPanel from './LibraryIntegrityPanel';
+import LibraryReorganizePanel from './LibraryReorganizePanel';
+import DatabaseBackupPanel from './DatabaseBackupPanel';
+import InputBindingsPanel from './InputBindingsPanel';
+import AudioLatencyPanel from './AudioLatencyPanel';
 
 interface BookOption {
   bookId: string;
@@ -33,6 +38,12 @@ export default function Tools() {
   const [imgResult, setImgResult] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
   const imgFileInputRef = useRef<HTMLInputElement>(null);
 
+  // Book import state
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importIsProcessing, setImportIsProcessing] = useState(false);
+  const [importResult, setImportResult] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  const importFileInputRef = useRef<HTMLInputElement>(null);
+
   useEffect(() => {
     fetchBooks();
   }, []);
@@ -194,6 +205,38 @@ export default function Tools() {
     }
   };
 
+  // --- Book import handler ---
+  const handleImportSubmit = async () => {
+    if (!importFile) return;
+
+    setImportIsProcessing(true);
+    setImportResult(null);
+
+    try {
+      // Sent as the raw body so the server can stream large archives to disk
+      const res = await fetch('/api/books/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/zip' },
+        body: importFile,
+      });
+
+      const data = await res.json();
+
+      if (res.ok) {
+        setImportResult({ type: 'success', message: data.message });
+        setImportFile(null);
+        if (importFileInputRef.current) importFileInputRef.current.value = '';
+        await fetchBooks();
+      } else {
+        setImportResult({ type: 'error', message: data.error || 'Import failed' });
+      }
+    } catch {
+      setImportResult({ type: 'error', message: 'An unexpected error occurred' });
+    } finally {
+      setImportIsProcessing(false);
+    }
+  };
+
   return (
     <div className="flex-1 overflow-y-auto p-8">
       <div className="max-w-2xl mx-auto space-y-8">
@@ -387,6 +430,55 @@ export default function Tools() {
             </div>
           )}
         </div>
+
+        {/* Book Import Card */}
+        <div className="bg-gray-800 rounded-lg border border-gray-700 p-6">
+          <h2 className="text-lg font-semibold text-white mb-2">Import Book</h2>
+          <p className="text-gray-400 text-sm mb-6">
+            Import a book exported from another Guitar Assistant (Edit Book → Export), including its
+            audio, PDF, cover, videos, chapters, markers and tabs.
+          </p>
+
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Book archive (.zip)</label>
+              <input
+                ref={importFileInputRef}
+                type="file"
+                accept=".zip"
+                onChange={(e) => {
+                  setImportFile(e.target.files?.[0] || null);
+                  setImportResult(null);
+                }}
+                className="w-full text-sm text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-gray-700 file:text-white hover:file:bg-gray-600 file:cursor-pointer"
+              />
+            </div>
+
+            <button
+              onClick={handleImportSubmit}
+              disabled={!importFile || importIsProcessing}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white text-sm font-medium rounded-md transition-colors"
+            >
+              {importIsProcessing ? 'Importing...' : 'Import Book'}
+            </button>
+
+            {importResult && (
+              <p className={`text-sm ${importResult.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>
+                {importResult.message}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <LibraryReorganizePanel />
+
+        <LibraryIntegrityPanel />
+
+        <DatabaseBackupPanel />
+
+        <InputBindingsPanel />
+
+        <AudioLatencyPanel />
       </div>
     </div>
   );
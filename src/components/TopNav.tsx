@@ -4,9 +4,11 @@ import Link from 'next/link';
 import { useState, useEffect, useRef, useCallback, memo } from 'react';
 import GlobalSearch from './GlobalSearch';
 import PracticeNextDropdown from './PracticeNextDropdown';
+import PlayQueueDropdown from './PlayQueueDropdown';
 import Tuner from './Tuner';
 import AudioOutputPicker from './AudioOutputPicker';
 import { SearchResultTrack, SearchResultBook, SearchResultJamTrack } from '@/types';
+import type { PlayQueue } from '@/hooks/usePlayQueue';
 import { useAudioRecorder } from '@/hooks/useAudioRecorder';
 import {
   routeContextToSink,
@@ -25,6 +27,16 @@ const NAV_TOOLTIP =
 type Section = 'home' | 'lessons' | 'videos' | 'fretboard' | 'chords' | 'tools' | 'circle' | 'jamtracks' | 'recordings' | 'metrics' | 'caged';
 type TimeSignature = '4/4' | '3/4' | '2/4' | '6/8';
 
+/** Set the metronome from outside, e.g. a routine block; applied when the token changes. */
+export interface MetronomeRequest {
+  token: number;
+  playing: boolean;
+  bpm?: number;
+  timeSignature?: string;
+}
+
+const TIME_SIGNATURES: TimeSignature[] = ['4/4', '3/4', '2/4', '6/8'];
+
 interface TopNavProps {
   activeSection: Section;
   onSectionChange: (section: Section) => void;
@@ -32,9 +44,12 @@ interface TopNavProps {
   onSearchBookSelect: (result: SearchResultBook) => void;
   onSearchJamTrackSelect: (result: SearchResultJamTrack) => void;
   onGoToTrack: (trackId: string | null, jamTrackId: string | null, authorId: string | null, bookId: string | null, bookVideoId?: string | null, videoId?: string | null) => void;
+  playQueue: PlayQueue;
+  onPlayQueueAt: (index: number | null) => void;
+  metronomeRequest?: MetronomeRequest | null;
 }
 
-const TopNav = memo(function TopNav({ activeSection, onSectionChange, onSearchTrackSelect, onSearchBookSelect, onSearchJamTrackSelect, onGoToTrack }: TopNavProps) {
+const TopNav = memo(function TopNav({ activeSection, onSectionChange, onSearchTrackSelect, onSearchBookSelect, onSearchJamTrackSelect, onGoToTrack, playQueue, onPlayQueueAt, metronomeRequest }: TopNavProps) {
   const [showMetronome, setShowMetronome] = useState(false);
   const [showTuner, setShowTuner] = useState(false);
   const [showRecorder, setShowRecorder] = useState(false);
@@ -178,6 +193,25 @@ const TopNav = memo(function TopNav({ activeSection, onSectionChange, onSearchTr
     }
   }, [isPlaying, startMetronome, stopMetronome]);
 
+  useEffect(() => {
+    if (!metronomeRequest) return;
+    const { bpm: requestedBpm, timeSignature: requestedSignature, playing } = metronomeRequest;
+    if (requestedBpm != null) {
+      const clamped = Math.min(300, Math.max(20, requestedBpm));
+      bpmRef.current = clamped;
+      setBpm(clamped);
+    }
+    if (requestedSignature && (TIME_SIGNATURES as string[]).includes(requestedSignature)) {
+      timeSignatureRef.current = requestedSignature as TimeSignature;
+      setTimeSignature(requestedSignature as TimeSignature);
+    }
+    // Restart so a new time signature counts from the downbeat
+    stopMetronome();
+    if (playing) startMetronome();
+    // Only a new request should touch the metronome
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [metronomeRequest?.token]);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -466,6 +500,9 @@ const TopNav = memo(function TopNav({ activeSection, onSectionChange, onSearchTr
           {/* Practice Next dropdown */}
           <PracticeNextDropdown onGoToTrack={onGoToTrack} />
 
+          {/* Play queue */}
+          <PlayQueueDropdown playQueue={playQueue} onPlayAt={onPlayQueueAt} />
+
           {/* Search - mobile icon */}
           <button
             onClick={() => setShowMobileSearch(true)}
@@ -574,7 +611,7 @@ const TopNav = memo(function TopNav({ activeSection, onSectionChange, onSearchTr
 
             {/* Time Signature */}
             <div className="flex items-center gap-1">
-              {(['4/4', '3/4', '2/4', '6/8'] as TimeSignature[]).map((sig) => (
+              {TIME_SIGNATURES.map((sig) => (
                 <button
                   key={sig}
                   onClick={() => setTimeSignature(sig)}
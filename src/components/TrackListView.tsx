@@ -8,9 +8,11 @@ import { formatDuration } from "@/lib/formatting";
 import BookEditModal from "./modals/BookEditModal";
 import { getBookCoverUrl } from "@/lib/covers";
 import TrackEditModal from "./modals/TrackEditModal";
+import TrackSplitModal from "./modals/TrackSplitModal";
 import VideoEditModal from "./modals/VideoEditModal";
 import ChapterEditModal from "./modals/ChapterEditModal";
 import NotesModal from "./modals/NotesModal";
+import { PlayQueueEntry, queueEntriesForBook, queueEntryForTrack } from "@/hooks/usePlayQueue";
 
 const BookCover = memo(function BookCover({ book }: { book: Book }) {
   const [hasError, setHasError] = useState(false);
@@ -83,6 +85,7 @@ interface TrackListViewProps {
   onAudioUpload?: (bookId: string, files: FileList) => Promise<void>;
   onLibraryRefresh?: () => Promise<void>;
   onExtractAudio?: (video: BookVideo) => void;
+  onAddToQueue?: (entries: PlayQueueEntry[]) => void;
   extractingVideoId?: string | null;
 }
 
@@ -122,10 +125,12 @@ export default memo(function TrackListView({
   onAudioUpload,
   onLibraryRefresh,
   onExtractAudio,
+  onAddToQueue,
   extractingVideoId,
 }: TrackListViewProps) {
   const [editingBook, setEditingBook] = useState(false);
   const [editingTrack, setEditingTrack] = useState<Track | null>(null);
+  const [splittingTrack, setSplittingTrack] = useState<Track | null>(null);
   const [editingVideo, setEditingVideo] = useState<BookVideo | null>(null);
   const [notesTarget, setNotesTarget] = useState<{ type: 'track' | 'bookVideo'; id: string; title: string; notes: string | null } | null>(null);
   const [isConverting, setIsConverting] = useState(false);
@@ -457,6 +462,19 @@ export default memo(function TrackListView({
           chapters={book.chapters || []}
           onClose={() => setEditingTrack(null)}
           onSave={onTrackUpdate}
+          onSplit={onLibraryRefresh ? () => {
+            setSplittingTrack(editingTrack);
+            setEditingTrack(null);
+          } : undefined}
+        />
+      )}
+
+      {/* Track Split Modal */}
+      {splittingTrack && onLibraryRefresh && (
+        <TrackSplitModal
+          track={splittingTrack}
+          onClose={() => setSplittingTrack(null)}
+          onSplit={onLibraryRefresh}
         />
       )}
 
@@ -589,6 +607,17 @@ export default memo(function TrackListView({
                 </svg>
               </button>
             )}
+            {onAddToQueue && allBookTracks.length > 0 && (
+              <button
+                onClick={() => onAddToQueue(queueEntriesForBook(book))}
+                className="p-1 text-gray-400 hover:text-blue-400 hover:bg-gray-700 rounded transition-colors"
+                title="Add book to play queue"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h12M4 12h8M4 18h8m9-3h-6m3-3v6" />
+                </svg>
+              </button>
+            )}
             {onBookUpdate && (
               <button
                 onClick={() => setEditingBook(true)}
@@ -899,6 +928,7 @@ export default memo(function TrackListView({
                 onExtractAudio={onExtractAudio}
                 extractingVideoId={extractingVideoId}
                 onAssignToChapter={handleAssignToChapter}
+                onAddToQueue={onAddToQueue}
               />
             ))}
         </div>
@@ -986,6 +1016,21 @@ export default memo(function TrackListView({
                 {track.title}
               </span>
 
+              {onAddToQueue && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onAddToQueue([queueEntryForTrack(track, author.id, book)]);
+                  }}
+                  className="p-1 text-gray-500 hover:text-blue-400 opacity-0 group-hover:opacity-100 transition-opacity shrink-0"
+                  title="Add to play queue"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h12M4 12h8M4 18h8m9-3h-6m3-3v6" />
+                  </svg>
+                </button>
+              )}
+
               {/* Quick action icons for linked media */}
               {track.sourceVideoId && videoBySourceId.has(track.sourceVideoId) && (
                 <button
@@ -4,6 +4,7 @@ import { useEffect, useRef, useState, useCallback } from 'react';
 import { PitchDetector } from 'pitchy';
 import { TUNING_PRESETS, freqToNote, nearestString, type TuningString } from '@/lib/tuner/presets';
 import { withInputDevice } from '@/lib/audioSink';
+import { getDeviceLatencyMs, subscribeToLatencyChanges } from '@/lib/latency';
 
 type Mode = 'chromatic' | 'preset';
 type Status = 'idle' | 'requesting' | 'listening' | 'denied' | 'error';
@@ -30,6 +31,7 @@ export default function Tuner({ show }: TunerProps) {
   const [status, setStatus] = useState<Status>('idle');
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [detection, setDetection] = useState<Detection | null>(null);
+  const [latencyMs, setLatencyMs] = useState<number | null>(null);
 
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
@@ -137,6 +139,14 @@ export default function Tuner({ show }: TunerProps) {
     return () => { stop(); };
   }, [stop]);
 
+  // The calibrated round trip for the devices in use, shown next to the mic status
+  useEffect(() => {
+    if (!show) return;
+    const load = () => void getDeviceLatencyMs().then(setLatencyMs);
+    load();
+    return subscribeToLatencyChanges(load);
+  }, [show]);
+
   if (!show) return null;
 
   const preset = TUNING_PRESETS.find((p) => p.id === presetId) ?? TUNING_PRESETS[0];
@@ -238,6 +248,12 @@ export default function Tuner({ show }: TunerProps) {
             <>
               <span className="w-2 h-2 bg-red-400 rounded-full animate-pulse" />
               <span className="text-gray-400">Listening</span>
+              <span
+                className="text-gray-500"
+                title="Round-trip latency calibrated for these devices (Tools → Audio Latency)"
+              >
+                {latencyMs !== null ? `· ${Math.round(latencyMs)} ms` : '· latency not calibrated'}
+              </span>
             </>
           )}
           {status === 'requesting' && <span className="text-gray-400">Requesting mic…</span>}
@@ -5,12 +5,20 @@ import { AuthorSummary } from "@/types";
 
 type BookTarget = "auto" | "existing" | "new";
 
+export interface SplitUploadOptions {
+  mode: "cue" | "silence";
+  cue: File | null;
+  thresholdDb: number;
+  minSilence: number;
+}
+
 interface UploadModalProps {
   isOpen: boolean;
   onClose: () => void;
   onAudioUpload: (files: FileList, authorName?: string, bookName?: string) => Promise<void>;
   onPdfBookUpload: (file: File, authorName: string, bookName: string) => Promise<void>;
   onVideoUpload: (files: File[], authorName: string, bookName: string) => Promise<void>;
+  onSplitUpload: (file: File, options: SplitUploadOptions, authorName?: string, bookName?: string) => Promise<void>;
   authors: AuthorSummary[];
 }
 
@@ -20,6 +28,7 @@ export default function UploadModal({
   onAudioUpload,
   onPdfBookUpload,
   onVideoUpload,
+  onSplitUpload,
   authors,
 }: UploadModalProps) {
   const [isUploading, setIsUploading] = useState(false);
@@ -35,9 +44,17 @@ export default function UploadModal({
   const [pdfFile, setPdfFile] = useState<File | null>(null);
   const [videoFiles, setVideoFiles] = useState<File[]>([]);
 
+  // Splitting a single long file into tracks
+  const [splitEnabled, setSplitEnabled] = useState(false);
+  const [splitMode, setSplitMode] = useState<"cue" | "silence">("silence");
+  const [cueFile, setCueFile] = useState<File | null>(null);
+  const [thresholdDb, setThresholdDb] = useState(-40);
+  const [minSilence, setMinSilence] = useState(2);
+
   const audioInputRef = useRef<HTMLInputElement>(null);
   const pdfInputRef = useRef<HTMLInputElement>(null);
   const videoInputRef = useRef<HTMLInputElement>(null);
+  const cueInputRef = useRef<HTMLInputElement>(null);
 
   const explicitTarget = bookTarget !== "auto";
 
@@ -49,6 +66,9 @@ export default function UploadModal({
     setAudioFiles([]);
     setPdfFile(null);
     setVideoFiles([]);
+    setSplitEnabled(false);
+    setSplitMode("silence");
+    setCueFile(null);
     setIsUploading(false);
   };
 
@@ -92,7 +112,11 @@ export default function UploadModal({
   const hasAnyFiles =
     audioFiles.length > 0 || pdfFile !== null || videoFiles.length > 0;
 
-  const canUpload = hasAnyFiles && targetReady;
+  const canSplit = audioFiles.length === 1;
+  const splitting = canSplit && splitEnabled;
+  const splitReady = !splitting || splitMode === "silence" || cueFile !== null;
+
+  const canUpload = hasAnyFiles && targetReady && splitReady;
 
   const handleUpload = async () => {
     if (!canUpload) return;
@@ -108,14 +132,21 @@ export default function UploadModal({
         try {
           const dt = new DataTransfer();
           audioFiles.forEach((f) => dt.items.add(f));
-          if (explicitTarget) {
+          if (splitting) {
+            const options = { mode: splitMode, cue: cueFile, thresholdDb, minSilence };
+            if (explicitTarget) {
+              await onSplitUpload(audioFiles[0], options, trimmedAuthor, trimmedBook);
+            } else {
+              await onSplitUpload(audioFiles[0], options);
+            }
+          } else if (explicitTarget) {
             await onAudioUpload(dt.files, trimmedAuthor, trimmedBook);
           } else {
             await onAudioUpload(dt.files);
           }
         } catch (err) {
           console.error("Audio upload failed:", err);
-          errors.push("audio");
+          errors.push(splitting && err instanceof Error ? `audio (${err.message})` : "audio");
         }
       }
 
@@ -294,6 +325,92 @@ export default function UploadModal({
                 </div>
               </div>
             )}
+
+            {canSplit && (
+              <div className="mt-3 border border-gray-700 rounded p-3 space-y-3">
+                <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={splitEnabled}
+                    onChange={(e) => setSplitEnabled(e.target.checked)}
+                    className="rounded bg-gray-700 border-gray-600"
+                  />
+                  Split into tracks
+                </label>
+                {splitEnabled && (
+                  <>
+                    <div className="flex rounded overflow-hidden border border-gray-600">
+                      {([
+                        { value: "silence" as const, label: "At silences" },
+                        { value: "cue" as const, label: "From cue sheet" },
+                      ]).map((opt) => (
+                        <button
+                          key={opt.value}
+                          type="button"
+                          onClick={() => setSplitMode(opt.value)}
+                          className={`flex-1 px-3 py-1.5 text-sm transition-colors ${
+                            splitMode === opt.value
+                              ? "bg-blue-600 text-white"
+                              : "bg-gray-700 text-gray-400 hover:text-white"
+                          }`}
+                        >
+                          {opt.label}
+                        </button>
+                      ))}
+                    </div>
+                    {splitMode === "silence" ? (
+                      <div className="flex gap-4">
+                        <div>
+                          <label className="block text-xs text-gray-400 mb-1">Silence below (dB)</label>
+                          <input
+                            type="number"
+                            min={-90}
+                            max={-10}
+                            value={thresholdDb}
+                            onChange={(e) => setThresholdDb(Math.min(-10, Math.max(-90, parseInt(e.target.value) || -40)))}
+                            className="w-24 px-3 py-1.5 bg-gray-700 border border-gray-600 rounded text-white focus:outline-none focus:border-blue-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-400 mb-1">Lasting at least (s)</label>
+                          <input
+                            type="number"
+                            min={0.5}
+                            max={30}
+                            step={0.5}
+                            value={minSilence}
+                            onChange={(e) => setMinSilence(Math.min(30, Math.max(0.5, parseFloat(e.target.value) || 2)))}
+                            className="w-24 px-3 py-1.5 bg-gray-700 border border-gray-600 rounded text-white focus:outline-none focus:border-blue-500"
+                          />
+                        </div>
+                      </div>
+                    ) : (
+                      <div>
+                        <button
+                          type="button"
+                          onClick={() => cueInputRef.current?.click()}
+                          className="w-full px-3 py-2 bg-gray-700 hover:bg-gray-600 border border-dashed border-gray-600 rounded text-sm text-gray-300 transition-colors"
+                        >
+                          {cueFile ? cueFile.name : "Select .cue file"}
+                        </button>
+                        <input
+                          ref={cueInputRef}
+                          type="file"
+                          accept=".cue"
+                          onChange={(e) => {
+                            if (e.target.files?.[0]) setCueFile(e.target.files[0]);
+                          }}
+                          className="hidden"
+                        />
+                      </div>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      Tracks are numbered and named like Reorganize does. To preview the cuts, upload the file as-is and use Split in its Edit Track dialog.
+                    </p>
+                  </>
+                )}
+              </div>
+            )}
           </div>
 
           {/* PDF — only when explicit target */}
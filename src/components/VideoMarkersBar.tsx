@@ -1,8 +1,9 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { BookVideoMarker } from "@/types";
+import { BookVideoMarker, LoopRegion } from "@/types";
 import MarkerNameDialog from "./MarkerNameDialog";
+import LoopRegionDialog, { LoopRegionFields } from "./LoopRegionDialog";
 
 interface VideoMarkersBarProps {
   markers: BookVideoMarker[];
@@ -12,6 +13,13 @@ interface VideoMarkersBarProps {
   onDeleteMarker: (markerId: string) => void;
   onClearAll: () => void;
   onJumpToMarker: (timestamp: number) => void;
+  // Saved loop regions
+  loopRegions?: LoopRegion[];
+  activeLoopRegionId?: string | null;
+  onPlayLoopRegion?: (region: LoopRegion) => void;
+  onStopLoop?: () => void;
+  onSaveLoopRegion?: (fields: LoopRegionFields, start: number, end: number) => void;
+  onDeleteLoopRegion?: (regionId: string) => void;
 }
 
 function formatTime(seconds: number): string {
@@ -29,8 +37,17 @@ export default function VideoMarkersBar({
   onDeleteMarker,
   onClearAll,
   onJumpToMarker,
+  loopRegions = [],
+  activeLoopRegionId = null,
+  onPlayLoopRegion,
+  onStopLoop,
+  onSaveLoopRegion,
+  onDeleteLoopRegion,
 }: VideoMarkersBarProps) {
   const [showDialog, setShowDialog] = useState(false);
+  // New loop: the first click marks its start, the second its end
+  const [pendingLoopStart, setPendingLoopStart] = useState<number | null>(null);
+  const [pendingLoopEnd, setPendingLoopEnd] = useState<number | null>(null);
   const [pendingTimestamp, setPendingTimestamp] = useState(0);
   const [editingMarker, setEditingMarker] = useState<BookVideoMarker | null>(null);
 
@@ -103,6 +120,33 @@ export default function VideoMarkersBar({
         >
           Add Marker
         </button>
+        {onSaveLoopRegion && (
+          <button
+            onClick={() => {
+              if (pendingLoopStart === null) {
+                setPendingLoopStart(currentTimeRef.current);
+              } else if (currentTimeRef.current > pendingLoopStart) {
+                setPendingLoopEnd(currentTimeRef.current);
+              }
+            }}
+            className={`px-3 py-1 rounded text-xs ${
+              pendingLoopStart === null ? "bg-blue-600 hover:bg-blue-700" : "bg-blue-600/50 hover:bg-blue-600/70 text-blue-100"
+            }`}
+            title={pendingLoopStart === null ? "Mark where a new loop starts" : "Mark where the loop ends and save it"}
+          >
+            {pendingLoopStart === null ? "Loop Start" : `Loop End (from ${formatTime(pendingLoopStart)})`}
+          </button>
+        )}
+        {pendingLoopStart !== null && (
+          <button onClick={() => setPendingLoopStart(null)} className="text-xs text-gray-400 hover:text-white">
+            Cancel loop
+          </button>
+        )}
+        {activeLoopRegionId && onStopLoop && (
+          <button onClick={onStopLoop} className="text-xs text-blue-300 hover:text-white">
+            Stop looping
+          </button>
+        )}
         {markers.length > 0 && (
           <button onClick={onClearAll} className="text-xs text-red-400 hover:text-red-300">
             Clear all
@@ -110,6 +154,52 @@ export default function VideoMarkersBar({
         )}
       </div>
 
+      {loopRegions.length > 0 && onPlayLoopRegion && (
+        <div className="flex flex-wrap justify-center items-center gap-2 mt-2 w-full">
+          {loopRegions.map((region) => (
+            <div
+              key={region.id}
+              onClick={() => onPlayLoopRegion(region)}
+              role="button"
+              tabIndex={0}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  onPlayLoopRegion(region);
+                }
+              }}
+              className={`flex items-center gap-1 px-2 py-1 rounded text-xs group transition-colors cursor-pointer border ${
+                region.id === activeLoopRegionId
+                  ? "bg-blue-600 border-blue-500"
+                  : "bg-gray-700 border-blue-500/40 hover:bg-gray-600"
+              }`}
+            >
+              <span className="font-bold text-blue-300">⟲</span>
+              <span className="truncate">{region.name}</span>
+              <span className="text-blue-300 font-mono">
+                {formatTime(region.start)}–{formatTime(region.end)}
+              </span>
+              {region.playbackSpeed != null && (
+                <span className="text-[10px] text-gray-300 font-mono">@{region.playbackSpeed}%</span>
+              )}
+              {onDeleteLoopRegion && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDeleteLoopRegion(region.id);
+                  }}
+                  className="opacity-0 group-hover:opacity-100 text-white hover:text-red-300"
+                  title="Delete loop"
+                  aria-label="Delete loop"
+                >
+                  ×
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
       {markers.length > 0 && (
         <div className="flex flex-wrap justify-evenly items-center gap-2 mt-2 w-full">
           {sortedMarkers.map((marker, index) => {
@@ -175,6 +265,20 @@ export default function VideoMarkersBar({
         hasPdf={false}
         initialName={editingMarker?.name}
       />
+
+      {pendingLoopStart !== null && pendingLoopEnd !== null && (
+        <LoopRegionDialog
+          start={pendingLoopStart}
+          end={pendingLoopEnd}
+          formatTime={formatTime}
+          onSave={(fields) => {
+            onSaveLoopRegion?.(fields, pendingLoopStart, pendingLoopEnd);
+            setPendingLoopStart(null);
+            setPendingLoopEnd(null);
+          }}
+          onCancel={() => setPendingLoopEnd(null)}
+        />
+      )}
     </div>
   );
 }
@@ -1,11 +1,14 @@
 "use client";
 
-import { BookVideo, BookVideoMarker } from "@/types";
+import { BookVideo, BookVideoMarker, LoopRegion } from "@/types";
 import { useEffect, useRef, useState } from "react";
 import { formatDurationLong } from "@/lib/formatting";
 import { usePracticeSessionTracker } from "@/hooks/usePracticeSessionTracker";
+import { useMediaSession } from "@/hooks/useMediaSession";
+import { MediaSessionInfo, markerSkipTarget } from "@/lib/mediaSession";
 import { routeMediaElementToSink, subscribeToAudioSinkChanges } from "@/lib/audioSink";
 import VideoMarkersBar from "./VideoMarkersBar";
+import type { LoopRegionFields } from "./LoopRegionDialog";
 
 interface VideoPlayerProps {
   video: BookVideo | null;
@@ -14,6 +17,8 @@ interface VideoPlayerProps {
   onRenameMarker?: (markerId: string, name: string) => void;
   onDeleteMarker?: (markerId: string) => void;
   onClearMarkers?: () => void;
+  /** Book, author and cover for the lock screen and media notifications. */
+  mediaInfo?: MediaSessionInfo | null;
 }
 
 export default function VideoPlayer({
@@ -23,10 +28,14 @@ export default function VideoPlayer({
   onRenameMarker,
   onDeleteMarker,
   onClearMarkers,
+  mediaInfo = null,
 }: VideoPlayerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const { onPlay, onPause, onFinish } = usePracticeSessionTracker(video, 100);
+  const [playbackSpeed, setPlaybackSpeed] = useState(100);
+  const { onPlay, onPause, onFinish, onLoopRegionChange } = usePracticeSessionTracker(video, playbackSpeed);
   const [currentTime, setCurrentTime] = useState(0);
+  const [loopRegions, setLoopRegions] = useState<LoopRegion[]>([]);
+  const [activeLoopRegion, setActiveLoopRegion] = useState<LoopRegion | null>(null);
   const [volume, setVolume] = useState(() => {
     // Initialize from sessionStorage, default to 1.0
     if (typeof window !== 'undefined') {
@@ -44,6 +53,24 @@ export default function VideoPlayer({
     if (videoRef.current) {
       videoRef.current.load();
     }
+    setActiveLoopRegion(null);
+    setPlaybackSpeed(100);
+  }, [video?.id]);
+
+  // Load saved loop regions for this video
+  useEffect(() => {
+    setLoopRegions([]);
+    if (!video) return;
+    let cancelled = false;
+    fetch(`/api/loop-regions?bookVideoId=${encodeURIComponent(video.id)}`)
+      .then((res) => (res.ok ? res.json() : []))
+      .then((regions: LoopRegion[]) => {
+        if (!cancelled) setLoopRegions(regions);
+      })
+      .catch((err) => console.error("Failed to load loop regions:", err));
+    return () => {
+      cancelled = true;
+    };
   }, [video?.id]);
 
   useEffect(() => {
@@ -96,6 +123,88 @@ export default function VideoPlayer({
     }
   };
 
+  // Headphone buttons, media keys and the lock screen; next/previous step through markers
+  const seekVideo = (time: number) => {
+    const el = videoRef.current;
+    if (!el) return;
+    el.currentTime = Math.max(0, Math.min(Number.isFinite(el.duration) ? el.duration : time, time));
+  };
+  const mediaSession = useMediaSession(video ? mediaInfo ?? { title: video.title || video.filename } : null, {
+    play: () => void videoRef.current?.play().catch(() => {}),
+    pause: () => videoRef.current?.pause(),
+    seekTo: seekVideo,
+    seekBy: (offset) => seekVideo((videoRef.current?.currentTime ?? 0) + offset),
+    next: () => {
+      const target = markerSkipTarget(markers.map((m) => m.timestamp), videoRef.current?.currentTime ?? 0, "next");
+      if (typeof target === "number") handleJumpToMarker(target);
+    },
+    previous: () => {
+      const target = markerSkipTarget(markers.map((m) => m.timestamp), videoRef.current?.currentTime ?? 0, "previous");
+      handleJumpToMarker(typeof target === "number" ? target : 0);
+    },
+  });
+
+  const updateMediaSessionPosition = (e: React.SyntheticEvent<HTMLVideoElement>) => {
+    const el = e.currentTarget;
+    mediaSession.setPosition(el.duration, el.currentTime, el.playbackRate);
+  };
+
+  const setSpeed = (speed: number) => {
+    setPlaybackSpeed(speed);
+    if (videoRef.current) videoRef.current.playbackRate = speed / 100;
+  };
+
+  const handlePlayLoopRegion = (region: LoopRegion) => {
+    if (!videoRef.current) return;
+    setActiveLoopRegion(region);
+    onLoopRegionChange(region.id);
+    setSpeed(region.playbackSpeed ?? 100);
+    videoRef.current.currentTime = Math.max(0, region.start - (region.leadIn ?? 0));
+    void videoRef.current.play().catch(() => {});
+  };
+
+  const handleStopLoop = () => {
+    setActiveLoopRegion(null);
+    onLoopRegionChange(null);
+    setSpeed(100);
+  };
+
+  const handleSaveLoopRegion = async (fields: LoopRegionFields, start: number, end: number) => {
+    if (!video) return;
+    try {
+      const res = await fetch("/api/loop-regions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...fields, start, end, bookVideoId: video.id }),
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+      const region: LoopRegion = await res.json();
+      setLoopRegions((prev) => [...prev, region].sort((a, b) => a.start - b.start));
+    } catch (err) {
+      console.error("Failed to save loop region:", err);
+    }
+  };
+
+  const handleDeleteLoopRegion = async (regionId: string) => {
+    try {
+      const res = await fetch(`/api/loop-regions/${regionId}`, { method: "DELETE" });
+      if (!res.ok) throw new Error((await res.json()).error);
+      setLoopRegions((prev) => prev.filter((r) => r.id !== regionId));
+      if (activeLoopRegion?.id === regionId) handleStopLoop();
+    } catch (err) {
+      console.error("Failed to delete loop region:", err);
+    }
+  };
+
+  const handleTimeUpdate = (e: React.SyntheticEvent<HTMLVideoElement>) => {
+    const time = e.currentTarget.currentTime;
+    setCurrentTime(time);
+    // Looping a saved region: jump back to its start at the end
+    if (activeLoopRegion && time >= activeLoopRegion.end) {
+      e.currentTarget.currentTime = activeLoopRegion.start;
+    }
+  };
+
   // Save volume when user changes it
   const handleVolumeChange = () => {
     if (videoRef.current) {
@@ -138,12 +247,25 @@ export default function VideoPlayer({
           className="max-w-full max-h-full"
           controls
           controlsList="nodownload"
-          onPlay={onPlay}
-          onPause={onPause}
+          onPlay={(e) => {
+            onPlay();
+            mediaSession.setPlaybackState("playing");
+            updateMediaSessionPosition(e);
+          }}
+          onPause={(e) => {
+            onPause();
+            mediaSession.setPlaybackState("paused");
+            updateMediaSessionPosition(e);
+          }}
           onEnded={onFinish}
           onVolumeChange={handleVolumeChange}
-          onLoadedMetadata={handleLoadedMetadata}
-          onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+          onLoadedMetadata={(e) => {
+            handleLoadedMetadata();
+            updateMediaSessionPosition(e);
+          }}
+          onSeeked={updateMediaSessionPosition}
+          onRateChange={updateMediaSessionPosition}
+          onTimeUpdate={handleTimeUpdate}
         >
           <source src={videoUrl} />
           Your browser does not support the video tag.
@@ -166,6 +288,12 @@ export default function VideoPlayer({
           onDeleteMarker={onDeleteMarker}
           onClearAll={onClearMarkers}
           onJumpToMarker={handleJumpToMarker}
+          loopRegions={loopRegions}
+          activeLoopRegionId={activeLoopRegion?.id ?? null}
+          onPlayLoopRegion={handlePlayLoopRegion}
+          onStopLoop={handleStopLoop}
+          onSaveLoopRegion={handleSaveLoopRegion}
+          onDeleteLoopRegion={handleDeleteLoopRegion}
         />
       )}
     </div>
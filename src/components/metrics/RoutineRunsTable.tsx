@@ -0,0 +1,59 @@
+"use client";
+
+import { RoutineRun } from "@/types";
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) return `${hours}h ${mins}m`;
+  return `${mins}m`;
+}
+
+interface Props {
+  runs: RoutineRun[];
+  isLoading: boolean;
+}
+
+export default function RoutineRunsTable({ runs, isLoading }: Props) {
+  if (isLoading || runs.length === 0) return null;
+
+  const completedCount = runs.filter((r) => r.completed).length;
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+      <div className="flex items-baseline justify-between mb-4">
+        <h3 className="text-white font-medium">Routines</h3>
+        <span className="text-sm text-gray-400">
+          {completedCount} of {runs.length} run{runs.length !== 1 ? "s" : ""} completed
+        </span>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-400 border-b border-gray-700">
+              <th className="text-left py-2 pr-4">Routine</th>
+              <th className="text-right py-2 px-2">Time</th>
+              <th className="text-right py-2 px-2">Blocks</th>
+              <th className="text-right py-2 pl-2 hidden sm:table-cell">Date</th>
+            </tr>
+          </thead>
+          <tbody>
+            {runs.map((run) => (
+              <tr key={run.id} className="border-b border-gray-700/50">
+                <td className="py-2 pr-4 text-white max-w-xs truncate">{run.routineName}</td>
+                <td className="py-2 px-2 text-right text-gray-300">{formatDuration(run.durationSeconds)}</td>
+                <td className={`py-2 px-2 text-right ${run.completed ? "text-green-400" : "text-yellow-400"}`}>
+                  {run.blocksCompleted}/{run.blocksTotal}
+                </td>
+                <td className="py-2 pl-2 text-right text-gray-400 hidden sm:table-cell">
+                  {new Date(run.startTime).toLocaleDateString(undefined, { month: "short", day: "numeric" })}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -2,11 +2,18 @@
 
 import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from "recharts";
 
+interface SpeedStep {
+  date: string;
+  speed: number;
+  repetitions: number;
+}
+
 interface SpeedDataPoint {
   date: string;
   speed: number;
   durationSeconds: number;
   completed: boolean;
+  steps?: SpeedStep[];
 }
 
 interface Props {
@@ -20,6 +27,21 @@ function formatDate(dateStr: string): string {
   return date.toLocaleDateString(undefined, { month: "short", day: "numeric" });
 }
 
+function formatDateTime(dateStr: string): string {
+  const date = new Date(dateStr);
+  return date.toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+// Sessions that used the speed trainer contribute one point per step, so the
+// ramp within a session shows up instead of only its final speed
+function toChartPoints(sessions: SpeedDataPoint[]): { date: string; speed: number }[] {
+  return sessions.flatMap((s) =>
+    s.steps && s.steps.length > 0
+      ? s.steps.map((step) => ({ date: step.date, speed: step.speed }))
+      : [{ date: s.date, speed: s.speed }]
+  );
+}
+
 export default function SpeedProgressionChart({ title, sessions, onClose }: Props) {
   if (sessions.length === 0) {
     return (
@@ -37,8 +59,9 @@ export default function SpeedProgressionChart({ title, sessions, onClose }: Prop
     );
   }
 
-  const latestSpeed = sessions[sessions.length - 1].speed;
-  const startSpeed = sessions[0].speed;
+  const points = toChartPoints(sessions);
+  const latestSpeed = points[points.length - 1].speed;
+  const startSpeed = points[0].speed;
   const speedChange = latestSpeed - startSpeed;
 
   return (
@@ -63,14 +86,14 @@ export default function SpeedProgressionChart({ title, sessions, onClose }: Prop
         </button>
       </div>
       <ResponsiveContainer width="100%" height={240}>
-        <LineChart data={sessions}>
+        <LineChart data={points}>
           <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
           <XAxis dataKey="date" tickFormatter={formatDate} stroke="#9ca3af" fontSize={12} />
           <YAxis stroke="#9ca3af" fontSize={12} domain={["dataMin - 5", "dataMax + 5"]} label={{ value: "speed %", angle: -90, position: "insideLeft", style: { fill: "#9ca3af" } }} />
           <Tooltip
             contentStyle={{ backgroundColor: "#1f2937", border: "1px solid #374151", borderRadius: "0.5rem" }}
             labelStyle={{ color: "#fff" }}
-            labelFormatter={(label) => formatDate(String(label))}
+            labelFormatter={(label) => formatDateTime(String(label))}
             formatter={(value) => [`${value}%`, "Speed"]}
           />
           <Line type="monotone" dataKey="speed" stroke="#3b82f6" strokeWidth={2} dot={{ fill: "#3b82f6", r: 3 }} activeDot={{ r: 5 }} />
@@ -249,17 +249,25 @@ export default function BookEditModal({ book, authorName, onClose, onSave, onCov
         )}
 
         <div className="flex justify-between items-center mt-6">
-          {onDelete && !showDeleteConfirm ? (
-            <button
-              onClick={() => setShowDeleteConfirm(true)}
-              disabled={isSaving || isDeleting}
-              className="px-4 py-2 text-red-400 hover:text-red-300 disabled:opacity-50 transition-colors text-sm"
+          <div className="flex items-center">
+            {onDelete && !showDeleteConfirm && (
+              <button
+                onClick={() => setShowDeleteConfirm(true)}
+                disabled={isSaving || isDeleting}
+                className="px-4 py-2 text-red-400 hover:text-red-300 disabled:opacity-50 transition-colors text-sm"
+              >
+                Delete Book
+              </button>
+            )}
+            <a
+              href={`/api/books/${book.id}/export`}
+              download
+              title="Download a zip with the book's files, chapters, markers and tabs"
+              className="px-4 py-2 text-gray-400 hover:text-white transition-colors text-sm"
             >
-              Delete Book
-            </button>
-          ) : (
-            <div />
-          )}
+              Export
+            </a>
+          </div>
           <div className="flex gap-3">
             <button
               onClick={onClose}
@@ -0,0 +1,440 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { AuthorSummary, Book, JamTrack, Routine, RoutineBlockKind, RoutineTool, Video } from "@/types";
+import { NOTES, SCALE_FORMULAS } from "@/lib/musicTheory";
+import {
+  ROUTINE_BLOCK_KINDS,
+  ROUTINE_BLOCK_KIND_LABELS,
+  ROUTINE_TOOLS,
+  ROUTINE_TOOL_LABELS,
+  RoutineBlockInput,
+} from "@/lib/routines";
+
+interface BlockDraft extends RoutineBlockInput {
+  key: string;
+  /** Book the track, chapter or book video is picked from. */
+  bookId: string | null;
+}
+
+export interface RoutineEditModalProps {
+  routine: Routine | null;
+  authors: AuthorSummary[];
+  jamTracks: JamTrack[];
+  onClose: () => void;
+  onSave: (name: string, blocks: RoutineBlockInput[]) => Promise<void>;
+}
+
+const TIME_SIGNATURES = ["4/4", "3/4", "2/4", "6/8"];
+// Tools that open on a key and scale
+const KEYED_TOOLS: RoutineTool[] = ["fretboard", "exercise"];
+
+let draftCounter = 0;
+function newDraft(kind: RoutineBlockKind = "track"): BlockDraft {
+  return {
+    key: `draft-${++draftCounter}`,
+    kind,
+    durationSeconds: 5 * 60,
+    bookId: null,
+    tool: kind === "tool" ? "noteTrainer" : null,
+    bpm: kind === "metronome" ? 80 : null,
+    timeSignature: kind === "metronome" ? "4/4" : null,
+  };
+}
+
+function isComplete(draft: BlockDraft): boolean {
+  switch (draft.kind) {
+    case "track": return !!draft.trackId;
+    case "jamTrack": return !!draft.jamTrackId;
+    case "chapter": return !!draft.chapterId;
+    case "bookVideo": return !!draft.bookVideoId;
+    case "video": return !!draft.videoId;
+    case "metronome": return draft.bpm != null;
+    case "tool": return !!draft.tool;
+  }
+}
+
+export default function RoutineEditModal({ routine, authors, jamTracks, onClose, onSave }: RoutineEditModalProps) {
+  const [name, setName] = useState(routine?.name ?? "");
+  const [blocks, setBlocks] = useState<BlockDraft[]>(() =>
+    routine ? routine.blocks.map((b) => ({ ...b, key: b.id })) : [newDraft()]
+  );
+  const [bookDetails, setBookDetails] = useState<Record<string, Book>>({});
+  const [videos, setVideos] = useState<Video[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/videos")
+      .then((res) => (res.ok ? res.json() : []))
+      .then(setVideos)
+      .catch(() => setVideos([]));
+  }, []);
+
+  // Load the tracks, chapters and videos of every book a block picks from
+  const bookIds = blocks.map((b) => b.bookId).filter((id): id is string => !!id);
+  const missingBookIds = bookIds.filter((id) => !bookDetails[id]).join(",");
+  useEffect(() => {
+    if (!missingBookIds) return;
+    for (const bookId of missingBookIds.split(",")) {
+      fetch(`/api/books/${bookId}/detail`)
+        .then((res) => (res.ok ? res.json() : null))
+        .then((book: Book | null) => {
+          if (book) setBookDetails((prev) => ({ ...prev, [bookId]: book }));
+        })
+        .catch((err) => console.error("Failed to load book:", err));
+    }
+  }, [missingBookIds]);
+
+  const updateBlock = (key: string, changes: Partial<BlockDraft>) => {
+    setBlocks((prev) => prev.map((b) => (b.key === key ? { ...b, ...changes } : b)));
+  };
+
+  const moveBlock = (index: number, to: number) => {
+    if (to < 0 || to >= blocks.length) return;
+    const next = [...blocks];
+    const [block] = next.splice(index, 1);
+    next.splice(to, 0, block);
+    setBlocks(next);
+  };
+
+  const totalSeconds = blocks.reduce((sum, b) => sum + b.durationSeconds, 0);
+  const canSave = !!name.trim() && blocks.length > 0 && blocks.every(isComplete);
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      // The routes store only block columns, so the draft-only fields can ride along
+      await onSave(name.trim(), blocks);
+      onClose();
+    } catch (err) {
+      console.error("Failed to save routine:", err);
+      setError(err instanceof Error ? err.message : "Failed to save routine");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const selectClass =
+    "px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm text-white focus:outline-none focus:border-purple-500";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-lg p-4 sm:p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto shadow-xl">
+        <h3 className="text-lg font-semibold mb-4 text-white">{routine ? "Edit Routine" : "New Routine"}</h3>
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">Name</label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white focus:outline-none focus:border-purple-500"
+            placeholder="e.g., Daily 30"
+            autoFocus
+          />
+        </div>
+
+        <div className="mt-4 space-y-2">
+          {blocks.map((block, index) => {
+            const book = block.bookId ? bookDetails[block.bookId] : undefined;
+            const chapters = [...(book?.chapters ?? [])].sort((a, b) => a.sortOrder - b.sortOrder);
+            const bookTracks = book ? [...chapters.flatMap((ch) => ch.tracks), ...book.tracks] : [];
+            const bookVideos = book ? [...chapters.flatMap((ch) => ch.videos), ...(book.videos ?? [])] : [];
+            const needsBook = block.kind === "track" || block.kind === "chapter" || block.kind === "bookVideo";
+
+            return (
+              <div key={block.key} className="flex flex-wrap items-center gap-2 p-2 bg-gray-900/50 rounded border border-gray-700">
+                <span className="text-xs text-gray-500 w-5 text-right">{index + 1}</span>
+                <label className="flex items-center gap-1 text-sm text-gray-400">
+                  <input
+                    type="number"
+                    min={0.5}
+                    max={240}
+                    step={0.5}
+                    value={block.durationSeconds / 60}
+                    onChange={(e) => {
+                      const minutes = parseFloat(e.target.value);
+                      if (minutes > 0) updateBlock(block.key, { durationSeconds: Math.min(240 * 60, Math.round(minutes * 60)) });
+                    }}
+                    className="w-16 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white focus:outline-none focus:border-purple-500"
+                    aria-label="Minutes"
+                  />
+                  min
+                </label>
+                <select
+                  value={block.kind}
+                  onChange={(e) => {
+                    const fresh = newDraft(e.target.value as RoutineBlockKind);
+                    updateBlock(block.key, { ...fresh, key: block.key, durationSeconds: block.durationSeconds, label: block.label });
+                  }}
+                  className={selectClass}
+                  aria-label="Block type"
+                >
+                  {ROUTINE_BLOCK_KINDS.map((kind) => (
+                    <option key={kind} value={kind}>
+                      {ROUTINE_BLOCK_KIND_LABELS[kind]}
+                    </option>
+                  ))}
+                </select>
+
+                {needsBook && (
+                  <select
+                    value={block.bookId ?? ""}
+                    onChange={(e) =>
+                      updateBlock(block.key, { bookId: e.target.value || null, trackId: null, chapterId: null, bookVideoId: null })
+                    }
+                    className={`${selectClass} max-w-48`}
+                    aria-label="Book"
+                  >
+                    <option value="">Book...</option>
+                    {authors.map((author) => (
+                      <optgroup key={author.id} label={author.name}>
+                        {author.books.map((b) => (
+                          <option key={b.id} value={b.id}>
+                            {b.name}
+                          </option>
+                        ))}
+                      </optgroup>
+                    ))}
+                  </select>
+                )}
+
+                {block.kind === "track" && book && (
+                  <select
+                    value={block.trackId ?? ""}
+                    onChange={(e) => updateBlock(block.key, { trackId: e.target.value || null })}
+                    className={`${selectClass} max-w-56`}
+                    aria-label="Track"
+                  >
+                    <option value="">Track...</option>
+                    {bookTracks.map((t) => (
+                      <option key={t.id} value={t.id}>
+                        {t.trackNumber ? `${t.trackNumber}. ` : ""}{t.title}
+                      </option>
+                    ))}
+                  </select>
+                )}
+
+                {block.kind === "chapter" && book && (
+                  <select
+                    value={block.chapterId ?? ""}
+                    onChange={(e) => updateBlock(block.key, { chapterId: e.target.value || null })}
+                    className={`${selectClass} max-w-56`}
+                    aria-label="Chapter"
+                  >
+                    <option value="">Chapter...</option>
+                    {chapters.map((ch) => (
+                      <option key={ch.id} value={ch.id}>
+                        {ch.name}
+                      </option>
+                    ))}
+                  </select>
+                )}
+
+                {block.kind === "bookVideo" && book && (
+                  <select
+                    value={block.bookVideoId ?? ""}
+                    onChange={(e) => updateBlock(block.key, { bookVideoId: e.target.value || null })}
+                    className={`${selectClass} max-w-56`}
+                    aria-label="Book video"
+                  >
+                    <option value="">Video...</option>
+                    {bookVideos.map((v) => (
+                      <option key={v.id} value={v.id}>
+                        {v.title || v.filename}
+                      </option>
+                    ))}
+                  </select>
+                )}
+
+                {block.kind === "jamTrack" && (
+                  <select
+                    value={block.jamTrackId ?? ""}
+                    onChange={(e) => updateBlock(block.key, { jamTrackId: e.target.value || null })}
+                    className={`${selectClass} max-w-64`}
+                    aria-label="Jam track"
+                  >
+                    <option value="">Jam track...</option>
+                    {jamTracks.map((jt) => (
+                      <option key={jt.id} value={jt.id}>
+                        {jt.title}
+                      </option>
+                    ))}
+                  </select>
+                )}
+
+                {block.kind === "video" && (
+                  <select
+                    value={block.videoId ?? ""}
+                    onChange={(e) => updateBlock(block.key, { videoId: e.target.value || null })}
+                    className={`${selectClass} max-w-64`}
+                    aria-label="Video"
+                  >
+                    <option value="">Video...</option>
+                    {videos.map((v) => (
+                      <option key={v.id} value={v.id}>
+                        {v.title}
+                      </option>
+                    ))}
+                  </select>
+                )}
+
+                {block.kind === "tool" && (
+                  <select
+                    value={block.tool ?? ""}
+                    onChange={(e) => updateBlock(block.key, { tool: e.target.value as RoutineTool })}
+                    className={selectClass}
+                    aria-label="Tool"
+                  >
+                    {ROUTINE_TOOLS.map((tool) => (
+                      <option key={tool} value={tool}>
+                        {ROUTINE_TOOL_LABELS[tool]}
+                      </option>
+                    ))}
+                  </select>
+                )}
+
+                {block.kind === "tool" && block.tool && KEYED_TOOLS.includes(block.tool) && (
+                  <>
+                    <select
+                      value={block.rootNote ?? "C"}
+                      onChange={(e) => updateBlock(block.key, { rootNote: e.target.value })}
+                      className={selectClass}
+                      aria-label="Key"
+                    >
+                      {NOTES.map((note) => (
+                        <option key={note} value={note}>
+                          {note}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={block.scaleType ?? "Major"}
+                      onChange={(e) => updateBlock(block.key, { scaleType: e.target.value, rootNote: block.rootNote ?? "C" })}
+                      className={`${selectClass} max-w-40`}
+                      aria-label="Scale"
+                    >
+                      {Object.keys(SCALE_FORMULAS).filter((s) => s !== "None").map((scale) => (
+                        <option key={scale} value={scale}>
+                          {scale}
+                        </option>
+                      ))}
+                    </select>
+                  </>
+                )}
+
+                {(block.kind === "metronome" || block.kind === "tool") && (
+                  <>
+                    <label className="flex items-center gap-1 text-sm text-gray-400" title="Start the metronome for this block">
+                      <input
+                        type="number"
+                        min={20}
+                        max={300}
+                        value={block.bpm ?? ""}
+                        placeholder="-"
+                        onChange={(e) => {
+                          const bpm = parseInt(e.target.value);
+                          updateBlock(block.key, {
+                            bpm: Number.isNaN(bpm) ? (block.kind === "metronome" ? block.bpm : null) : Math.min(300, Math.max(20, bpm)),
+                          });
+                        }}
+                        className="w-16 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white focus:outline-none focus:border-purple-500"
+                        aria-label="BPM"
+                      />
+                      BPM
+                    </label>
+                    {block.bpm != null && (
+                      <select
+                        value={block.timeSignature ?? "4/4"}
+                        onChange={(e) => updateBlock(block.key, { timeSignature: e.target.value })}
+                        className={selectClass}
+                        aria-label="Time signature"
+                      >
+                        {TIME_SIGNATURES.map((sig) => (
+                          <option key={sig} value={sig}>
+                            {sig}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </>
+                )}
+
+                <input
+                  type="text"
+                  value={block.label ?? ""}
+                  onChange={(e) => updateBlock(block.key, { label: e.target.value })}
+                  placeholder="Label (optional)"
+                  className="flex-1 min-w-32 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm text-white focus:outline-none focus:border-purple-500"
+                />
+
+                <div className="flex items-center ml-auto">
+                  <button
+                    onClick={() => moveBlock(index, index - 1)}
+                    disabled={index === 0}
+                    className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                    aria-label="Move up"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => moveBlock(index, index + 1)}
+                    disabled={index === blocks.length - 1}
+                    className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                    aria-label="Move down"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => setBlocks((prev) => prev.filter((b) => b.key !== block.key))}
+                    className="p-1 text-gray-400 hover:text-red-400"
+                    aria-label="Remove block"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center justify-between mt-3">
+          <button
+            onClick={() => setBlocks((prev) => [...prev, newDraft()])}
+            className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded text-sm text-gray-200 transition-colors"
+          >
+            + Add block
+          </button>
+          <span className="text-sm text-gray-400">Total {Math.round(totalSeconds / 60)} min</span>
+        </div>
+
+        {error && <p className="text-sm text-red-400 mt-3">{error}</p>}
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            onClick={onClose}
+            disabled={isSaving}
+            className="px-4 py-2 text-gray-400 hover:text-white transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !canSave}
+            className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded font-medium transition-colors text-white"
+          >
+            {isSaving ? "Saving..." : "Save"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
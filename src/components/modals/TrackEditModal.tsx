@@ -11,9 +11,11 @@ export interface TrackEditModalProps {
   chapters: Chapter[];
   onClose: () => void;
   onSave: (trackId: string, title: string, author: string, book: string, trackNumber: number, pdfPage?: number | null, tempo?: number | null, timeSignature?: string, chapterId?: string | null) => Promise<void>;
+  /** Opens the split dialog for long recordings that hold several exercises. */
+  onSplit?: () => void;
 }
 
-export default function TrackEditModal({ track, authorName, bookName, bookHasPdf, chapters, onClose, onSave }: TrackEditModalProps) {
+export default function TrackEditModal({ track, authorName, bookName, bookHasPdf, chapters, onClose, onSave, onSplit }: TrackEditModalProps) {
   const [editTitle, setEditTitle] = useState(track.title);
   const [editAuthor, setEditAuthor] = useState(authorName);
   const [editBook, setEditBook] = useState(bookName);
@@ -139,6 +141,16 @@ export default function TrackEditModal({ track, authorName, bookName, bookHasPdf
           <p className="text-xs text-gray-500 mt-1">Assign track to a chapter</p>
         </div>
         <div className="flex justify-end gap-3 mt-6">
+          {onSplit && (
+            <button
+              onClick={onSplit}
+              disabled={isSaving}
+              title="Cut this file into separate tracks at its markers or at silences"
+              className="mr-auto px-4 py-2 text-gray-400 hover:text-white transition-colors text-sm"
+            >
+              Split...
+            </button>
+          )}
           <button
             onClick={onClose}
             disabled={isSaving}
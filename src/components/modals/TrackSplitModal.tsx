@@ -0,0 +1,184 @@
+"use client";
+
+import { useState } from "react";
+import { Track, AudioSplitSegment } from "@/types";
+import { formatDurationLong } from "@/lib/formatting";
+
+export interface TrackSplitModalProps {
+  track: Track;
+  onClose: () => void;
+  onSplit: () => Promise<void>;
+}
+
+type SplitSource = "markers" | "silence";
+
+export default function TrackSplitModal({ track, onClose, onSplit }: TrackSplitModalProps) {
+  const [source, setSource] = useState<SplitSource>(track.markers.length > 0 ? "markers" : "silence");
+  const [thresholdDb, setThresholdDb] = useState(-40);
+  const [minSilence, setMinSilence] = useState(2);
+  const [segments, setSegments] = useState<AudioSplitSegment[] | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const post = async (body: object) => {
+    const response = await fetch(`/api/tracks/${track.id}/split`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || "Split failed");
+    return data;
+  };
+
+  const handlePreview = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const data = await post({ mode: source, thresholdDb, minSilence, dryRun: true });
+      setSegments(data.segments);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Split failed");
+      setSegments(null);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSplit = async () => {
+    if (!segments) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      await post({ segments });
+      await onSplit();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Split failed");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const changeSource = (next: SplitSource) => {
+    setSource(next);
+    setSegments(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-lg p-4 sm:p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto shadow-xl">
+        <h3 className="text-lg font-semibold mb-1 text-white">Split Into Tracks</h3>
+        <p className="text-sm text-gray-400 mb-4 truncate">{track.title}</p>
+
+        <div className="space-y-4">
+          <div className="flex rounded overflow-hidden border border-gray-600">
+            {([
+              { value: "markers" as SplitSource, label: `At markers (${track.markers.length})` },
+              { value: "silence" as SplitSource, label: "At silences" },
+            ]).map((opt) => (
+              <button
+                key={opt.value}
+                type="button"
+                onClick={() => changeSource(opt.value)}
+                className={`flex-1 px-3 py-2 text-sm transition-colors ${
+                  source === opt.value
+                    ? "bg-blue-600 text-white"
+                    : "bg-gray-700 text-gray-400 hover:text-white"
+                }`}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </div>
+
+          {source === "silence" && (
+            <div className="flex gap-4">
+              <div>
+                <label className="block text-sm text-gray-400 mb-1">Silence below (dB)</label>
+                <input
+                  type="number"
+                  min={-90}
+                  max={-10}
+                  value={thresholdDb}
+                  onChange={(e) => {
+                    setThresholdDb(Math.min(-10, Math.max(-90, parseInt(e.target.value) || -40)));
+                    setSegments(null);
+                  }}
+                  className="w-24 px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white focus:outline-none focus:border-green-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-gray-400 mb-1">Lasting at least (s)</label>
+                <input
+                  type="number"
+                  min={0.5}
+                  max={30}
+                  step={0.5}
+                  value={minSilence}
+                  onChange={(e) => {
+                    setMinSilence(Math.min(30, Math.max(0.5, parseFloat(e.target.value) || 2)));
+                    setSegments(null);
+                  }}
+                  className="w-24 px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white focus:outline-none focus:border-green-500"
+                />
+              </div>
+            </div>
+          )}
+
+          {segments && (
+            <div className="space-y-1 max-h-64 overflow-y-auto">
+              {segments.map((segment, i) => (
+                <div key={i} className="flex items-center gap-2 bg-gray-700 rounded px-3 py-1.5">
+                  <span className="text-xs text-gray-500 w-6 shrink-0">{i + 1}</span>
+                  <input
+                    type="text"
+                    value={segment.title}
+                    onChange={(e) => setSegments((prev) => prev && prev.map((s, idx) => idx === i ? { ...s, title: e.target.value } : s))}
+                    className="flex-1 min-w-0 px-2 py-1 bg-gray-800 border border-gray-600 rounded text-sm text-white focus:outline-none focus:border-green-500"
+                  />
+                  <span className="text-xs text-gray-400 shrink-0 tabular-nums">
+                    {formatDurationLong(segment.start)} – {formatDurationLong(segment.end)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <p className="text-xs text-gray-500">
+            The pieces replace this track and are named like Reorganize does. Its practice history and tabs move to the first piece.
+          </p>
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            onClick={onClose}
+            disabled={isWorking}
+            className="px-4 py-2 text-gray-400 hover:text-white transition-colors"
+          >
+            Cancel
+          </button>
+          {segments ? (
+            <button
+              onClick={handleSplit}
+              disabled={isWorking || segments.length < 2}
+              className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded font-medium transition-colors text-white"
+            >
+              {isWorking ? "Splitting..." : `Split into ${segments.length}`}
+            </button>
+          ) : (
+            <button
+              onClick={handlePreview}
+              disabled={isWorking}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded font-medium transition-colors text-white"
+            >
+              {isWorking ? "Detecting..." : "Preview"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -12,7 +12,11 @@ interface UseAudioRecorderResult {
   permissionGranted: boolean;
   durationMs: number;
   level: number;
-  start: () => Promise<void>;
+  /**
+   * Resolves with the performance.now() time capture began, so playback
+   * started right after can be lined up with the take; null if it failed.
+   */
+  start: () => Promise<number | null>;
   stop: () => Promise<{ blob: Blob; mimeType: string; duration: number } | null>;
 }
 
@@ -109,7 +113,7 @@ export function useAudioRecorder(): UseAudioRecorderResult {
     if (typeof MediaRecorder === "undefined") {
       setError("MediaRecorder is not supported in this browser.");
       setStatus("error");
-      return;
+      return null;
     }
     setStatus("requesting");
     try {
@@ -178,18 +182,23 @@ export function useAudioRecorder(): UseAudioRecorderResult {
       };
       animRef.current = window.requestAnimationFrame(tick);
 
+      const started = new Promise<number>((resolve) => {
+        recorder.onstart = () => resolve(performance.now());
+      });
       startTimeRef.current = Date.now();
       recorder.start(250);
       tickRef.current = window.setInterval(() => {
         setDurationMs(Date.now() - startTimeRef.current);
       }, 200);
       setStatus("recording");
+      return await started;
     } catch (err) {
       console.error("Failed to start recording:", err);
       const msg = err instanceof Error ? err.message : "Could not start recording";
       setError(msg);
       setStatus("error");
       cleanupStream();
+      return null;
     }
   }, [cleanupStream]);
 
@@ -0,0 +1,109 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  getInputBindingSettings,
+  handleInputTrigger,
+  keyboardTrigger,
+  midiTrigger,
+  subscribeToInputBindingChanges,
+} from "@/lib/inputBindings";
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement ||
+    (target instanceof HTMLElement && target.isContentEditable)
+  );
+}
+
+/**
+ * Listen to the keyboard, gamepads / pedals and (once enabled) Web MIDI
+ * inputs, and feed their presses through the input bindings. Mount once.
+ */
+export function useInputDevices() {
+  const [midiEnabled, setMidiEnabled] = useState(() => getInputBindingSettings().midiEnabled);
+
+  useEffect(() => subscribeToInputBindingChanges((settings) => setMidiEnabled(settings.midiEnabled)), []);
+
+  // Keyboard (Bluetooth page turners mostly show up as a keyboard too)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target) || e.ctrlKey || e.metaKey || e.altKey) return;
+      const trigger = keyboardTrigger(e);
+      if (trigger && handleInputTrigger(trigger)) e.preventDefault();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  // Gamepads have no button events, so poll while one is connected
+  useEffect(() => {
+    if (typeof navigator === "undefined" || !("getGamepads" in navigator)) return;
+    const pressed = new Map<string, boolean>();
+    let frame: number | null = null;
+
+    const poll = () => {
+      let connected = false;
+      for (const gamepad of navigator.getGamepads()) {
+        if (!gamepad) continue;
+        connected = true;
+        gamepad.buttons.forEach((button, index) => {
+          const id = `${gamepad.index}:${index}`;
+          if (button.pressed && !pressed.get(id)) handleInputTrigger({ source: "gamepad", button: index });
+          pressed.set(id, button.pressed);
+        });
+      }
+      frame = connected ? requestAnimationFrame(poll) : null;
+    };
+    const start = () => {
+      if (frame === null) frame = requestAnimationFrame(poll);
+    };
+
+    start();
+    window.addEventListener("gamepadconnected", start);
+    return () => {
+      window.removeEventListener("gamepadconnected", start);
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, []);
+
+  // Web MIDI foot controllers
+  useEffect(() => {
+    if (!midiEnabled || typeof navigator === "undefined" || !("requestMIDIAccess" in navigator)) return;
+    let access: MIDIAccess | null = null;
+    let cancelled = false;
+    const ccValues = new Map<string, number>();
+
+    const handleMessage = (e: MIDIMessageEvent) => {
+      if (!e.data) return;
+      const trigger = midiTrigger(e.data, ccValues);
+      if (trigger) handleInputTrigger(trigger);
+    };
+    const attach = () => {
+      access?.inputs.forEach((input) => {
+        input.onmidimessage = handleMessage;
+      });
+    };
+
+    navigator
+      .requestMIDIAccess()
+      .then((midi) => {
+        if (cancelled) return;
+        access = midi;
+        attach();
+        midi.onstatechange = attach;
+      })
+      .catch((err) => console.error("MIDI access failed:", err));
+
+    return () => {
+      cancelled = true;
+      if (!access) return;
+      access.onstatechange = null;
+      access.inputs.forEach((input) => {
+        input.onmidimessage = null;
+      });
+    };
+  }, [midiEnabled]);
+}
@@ -0,0 +1,54 @@
+"use client";
+
+import { useEffect, useMemo, useRef } from "react";
+import {
+  MediaSessionClaim,
+  MediaSessionHandlers,
+  MediaSessionInfo,
+  claimMediaSession,
+} from "@/lib/mediaSession";
+
+/**
+ * Publish a player's metadata and route media keys to it while `info` is set.
+ * Handlers are read through a ref, so they can close over fresh state without
+ * re-registering. The player reports position and play state through the
+ * returned functions, which only reach the session while this player owns it
+ * (the latest to claim it or start playing) and are ignored while `info` is null.
+ */
+export function useMediaSession(info: MediaSessionInfo | null, handlers: MediaSessionHandlers) {
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  const claimRef = useRef<MediaSessionClaim | null>(null);
+  const active = info !== null;
+  useEffect(() => {
+    if (!active) return;
+    const claim = claimMediaSession({
+      play: () => handlersRef.current.play(),
+      pause: () => handlersRef.current.pause(),
+      seekTo: (time) => handlersRef.current.seekTo(time),
+      seekBy: (offset) => handlersRef.current.seekBy(offset),
+      next: () => handlersRef.current.next(),
+      previous: () => handlersRef.current.previous(),
+    });
+    claimRef.current = claim;
+    return () => {
+      claimRef.current = null;
+      claim.release();
+    };
+  }, [active]);
+
+  useEffect(() => {
+    if (!info) return;
+    claimRef.current?.setMetadata(info);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [info?.title, info?.album, info?.artist, info?.artworkUrl]);
+
+  return useMemo(() => ({
+    setPlaybackState: (state: MediaSessionPlaybackState) => claimRef.current?.setPlaybackState(state),
+    setPosition: (duration: number, position: number, playbackRate: number) =>
+      claimRef.current?.setPosition(duration, position, playbackRate),
+  }), []);
+}
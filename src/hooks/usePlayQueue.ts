@@ -0,0 +1,164 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { Track, JamTrack, Book, Chapter } from "@/types";
+
+const STORAGE_KEY = "playQueue";
+const MAX_GAP_SECONDS = 30;
+
+export interface PlayQueueItem {
+  /** Unique per entry: the same track can be queued more than once. */
+  key: string;
+  kind: "track" | "jamTrack";
+  id: string;
+  title: string;
+  /** Book name for tracks, shown under the title. */
+  subtitle: string | null;
+  /** Where a track lives, so it can be opened from any section. */
+  authorId: string | null;
+  bookId: string | null;
+}
+
+export interface PlayQueueState {
+  items: PlayQueueItem[];
+  /** Item playing from the queue, or null when the queue isn't running. */
+  currentIndex: number | null;
+  /** Silence between items. */
+  gapSeconds: number;
+  /** Count the next item in (at its tempo) instead of starting it cold. */
+  countIn: boolean;
+}
+
+export type PlayQueueEntry = Omit<PlayQueueItem, "key">;
+
+const EMPTY_QUEUE: PlayQueueState = { items: [], currentIndex: null, gapSeconds: 2, countIn: false };
+
+export function queueEntryForTrack(track: Track, authorId: string, book: { id: string; name: string }): PlayQueueEntry {
+  return { kind: "track", id: track.id, title: track.title, subtitle: book.name, authorId, bookId: book.id };
+}
+
+export function queueEntriesForChapter(chapter: Chapter, authorId: string, book: { id: string; name: string }): PlayQueueEntry[] {
+  return [...chapter.tracks]
+    .sort((a, b) => (a.trackNumber || 0) - (b.trackNumber || 0))
+    .map((track) => queueEntryForTrack(track, authorId, book));
+}
+
+/** A whole book in reading order: chapters first, then uncategorized tracks. */
+export function queueEntriesForBook(book: Book): PlayQueueEntry[] {
+  const chapters = [...(book.chapters ?? [])].sort((a, b) => a.sortOrder - b.sortOrder);
+  const uncategorized = [...book.tracks].sort((a, b) => (a.trackNumber || 0) - (b.trackNumber || 0));
+  return [
+    ...chapters.flatMap((chapter) => queueEntriesForChapter(chapter, book.authorId, book)),
+    ...uncategorized.map((track) => queueEntryForTrack(track, book.authorId, book)),
+  ];
+}
+
+export function queueEntryForJamTrack(jamTrack: JamTrack): PlayQueueEntry {
+  return { kind: "jamTrack", id: jamTrack.id, title: jamTrack.title, subtitle: "Jam track", authorId: null, bookId: null };
+}
+
+function newKey(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function loadQueue(): PlayQueueState {
+  if (typeof window === "undefined") return EMPTY_QUEUE;
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return EMPTY_QUEUE;
+    const parsed = JSON.parse(saved) as Partial<PlayQueueState>;
+    const items = Array.isArray(parsed.items)
+      ? parsed.items.filter((i) => i && (i.kind === "track" || i.kind === "jamTrack") && typeof i.id === "string")
+      : [];
+    const index = parsed.currentIndex;
+    return {
+      items,
+      currentIndex: typeof index === "number" && index >= 0 && index < items.length ? index : null,
+      gapSeconds:
+        typeof parsed.gapSeconds === "number" && Number.isFinite(parsed.gapSeconds)
+          ? Math.max(0, Math.min(MAX_GAP_SECONDS, parsed.gapSeconds))
+          : EMPTY_QUEUE.gapSeconds,
+      countIn: typeof parsed.countIn === "boolean" ? parsed.countIn : EMPTY_QUEUE.countIn,
+    };
+  } catch {
+    return EMPTY_QUEUE;
+  }
+}
+
+/**
+ * A play queue of tracks and jam tracks across books, persisted in
+ * localStorage so it survives reloads. The queue only records order and
+ * position; the page opens each item and the player starts it.
+ */
+export function usePlayQueue() {
+  const [queue, setQueue] = useState<PlayQueueState>(loadQueue);
+  const queueRef = useRef(queue);
+
+  useEffect(() => {
+    queueRef.current = queue;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+  }, [queue]);
+
+  const add = useCallback((entries: PlayQueueEntry[]) => {
+    if (entries.length === 0) return;
+    setQueue((prev) => ({ ...prev, items: [...prev.items, ...entries.map((e) => ({ ...e, key: newKey() }))] }));
+  }, []);
+
+  const remove = useCallback((key: string) => {
+    setQueue((prev) => {
+      const index = prev.items.findIndex((i) => i.key === key);
+      if (index === -1) return prev;
+      let currentIndex = prev.currentIndex;
+      if (currentIndex !== null) {
+        if (index === currentIndex) currentIndex = null;
+        else if (index < currentIndex) currentIndex--;
+      }
+      return { ...prev, items: prev.items.filter((i) => i.key !== key), currentIndex };
+    });
+  }, []);
+
+  /** Move an item to a new position, keeping the current item current. */
+  const move = useCallback((from: number, to: number) => {
+    setQueue((prev) => {
+      if (from === to || from < 0 || to < 0 || from >= prev.items.length || to >= prev.items.length) return prev;
+      const items = [...prev.items];
+      const [item] = items.splice(from, 1);
+      items.splice(to, 0, item);
+      const current = prev.currentIndex !== null ? prev.items[prev.currentIndex] : null;
+      return { ...prev, items, currentIndex: current ? items.indexOf(current) : null };
+    });
+  }, []);
+
+  const clear = useCallback(() => {
+    setQueue((prev) => ({ ...prev, items: [], currentIndex: null }));
+  }, []);
+
+  /** Start the queue at an item (or stop it with null); returns that item. */
+  const playAt = useCallback((index: number | null): PlayQueueItem | null => {
+    const item = index !== null ? queueRef.current.items[index] ?? null : null;
+    setQueue((prev) => ({ ...prev, currentIndex: item ? index : null }));
+    return item;
+  }, []);
+
+  /** Step to the next item; returns it, or null (and stops) at the end. */
+  const advance = useCallback((): PlayQueueItem | null => {
+    const { currentIndex, items } = queueRef.current;
+    if (currentIndex === null) return null;
+    const next = currentIndex + 1 < items.length ? currentIndex + 1 : null;
+    queueRef.current = { ...queueRef.current, currentIndex: next };
+    setQueue((prev) => ({ ...prev, currentIndex: next }));
+    return next !== null ? items[next] : null;
+  }, []);
+
+  const setGapSeconds = useCallback((gapSeconds: number) => {
+    setQueue((prev) => ({ ...prev, gapSeconds: Math.max(0, Math.min(MAX_GAP_SECONDS, gapSeconds)) }));
+  }, []);
+
+  const setCountIn = useCallback((countIn: boolean) => {
+    setQueue((prev) => ({ ...prev, countIn }));
+  }, []);
+
+  return { queue, add, remove, move, clear, playAt, advance, setGapSeconds, setCountIn };
+}
+
+export type PlayQueue = ReturnType<typeof usePlayQueue>;
@@ -7,6 +7,12 @@ const MIN_SESSION_SECONDS = 4;
 
 type TrackableItem = Track | JamTrack | BookVideo | Video;
 
+interface SpeedStepRecord {
+  speed: number;
+  repetitions: number;
+  startedAt: string;
+}
+
 interface SessionState {
   playStartedAt: number | null; // Date.now() when play started
   accumulatedSeconds: number;
@@ -15,10 +21,13 @@ interface SessionState {
   bookVideoId: string | null;
   videoId: string | null;
   trackTitle: string;
+  loopRegionId: string | null; // saved loop region being practised, if any
+  speedSteps: SpeedStepRecord[]; // speed trainer ramp, empty unless the trainer ran
 }
 
+// gpFilePath is a JamTrack column, so it's there whatever relations a route loaded
 function isJamTrack(item: TrackableItem): item is JamTrack {
-  return "pdfs" in item;
+  return "gpFilePath" in item;
 }
 
 function isBookVideo(item: TrackableItem): item is BookVideo {
@@ -49,9 +58,11 @@ async function saveSession(
         jamTrackId: state.jamTrackId,
         bookVideoId: state.bookVideoId,
         videoId: state.videoId,
+        loopRegionId: state.loopRegionId,
         durationSeconds: Math.round(totalSeconds),
         playbackSpeed,
         completedSession: completed,
+        ...(state.speedSteps.length > 0 ? { speedSteps: state.speedSteps } : {}),
       }),
     });
   } catch {
@@ -71,6 +82,8 @@ export function usePracticeSessionTracker(
     bookVideoId: null,
     videoId: null,
     trackTitle: "",
+    loopRegionId: null,
+    speedSteps: [],
   });
   const speedRef = useRef(playbackSpeed);
   speedRef.current = playbackSpeed;
@@ -90,6 +103,8 @@ export function usePracticeSessionTracker(
       bookVideoId: track && isBookVideo(track) ? track.id : null,
       videoId: track && isVideo(track) ? track.id : null,
       trackTitle: track ? (isBookVideo(track) ? (track.title || track.filename) : track.title) : "",
+      loopRegionId: null,
+      speedSteps: [],
     };
   }, [track?.id]);
 
@@ -108,9 +123,44 @@ export function usePracticeSessionTracker(
   const onFinish = useCallback(() => {
     const state = stateRef.current;
     saveSession(state, speedRef.current, true);
-    // Reset for next play-through
+    // Reset for next play-through, keeping a running speed trainer's current step
     state.playStartedAt = null;
     state.accumulatedSeconds = 0;
+    const lastStep = state.speedSteps[state.speedSteps.length - 1];
+    state.speedSteps = lastStep
+      ? [{ speed: lastStep.speed, repetitions: 0, startedAt: new Date().toISOString() }]
+      : [];
+  }, []);
+
+  /**
+   * A saved loop region started (or stopped, with null). Time practised so
+   * far belongs to the previous region, so it is saved as its own session;
+   * the returned promise settles once that save is done.
+   */
+  const onLoopRegionChange = useCallback((loopRegionId: string | null): Promise<void> => {
+    const state = stateRef.current;
+    if (state.loopRegionId === loopRegionId) return Promise.resolve();
+    let saved = Promise.resolve();
+    if (state.playStartedAt || state.accumulatedSeconds > 0) {
+      const wasPlaying = state.playStartedAt !== null;
+      saved = saveSession(state, speedRef.current, false);
+      state.playStartedAt = wasPlaying ? Date.now() : null;
+      state.accumulatedSeconds = 0;
+      state.speedSteps = [];
+    }
+    state.loopRegionId = loopRegionId;
+    return saved;
+  }, []);
+
+  /** Speed trainer moved to a new speed. */
+  const onSpeedStep = useCallback((speed: number) => {
+    stateRef.current.speedSteps.push({ speed, repetitions: 0, startedAt: new Date().toISOString() });
+  }, []);
+
+  /** Speed trainer counted a clean pass at the current step. */
+  const onSpeedStepRepetition = useCallback(() => {
+    const steps = stateRef.current.speedSteps;
+    if (steps.length > 0) steps[steps.length - 1].repetitions++;
   }, []);
 
   // Flush session on section change (fires before component unmounts)
@@ -121,6 +171,7 @@ export function usePracticeSessionTracker(
         saveSession(state, speedRef.current, false);
         state.playStartedAt = null;
         state.accumulatedSeconds = 0;
+        state.speedSteps = [];
       }
     };
     window.addEventListener('practiceSessionFlush', handleFlush);
@@ -137,5 +188,5 @@ export function usePracticeSessionTracker(
     };
   }, []);
 
-  return { onPlay, onPause, onFinish };
+  return { onPlay, onPause, onFinish, onLoopRegionChange, onSpeedStep, onSpeedStepRepetition };
 }
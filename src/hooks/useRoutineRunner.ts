@@ -0,0 +1,227 @@
+"use client";
+
+import { useState, useRef, useCallback, useEffect } from "react";
+import { Routine, RoutineBlock } from "@/types";
+import { routeContextToSink } from "@/lib/audioSink";
+
+const MIN_RUN_SECONDS = 4;
+
+export interface RoutineRunnerState {
+  routine: Routine;
+  index: number;
+  /** Seconds left in the current block. */
+  remainingSeconds: number;
+  isPaused: boolean;
+}
+
+interface RunState {
+  routine: Routine;
+  index: number;
+  startedAt: string;
+  /** Date.now() the current block ends at, or null while paused. */
+  blockEndsAt: number | null;
+  /** Seconds left in the block when it was paused. */
+  pausedRemaining: number;
+  /** Running time so far, pauses excluded. */
+  activeSeconds: number;
+  activeSince: number | null;
+  /** Blocks whose time ran out; skipped ones don't count. */
+  blocksCompleted: number;
+}
+
+let chimeContext: AudioContext | null = null;
+
+/** A soft two-note chime; rising between blocks, three notes at the end. */
+function playChime(final: boolean) {
+  try {
+    if (!chimeContext) chimeContext = new AudioContext();
+    const ctx = chimeContext;
+    if (ctx.state === "suspended") void ctx.resume();
+    void routeContextToSink(ctx);
+    const notes = final ? [659.25, 783.99, 1046.5] : [783.99, 1046.5];
+    notes.forEach((frequency, i) => {
+      const start = ctx.currentTime + i * 0.18;
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.type = "sine";
+      osc.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.0001, start);
+      gain.gain.exponentialRampToValueAtTime(0.4, start + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.8);
+      osc.connect(gain);
+      gain.connect(ctx.destination);
+      osc.start(start);
+      osc.stop(start + 0.85);
+    });
+  } catch {
+    // A missing chime shouldn't stop the routine
+  }
+}
+
+/** `keepalive` lets the request outlive the page when it is being closed. */
+async function saveRun(run: RunState, keepalive = false) {
+  const durationSeconds = run.activeSeconds + (run.activeSince ? (Date.now() - run.activeSince) / 1000 : 0);
+  if (durationSeconds < MIN_RUN_SECONDS) return;
+  try {
+    await fetch(`/api/routines/${run.routine.id}/runs`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        startTime: run.startedAt,
+        durationSeconds: Math.round(durationSeconds),
+        blocksCompleted: run.blocksCompleted,
+      }),
+      keepalive,
+    });
+  } catch {
+    // Don't interrupt practice on tracking failures
+  }
+}
+
+interface Options {
+  /** Open what a block points at; called as each block starts. */
+  onBlockStart: (block: RoutineBlock) => void;
+  /** The routine ended, was stopped, or replaced by another. */
+  onStop: () => void;
+}
+
+/**
+ * Steps through a routine's timed blocks: counts each one down, chimes and
+ * opens the next, and logs the run to practice metrics when it ends or is
+ * stopped.
+ */
+export function useRoutineRunner({ onBlockStart, onStop }: Options) {
+  const [state, setState] = useState<RoutineRunnerState | null>(null);
+  const runRef = useRef<RunState | null>(null);
+  const onBlockStartRef = useRef(onBlockStart);
+  const onStopRef = useRef(onStop);
+
+  useEffect(() => {
+    onBlockStartRef.current = onBlockStart;
+    onStopRef.current = onStop;
+  });
+
+  const publish = useCallback(() => {
+    const run = runRef.current;
+    if (!run) {
+      setState(null);
+      return;
+    }
+    const remaining = run.blockEndsAt !== null ? (run.blockEndsAt - Date.now()) / 1000 : run.pausedRemaining;
+    setState({
+      routine: run.routine,
+      index: run.index,
+      remainingSeconds: Math.max(0, Math.ceil(remaining)),
+      isPaused: run.blockEndsAt === null,
+    });
+  }, []);
+
+  const startBlock = useCallback((index: number) => {
+    const run = runRef.current;
+    if (!run) return;
+    const block = run.routine.blocks[index];
+    run.index = index;
+    run.pausedRemaining = block.durationSeconds;
+    if (run.blockEndsAt !== null) run.blockEndsAt = Date.now() + block.durationSeconds * 1000;
+    onBlockStartRef.current(block);
+    publish();
+  }, [publish]);
+
+  const finish = useCallback(() => {
+    const run = runRef.current;
+    if (!run) return;
+    runRef.current = null;
+    void saveRun(run);
+    onStopRef.current();
+    publish();
+  }, [publish]);
+
+  /** Move past the current block; only one whose time ran out counts as completed. */
+  const advance = useCallback((timeRanOut: boolean) => {
+    const run = runRef.current;
+    if (!run) return;
+    if (timeRanOut) run.blocksCompleted++;
+    const isLast = run.index + 1 >= run.routine.blocks.length;
+    playChime(isLast);
+    if (isLast) {
+      finish();
+    } else {
+      startBlock(run.index + 1);
+    }
+  }, [finish, startBlock]);
+
+  /** Skip to the next block. */
+  const next = useCallback(() => advance(false), [advance]);
+
+  const start = useCallback((routine: Routine) => {
+    if (routine.blocks.length === 0) return;
+    if (runRef.current) finish();
+    const now = Date.now();
+    runRef.current = {
+      routine,
+      index: 0,
+      startedAt: new Date(now).toISOString(),
+      blockEndsAt: now,
+      pausedRemaining: 0,
+      activeSeconds: 0,
+      activeSince: now,
+      blocksCompleted: 0,
+    };
+    startBlock(0);
+  }, [finish, startBlock]);
+
+  const stop = useCallback(() => finish(), [finish]);
+
+  const togglePause = useCallback(() => {
+    const run = runRef.current;
+    if (!run) return;
+    const now = Date.now();
+    if (run.blockEndsAt !== null) {
+      run.pausedRemaining = (run.blockEndsAt - now) / 1000;
+      run.blockEndsAt = null;
+      if (run.activeSince) run.activeSeconds += (now - run.activeSince) / 1000;
+      run.activeSince = null;
+    } else {
+      run.blockEndsAt = now + run.pausedRemaining * 1000;
+      run.activeSince = now;
+    }
+    publish();
+  }, [publish]);
+
+  // Count down while running; Date-based, so throttled background tabs catch up
+  const isRunning = state !== null && !state.isPaused;
+  useEffect(() => {
+    if (!isRunning) return;
+    const id = setInterval(() => {
+      const run = runRef.current;
+      if (run?.blockEndsAt != null && Date.now() >= run.blockEndsAt) {
+        advance(true);
+      } else {
+        publish();
+      }
+    }, 250);
+    return () => clearInterval(id);
+  }, [isRunning, advance, publish]);
+
+  // Log a run that's cut short by closing the page (pagehide, since React
+  // cleanup doesn't run then) or by the runner unmounting
+  useEffect(() => {
+    const saveUnfinished = (keepalive: boolean) => {
+      const run = runRef.current;
+      if (!run) return;
+      runRef.current = null;
+      void saveRun(run, keepalive);
+    };
+    const handlePageHide = () => {
+      saveUnfinished(true);
+      publish();
+    };
+    window.addEventListener("pagehide", handlePageHide);
+    return () => {
+      window.removeEventListener("pagehide", handlePageHide);
+      saveUnfinished(false);
+    };
+  }, [publish]);
+
+  return { state, start, stop, next, togglePause };
+}
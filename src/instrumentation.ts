@@ -0,0 +1,16 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  // Resume analysis jobs queued before the last restart
+  const { startMediaJobWorker } = await import("@/lib/mediaJobs");
+  startMediaJobWorker();
+
+  const { startBackupSchedule } = await import("@/lib/databaseBackup");
+  startBackupSchedule();
+
+  if (process.env.LIBRARY_WATCH === "true") {
+    const { startLibraryWatcher } = await import("@/lib/libraryWatcher");
+    startLibraryWatcher();
+  }
+}
@@ -0,0 +1,72 @@
+import { spawn } from "child_process";
+
+// Shared by the analysis jobs that need raw audio rather than ffmpeg filters
+
+/** Decode the first `maxSeconds` of a file to mono float samples at `sampleRate`. */
+export function decodeMono(fullPath: string, sampleRate: number, maxSeconds: number): Promise<Float32Array> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn("ffmpeg", [
+      "-v", "error",
+      "-t", String(maxSeconds),
+      "-i", fullPath,
+      "-ac", "1",
+      "-ar", String(sampleRate),
+      "-f", "s16le",
+      "-",
+    ]);
+
+    const chunks: Buffer[] = [];
+    let stderr = "";
+    proc.stdout.on("data", (chunk: Buffer) => chunks.push(chunk));
+    proc.stderr.on("data", (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+    proc.on("error", reject);
+    proc.on("close", (code) => {
+      if (code !== 0) {
+        reject(new Error(stderr.trim() || `ffmpeg exited with code ${code}`));
+        return;
+      }
+      const data = Buffer.concat(chunks);
+      const samples = new Float32Array(Math.floor(data.length / 2));
+      for (let i = 0; i < samples.length; i++) {
+        samples[i] = data.readInt16LE(i * 2) / 32768;
+      }
+      resolve(samples);
+    });
+  });
+}
+
+/** In-place radix-2 FFT; `re.length` must be a power of two. */
+export function fft(re: Float64Array, im: Float64Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const aRe = re[i + k + len / 2] * curRe - im[i + k + len / 2] * curIm;
+        const aIm = re[i + k + len / 2] * curIm + im[i + k + len / 2] * curRe;
+        re[i + k + len / 2] = re[i + k] - aRe;
+        im[i + k + len / 2] = im[i + k] - aIm;
+        re[i + k] += aRe;
+        im[i + k] += aIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
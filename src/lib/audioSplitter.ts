@@ -0,0 +1,592 @@
+import { execFile } from "child_process";
+import * as fs from "fs/promises";
+import * as path from "path";
+import NodeID3 from "node-id3";
+import { File as TagFile } from "node-taglib-sharp";
+import { prisma } from "@/lib/prisma";
+import { getMediaDuration } from "@/lib/mediaAnalysis";
+import { enqueueMediaJobs } from "@/lib/mediaJobs";
+import { withLibraryScanQueue } from "@/lib/libraryScanner";
+import { buildTrackFilename, sanitizeFilename, stripTrackNumberPrefix } from "@/lib/trackNaming";
+import { peaksPathFor } from "@/lib/waveformPeaks";
+import type { AudioSplitSegment } from "@/types";
+
+const MUSIC_DIR = process.env.MUSIC_DIR || "./music";
+
+export const DEFAULT_SILENCE_THRESHOLD_DB = -40;
+export const DEFAULT_MIN_SILENCE_SECONDS = 2;
+// Pieces shorter than this are dropped: count-offs, clicks, gaps between silences
+const MIN_SEGMENT_SECONDS = 1;
+// Keep a little of each silence so pieces don't start or stop abruptly
+const SILENCE_PADDING_SECONDS = 0.5;
+// Cue sheet times are mm:ss:ff with 75 frames per second (CD sectors)
+const CUE_FRAMES_PER_SECOND = 75;
+
+export class AudioSplitError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+  }
+}
+
+export interface CueSheetTrack {
+  number: number;
+  title: string | null;
+  performer: string | null;
+  /** INDEX 01, in seconds. */
+  start: number | null;
+}
+
+export interface CueSheet {
+  title: string | null;
+  performer: string | null;
+  files: string[];
+  tracks: CueSheetTrack[];
+}
+
+export interface SilenceOptions {
+  thresholdDb?: number;
+  minSilence?: number;
+}
+
+export interface SplitPlan {
+  duration: number;
+  segments: AudioSplitSegment[];
+}
+
+interface NewTrackRow {
+  title: string;
+  trackNumber: number;
+  filePath: string;
+  duration: number;
+  bookId: string;
+  pdfPage: number | null;
+  chapterId: string | null;
+  sortOrder: number;
+  tempo: number | null;
+  timeSignature: string;
+}
+
+export interface SplitTrackResult {
+  id: string;
+  title: string;
+  trackNumber: number;
+  filePath: string;
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (!trimmed.startsWith('"')) return trimmed.split(/\s+/)[0];
+  const end = trimmed.lastIndexOf('"');
+  return trimmed.slice(1, end > 0 ? end : undefined);
+}
+
+function cueTimeToSeconds(value: string): number | null {
+  const match = value.match(/^(\d+):(\d{1,2}):(\d{1,2})$/);
+  if (!match) return null;
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10) + parseInt(match[3], 10) / CUE_FRAMES_PER_SECOND;
+}
+
+/** Parse the parts of a cue sheet that matter for splitting; unknown commands are ignored. */
+export function parseCueSheet(text: string): CueSheet {
+  const sheet: CueSheet = { title: null, performer: null, files: [], tracks: [] };
+  let current: CueSheetTrack | null = null;
+
+  for (const rawLine of text.replace(/^\uFEFF/, "").split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const space = line.indexOf(" ");
+    if (space < 0) continue;
+    const command = line.slice(0, space).toUpperCase();
+    const rest = line.slice(space + 1);
+
+    switch (command) {
+      case "FILE":
+        sheet.files.push(unquote(rest));
+        break;
+      case "TRACK":
+        current = { number: parseInt(rest, 10), title: null, performer: null, start: null };
+        sheet.tracks.push(current);
+        break;
+      case "TITLE":
+        if (current) current.title = unquote(rest);
+        else sheet.title = unquote(rest);
+        break;
+      case "PERFORMER":
+        if (current) current.performer = unquote(rest);
+        else sheet.performer = unquote(rest);
+        break;
+      case "INDEX": {
+        const [index, time] = rest.trim().split(/\s+/);
+        if (current && parseInt(index, 10) === 1) current.start = cueTimeToSeconds(time ?? "");
+        break;
+      }
+    }
+  }
+
+  return sheet;
+}
+
+export function segmentsFromCue(sheet: CueSheet, duration: number): AudioSplitSegment[] {
+  if (sheet.files.length > 1) {
+    throw new AudioSplitError("Cue sheets that span several audio files aren't supported");
+  }
+  if (sheet.tracks.length === 0) {
+    throw new AudioSplitError("The cue sheet has no tracks");
+  }
+  const missing = sheet.tracks.find((track) => track.start === null);
+  if (missing) {
+    throw new AudioSplitError(`Track ${missing.number} in the cue sheet has no INDEX 01`);
+  }
+
+  const tracks = [...sheet.tracks].sort((a, b) => a.start! - b.start!);
+  return tracks.map((track, i) => ({
+    start: track.start!,
+    end: i + 1 < tracks.length ? tracks[i + 1].start! : duration,
+    title: track.title || `Track ${track.number}`,
+  }));
+}
+
+/** Silent stretches reported by ffmpeg's silencedetect filter. */
+export function detectSilences(
+  fullPath: string,
+  { thresholdDb = DEFAULT_SILENCE_THRESHOLD_DB, minSilence = DEFAULT_MIN_SILENCE_SECONDS }: SilenceOptions = {}
+): Promise<{ start: number; end: number | null }[]> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      "ffmpeg",
+      [
+        "-hide_banner", "-nostats",
+        "-i", fullPath,
+        "-vn",
+        "-af", `silencedetect=noise=${thresholdDb}dB:d=${minSilence}`,
+        "-f", "null", "-",
+      ],
+      { timeout: 10 * 60 * 1000, maxBuffer: 20 * 1024 * 1024 },
+      (error: Error | null, _stdout: string, stderr: string) => {
+        if (error) {
+          reject(new AudioSplitError(`Silence detection failed: ${error.message}`, 500));
+          return;
+        }
+        const silences: { start: number; end: number | null }[] = [];
+        for (const match of stderr.matchAll(/silence_(start|end): (-?[\d.]+)/g)) {
+          const value = Math.max(0, parseFloat(match[2]));
+          if (match[1] === "start") {
+            silences.push({ start: value, end: null });
+          } else if (silences.length > 0 && silences[silences.length - 1].end === null) {
+            silences[silences.length - 1].end = value;
+          }
+        }
+        resolve(silences);
+      }
+    );
+  });
+}
+
+/** Cut in each silence, dropping leading and trailing silence. */
+export function segmentsFromSilences(
+  silences: { start: number; end: number | null }[],
+  duration: number
+): AudioSplitSegment[] {
+  const pieces: { start: number; end: number }[] = [];
+  let start = 0;
+
+  for (const silence of silences) {
+    const silenceEnd = silence.end ?? duration;
+    if (silence.start <= MIN_SEGMENT_SECONDS) {
+      start = Math.max(0, silenceEnd - SILENCE_PADDING_SECONDS);
+      continue;
+    }
+    const mid = (silence.start + silenceEnd) / 2;
+    pieces.push({ start, end: Math.min(silence.start + SILENCE_PADDING_SECONDS, mid) });
+    if (silenceEnd >= duration - MIN_SEGMENT_SECONDS) {
+      start = duration;
+      break;
+    }
+    start = Math.max(silenceEnd - SILENCE_PADDING_SECONDS, mid);
+  }
+  if (duration - start > MIN_SEGMENT_SECONDS) pieces.push({ start, end: duration });
+
+  return pieces
+    .filter((piece) => piece.end - piece.start >= MIN_SEGMENT_SECONDS)
+    .map((piece, i) => ({ ...piece, title: `Track ${i + 1}` }));
+}
+
+/** Each marker starts a piece named after it; audio before the first marker becomes "Intro". */
+export function segmentsFromMarkers(
+  markers: { name: string; timestamp: number; pdfPage: number | null }[],
+  duration: number
+): AudioSplitSegment[] {
+  const cuts = markers
+    .filter((marker) => marker.timestamp < duration - MIN_SEGMENT_SECONDS)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  if (cuts.length === 0) {
+    throw new AudioSplitError("This track has no markers to split at");
+  }
+
+  const segments: AudioSplitSegment[] = [];
+  if (cuts[0].timestamp >= MIN_SEGMENT_SECONDS) {
+    segments.push({ start: 0, end: cuts[0].timestamp, title: "Intro" });
+  }
+  cuts.forEach((marker, i) => {
+    segments.push({
+      // A marker right at the top names the first piece rather than cutting
+      start: i === 0 && segments.length === 0 ? 0 : marker.timestamp,
+      end: i + 1 < cuts.length ? cuts[i + 1].timestamp : duration,
+      title: marker.name.trim() || `Track ${segments.length + 1}`,
+      pdfPage: marker.pdfPage,
+    });
+  });
+  // Markers at the same spot would give empty pieces
+  return segments.filter((segment) => segment.end > segment.start);
+}
+
+/**
+ * Check segments edited on the client: in range, in order, non-overlapping,
+ * and at least two of them (one piece would just be a copy).
+ */
+export function validateSegments(segments: AudioSplitSegment[], duration: number): AudioSplitSegment[] {
+  if (!Array.isArray(segments) || segments.length < 2) {
+    throw new AudioSplitError("Splitting needs at least two tracks");
+  }
+  let previousEnd = 0;
+  return segments.map((segment, i) => {
+    const start = Number(segment.start);
+    const end = Math.min(Number(segment.end), duration);
+    if (!Number.isFinite(start) || !Number.isFinite(end) || start < previousEnd - 0.001 || end <= start) {
+      throw new AudioSplitError(`Track ${i + 1} has an invalid time range`);
+    }
+    previousEnd = end;
+    return {
+      start,
+      end,
+      title: String(segment.title ?? "").trim() || `Track ${i + 1}`,
+      pdfPage: segment.pdfPage ?? null,
+    };
+  });
+}
+
+function cutSegment(
+  sourcePath: string,
+  destPath: string,
+  segment: AudioSplitSegment,
+  tags: { trackNumber: number; totalTracks: number; artist: string; album: string }
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      "ffmpeg",
+      [
+        "-v", "error", "-y",
+        "-ss", segment.start.toFixed(3),
+        "-i", sourcePath,
+        "-t", (segment.end - segment.start).toFixed(3),
+        "-map", "0:a:0",
+        "-c", "copy",
+        "-map_metadata", "-1",
+        "-metadata", `title=${segment.title}`,
+        "-metadata", `track=${tags.trackNumber}/${tags.totalTracks}`,
+        "-metadata", `artist=${tags.artist}`,
+        "-metadata", `album=${tags.album}`,
+        destPath,
+      ],
+      { timeout: 5 * 60 * 1000 },
+      (error: Error | null, _stdout: string, stderr: string) => {
+        if (error) reject(new Error(stderr.trim() || error.message));
+        else resolve();
+      }
+    );
+  });
+}
+
+async function freeTrackPath(
+  musicPath: string,
+  dir: string,
+  segment: AudioSplitSegment,
+  trackNumber: number,
+  totalTracks: number,
+  ext: string
+): Promise<string> {
+  for (let counter = 0; ; counter++) {
+    const relativePath = path.join(dir, buildTrackFilename(segment.title, trackNumber, totalTracks, ext, counter || undefined));
+    try {
+      await fs.access(path.join(musicPath, relativePath));
+    } catch {
+      return relativePath;
+    }
+  }
+}
+
+/**
+ * Cut the pieces into Author/Book/NN - Title.ext (the layout reorganize
+ * produces) and create their Track rows, numbered from `firstTrackNumber`.
+ * Files already written are removed again if any piece fails.
+ */
+async function writeSplitTracks(options: {
+  sourcePath: string;
+  segments: AudioSplitSegment[];
+  bookId: string;
+  firstTrackNumber: number;
+  /** Tracks already in the book that keep their place, for number padding. */
+  otherTrackCount: number;
+  template?: { chapterId: string | null; sortOrder: number; tempo: number | null; timeSignature: string };
+}): Promise<NewTrackRow[]> {
+  const { sourcePath, segments, bookId, firstTrackNumber, otherTrackCount, template } = options;
+  const musicPath = path.resolve(MUSIC_DIR);
+  const book = await prisma.book.findUnique({ where: { id: bookId }, include: { author: true } });
+  if (!book) throw new AudioSplitError("Book not found", 404);
+
+  const dir = path.join(sanitizeFilename(book.author.name), sanitizeFilename(book.name));
+  await fs.mkdir(path.join(musicPath, dir), { recursive: true });
+  const ext = path.extname(sourcePath).toLowerCase();
+  const totalTracks = otherTrackCount + segments.length;
+  const written: string[] = [];
+  const rows: NewTrackRow[] = [];
+
+  try {
+    for (const [i, segment] of segments.entries()) {
+      const trackNumber = firstTrackNumber + i;
+      const relativePath = await freeTrackPath(musicPath, dir, segment, trackNumber, totalTracks, ext);
+      const fullPath = path.join(musicPath, relativePath);
+      await cutSegment(sourcePath, fullPath, segment, {
+        trackNumber,
+        totalTracks,
+        artist: book.author.name,
+        album: book.name,
+      });
+      written.push(fullPath);
+      rows.push({
+        title: segment.title,
+        trackNumber,
+        filePath: relativePath,
+        duration: segment.end - segment.start,
+        bookId,
+        pdfPage: segment.pdfPage ?? null,
+        chapterId: template?.chapterId ?? null,
+        sortOrder: template?.sortOrder ?? 0,
+        tempo: template?.tempo ?? null,
+        timeSignature: template?.timeSignature ?? "4/4",
+      });
+    }
+  } catch (err) {
+    await Promise.all(written.map((file) => fs.rm(file, { force: true })));
+    throw new AudioSplitError(`Failed to cut track: ${err instanceof Error ? err.message : err}`, 500);
+  }
+
+  return rows;
+}
+
+/**
+ * Retag and rename tracks whose number changed so their files agree with the
+ * database; the next scan takes numbers from tags and would put the old ones
+ * back. Same layout and clash handling as reorganize.
+ */
+async function renumberTrackFiles(
+  tracks: { id: string; title: string; trackNumber: number; filePath: string }[],
+  totalTracks: number
+) {
+  const musicPath = path.resolve(MUSIC_DIR);
+  // Highest first, so a track moves up into a name the next one has already left
+  for (const track of [...tracks].sort((a, b) => b.trackNumber - a.trackNumber)) {
+    const oldFullPath = path.join(musicPath, track.filePath);
+    const ext = path.extname(track.filePath);
+    try {
+      if (ext.toLowerCase() === ".mp3") {
+        NodeID3.update({ trackNumber: String(track.trackNumber) }, oldFullPath);
+      } else {
+        const tagFile = TagFile.createFromPath(oldFullPath);
+        tagFile.tag.track = track.trackNumber;
+        tagFile.save();
+        tagFile.dispose();
+      }
+
+      let relativePath = track.filePath;
+      for (let counter = 0; ; counter++) {
+        const candidate = path.join(
+          path.dirname(track.filePath),
+          buildTrackFilename(stripTrackNumberPrefix(track.title), track.trackNumber, totalTracks, ext, counter || undefined)
+        );
+        if (candidate === track.filePath) break;
+        try {
+          await fs.access(path.join(musicPath, candidate));
+        } catch {
+          relativePath = candidate;
+          break;
+        }
+      }
+      if (relativePath === track.filePath) continue;
+
+      await fs.rename(oldFullPath, path.join(musicPath, relativePath));
+      await fs.rm(peaksPathFor(oldFullPath), { force: true });
+      await prisma.track.update({ where: { id: track.id }, data: { filePath: relativePath } });
+    } catch (err) {
+      console.error(`Failed to renumber ${track.filePath}:`, err);
+    }
+  }
+}
+
+function toResults(tracks: { id: string; title: string; trackNumber: number; filePath: string }[]): SplitTrackResult[] {
+  return tracks.map(({ id, title, trackNumber, filePath }) => ({ id, title, trackNumber, filePath }));
+}
+
+async function queueAnalysis(tracks: SplitTrackResult[]) {
+  await enqueueMediaJobs(
+    tracks.flatMap((track) => [
+      { type: "lufs" as const, entity: "track" as const, entityId: track.id, filePath: track.filePath },
+      { type: "waveform" as const, entity: "track" as const, entityId: track.id, filePath: track.filePath },
+      { type: "tempo" as const, entity: "track" as const, entityId: track.id, filePath: track.filePath },
+    ])
+  );
+}
+
+/** Work out the pieces of a file without writing anything. */
+export async function planSplit(
+  fullPath: string,
+  options: { mode: "cue"; cueText: string } | ({ mode: "silence" } & SilenceOptions)
+): Promise<SplitPlan> {
+  const duration = await getMediaDuration(fullPath);
+  if (!duration) throw new AudioSplitError("Could not read the audio duration");
+
+  const segments =
+    options.mode === "cue"
+      ? segmentsFromCue(parseCueSheet(options.cueText), duration)
+      : segmentsFromSilences(await detectSilences(fullPath, options), duration);
+  return { duration, segments };
+}
+
+/** Pieces for an existing track, from its markers or from silence. */
+export async function planTrackSplit(
+  trackId: string,
+  options: { mode: "markers" } | ({ mode: "silence" } & SilenceOptions)
+): Promise<SplitPlan> {
+  const track = await prisma.track.findUnique({ where: { id: trackId }, include: { markers: true } });
+  if (!track) throw new AudioSplitError("Track not found", 404);
+  const fullPath = path.join(path.resolve(MUSIC_DIR), track.filePath);
+
+  if (options.mode === "silence") return planSplit(fullPath, options);
+
+  const duration = (await getMediaDuration(fullPath)) || track.duration;
+  return { duration, segments: segmentsFromMarkers(track.markers, duration) };
+}
+
+/**
+ * Replace a track with its pieces. The pieces take over its track number
+ * (later tracks in the book move up, files and tags included), chapter, tempo
+ * and time signature; its practice history and tabs move to the first piece.
+ * Runs on the scan queue, so a scan can't import the pieces before their rows
+ * exist.
+ */
+export function splitExistingTrack(trackId: string, segments: AudioSplitSegment[]): Promise<SplitTrackResult[]> {
+  return withLibraryScanQueue(() => replaceWithPieces(trackId, segments));
+}
+
+async function replaceWithPieces(trackId: string, segments: AudioSplitSegment[]): Promise<SplitTrackResult[]> {
+  const track = await prisma.track.findUnique({
+    where: { id: trackId },
+    include: { book: { select: { _count: { select: { tracks: true } } } } },
+  });
+  if (!track) throw new AudioSplitError("Track not found", 404);
+
+  const musicPath = path.resolve(MUSIC_DIR);
+  const sourcePath = path.join(musicPath, track.filePath);
+  const duration = (await getMediaDuration(sourcePath)) || track.duration;
+  const valid = validateSegments(segments, duration);
+  const firstTrackNumber = track.trackNumber > 0 ? track.trackNumber : 1;
+
+  const rows = await writeSplitTracks({
+    sourcePath,
+    segments: valid,
+    bookId: track.bookId,
+    firstTrackNumber,
+    otherTrackCount: track.book._count.tracks - 1,
+    template: {
+      chapterId: track.chapterId,
+      sortOrder: track.sortOrder,
+      tempo: track.tempo,
+      timeSignature: track.timeSignature,
+    },
+  });
+
+  const shift = valid.length - 1;
+  const laterTracks =
+    track.trackNumber > 0 && shift > 0
+      ? await prisma.track.findMany({
+          where: { bookId: track.bookId, trackNumber: { gt: track.trackNumber } },
+          select: { id: true, title: true, trackNumber: true, filePath: true },
+        })
+      : [];
+
+  let created;
+  try {
+    created = await prisma.$transaction(async (tx) => {
+      for (const later of laterTracks) {
+        await tx.track.update({ where: { id: later.id }, data: { trackNumber: later.trackNumber + shift } });
+      }
+      const tracks = [];
+      for (const row of rows) tracks.push(await tx.track.create({ data: row }));
+      await tx.practiceSession.updateMany({ where: { trackId }, data: { trackId: tracks[0].id } });
+      await tx.trackTab.updateMany({ where: { trackId }, data: { trackId: tracks[0].id } });
+      if (track.notes) await tx.track.update({ where: { id: tracks[0].id }, data: { notes: track.notes } });
+      await tx.track.delete({ where: { id: trackId } });
+      return tracks;
+    });
+  } catch (err) {
+    await Promise.all(rows.map((row) => fs.rm(path.join(musicPath, row.filePath), { force: true })));
+    throw err;
+  }
+
+  await fs.rm(sourcePath, { force: true });
+  await fs.rm(peaksPathFor(sourcePath), { force: true });
+  await renumberTrackFiles(
+    laterTracks.map((later) => ({ ...later, trackNumber: later.trackNumber + shift })),
+    track.book._count.tracks + shift
+  );
+
+  const results = toResults(created);
+  await queueAnalysis(results);
+  return results;
+}
+
+/**
+ * Split a file outside the library (an upload) into new tracks appended to
+ * the book. The source file is left for the caller to remove. Runs on the
+ * scan queue, like splitExistingTrack.
+ */
+export function splitIntoBook(
+  sourcePath: string,
+  segments: AudioSplitSegment[],
+  bookId: string
+): Promise<SplitTrackResult[]> {
+  return withLibraryScanQueue(() => appendPieces(sourcePath, segments, bookId));
+}
+
+async function appendPieces(
+  sourcePath: string,
+  segments: AudioSplitSegment[],
+  bookId: string
+): Promise<SplitTrackResult[]> {
+  const duration = await getMediaDuration(sourcePath);
+  const valid = validateSegments(segments, duration);
+  const existing = await prisma.track.aggregate({
+    where: { bookId },
+    _max: { trackNumber: true },
+    _count: { _all: true },
+  });
+
+  const rows = await writeSplitTracks({
+    sourcePath,
+    segments: valid,
+    bookId,
+    firstTrackNumber: (existing._max.trackNumber ?? 0) + 1,
+    otherTrackCount: existing._count._all,
+  });
+
+  let created;
+  try {
+    created = await prisma.$transaction(rows.map((row) => prisma.track.create({ data: row })));
+  } catch (err) {
+    const musicPath = path.resolve(MUSIC_DIR);
+    await Promise.all(rows.map((row) => fs.rm(path.join(musicPath, row.filePath), { force: true })));
+    throw err;
+  }
+  const results = toResults(created);
+  await queueAnalysis(results);
+  return results;
+}
@@ -0,0 +1,197 @@
+import { decodeMono, fft } from "@/lib/audioDecode";
+
+// Onsets only need the low and mid spectrum; 11025 Hz keeps the FFTs cheap
+const DECODE_SAMPLE_RATE = 11025;
+const FRAME_SIZE = 512;
+const HOP_SIZE = 256;
+const FRAMES_PER_SECOND = DECODE_SAMPLE_RATE / HOP_SIZE;
+// Long files are analysed from the start only; a constant grid doesn't need more
+const MAX_ANALYSIS_SECONDS = 600;
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+// Bins below ~150 Hz: kick and bass, which mark the downbeat more than hats do
+const LOW_BAND_BINS = Math.round((150 * FRAME_SIZE) / DECODE_SAMPLE_RATE);
+
+export interface BeatGridEstimate {
+  /** Beats per minute, to two decimals. */
+  bpm: number;
+  /** Seconds from the start of the file to the first downbeat. */
+  beatOffset: number;
+}
+
+/**
+ * Spectral flux per frame (positive change in log magnitude), over the whole
+ * spectrum and over the low band, plus each frame's RMS level.
+ */
+function onsetEnvelopes(samples: Float32Array) {
+  const frames = Math.max(0, Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1);
+  const flux = new Float64Array(frames);
+  const lowFlux = new Float64Array(frames);
+  const rms = new Float64Array(frames);
+
+  const window = new Float64Array(FRAME_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FRAME_SIZE);
+
+  const bins = FRAME_SIZE / 2;
+  let prev = new Float64Array(bins);
+  let cur = new Float64Array(bins);
+  const re = new Float64Array(FRAME_SIZE);
+  const im = new Float64Array(FRAME_SIZE);
+
+  for (let f = 0; f < frames; f++) {
+    const start = f * HOP_SIZE;
+    let energy = 0;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      const s = samples[start + i];
+      energy += s * s;
+      re[i] = s * window[i];
+      im[i] = 0;
+    }
+    rms[f] = Math.sqrt(energy / FRAME_SIZE);
+    fft(re, im);
+
+    let total = 0;
+    let low = 0;
+    for (let b = 1; b < bins; b++) {
+      cur[b] = Math.log1p(100 * Math.hypot(re[b], im[b]));
+      const rise = f > 0 ? Math.max(0, cur[b] - prev[b]) : 0;
+      total += rise;
+      if (b <= LOW_BAND_BINS) low += rise;
+    }
+    flux[f] = total;
+    lowFlux[f] = low;
+    [prev, cur] = [cur, prev];
+  }
+
+  return { flux: normalizeOnsets(flux), lowFlux: normalizeOnsets(lowFlux), rms };
+}
+
+/** Subtract a half-second moving average and keep the peaks above it, scaled to 0..1. */
+function normalizeOnsets(values: Float64Array): Float64Array {
+  const radius = Math.round(FRAMES_PER_SECOND / 4);
+  const out = new Float64Array(values.length);
+  let sum = 0;
+  let count = 0;
+  let max = 0;
+  for (let i = 0; i < values.length + radius; i++) {
+    if (i < values.length) {
+      sum += values[i];
+      count++;
+    }
+    if (i - 2 * radius - 1 >= 0) {
+      sum -= values[i - 2 * radius - 1];
+      count--;
+    }
+    const center = i - radius;
+    if (center >= 0 && center < values.length) {
+      out[center] = Math.max(0, values[center] - sum / count);
+      if (out[center] > max) max = out[center];
+    }
+  }
+  if (max > 0) for (let i = 0; i < out.length; i++) out[i] /= max;
+  return out;
+}
+
+/** Linear interpolation at a fractional frame index. */
+function valueAt(values: Float64Array, position: number): number {
+  const i = Math.floor(position);
+  if (i < 0 || i >= values.length - 1) return 0;
+  const t = position - i;
+  return values[i] * (1 - t) + values[i + 1] * t;
+}
+
+/**
+ * Coarse tempo from the autocorrelation of the onset envelope, weighted
+ * towards ~120 BPM so a half- or double-time reading loses to the felt pulse.
+ */
+function autocorrelationBpm(onsets: Float64Array): number {
+  // Onset peaks are a frame or two wide, so widen them first: otherwise a
+  // fractional lag interpolates between frames and undercounts the true period
+  const envelope = new Float64Array(onsets.length);
+  for (let i = 2; i < onsets.length - 2; i++) {
+    envelope[i] = (onsets[i - 2] + 2 * onsets[i - 1] + 3 * onsets[i] + 2 * onsets[i + 1] + onsets[i + 2]) / 9;
+  }
+
+  let bestBpm = 120;
+  let bestScore = -Infinity;
+  for (let bpm = MIN_BPM; bpm <= MAX_BPM; bpm += 0.5) {
+    const lag = (60 * FRAMES_PER_SECOND) / bpm;
+    let sum = 0;
+    for (let i = 0; i + lag < envelope.length; i++) sum += envelope[i] * valueAt(envelope, i + lag);
+    const weight = Math.exp(-0.5 * Math.log2(bpm / 120) ** 2);
+    const score = (sum / (envelope.length - lag)) * weight;
+    if (score > bestScore) {
+      bestScore = score;
+      bestBpm = bpm;
+    }
+  }
+  return bestBpm;
+}
+
+/** Mean onset strength on the grid with this period and phase (both in frames). */
+function gridScore(envelope: Float64Array, period: number, phase: number, stride = 1, first = 0): number {
+  let sum = 0;
+  let count = 0;
+  for (let pos = phase + first * period; pos < envelope.length; pos += period * stride) {
+    sum += valueAt(envelope, pos);
+    count++;
+  }
+  return count > 0 ? sum / count : 0;
+}
+
+/**
+ * Refine the tempo and find the beat phase together: the grid whose beats
+ * land on the most onset energy wins. Over a few minutes of audio a small
+ * tempo error drifts off the beats, so the search is fine-grained.
+ */
+function fitBeatGrid(envelope: Float64Array, coarseBpm: number): { period: number; phase: number } {
+  let best = { period: (60 * FRAMES_PER_SECOND) / coarseBpm, phase: 0, score: -Infinity };
+  for (let bpm = coarseBpm * 0.97; bpm <= coarseBpm * 1.03; bpm += 0.01) {
+    const period = (60 * FRAMES_PER_SECOND) / bpm;
+    for (let phase = 0; phase < period; phase += 0.5) {
+      const score = gridScore(envelope, period, phase);
+      if (score > best.score) best = { period, phase, score };
+    }
+  }
+  return best;
+}
+
+/**
+ * Estimate the tempo and first downbeat of an audio file. The grid is assumed
+ * constant, which suits the studio and play-along recordings this is for.
+ */
+export async function detectBeatGrid(fullPath: string, beatsPerBar: number): Promise<BeatGridEstimate> {
+  const samples = await decodeMono(fullPath, DECODE_SAMPLE_RATE, MAX_ANALYSIS_SECONDS);
+  const { flux, lowFlux, rms } = onsetEnvelopes(samples);
+  if (flux.length < FRAMES_PER_SECOND * 5) throw new Error("Audio is too short to detect a tempo");
+
+  let peakRms = 0;
+  for (const level of rms) if (level > peakRms) peakRms = level;
+  if (peakRms === 0) throw new Error("Audio is silent");
+
+  const { period, phase } = fitBeatGrid(flux, autocorrelationBpm(flux));
+
+  // The downbeat is the beat of the bar with the strongest low end
+  const bar = Math.max(1, beatsPerBar);
+  let downbeat = phase;
+  let bestScore = -Infinity;
+  for (let k = 0; k < bar; k++) {
+    const score = gridScore(lowFlux, period, phase, bar, k);
+    if (score > bestScore) {
+      bestScore = score;
+      downbeat = phase + k * period;
+    }
+  }
+
+  // Anchor the grid on the first downbeat once the music has started (-26 dB)
+  const musicStart = rms.findIndex((level) => level > peakRms * 0.05);
+  const barFrames = period * bar;
+  const toSeconds = (frame: number) => (frame * HOP_SIZE + FRAME_SIZE / 2) / DECODE_SAMPLE_RATE;
+  let firstDownbeat = downbeat + Math.ceil((musicStart - period / 2 - downbeat) / barFrames) * barFrames;
+  if (toSeconds(firstDownbeat) < -0.05) firstDownbeat += barFrames;
+
+  return {
+    bpm: Math.round(((60 * FRAMES_PER_SECOND) / period) * 100) / 100,
+    beatOffset: Math.round(Math.max(0, toSeconds(firstDownbeat)) * 1000) / 1000,
+  };
+}
@@ -0,0 +1,69 @@
+// Bar positions from a track's detected beat grid. The grid is constant: one
+// tempo, anchored on the first downbeat and extended in both directions.
+
+export interface BeatGrid {
+  bpm: number;
+  /** Seconds to a downbeat. */
+  offset: number;
+  beatsPerBar: number;
+}
+
+interface BeatGridSource {
+  tempo: number | null;
+  detectedTempo: number | null;
+  beatOffset: number | null;
+  timeSignature: string;
+}
+
+/** The track's grid, or null without a tempo or a detected downbeat. */
+export function getBeatGrid(track: BeatGridSource): BeatGrid | null {
+  if (!track.tempo || track.tempo <= 0 || track.beatOffset === null) return null;
+  // The measured tempo is more precise, but a hand-corrected one (say, half time) wins
+  const bpm =
+    track.detectedTempo !== null && Math.round(track.detectedTempo) === track.tempo
+      ? track.detectedTempo
+      : track.tempo;
+  return {
+    bpm,
+    offset: track.beatOffset,
+    beatsPerBar: parseInt(track.timeSignature.split("/")[0]) || 4,
+  };
+}
+
+export function barLength(grid: BeatGrid): number {
+  return (grid.beatsPerBar * 60) / grid.bpm;
+}
+
+export function nearestBarLine(grid: BeatGrid, time: number): number {
+  const bar = barLength(grid);
+  return grid.offset + Math.round((time - grid.offset) / bar) * bar;
+}
+
+/** Move both loop points to the nearest bar lines, keeping at least one bar. */
+export function snapLoopToBarLines(
+  grid: BeatGrid,
+  start: number,
+  end: number,
+  duration: number
+): { start: number; end: number } | null {
+  const bar = barLength(grid);
+  let snappedStart = nearestBarLine(grid, start);
+  if (snappedStart < 0) snappedStart += bar;
+  let snappedEnd = Math.min(duration, nearestBarLine(grid, end));
+  if (snappedEnd <= snappedStart) snappedEnd = Math.min(duration, snappedStart + bar);
+  return snappedEnd > snappedStart ? { start: snappedStart, end: snappedEnd } : null;
+}
+
+/**
+ * Where to start playback so a one-bar count-in leads into the bar holding
+ * `target`: its downbeat. Before the first whole bar (a pickup or intro),
+ * playback starts at `target` instead and `preroll` seconds of audio play
+ * under the end of the count-in, so the next downbeat still lands on the bar.
+ */
+export function alignCountIn(grid: BeatGrid, target: number): { start: number; preroll: number } {
+  const bar = barLength(grid);
+  // A marker set a hair after the downbeat still counts in from it
+  const downbeat = grid.offset + Math.floor((target - grid.offset + 0.05) / bar) * bar;
+  if (downbeat >= 0) return { start: downbeat, preroll: 0 };
+  return { start: target, preroll: downbeat + bar - target };
+}
@@ -0,0 +1,467 @@
+import archiver from "archiver";
+import yauzl from "yauzl";
+import { createWriteStream } from "fs";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { pipeline } from "stream/promises";
+import type { Readable } from "stream";
+import { prisma } from "@/lib/prisma";
+import { withLibraryScanQueue } from "@/lib/libraryScanner";
+import { sanitizeFilename } from "@/lib/trackNaming";
+
+const MUSIC_DIR = process.env.MUSIC_DIR || "./music";
+const MANIFEST_NAME = "manifest.json";
+const MANIFEST_VERSION = 1;
+
+/** A saved A-B loop on a track or video. */
+export interface ArchivedLoopRegion {
+  name: string;
+  start: number;
+  end: number;
+  playbackSpeed: number | null;
+  leadIn: number | null;
+}
+
+/**
+ * `manifest.json` at the root of a book archive. IDs are the exporting
+ * instance's and only link rows inside the manifest; import assigns new ones.
+ * `file` fields are paths inside the zip.
+ */
+export interface BookArchiveManifest {
+  version: number;
+  exportedAt: string;
+  author: { name: string };
+  book: { name: string; inProgress: boolean; pdf: string | null; cover: string | null };
+  chapters: { id: string; name: string; sortOrder: number }[];
+  tracks: {
+    id: string;
+    file: string;
+    title: string;
+    trackNumber: number;
+    duration: number;
+    chapterId: string | null;
+    sortOrder: number;
+    pdfPage: number | null;
+    completed: boolean;
+    inProgress: boolean;
+    favorite: boolean;
+    tempo: number | null;
+    detectedTempo?: number | null;
+    beatOffset?: number | null;
+    timeSignature: string;
+    playbackSpeed: number | null;
+    transposeCents?: number | null;
+    volume: number | null;
+    toneSettings?: string | null;
+    lufs: number | null;
+    notes: string | null;
+    sourceVideoId: string | null;
+    markers: { name: string; timestamp: number; pdfPage: number | null }[];
+    tabs: { name: string; alphatex: string | null; tempo: number; sortOrder: number }[];
+    loopRegions?: ArchivedLoopRegion[];
+  }[];
+  videos: {
+    id: string;
+    file: string;
+    filename: string;
+    title: string | null;
+    duration: number | null;
+    sortOrder: number;
+    trackNumber: number | null;
+    pdfPage: number | null;
+    completed: boolean;
+    inProgress: boolean;
+    notes: string | null;
+    chapterId: string | null;
+    markers: { name: string; timestamp: number }[];
+    loopRegions?: ArchivedLoopRegion[];
+  }[];
+}
+
+export interface BookImportResult {
+  bookId: string;
+  authorName: string;
+  bookName: string;
+  tracks: number;
+  videos: number;
+}
+
+export class BookArchiveError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+  }
+}
+
+/**
+ * Archive names mirror the file's place under the book folder (`files/01 - Intro.mp3`,
+ * `files/videos/01.mp4`); files kept elsewhere go to `files/` by basename.
+ */
+function archiveNameAllocator(bookDir: string) {
+  const used = new Set<string>();
+  return (relativePath: string): string => {
+    const inBook = relativePath.startsWith(bookDir + path.sep);
+    const inner = inBook ? relativePath.slice(bookDir.length + 1) : path.basename(relativePath);
+    const parsed = path.parse(inner.split(path.sep).join("/"));
+    let name = `files/${parsed.dir ? `${parsed.dir}/` : ""}${parsed.base}`;
+    for (let i = 2; used.has(name); i++) {
+      name = `files/${parsed.dir ? `${parsed.dir}/` : ""}${parsed.name} (${i})${parsed.ext}`;
+    }
+    used.add(name);
+    return name;
+  };
+}
+
+/** Only the region's own fields; its row ID and owner are left behind. */
+function archiveLoopRegion(region: ArchivedLoopRegion): ArchivedLoopRegion {
+  return {
+    name: region.name,
+    start: region.start,
+    end: region.end,
+    playbackSpeed: region.playbackSpeed,
+    leadIn: region.leadIn,
+  };
+}
+
+/**
+ * Stream a zip of the book's files plus a manifest of its rows. Audio and
+ * video are already compressed, so entries are stored rather than deflated.
+ */
+export async function createBookArchive(bookId: string): Promise<{ stream: Readable; filename: string }> {
+  const book = await prisma.book.findUnique({
+    where: { id: bookId },
+    include: {
+      author: true,
+      chapters: { orderBy: { sortOrder: "asc" } },
+      tracks: {
+        orderBy: [{ sortOrder: "asc" }, { trackNumber: "asc" }],
+        include: {
+          markers: { orderBy: { timestamp: "asc" } },
+          tabs: { orderBy: { sortOrder: "asc" } },
+          loopRegions: { orderBy: { start: "asc" } },
+        },
+      },
+      videos: {
+        orderBy: { sortOrder: "asc" },
+        include: {
+          markers: { orderBy: { timestamp: "asc" } },
+          loopRegions: { orderBy: { start: "asc" } },
+        },
+      },
+    },
+  });
+  if (!book) throw new BookArchiveError("Book not found", 404);
+
+  const musicPath = path.resolve(MUSIC_DIR);
+  const allocate = archiveNameAllocator(path.join(sanitizeFilename(book.author.name), sanitizeFilename(book.name)));
+  const files: { archiveName: string; fullPath: string }[] = [];
+  const addFile = (relativePath: string) => {
+    const archiveName = allocate(relativePath);
+    files.push({ archiveName, fullPath: path.join(musicPath, relativePath) });
+    return archiveName;
+  };
+
+  const manifest: BookArchiveManifest = {
+    version: MANIFEST_VERSION,
+    exportedAt: new Date().toISOString(),
+    author: { name: book.author.name },
+    book: {
+      name: book.name,
+      inProgress: book.inProgress,
+      pdf: book.pdfPath ? addFile(book.pdfPath) : null,
+      cover: book.coverPath ? addFile(book.coverPath) : null,
+    },
+    chapters: book.chapters.map((c) => ({ id: c.id, name: c.name, sortOrder: c.sortOrder })),
+    tracks: book.tracks.map((t) => ({
+      id: t.id,
+      file: addFile(t.filePath),
+      title: t.title,
+      trackNumber: t.trackNumber,
+      duration: t.duration,
+      chapterId: t.chapterId,
+      sortOrder: t.sortOrder,
+      pdfPage: t.pdfPage,
+      completed: t.completed,
+      inProgress: t.inProgress,
+      favorite: t.favorite,
+      tempo: t.tempo,
+      detectedTempo: t.detectedTempo,
+      beatOffset: t.beatOffset,
+      timeSignature: t.timeSignature,
+      playbackSpeed: t.playbackSpeed,
+      transposeCents: t.transposeCents,
+      volume: t.volume,
+      toneSettings: t.toneSettings,
+      lufs: t.lufs,
+      notes: t.notes,
+      sourceVideoId: t.sourceVideoId,
+      markers: t.markers.map((m) => ({ name: m.name, timestamp: m.timestamp, pdfPage: m.pdfPage })),
+      tabs: t.tabs.map((tab) => ({
+        name: tab.name,
+        alphatex: tab.alphatex,
+        tempo: tab.tempo,
+        sortOrder: tab.sortOrder,
+      })),
+      loopRegions: t.loopRegions.map(archiveLoopRegion),
+    })),
+    videos: book.videos.map((v) => ({
+      id: v.id,
+      file: addFile(v.filePath),
+      filename: v.filename,
+      title: v.title,
+      duration: v.duration,
+      sortOrder: v.sortOrder,
+      trackNumber: v.trackNumber,
+      pdfPage: v.pdfPage,
+      completed: v.completed,
+      inProgress: v.inProgress,
+      notes: v.notes,
+      chapterId: v.chapterId,
+      markers: v.markers.map((m) => ({ name: m.name, timestamp: m.timestamp })),
+      loopRegions: v.loopRegions.map(archiveLoopRegion),
+    })),
+  };
+
+  // Fail before streaming starts rather than sending a truncated zip
+  for (const file of files) {
+    try {
+      await fs.access(file.fullPath);
+    } catch {
+      throw new BookArchiveError(`File is missing: ${path.relative(musicPath, file.fullPath)}`, 409);
+    }
+  }
+
+  const archive = archiver("zip", { store: true });
+  archive.append(JSON.stringify(manifest, null, 2), { name: MANIFEST_NAME });
+  for (const file of files) {
+    archive.file(file.fullPath, { name: file.archiveName });
+  }
+  archive.on("warning", (err) => console.error("Book export warning:", err));
+  void archive.finalize();
+
+  return { stream: archive, filename: `${sanitizeFilename(`${book.author.name} - ${book.name}`)}.zip` };
+}
+
+function openZip(zipPath: string): Promise<yauzl.ZipFile> {
+  return new Promise((resolve, reject) => {
+    yauzl.open(zipPath, { lazyEntries: true, autoClose: false }, (err, zip) => {
+      if (err || !zip) reject(new BookArchiveError("Not a valid zip file"));
+      else resolve(zip);
+    });
+  });
+}
+
+function readEntries(zip: yauzl.ZipFile): Promise<Map<string, yauzl.Entry>> {
+  return new Promise((resolve, reject) => {
+    const entries = new Map<string, yauzl.Entry>();
+    zip.on("entry", (entry: yauzl.Entry) => {
+      if (!entry.fileName.endsWith("/")) entries.set(entry.fileName, entry);
+      zip.readEntry();
+    });
+    zip.on("end", () => resolve(entries));
+    zip.on("error", reject);
+    zip.readEntry();
+  });
+}
+
+function openEntryStream(zip: yauzl.ZipFile, entry: yauzl.Entry): Promise<Readable> {
+  return new Promise((resolve, reject) => {
+    zip.openReadStream(entry, (err, stream) => {
+      if (err || !stream) reject(err ?? new Error("Could not read zip entry"));
+      else resolve(stream);
+    });
+  });
+}
+
+async function readManifest(zip: yauzl.ZipFile, entries: Map<string, yauzl.Entry>): Promise<BookArchiveManifest> {
+  const entry = entries.get(MANIFEST_NAME);
+  if (!entry) throw new BookArchiveError("Not a book archive: manifest.json is missing");
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of await openEntryStream(zip, entry)) chunks.push(chunk as Buffer);
+
+  let manifest: BookArchiveManifest;
+  try {
+    manifest = JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+  } catch {
+    throw new BookArchiveError("manifest.json is not valid JSON");
+  }
+  if (manifest.version !== MANIFEST_VERSION) {
+    throw new BookArchiveError(`Unsupported archive version ${manifest.version}`);
+  }
+  if (!manifest.author?.name?.trim() || !manifest.book?.name?.trim()) {
+    throw new BookArchiveError("manifest.json has no author or book name");
+  }
+  return manifest;
+}
+
+/**
+ * Rebuild a book from an archive made by `createBookArchive`: files are
+ * extracted to `Author/Book/` and every row is recreated with fresh IDs.
+ * Refuses to merge into a book that already exists. Runs on the scan queue,
+ * so a scan can't pick up the extracted files before their rows exist.
+ */
+export function importBookArchive(zipPath: string): Promise<BookImportResult> {
+  return withLibraryScanQueue(() => extractBookArchive(zipPath));
+}
+
+async function extractBookArchive(zipPath: string): Promise<BookImportResult> {
+  const zip = await openZip(zipPath);
+  const musicPath = path.resolve(MUSIC_DIR);
+  const written: string[] = [];
+
+  try {
+    const entries = await readEntries(zip);
+    const manifest = await readManifest(zip, entries);
+    const authorName = manifest.author.name.trim();
+    const bookName = manifest.book.name.trim();
+
+    const existingAuthor = await prisma.author.findUnique({ where: { name: authorName } });
+    if (existingAuthor) {
+      const existingBook = await prisma.book.findUnique({
+        where: { name_authorId: { name: bookName, authorId: existingAuthor.id } },
+      });
+      if (existingBook) {
+        throw new BookArchiveError(`"${bookName}" by ${authorName} already exists`, 409);
+      }
+    }
+
+    const bookDir = path.join(sanitizeFilename(authorName), sanitizeFilename(bookName));
+
+    // Extract one archive file into the book folder, returning its path relative to MUSIC_DIR
+    const extract = async (archiveName: string): Promise<string> => {
+      const entry = entries.get(archiveName);
+      if (!entry) throw new BookArchiveError(`Archive is missing ${archiveName}`);
+      if (!archiveName.startsWith("files/")) throw new BookArchiveError(`Unexpected path ${archiveName}`);
+
+      const relativePath = path.join(bookDir, ...archiveName.slice("files/".length).split("/"));
+      const fullPath = path.resolve(musicPath, relativePath);
+      if (!fullPath.startsWith(path.resolve(musicPath, bookDir) + path.sep)) {
+        throw new BookArchiveError(`Unsafe path in archive: ${archiveName}`);
+      }
+      try {
+        await fs.access(fullPath);
+        throw new BookArchiveError(`A file already exists at ${relativePath}`, 409);
+      } catch (err) {
+        if (err instanceof BookArchiveError) throw err;
+      }
+
+      await fs.mkdir(path.dirname(fullPath), { recursive: true });
+      written.push(fullPath);
+      await pipeline(await openEntryStream(zip, entry), createWriteStream(fullPath));
+      return relativePath;
+    };
+
+    const pdfPath = manifest.book.pdf ? await extract(manifest.book.pdf) : null;
+    const coverPath = manifest.book.cover ? await extract(manifest.book.cover) : null;
+    const trackPaths = new Map<string, string>();
+    for (const track of manifest.tracks) trackPaths.set(track.id, await extract(track.file));
+    const videoPaths = new Map<string, string>();
+    for (const video of manifest.videos) videoPaths.set(video.id, await extract(video.file));
+
+    const book = await prisma.$transaction(async (tx) => {
+      const author = await tx.author.upsert({
+        where: { name: authorName },
+        update: {},
+        create: { name: authorName },
+      });
+      const newBook = await tx.book.create({
+        data: {
+          name: bookName,
+          authorId: author.id,
+          pdfPath,
+          coverPath,
+          inProgress: manifest.book.inProgress,
+        },
+      });
+
+      const chapterIds = new Map<string, string>();
+      for (const chapter of manifest.chapters) {
+        const created = await tx.chapter.create({
+          data: { name: chapter.name, sortOrder: chapter.sortOrder, bookId: newBook.id },
+        });
+        chapterIds.set(chapter.id, created.id);
+      }
+      const remapChapter = (id: string | null) => (id ? chapterIds.get(id) ?? null : null);
+
+      const videoIds = new Map<string, string>();
+      for (const video of manifest.videos) {
+        const created = await tx.bookVideo.create({
+          data: {
+            filename: video.filename,
+            title: video.title,
+            filePath: videoPaths.get(video.id)!,
+            duration: video.duration,
+            sortOrder: video.sortOrder,
+            trackNumber: video.trackNumber,
+            pdfPage: video.pdfPage,
+            completed: video.completed,
+            inProgress: video.inProgress,
+            notes: video.notes,
+            bookId: newBook.id,
+            chapterId: remapChapter(video.chapterId),
+            markers: { create: video.markers.map((m) => ({ name: m.name, timestamp: m.timestamp })) },
+            loopRegions: { create: (video.loopRegions ?? []).map(archiveLoopRegion) },
+          },
+        });
+        videoIds.set(video.id, created.id);
+      }
+
+      for (const track of manifest.tracks) {
+        await tx.track.create({
+          data: {
+            title: track.title,
+            trackNumber: track.trackNumber,
+            filePath: trackPaths.get(track.id)!,
+            duration: track.duration,
+            sortOrder: track.sortOrder,
+            pdfPage: track.pdfPage,
+            completed: track.completed,
+            inProgress: track.inProgress,
+            favorite: track.favorite,
+            tempo: track.tempo,
+            detectedTempo: track.detectedTempo ?? null,
+            beatOffset: track.beatOffset ?? null,
+            timeSignature: track.timeSignature,
+            playbackSpeed: track.playbackSpeed,
+            transposeCents: track.transposeCents ?? null,
+            volume: track.volume,
+            toneSettings: track.toneSettings ?? null,
+            lufs: track.lufs,
+            notes: track.notes,
+            bookId: newBook.id,
+            chapterId: remapChapter(track.chapterId),
+            sourceVideoId: track.sourceVideoId ? videoIds.get(track.sourceVideoId) ?? null : null,
+            markers: {
+              create: track.markers.map((m) => ({ name: m.name, timestamp: m.timestamp, pdfPage: m.pdfPage })),
+            },
+            tabs: {
+              create: track.tabs.map((tab) => ({
+                name: tab.name,
+                alphatex: tab.alphatex,
+                tempo: tab.tempo,
+                sortOrder: tab.sortOrder,
+              })),
+            },
+            loopRegions: { create: (track.loopRegions ?? []).map(archiveLoopRegion) },
+          },
+        });
+      }
+
+      return newBook;
+    });
+
+    return {
+      bookId: book.id,
+      authorName,
+      bookName,
+      tracks: manifest.tracks.length,
+      videos: manifest.videos.length,
+    };
+  } catch (err) {
+    // Leave nothing behind from a half-finished import
+    await Promise.all(written.map((file) => fs.rm(file, { force: true })));
+    throw err;
+  } finally {
+    zip.close();
+  }
+}
@@ -0,0 +1,223 @@
+import { decodeMono, fft } from "@/lib/audioDecode";
+import { CHORD_FORMULAS, NOTES } from "@/lib/musicTheory";
+
+// Long frames for pitch resolution: 11025 / 4096 ≈ 2.7 Hz per bin separates
+// semitones down to the guitar's low E
+export const CHROMA_SAMPLE_RATE = 11025;
+const FRAME_SIZE = 4096;
+const HOP_SIZE = 2048;
+const MAX_ANALYSIS_SECONDS = 900;
+const MIN_FREQ = 55;
+const MAX_FREQ = 2000;
+// Without a beat grid, chords are judged over half-second slices
+const FALLBACK_SEGMENT_SECONDS = 0.5;
+// Cost of changing chord between slices, so a passing note doesn't split a chord
+const CHANGE_PENALTY = 0.08;
+// Slices this far below the loudest frame count as silence (-30 dB)
+const SILENCE_RATIO = 0.03;
+
+// Chord types considered, as CHORD_FORMULAS keys. Sevenths contain their triad,
+// so they need a clearly better match to win.
+const CANDIDATE_TYPES: { chordType: string; weight: number }[] = [
+  { chordType: "Major", weight: 1 },
+  { chordType: "Minor", weight: 1 },
+  { chordType: "Dom7", weight: 0.95 },
+  { chordType: "Min7", weight: 0.95 },
+];
+
+export interface ChordEstimate {
+  start: number;
+  end: number;
+  /** Note name from NOTES, usable with getChordNotes. */
+  root: string;
+  /** Key into CHORD_FORMULAS. */
+  chordType: string;
+}
+
+interface Template {
+  root: string;
+  chordType: string;
+  weight: number;
+  /** Unit vector over the 12 pitch classes. */
+  vector: number[];
+}
+
+function buildTemplates(): Template[] {
+  const templates: Template[] = [];
+  for (const { chordType, weight } of CANDIDATE_TYPES) {
+    const intervals = CHORD_FORMULAS[chordType];
+    for (let root = 0; root < 12; root++) {
+      const vector = new Array(12).fill(0);
+      for (const interval of intervals) vector[(root + interval) % 12] = 1;
+      const norm = Math.sqrt(intervals.length);
+      templates.push({ root: NOTES[root], chordType, weight, vector: vector.map((v) => v / norm) });
+    }
+  }
+  return templates;
+}
+
+/**
+ * Per-frame chroma (energy per pitch class, C first) and RMS level, for
+ * samples decoded at CHROMA_SAMPLE_RATE.
+ */
+export function chromagram(samples: Float32Array): { chroma: Float64Array[]; rms: Float64Array } {
+  const frames = Math.max(0, Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1);
+  const chroma: Float64Array[] = [];
+  const rms = new Float64Array(frames);
+
+  const window = new Float64Array(FRAME_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FRAME_SIZE);
+
+  // Pitch class of each FFT bin in range, -1 outside it
+  const binPitchClass = new Int8Array(FRAME_SIZE / 2).fill(-1);
+  for (let b = 1; b < FRAME_SIZE / 2; b++) {
+    const freq = (b * CHROMA_SAMPLE_RATE) / FRAME_SIZE;
+    if (freq < MIN_FREQ || freq > MAX_FREQ) continue;
+    const midi = Math.round(69 + 12 * Math.log2(freq / 440));
+    binPitchClass[b] = midi % 12;
+  }
+
+  const re = new Float64Array(FRAME_SIZE);
+  const im = new Float64Array(FRAME_SIZE);
+  for (let f = 0; f < frames; f++) {
+    const start = f * HOP_SIZE;
+    let energy = 0;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      const s = samples[start + i];
+      energy += s * s;
+      re[i] = s * window[i];
+      im[i] = 0;
+    }
+    rms[f] = Math.sqrt(energy / FRAME_SIZE);
+    fft(re, im);
+
+    const frameChroma = new Float64Array(12);
+    for (let b = 1; b < FRAME_SIZE / 2; b++) {
+      const pc = binPitchClass[b];
+      if (pc >= 0) frameChroma[pc] += Math.hypot(re[b], im[b]);
+    }
+    chroma.push(frameChroma);
+  }
+  return { chroma, rms };
+}
+
+/** Slice boundaries in seconds: on the beats when there's a grid, else fixed steps. */
+function segmentBoundaries(duration: number, grid: { bpm: number; offset: number } | null): number[] {
+  const step = grid ? 60 / grid.bpm : FALLBACK_SEGMENT_SECONDS;
+  const first = grid ? grid.offset - Math.floor(grid.offset / step) * step : 0;
+  const bounds = [0];
+  for (let t = first; t < duration; t += step) {
+    if (t > 0.05) bounds.push(t);
+  }
+  bounds.push(duration);
+  return bounds;
+}
+
+/**
+ * Estimate the chords of an audio file by matching chroma against triad and
+ * seventh templates, then smoothing the sequence so chords only change when
+ * the match clearly moves. With a beat grid, chords change on beats.
+ */
+export async function detectChords(
+  fullPath: string,
+  grid: { bpm: number; offset: number } | null
+): Promise<ChordEstimate[]> {
+  const samples = await decodeMono(fullPath, CHROMA_SAMPLE_RATE, MAX_ANALYSIS_SECONDS);
+  const { chroma, rms } = chromagram(samples);
+  if (chroma.length === 0) throw new Error("Audio is too short to detect chords");
+
+  let peakRms = 0;
+  for (const level of rms) if (level > peakRms) peakRms = level;
+  if (peakRms === 0) throw new Error("Audio is silent");
+
+  const frameTime = (f: number) => (f * HOP_SIZE + FRAME_SIZE / 2) / CHROMA_SAMPLE_RATE;
+  const duration = samples.length / CHROMA_SAMPLE_RATE;
+  const bounds = segmentBoundaries(duration, grid);
+  const templates = buildTemplates();
+
+  // Score every template on every slice; silent slices get no chord
+  const scores: (Float64Array | null)[] = [];
+  let frame = 0;
+  for (let s = 0; s < bounds.length - 1; s++) {
+    const sum = new Float64Array(12);
+    let level = 0;
+    let count = 0;
+    for (; frame < chroma.length && frameTime(frame) < bounds[s + 1]; frame++) {
+      for (let pc = 0; pc < 12; pc++) sum[pc] += chroma[frame][pc];
+      level += rms[frame];
+      count++;
+    }
+    const norm = Math.hypot(...sum);
+    if (count === 0 || norm === 0 || level / count < peakRms * SILENCE_RATIO) {
+      scores.push(null);
+      continue;
+    }
+    scores.push(
+      Float64Array.from(templates, (t) => (t.vector.reduce((acc, v, pc) => acc + v * sum[pc], 0) / norm) * t.weight)
+    );
+  }
+
+  // Viterbi over slices with a flat penalty for changing chord
+  const back: Int16Array[] = [];
+  let best = new Float64Array(templates.length);
+  const labels: number[] = [];
+  const flush = () => {
+    if (back.length === 0) return;
+    let state = best.indexOf(Math.max(...best));
+    const path = [state];
+    for (let s = back.length - 1; s > 0; s--) {
+      state = back[s][state];
+      path.unshift(state);
+    }
+    labels.push(...path);
+    back.length = 0;
+  };
+  for (const sliceScores of scores) {
+    if (!sliceScores) {
+      // Silence breaks the chain: no chord here, start afresh after it
+      flush();
+      labels.push(-1);
+      continue;
+    }
+    const pointers = new Int16Array(templates.length);
+    if (back.length === 0) {
+      best = Float64Array.from(sliceScores);
+    } else {
+      let prevBest = 0;
+      for (let t = 1; t < templates.length; t++) if (best[t] > best[prevBest]) prevBest = t;
+      const next = new Float64Array(templates.length);
+      for (let t = 0; t < templates.length; t++) {
+        const change = best[prevBest] - CHANGE_PENALTY;
+        if (best[t] >= change) {
+          next[t] = best[t] + sliceScores[t];
+          pointers[t] = t;
+        } else {
+          next[t] = change + sliceScores[t];
+          pointers[t] = prevBest;
+        }
+      }
+      best = next;
+    }
+    back.push(pointers);
+  }
+  flush();
+
+  // Merge runs of the same chord into timeline entries
+  const chords: ChordEstimate[] = [];
+  for (let s = 0; s < labels.length; s++) {
+    const label = labels[s];
+    if (label < 0) continue;
+    const last = chords[chords.length - 1];
+    const { root, chordType } = templates[label];
+    if (last && last.end === bounds[s] && last.root === root && last.chordType === chordType) {
+      last.end = bounds[s + 1];
+    } else {
+      chords.push({ start: bounds[s], end: bounds[s + 1], root, chordType });
+    }
+  }
+  return chords.map((c) => ({
+    ...c,
+    start: Math.round(c.start * 1000) / 1000,
+    end: Math.round(c.end * 1000) / 1000,
+  }));
+}
@@ -8,6 +8,7 @@ export interface CountInOptions {
   bpm: number;
   timeSignature: string;
   volume?: number; // 0-100
+  preroll?: number; // seconds before the end of the bar to resolve, for audio with a pickup
   onBeat?: (beatNumber: number, totalBeats: number) => void;
 }
 
@@ -38,6 +39,13 @@ function getBeatsPerBar(timeSignature: string): number {
   return numerator || 4;
 }
 
+/**
+ * Current time of the clock `playClick` schedules against
+ */
+export function getClickTime(): number {
+  return getAudioContext().currentTime;
+}
+
 /**
  * Play a single click sound at the specified time
  */
@@ -66,10 +74,11 @@ export function playClick(
 }
 
 /**
- * Play a count-in sequence (one full bar) and return a promise that resolves when complete
+ * Play a count-in sequence (one full bar) and return a promise that resolves when complete,
+ * or `preroll` seconds earlier so playback can start under the last clicks
  */
 export function playCountIn(options: CountInOptions): Promise<void> {
-  const { bpm, timeSignature, volume = 100, onBeat } = options;
+  const { bpm, timeSignature, volume = 100, preroll = 0, onBeat } = options;
 
   if (bpm <= 0) {
     return Promise.resolve();
@@ -102,7 +111,7 @@ export function playCountIn(options: CountInOptions): Promise<void> {
     const totalDuration = beats * secondsPerBeat * 1000;
     setTimeout(() => {
       resolve();
-    }, totalDuration);
+    }, Math.max(0, totalDuration - preroll * 1000));
   });
 }
 
@@ -0,0 +1,89 @@
+// Metronome click layered over track playback. Clicks are scheduled a little
+// ahead on the click generator's clock from the track's beat grid, and
+// re-synced whenever the playhead jumps (seek, loop), so they stay in phase.
+// Volume and mute are a per-browser preference, persisted in localStorage.
+
+import { getClickTime, playClick } from "./clickGenerator";
+import type { BeatGrid } from "./beatGrid";
+
+const STORAGE_KEY = "clickTrackSettings";
+// How far ahead clicks are scheduled, in seconds of real time
+const LOOKAHEAD = 0.12;
+const TICK_MS = 25;
+
+export interface ClickTrackSettings {
+  muted: boolean;
+  volume: number; // 0-100
+}
+
+export const DEFAULT_CLICK_TRACK_SETTINGS: ClickTrackSettings = {
+  muted: true,
+  volume: 70,
+};
+
+export function getClickTrackSettings(): ClickTrackSettings {
+  if (typeof window === "undefined") return DEFAULT_CLICK_TRACK_SETTINGS;
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return DEFAULT_CLICK_TRACK_SETTINGS;
+    const parsed = JSON.parse(saved) as Partial<ClickTrackSettings>;
+    return {
+      muted: typeof parsed.muted === "boolean" ? parsed.muted : DEFAULT_CLICK_TRACK_SETTINGS.muted,
+      volume:
+        typeof parsed.volume === "number" && Number.isFinite(parsed.volume)
+          ? Math.max(0, Math.min(100, Math.round(parsed.volume)))
+          : DEFAULT_CLICK_TRACK_SETTINGS.volume,
+    };
+  } catch {
+    return DEFAULT_CLICK_TRACK_SETTINGS;
+  }
+}
+
+export function setClickTrackSettings(settings: ClickTrackSettings): void {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+export interface ClickTrackSource {
+  /** Playhead in media seconds, playback rate, and whether audio is running. */
+  getPosition: () => { time: number; rate: number; playing: boolean };
+  getGrid: () => BeatGrid | null;
+  getVolume: () => number;
+}
+
+/** Start scheduling clicks; returns a function that stops them. */
+export function startClickTrack(source: ClickTrackSource): () => void {
+  let nextBeat: number | null = null;
+  let lastTime = 0;
+
+  const tick = () => {
+    const { time, rate, playing } = source.getPosition();
+    const grid = source.getGrid();
+    if (!playing || !grid || rate <= 0) {
+      nextBeat = null;
+      return;
+    }
+
+    const beat = 60 / grid.bpm;
+    // Moving backwards, or further forwards than a tick can explain, is a seek
+    if (nextBeat === null || time < lastTime - 0.05 || time > lastTime + 1) {
+      nextBeat = Math.ceil((time - grid.offset) / beat);
+    }
+    lastTime = time;
+
+    const now = getClickTime();
+    for (;;) {
+      const ahead = (grid.offset + nextBeat * beat - time) / rate;
+      if (ahead > LOOKAHEAD) break;
+      // Beats the playhead has already passed are dropped, not played late
+      if (ahead >= -0.01) {
+        const beatInBar = ((nextBeat % grid.beatsPerBar) + grid.beatsPerBar) % grid.beatsPerBar;
+        playClick(now + Math.max(0, ahead), { isAccent: beatInBar === 0, volume: source.getVolume() });
+      }
+      nextBeat++;
+    }
+  };
+
+  const interval = setInterval(tick, TICK_MS);
+  return () => clearInterval(interval);
+}
@@ -0,0 +1,240 @@
+import { createHash } from "crypto";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { PrismaClient } from "@/generated/prisma/client";
+import { prisma } from "@/lib/prisma";
+import { withLibraryScanQueue } from "@/lib/libraryScanner";
+import { pauseMediaJobWorker } from "@/lib/mediaJobs";
+import type { DatabaseBackup, DatabaseBackupReason } from "@/types";
+
+// How many snapshots to keep; the oldest are deleted after each new one
+const RETENTION = Math.max(1, Number(process.env.BACKUP_RETENTION) || 10);
+// Unset or 0 disables scheduled backups
+const SCHEDULE_HOURS = Number(process.env.BACKUP_SCHEDULE_HOURS) || 0;
+const BACKUP_PREFIX = "guitar_assistant-";
+const BACKUP_EXT = ".db";
+
+export class BackupError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+  }
+}
+
+interface BackupMeta {
+  reason: DatabaseBackupReason;
+  schemaVersion: string;
+}
+
+// Schedule timer survives dev-mode module reloads
+const globalForBackups = globalThis as unknown as {
+  backupScheduleTimer: ReturnType<typeof setInterval> | undefined;
+};
+
+/** Path of the live SQLite file, as SQLite itself resolved it. */
+async function liveDatabasePath(): Promise<string> {
+  const rows = await prisma.$queryRawUnsafe<{ name: string; file: string }[]>("PRAGMA database_list");
+  const main = rows.find((row) => row.name === "main");
+  if (!main?.file) throw new BackupError("Could not locate the database file", 500);
+  return main.file;
+}
+
+async function backupDir(): Promise<string> {
+  const dir = process.env.BACKUP_DIR || path.join(path.dirname(await liveDatabasePath()), "backups");
+  await fs.mkdir(dir, { recursive: true });
+  return dir;
+}
+
+/** Backup ids are bare file names; anything else could escape the backup folder. */
+function assertBackupId(id: string) {
+  if (!id.startsWith(BACKUP_PREFIX) || !id.endsWith(BACKUP_EXT) || id !== path.basename(id)) {
+    throw new BackupError("Invalid backup id");
+  }
+}
+
+const SCHEMA_QUERY = `
+  SELECT m.name AS tbl, p.name AS col, p.type AS type
+  FROM sqlite_master m JOIN pragma_table_info(m.name) p
+  WHERE m.type = 'table' AND m.name NOT LIKE 'sqlite_%' AND m.name != '_prisma_migrations'
+  ORDER BY m.name, p.name`;
+
+type SchemaColumns = string[];
+
+async function readSchemaColumns(client: Pick<PrismaClient, "$queryRawUnsafe">): Promise<SchemaColumns> {
+  const rows = await client.$queryRawUnsafe<{ tbl: string; col: string; type: string }[]>(SCHEMA_QUERY);
+  return rows.map((row) => `${row.tbl}.${row.col}:${row.type.toUpperCase()}`);
+}
+
+/**
+ * A short hash of every table's columns and types. Databases created by
+ * `prisma db push` and by migrations hash the same, unlike migration names.
+ */
+function schemaVersionOf(columns: SchemaColumns): string {
+  return createHash("sha1").update(columns.join("\n")).digest("hex").slice(0, 12);
+}
+
+/** Open a snapshot with its own short-lived client. */
+async function withSnapshotClient<T>(filePath: string, fn: (client: PrismaClient) => Promise<T>): Promise<T> {
+  const client = new PrismaClient({ datasourceUrl: `file:${filePath}` });
+  try {
+    return await fn(client);
+  } finally {
+    await client.$disconnect();
+  }
+}
+
+async function readMeta(filePath: string): Promise<BackupMeta | null> {
+  try {
+    return JSON.parse(await fs.readFile(`${filePath}.json`, "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+export async function listBackups(): Promise<DatabaseBackup[]> {
+  const dir = await backupDir();
+  const entries = await fs.readdir(dir);
+  const backups: DatabaseBackup[] = [];
+
+  for (const name of entries) {
+    if (!name.startsWith(BACKUP_PREFIX) || !name.endsWith(BACKUP_EXT)) continue;
+    const filePath = path.join(dir, name);
+    const [stat, meta] = await Promise.all([fs.stat(filePath), readMeta(filePath)]);
+    backups.push({
+      id: name,
+      createdAt: stat.mtime.toISOString(),
+      size: stat.size,
+      reason: meta?.reason ?? "manual",
+      schemaVersion: meta?.schemaVersion ?? null,
+    });
+  }
+
+  return backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+async function pruneBackups() {
+  const dir = await backupDir();
+  const backups = await listBackups();
+  for (const backup of backups.slice(RETENTION)) {
+    const filePath = path.join(dir, backup.id);
+    await fs.rm(filePath, { force: true });
+    await fs.rm(`${filePath}.json`, { force: true });
+  }
+}
+
+/**
+ * Snapshot the live database with `VACUUM INTO`, which SQLite runs as a
+ * single read transaction, so the copy is consistent even mid-write.
+ */
+export async function createBackup(reason: DatabaseBackupReason = "manual"): Promise<DatabaseBackup> {
+  const dir = await backupDir();
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const id = `${BACKUP_PREFIX}${stamp}${BACKUP_EXT}`;
+  const filePath = path.join(dir, id);
+
+  await prisma.$executeRawUnsafe(`VACUUM INTO '${filePath.replace(/'/g, "''")}'`);
+  const schemaVersion = schemaVersionOf(await readSchemaColumns(prisma));
+  const meta: BackupMeta = { reason, schemaVersion };
+  await fs.writeFile(`${filePath}.json`, JSON.stringify(meta, null, 2));
+
+  await pruneBackups();
+
+  const stat = await fs.stat(filePath);
+  return { id, createdAt: stat.mtime.toISOString(), size: stat.size, reason, schemaVersion };
+}
+
+export async function getBackupPath(id: string): Promise<string> {
+  assertBackupId(id);
+  const filePath = path.join(await backupDir(), id);
+  try {
+    await fs.access(filePath);
+  } catch {
+    throw new BackupError("Backup not found", 404);
+  }
+  return filePath;
+}
+
+export async function deleteBackup(id: string) {
+  const filePath = await getBackupPath(id);
+  await fs.rm(filePath, { force: true });
+  await fs.rm(`${filePath}.json`, { force: true });
+}
+
+/**
+ * Replace the live database with a snapshot. The snapshot must pass SQLite's
+ * integrity check and have exactly the running schema (a snapshot from an
+ * older or newer version would need migrating first). The current database
+ * is backed up before the swap so a restore can itself be undone.
+ *
+ * Library scans and the media job worker are held off for the whole restore,
+ * so nothing writes to the old file or opens a WAL against the new one.
+ */
+export function restoreBackup(id: string): Promise<{ safetyBackup: DatabaseBackup }> {
+  return withLibraryScanQueue(async () => {
+    const resumeMediaJobs = await pauseMediaJobWorker();
+    try {
+      return await swapInBackup(id);
+    } finally {
+      resumeMediaJobs();
+    }
+  });
+}
+
+async function swapInBackup(id: string): Promise<{ safetyBackup: DatabaseBackup }> {
+  const snapshotPath = await getBackupPath(id);
+
+  const { integrity, columns } = await withSnapshotClient(snapshotPath, async (client) => ({
+    integrity: await client.$queryRawUnsafe<{ integrity_check: string }[]>("PRAGMA integrity_check"),
+    columns: await readSchemaColumns(client),
+  }));
+  if (integrity[0]?.integrity_check !== "ok") {
+    throw new BackupError("Snapshot failed SQLite's integrity check", 409);
+  }
+
+  const liveColumns = await readSchemaColumns(prisma);
+  if (schemaVersionOf(columns) !== schemaVersionOf(liveColumns)) {
+    const live = new Set(liveColumns);
+    const snapshot = new Set(columns);
+    const missing = liveColumns.filter((c) => !snapshot.has(c));
+    const extra = columns.filter((c) => !live.has(c));
+    const details = [
+      missing.length > 0 ? `missing ${missing.slice(0, 5).join(", ")}${missing.length > 5 ? "…" : ""}` : null,
+      extra.length > 0 ? `unknown ${extra.slice(0, 5).join(", ")}${extra.length > 5 ? "…" : ""}` : null,
+    ].filter(Boolean);
+    throw new BackupError(`Snapshot schema doesn't match this version (${details.join("; ")})`, 409);
+  }
+
+  // Copy next to the live file first so the final rename is atomic, and
+  // before the safety backup, whose pruning may remove the snapshot itself
+  const dbPath = await liveDatabasePath();
+  const stagingPath = `${dbPath}.restoring`;
+  await fs.copyFile(snapshotPath, stagingPath);
+  const safetyBackup = await createBackup("pre-restore");
+
+  await prisma.$disconnect();
+  await fs.rm(`${dbPath}-wal`, { force: true });
+  await fs.rm(`${dbPath}-shm`, { force: true });
+  await fs.rm(`${dbPath}-journal`, { force: true });
+  await fs.rename(stagingPath, dbPath);
+  // The next query reconnects to the restored file
+
+  return { safetyBackup };
+}
+
+/**
+ * Take a backup every `BACKUP_SCHEDULE_HOURS` hours, if set. Safe to call
+ * more than once.
+ */
+export function startBackupSchedule() {
+  if (!SCHEDULE_HOURS || globalForBackups.backupScheduleTimer) return;
+
+  globalForBackups.backupScheduleTimer = setInterval(() => {
+    createBackup("scheduled")
+      .then((backup) => console.log(`Scheduled backup written: ${backup.id}`))
+      .catch((err) => console.error("Scheduled backup failed:", err));
+  }, SCHEDULE_HOURS * 60 * 60 * 1000);
+  console.log(`Database backups scheduled every ${SCHEDULE_HOURS}h, keeping ${RETENTION}`);
+}
+
+export function getBackupSettings() {
+  return { retention: RETENTION, scheduleHours: SCHEDULE_HOURS || null };
+}
@@ -1,4 +1,5 @@
 import type { BackingTrack } from "@/types";
+import { readNdjson } from "@/lib/ndjsonStream";
 
 /** Progress event shape emitted by the streaming download endpoints. */
 export interface DownloadProgressEvent {
@@ -23,37 +24,18 @@ export async function consumeDownloadStream(
   res: Response,
   onProgress: (e: DownloadProgressEvent) => void,
 ): Promise<BackingTrack> {
-  if (!res.body) throw new Error("Download stream had no body");
-
-  const reader = res.body.getReader();
-  const decoder = new TextDecoder();
-  let buffer = "";
   let result: BackingTrack | null = null;
   let errorMsg: string | null = null;
 
-  const handleLine = (line: string) => {
-    const trimmed = line.trim();
-    if (!trimmed) return;
-    const msg = JSON.parse(trimmed) as
-      | { type: "progress"; percent: number | null; phase: "downloading" | "converting" }
-      | { type: "done"; track: BackingTrack }
-      | { type: "error"; error: string };
+  await readNdjson<
+    | { type: "progress"; percent: number | null; phase: "downloading" | "converting" }
+    | { type: "done"; track: BackingTrack }
+    | { type: "error"; error: string }
+  >(res, (msg) => {
     if (msg.type === "progress") onProgress({ percent: msg.percent, phase: msg.phase });
     else if (msg.type === "done") result = msg.track;
     else if (msg.type === "error") errorMsg = msg.error;
-  };
-
-  for (;;) {
-    const { done, value } = await reader.read();
-    if (done) break;
-    buffer += decoder.decode(value, { stream: true });
-    let idx: number;
-    while ((idx = buffer.indexOf("\n")) >= 0) {
-      handleLine(buffer.slice(0, idx));
-      buffer = buffer.slice(idx + 1);
-    }
-  }
-  if (buffer.trim()) handleLine(buffer);
+  });
 
   if (errorMsg) throw new Error(errorMsg);
   if (!result) throw new Error("Download ended unexpectedly");
@@ -0,0 +1,270 @@
+// One binding layer for keyboard shortcuts, Web MIDI foot controllers and
+// gamepad / Bluetooth page-turner pedals. Devices report triggers (a key, a
+// MIDI note/CC/program change, a gamepad button); triggers bound to an action
+// are broadcast as a window CustomEvent that the player and PDF viewer
+// subscribe to. Bindings are a per-browser preference in localStorage, since
+// the controllers plugged in differ per machine.
+
+export type InputAction =
+  | "playPause"
+  | "restart"
+  | "loopPoint"
+  | "clearLoop"
+  | "addMarker"
+  | "nextMarker"
+  | "previousMarker"
+  | "speedUp"
+  | "speedDown"
+  | "volumeUp"
+  | "volumeDown"
+  | "nextPage"
+  | "previousPage"
+  | "showHelp";
+
+export type InputTrigger =
+  | { source: "keyboard"; key: string }
+  | { source: "midi"; type: "note" | "cc" | "program"; channel: number; number: number }
+  | { source: "gamepad"; button: number };
+
+export type InputBindings = Record<InputAction, InputTrigger[]>;
+
+export interface InputBindingSettings {
+  bindings: InputBindings;
+  /** Web MIDI asks for permission, so it is only opened once turned on. */
+  midiEnabled: boolean;
+}
+
+export const INPUT_ACTIONS: { id: InputAction; label: string; group: string }[] = [
+  { id: "playPause", label: "Play / Pause", group: "Playback" },
+  { id: "restart", label: "Jump to start & play", group: "Playback" },
+  { id: "speedUp", label: "Speed +5%", group: "Playback" },
+  { id: "speedDown", label: "Speed -5%", group: "Playback" },
+  { id: "volumeUp", label: "Volume up (+5)", group: "Playback" },
+  { id: "volumeDown", label: "Volume down (-5)", group: "Playback" },
+  { id: "addMarker", label: "Add marker at current time", group: "Markers" },
+  { id: "nextMarker", label: "Next marker", group: "Markers" },
+  { id: "previousMarker", label: "Previous marker", group: "Markers" },
+  { id: "loopPoint", label: "Set A / Set B / Reset loop", group: "A/B Loop" },
+  { id: "clearLoop", label: "Clear loop", group: "A/B Loop" },
+  { id: "nextPage", label: "Next PDF page", group: "Sheet music" },
+  { id: "previousPage", label: "Previous PDF page", group: "Sheet music" },
+  { id: "showHelp", label: "Show controls help", group: "Other" },
+];
+
+const key = (k: string): InputTrigger => ({ source: "keyboard", key: k });
+
+export const DEFAULT_INPUT_BINDINGS: InputBindings = {
+  playPause: [key("Space")],
+  restart: [key("ArrowLeft")],
+  loopPoint: [key("a")],
+  clearLoop: [key("Escape")],
+  addMarker: [key("m")],
+  nextMarker: [key("ArrowRight")],
+  previousMarker: [],
+  speedUp: [key("]")],
+  speedDown: [key("[")],
+  volumeUp: [key("+"), key("=")],
+  volumeDown: [key("-")],
+  nextPage: [key("PageDown")],
+  previousPage: [key("PageUp")],
+  showHelp: [key("?")],
+};
+
+const DEFAULT_SETTINGS: InputBindingSettings = { bindings: DEFAULT_INPUT_BINDINGS, midiEnabled: false };
+
+const STORAGE_KEY = "inputBindings";
+const SETTINGS_EVENT = "guitarAssistant:inputBindingsChanged";
+const ACTION_EVENT = "guitarAssistant:inputAction";
+const TRIGGER_EVENT = "guitarAssistant:inputTrigger";
+
+function isValidTrigger(value: unknown): value is InputTrigger {
+  if (!value || typeof value !== "object") return false;
+  const t = value as Record<string, unknown>;
+  if (t.source === "keyboard") return typeof t.key === "string" && t.key.length > 0;
+  if (t.source === "midi") {
+    return (
+      (t.type === "note" || t.type === "cc" || t.type === "program") &&
+      Number.isInteger(t.channel) && (t.channel as number) >= 1 && (t.channel as number) <= 16 &&
+      Number.isInteger(t.number) && (t.number as number) >= 0 && (t.number as number) <= 127
+    );
+  }
+  if (t.source === "gamepad") return Number.isInteger(t.button) && (t.button as number) >= 0;
+  return false;
+}
+
+let cachedSettings: InputBindingSettings | null = null;
+
+export function getInputBindingSettings(): InputBindingSettings {
+  if (typeof window === "undefined") return DEFAULT_SETTINGS;
+  if (cachedSettings) return cachedSettings;
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const parsed = saved ? (JSON.parse(saved) as Partial<{ bindings: Record<string, unknown>; midiEnabled: unknown }>) : {};
+    // Actions missing from what's saved (e.g. added since) get their defaults
+    const bindings = { ...DEFAULT_INPUT_BINDINGS };
+    for (const { id } of INPUT_ACTIONS) {
+      const list = parsed.bindings?.[id];
+      if (Array.isArray(list)) bindings[id] = list.filter(isValidTrigger);
+    }
+    cachedSettings = { bindings, midiEnabled: parsed.midiEnabled === true };
+  } catch {
+    cachedSettings = DEFAULT_SETTINGS;
+  }
+  return cachedSettings;
+}
+
+export function setInputBindingSettings(settings: InputBindingSettings): void {
+  if (typeof window === "undefined") return;
+  cachedSettings = settings;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  window.dispatchEvent(new CustomEvent<InputBindingSettings>(SETTINGS_EVENT, { detail: settings }));
+}
+
+export function subscribeToInputBindingChanges(cb: (settings: InputBindingSettings) => void): () => void {
+  if (typeof window === "undefined") return () => {};
+  const handler = (e: Event) => cb((e as CustomEvent<InputBindingSettings>).detail);
+  window.addEventListener(SETTINGS_EVENT, handler);
+  return () => window.removeEventListener(SETTINGS_EVENT, handler);
+}
+
+export function sameTrigger(a: InputTrigger, b: InputTrigger): boolean {
+  if (a.source === "keyboard" && b.source === "keyboard") return a.key === b.key;
+  if (a.source === "midi" && b.source === "midi") {
+    return a.type === b.type && a.channel === b.channel && a.number === b.number;
+  }
+  if (a.source === "gamepad" && b.source === "gamepad") return a.button === b.button;
+  return false;
+}
+
+export function findBoundAction(bindings: InputBindings, trigger: InputTrigger): InputAction | null {
+  for (const { id } of INPUT_ACTIONS) {
+    if (bindings[id].some((t) => sameTrigger(t, trigger))) return id;
+  }
+  return null;
+}
+
+/**
+ * Bind a trigger to an action. A trigger drives one action only, so it is
+ * taken off whatever it was bound to before; returns that action, if any.
+ */
+export function bindTrigger(
+  bindings: InputBindings,
+  action: InputAction,
+  trigger: InputTrigger
+): { bindings: InputBindings; movedFrom: InputAction | null } {
+  const movedFrom = findBoundAction(bindings, trigger);
+  const next = { ...bindings };
+  if (movedFrom) next[movedFrom] = next[movedFrom].filter((t) => !sameTrigger(t, trigger));
+  next[action] = [...next[action], trigger];
+  return { bindings: next, movedFrom: movedFrom === action ? null : movedFrom };
+}
+
+const KEY_LABELS: Record<string, string> = {
+  Space: "Space",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  Escape: "Esc",
+  PageUp: "Page Up",
+  PageDown: "Page Down",
+};
+
+export function triggerLabel(trigger: InputTrigger): string {
+  switch (trigger.source) {
+    case "keyboard":
+      return KEY_LABELS[trigger.key] ?? (trigger.key.length === 1 ? trigger.key.toUpperCase() : trigger.key);
+    case "midi": {
+      const kind = trigger.type === "note" ? "Note" : trigger.type === "cc" ? "CC" : "PC";
+      return `MIDI ${kind} ${trigger.number} · ch ${trigger.channel}`;
+    }
+    case "gamepad":
+      return `Pedal ${trigger.button + 1}`;
+  }
+}
+
+/** Keyboard trigger for a keydown, or null for bare modifier keys. */
+export function keyboardTrigger(e: KeyboardEvent): InputTrigger | null {
+  if (["Shift", "Control", "Alt", "Meta", "CapsLock"].includes(e.key)) return null;
+  if (e.key === " ") return key("Space");
+  return key(e.key.length === 1 ? e.key.toLowerCase() : e.key);
+}
+
+/**
+ * MIDI trigger for a message, or null for anything that isn't a press: note
+ * on, a controller rising past the midpoint (foot switches send 127 then 0),
+ * or a program change. `ccValues` remembers controller levels between calls.
+ */
+export function midiTrigger(data: Uint8Array, ccValues: Map<string, number>): InputTrigger | null {
+  if (data.length < 2) return null;
+  const status = data[0] & 0xf0;
+  const channel = (data[0] & 0x0f) + 1;
+  if (status === 0x90 && data.length >= 3 && data[2] > 0) {
+    return { source: "midi", type: "note", channel, number: data[1] };
+  }
+  if (status === 0xb0 && data.length >= 3) {
+    const id = `${channel}:${data[1]}`;
+    const previous = ccValues.get(id) ?? 0;
+    ccValues.set(id, data[2]);
+    return previous < 64 && data[2] >= 64 ? { source: "midi", type: "cc", channel, number: data[1] } : null;
+  }
+  if (status === 0xc0) return { source: "midi", type: "program", channel, number: data[1] };
+  return null;
+}
+
+let captureHandler: ((trigger: InputTrigger) => void) | null = null;
+
+/**
+ * Learn mode: hand the next trigger from any device to `cb` instead of
+ * running its action. Returns a function that cancels the capture.
+ */
+export function captureNextTrigger(cb: (trigger: InputTrigger) => void): () => void {
+  captureHandler = cb;
+  return () => {
+    if (captureHandler === cb) captureHandler = null;
+  };
+}
+
+/**
+ * Route a trigger from a real or simulated device: to learn mode when it's
+ * waiting, else to the bound action. Returns whether it was used (captured,
+ * or a subscriber acted on it), so only those keyboard events are kept from
+ * the browser and e.g. Page Down still scrolls when no PDF is open.
+ */
+export function handleInputTrigger(trigger: InputTrigger): boolean {
+  if (typeof window === "undefined") return false;
+  if (captureHandler) {
+    const cb = captureHandler;
+    captureHandler = null;
+    cb(trigger);
+    return true;
+  }
+  const action = findBoundAction(getInputBindingSettings().bindings, trigger);
+  window.dispatchEvent(new CustomEvent(TRIGGER_EVENT, { detail: { trigger, action } }));
+  if (!action) return false;
+  // Subscribers cancel the event when they act on it
+  return !window.dispatchEvent(new CustomEvent<InputAction>(ACTION_EVENT, { detail: action, cancelable: true }));
+}
+
+/** `cb` returns whether it acted on the action (e.g. false for page turns with no PDF open). */
+export function subscribeToInputActions(cb: (action: InputAction) => boolean): () => void {
+  if (typeof window === "undefined") return () => {};
+  const handler = (e: Event) => {
+    if (cb((e as CustomEvent<InputAction>).detail)) e.preventDefault();
+  };
+  window.addEventListener(ACTION_EVENT, handler);
+  return () => window.removeEventListener(ACTION_EVENT, handler);
+}
+
+/** Every trigger outside learn mode, with the action it ran (for the settings activity log). */
+export function subscribeToInputTriggers(
+  cb: (trigger: InputTrigger, action: InputAction | null) => void
+): () => void {
+  if (typeof window === "undefined") return () => {};
+  const handler = (e: Event) => {
+    const { trigger, action } = (e as CustomEvent<{ trigger: InputTrigger; action: InputAction | null }>).detail;
+    cb(trigger, action);
+  };
+  window.addEventListener(TRIGGER_EVENT, handler);
+  return () => window.removeEventListener(TRIGGER_EVENT, handler);
+}
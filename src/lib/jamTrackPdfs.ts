@@ -0,0 +1,17 @@
+import type { PageSyncPoint } from "@/types";
+
+/** Prisma include for a jam track's PDFs, in tab order with their sync points. */
+export const jamTrackPdfsInclude = {
+  orderBy: { sortOrder: "asc" as const },
+  include: { syncPoints: { orderBy: { timestamp: "asc" as const } } },
+};
+
+/** Page the last sync point at or before `time` turns to, or null before the first one. */
+export function syncedPageAt(syncPoints: Pick<PageSyncPoint, "timestamp" | "page">[], time: number): number | null {
+  let page: number | null = null;
+  for (const point of syncPoints) {
+    if (point.timestamp > time) break;
+    page = point.page;
+  }
+  return page;
+}
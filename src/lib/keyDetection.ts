@@ -0,0 +1,85 @@
+import { decodeMono } from "@/lib/audioDecode";
+import { CHROMA_SAMPLE_RATE, chromagram } from "@/lib/chordDetection";
+import { NOTES } from "@/lib/musicTheory";
+
+// The key rarely changes in a backing track; five minutes settle it
+const MAX_ANALYSIS_SECONDS = 300;
+// Frames this far below the loudest count as silence (-30 dB)
+const SILENCE_RATIO = 0.03;
+// A correlation lead this large over the runner-up key counts as certain
+const CLEAR_MARGIN = 0.2;
+
+// Krumhansl-Kessler key profiles: how strongly each scale degree (tonic
+// first) is felt to belong to a major or minor key
+const KEY_PROFILES: { scaleType: "Major" | "Minor"; profile: number[] }[] = [
+  { scaleType: "Major", profile: [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88] },
+  { scaleType: "Minor", profile: [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17] },
+];
+
+export interface KeyEstimate {
+  /** Note name from NOTES. */
+  rootNote: string;
+  /** "Major" or "Minor", keys into SCALE_FORMULAS. */
+  scaleType: string;
+  /** 0..1: how clearly this key beat the others, the relative key included. */
+  confidence: number;
+}
+
+function correlation(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  const n = a.length;
+  let meanA = 0;
+  let meanB = 0;
+  for (let i = 0; i < n; i++) {
+    meanA += a[i] / n;
+    meanB += b[i] / n;
+  }
+  let cov = 0;
+  let varA = 0;
+  let varB = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (a[i] - meanA) * (b[i] - meanB);
+    varA += (a[i] - meanA) ** 2;
+    varB += (b[i] - meanB) ** 2;
+  }
+  return varA > 0 && varB > 0 ? cov / Math.sqrt(varA * varB) : 0;
+}
+
+/**
+ * Estimate the key of an audio file by correlating its average chroma with
+ * major and minor key profiles in all twelve keys.
+ */
+export async function detectKey(fullPath: string): Promise<KeyEstimate> {
+  const samples = await decodeMono(fullPath, CHROMA_SAMPLE_RATE, MAX_ANALYSIS_SECONDS);
+  const { chroma, rms } = chromagram(samples);
+  if (chroma.length === 0) throw new Error("Audio is too short to detect a key");
+
+  let peakRms = 0;
+  for (const level of rms) if (level > peakRms) peakRms = level;
+  if (peakRms === 0) throw new Error("Audio is silent");
+
+  // Each sounding frame counts once, however loud, so quiet verses still vote
+  const profile = new Float64Array(12);
+  for (let f = 0; f < chroma.length; f++) {
+    if (rms[f] < peakRms * SILENCE_RATIO) continue;
+    let total = 0;
+    for (let pc = 0; pc < 12; pc++) total += chroma[f][pc];
+    if (total > 0) for (let pc = 0; pc < 12; pc++) profile[pc] += chroma[f][pc] / total;
+  }
+
+  const scores: { rootNote: string; scaleType: string; score: number }[] = [];
+  for (const { scaleType, profile: keyProfile } of KEY_PROFILES) {
+    for (let root = 0; root < 12; root++) {
+      const rotated = Array.from({ length: 12 }, (_, pc) => keyProfile[(pc - root + 12) % 12]);
+      scores.push({ rootNote: NOTES[root], scaleType, score: correlation(profile, rotated) });
+    }
+  }
+  scores.sort((a, b) => b.score - a.score);
+  const [best, runnerUp] = scores;
+
+  const margin = Math.min(1, (best.score - runnerUp.score) / CLEAR_MARGIN);
+  return {
+    rootNote: best.rootNote,
+    scaleType: best.scaleType,
+    confidence: Math.round(Math.max(0, best.score) * margin * 100) / 100,
+  };
+}
@@ -0,0 +1,223 @@
+// Round-trip audio latency: from a sound being scheduled on the output to it
+// coming back on the input. Record-along takes are shifted by it so what was
+// played lines up with what was heard, and the mic-driven trainers wait that
+// much longer for what they listen for. Measured by playing clicks through the
+// chosen output and timing them on the chosen input (via the AudioWorklet in
+// public/latency-probe-processor.js). It depends on both devices, so it is
+// saved per output/input pair as a per-browser preference.
+
+import {
+  DEFAULT_DEVICE_ID,
+  getAudioInputPreference,
+  getAudioSinkPreference,
+  resolveDeviceId,
+  resolveInputDeviceId,
+  routeContextToSink,
+  subscribeToAudioInputChanges,
+  subscribeToAudioSinkChanges,
+  withInputDevice,
+} from "./audioSink";
+
+export interface DevicePair {
+  outputId: string;
+  inputId: string;
+}
+
+export interface LatencyCalibration extends DevicePair {
+  ms: number;
+  measuredAt: string;
+}
+
+export interface LatencyMeasurement {
+  pair: DevicePair;
+  /** Median round trip. */
+  ms: number;
+  /** Round trip of each click that was heard, shortest first. */
+  clickDelaysMs: number[];
+  clicksPlayed: number;
+}
+
+const STORAGE_KEY = "audioLatencyCalibrations";
+const CHANGE_EVENT = "guitarAssistant:audioLatencyChanged";
+const WORKLET_URL = "/latency-probe-processor.js";
+const PROCESSOR_NAME = "latency-probe-processor";
+
+const CLICK_COUNT = 6;
+const CLICK_INTERVAL = 0.6;
+const FIRST_CLICK_DELAY = 0.5;
+/** Longest round trip we look for after each click. */
+const MAX_LATENCY = 0.5;
+/** Detected clicks may disagree by this much before the run is rejected. */
+const MAX_SPREAD = 0.02;
+
+/** The output and input devices the current preferences resolve to. */
+export async function resolveDevicePair(): Promise<DevicePair> {
+  return {
+    outputId: await resolveDeviceId(getAudioSinkPreference()),
+    inputId: (await resolveInputDeviceId(getAudioInputPreference())) ?? DEFAULT_DEVICE_ID,
+  };
+}
+
+function samePair(a: DevicePair, b: DevicePair): boolean {
+  return a.outputId === b.outputId && a.inputId === b.inputId;
+}
+
+export function getLatencyCalibrations(): LatencyCalibration[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]") as unknown;
+    if (!Array.isArray(saved)) return [];
+    return saved.filter((c): c is LatencyCalibration =>
+      typeof c?.outputId === "string" &&
+      typeof c?.inputId === "string" &&
+      Number.isFinite(c?.ms) && c.ms >= 0 &&
+      typeof c?.measuredAt === "string"
+    );
+  } catch {
+    return [];
+  }
+}
+
+function saveCalibrations(calibrations: LatencyCalibration[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(calibrations));
+  window.dispatchEvent(new CustomEvent(CHANGE_EVENT));
+}
+
+export function saveLatencyCalibration(pair: DevicePair, ms: number): void {
+  if (typeof window === "undefined") return;
+  const calibration: LatencyCalibration = {
+    outputId: pair.outputId,
+    inputId: pair.inputId,
+    ms: Math.round(ms * 10) / 10,
+    measuredAt: new Date().toISOString(),
+  };
+  saveCalibrations([...getLatencyCalibrations().filter((c) => !samePair(c, pair)), calibration]);
+}
+
+export function removeLatencyCalibration(pair: DevicePair): void {
+  if (typeof window === "undefined") return;
+  saveCalibrations(getLatencyCalibrations().filter((c) => !samePair(c, pair)));
+}
+
+/** Saved round trip for the devices currently selected, or null if that pair hasn't been calibrated. */
+export async function getDeviceLatencyMs(): Promise<number | null> {
+  if (typeof window === "undefined") return null;
+  const pair = await resolveDevicePair();
+  return getLatencyCalibrations().find((c) => samePair(c, pair))?.ms ?? null;
+}
+
+/** Called when a calibration is saved or removed, or either device selection changes. */
+export function subscribeToLatencyChanges(cb: () => void): () => void {
+  if (typeof window === "undefined") return () => {};
+  window.addEventListener(CHANGE_EVENT, cb);
+  const unsubscribeSink = subscribeToAudioSinkChanges(() => cb());
+  const unsubscribeInput = subscribeToAudioInputChanges(() => cb());
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, cb);
+    unsubscribeSink();
+    unsubscribeInput();
+  };
+}
+
+function scheduleClick(ctx: AudioContext, time: number) {
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.type = "square";
+  osc.frequency.value = 1000;
+  gain.gain.setValueAtTime(0.8, time);
+  gain.gain.exponentialRampToValueAtTime(0.001, time + 0.01);
+  osc.connect(gain);
+  gain.connect(ctx.destination);
+  osc.start(time);
+  osc.stop(time + 0.012);
+}
+
+/**
+ * Delays from each click to where its onset shows up in the captured input,
+ * in seconds, shortest first. Throws when too few clicks were heard or the
+ * detections disagree (echoes, noise), so a bad run isn't saved.
+ */
+function detectRoundTrips(
+  samples: Float32Array,
+  sampleRate: number,
+  clickFrames: number[]
+): number[] {
+  // Noise floor from the quiet stretch before the first click
+  let floor = 0;
+  for (let i = 0; i < Math.min(clickFrames[0], samples.length); i++) floor = Math.max(floor, Math.abs(samples[i]));
+  const threshold = Math.max(0.05, floor * 4);
+
+  const delays: number[] = [];
+  const searchFrames = Math.round(MAX_LATENCY * sampleRate);
+  for (const clickFrame of clickFrames) {
+    const end = Math.min(samples.length, clickFrame + searchFrames);
+    for (let i = clickFrame; i < end; i++) {
+      if (Math.abs(samples[i]) >= threshold) {
+        delays.push((i - clickFrame) / sampleRate);
+        break;
+      }
+    }
+  }
+  if (delays.length < Math.ceil(clickFrames.length / 2)) {
+    throw new Error("Couldn't hear the test clicks. Turn the output up or move the microphone closer to the speaker.");
+  }
+  delays.sort((a, b) => a - b);
+  if (delays[delays.length - 1] - delays[0] > MAX_SPREAD) {
+    throw new Error("The clicks came back at inconsistent times. Try again somewhere quieter.");
+  }
+  return delays;
+}
+
+/** Play test clicks through the selected output and time them on the selected input. */
+export async function measureRoundTripLatency(): Promise<LatencyMeasurement> {
+  const pair = await resolveDevicePair();
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: await withInputDevice({ echoCancellation: false, noiseSuppression: false, autoGainControl: false }),
+  });
+  const ctx = new AudioContext({ latencyHint: "interactive" });
+  try {
+    await routeContextToSink(ctx);
+    await ctx.audioWorklet.addModule(WORKLET_URL);
+    if (ctx.state === "suspended") await ctx.resume();
+
+    const source = ctx.createMediaStreamSource(stream);
+    const probe = new AudioWorkletNode(ctx, PROCESSOR_NAME, { numberOfOutputs: 1 });
+    // Keep the probe pulled by the graph without making it audible
+    const mute = ctx.createGain();
+    mute.gain.value = 0;
+    source.connect(probe);
+    probe.connect(mute);
+    mute.connect(ctx.destination);
+
+    const batches: { startFrame: number; samples: Float32Array }[] = [];
+    probe.port.onmessage = (e: MessageEvent<{ startFrame: number; samples: Float32Array }>) => batches.push(e.data);
+
+    const firstClick = ctx.currentTime + FIRST_CLICK_DELAY;
+    const clickTimes = Array.from({ length: CLICK_COUNT }, (_, i) => firstClick + i * CLICK_INTERVAL);
+    clickTimes.forEach((time) => scheduleClick(ctx, time));
+
+    const listenSeconds = FIRST_CLICK_DELAY + CLICK_COUNT * CLICK_INTERVAL + MAX_LATENCY;
+    await new Promise((resolve) => setTimeout(resolve, listenSeconds * 1000));
+    probe.port.onmessage = null;
+    source.disconnect();
+    probe.disconnect();
+
+    if (batches.length === 0) throw new Error("No audio came in from the input.");
+    const startFrame = batches[0].startFrame;
+    const total = batches[batches.length - 1].startFrame + batches[batches.length - 1].samples.length - startFrame;
+    const samples = new Float32Array(total);
+    for (const batch of batches) samples.set(batch.samples, batch.startFrame - startFrame);
+
+    const clickFrames = clickTimes.map((time) => Math.round(time * ctx.sampleRate) - startFrame);
+    const delays = detectRoundTrips(samples, ctx.sampleRate, clickFrames);
+    return {
+      pair,
+      ms: delays[Math.floor(delays.length / 2)] * 1000,
+      clickDelaysMs: delays.map((d) => d * 1000),
+      clicksPlayed: CLICK_COUNT,
+    };
+  } finally {
+    stream.getTracks().forEach((t) => t.stop());
+    ctx.close().catch(() => {});
+  }
+}
@@ -0,0 +1,376 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as mm from "music-metadata";
+import { prisma } from "@/lib/prisma";
+import {
+  runLibraryScan,
+  JAM_TRACKS_FOLDER,
+  SUPPORTED_EXTENSIONS,
+  SUPPORTED_VIDEO_EXTENSIONS,
+} from "@/lib/libraryScanner";
+import { BACKING_TRACKS_FOLDER } from "@/lib/backingTrackAudio";
+import type { IntegrityEntity, IntegrityFix, IntegrityIssue, IntegrityReport } from "@/types";
+
+const MUSIC_DIR = process.env.MUSIC_DIR || "./music";
+const RECORDINGS_FOLDER = "Recordings";
+const VIDEOS_FOLDER = "Videos";
+const RECORDING_EXTENSIONS = [".webm", ".ogg", ".mp4", ".mp3", ".wav"];
+
+const RECORDING_MIME_TYPES: Record<string, string> = {
+  ".webm": "audio/webm",
+  ".ogg": "audio/ogg",
+  ".mp4": "audio/mp4",
+  ".mp3": "audio/mpeg",
+  ".wav": "audio/wav",
+};
+
+// Entities the library scan imports on its own
+const SCANNED_ENTITIES: IntegrityEntity[] = ["track", "jamTrack", "bookVideo"];
+
+export class IntegrityFixError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+  }
+}
+
+interface ReferencedPath {
+  entity: IntegrityEntity;
+  rowId: string;
+  label: string;
+  path: string;
+}
+
+/** Which DB column a file on disk would be referenced from, following the scanner's folder rules. */
+function classifyDiskFile(relativePath: string): IntegrityEntity | null {
+  const parts = relativePath.split(path.sep);
+  const ext = path.extname(relativePath).toLowerCase();
+  const top = parts[0];
+
+  if (top === JAM_TRACKS_FOLDER) {
+    return parts.length === 3 && SUPPORTED_EXTENSIONS.includes(ext) ? "jamTrack" : null;
+  }
+  if (top === RECORDINGS_FOLDER) {
+    return parts.length === 2 && RECORDING_EXTENSIONS.includes(ext) ? "recording" : null;
+  }
+  if (top === BACKING_TRACKS_FOLDER) {
+    return parts.length === 3 && ext === ".mp3" ? "backingTrack" : null;
+  }
+  if (top === VIDEOS_FOLDER) return null;
+
+  if (SUPPORTED_EXTENSIONS.includes(ext)) return "track";
+  if (ext === ".pdf" && parts.length === 3) return "bookPdf";
+  if (SUPPORTED_VIDEO_EXTENSIONS.includes(ext) && parts.length === 4 && parts[2] === "videos") return "bookVideo";
+  return null;
+}
+
+async function listDiskFiles(musicPath: string): Promise<string[]> {
+  const files: string[] = [];
+
+  async function walk(dir: string) {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (entry.name.startsWith(".")) continue;
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await walk(fullPath);
+      } else if (entry.isFile()) {
+        files.push(path.relative(musicPath, fullPath));
+      }
+    }
+  }
+
+  await walk(musicPath);
+  return files;
+}
+
+async function fileExists(fullPath: string): Promise<boolean> {
+  try {
+    const stat = await fs.stat(fullPath);
+    return stat.isFile();
+  } catch {
+    return false;
+  }
+}
+
+async function loadReferencedPaths(): Promise<{ refs: ReferencedPath[]; gpLinks: ReferencedPath[] }> {
+  const [tracks, jamTracks, books, bookVideos, recordings, backingTracks] = await Promise.all([
+    prisma.track.findMany({ select: { id: true, title: true, filePath: true } }),
+    prisma.jamTrack.findMany({ select: { id: true, title: true, filePath: true, gpFilePath: true } }),
+    prisma.book.findMany({
+      where: { pdfPath: { not: null } },
+      select: { id: true, name: true, pdfPath: true, author: { select: { name: true } } },
+    }),
+    prisma.bookVideo.findMany({ select: { id: true, title: true, filename: true, filePath: true } }),
+    prisma.recording.findMany({ select: { id: true, title: true, filePath: true } }),
+    prisma.backingTrack.findMany({
+      where: { audioPath: { not: null } },
+      select: { id: true, title: true, audioPath: true },
+    }),
+  ]);
+
+  const refs: ReferencedPath[] = [
+    ...tracks.map((t) => ({ entity: "track" as const, rowId: t.id, label: t.title, path: t.filePath })),
+    ...jamTracks.map((jt) => ({ entity: "jamTrack" as const, rowId: jt.id, label: jt.title, path: jt.filePath })),
+    ...books.map((b) => ({
+      entity: "bookPdf" as const,
+      rowId: b.id,
+      label: `${b.author.name} — ${b.name} (PDF)`,
+      path: b.pdfPath!,
+    })),
+    ...bookVideos.map((v) => ({
+      entity: "bookVideo" as const,
+      rowId: v.id,
+      label: v.title || v.filename,
+      path: v.filePath,
+    })),
+    ...recordings.map((r) => ({ entity: "recording" as const, rowId: r.id, label: r.title, path: r.filePath })),
+    ...backingTracks.map((bt) => ({
+      entity: "backingTrack" as const,
+      rowId: bt.id,
+      label: bt.title,
+      path: bt.audioPath!,
+    })),
+  ];
+
+  const gpLinks = jamTracks
+    .filter((jt) => jt.gpFilePath)
+    .map((jt) => ({ entity: "jamTrack" as const, rowId: jt.id, label: jt.title, path: jt.gpFilePath! }));
+
+  return { refs, gpLinks };
+}
+
+/**
+ * Compare the database against MUSIC_DIR: rows whose file is gone, files no
+ * row points at, tracks with no duration and jam tracks with a dead .gp link.
+ */
+export async function buildIntegrityReport(): Promise<IntegrityReport> {
+  const musicPath = path.resolve(MUSIC_DIR);
+  const [diskFiles, { refs, gpLinks }] = await Promise.all([listDiskFiles(musicPath), loadReferencedPaths()]);
+
+  const diskSet = new Set(diskFiles);
+  const referenced = new Set([...refs.map((r) => r.path), ...gpLinks.map((g) => g.path)]);
+  const issues: IntegrityIssue[] = [];
+
+  // Unreferenced files grouped by entity and lowercased filename, for relink suggestions
+  const orphans: { path: string; entity: IntegrityEntity }[] = [];
+  for (const file of diskFiles) {
+    if (referenced.has(file)) continue;
+    const entity = classifyDiskFile(file);
+    if (entity) orphans.push({ path: file, entity });
+  }
+  const orphansByName = new Map<string, string[]>();
+  for (const orphan of orphans) {
+    const key = `${orphan.entity}:${path.basename(orphan.path).toLowerCase()}`;
+    orphansByName.set(key, [...(orphansByName.get(key) ?? []), orphan.path]);
+  }
+
+  for (const ref of refs) {
+    if (diskSet.has(ref.path) || (await fileExists(path.join(musicPath, ref.path)))) continue;
+    const candidates = orphansByName.get(`${ref.entity}:${path.basename(ref.path).toLowerCase()}`) ?? [];
+    issues.push({
+      id: `missingFile:${ref.entity}:${ref.rowId}`,
+      kind: "missingFile",
+      entity: ref.entity,
+      rowId: ref.rowId,
+      label: ref.label,
+      path: ref.path,
+      candidates,
+      fixes: candidates.length > 0 ? ["relink", "deleteRow"] : ["deleteRow"],
+    });
+  }
+
+  for (const link of gpLinks) {
+    if (diskSet.has(link.path) || (await fileExists(path.join(musicPath, link.path)))) continue;
+    issues.push({
+      id: `brokenGpLink:jamTrack:${link.rowId}`,
+      kind: "brokenGpLink",
+      entity: "jamTrack",
+      rowId: link.rowId,
+      label: link.label,
+      path: link.path,
+      candidates: [],
+      fixes: ["deleteRow"],
+    });
+  }
+
+  const [zeroTracks, zeroJamTracks] = await Promise.all([
+    prisma.track.findMany({ where: { duration: { lte: 0 } }, select: { id: true, title: true, filePath: true } }),
+    prisma.jamTrack.findMany({ where: { duration: { lte: 0 } }, select: { id: true, title: true, filePath: true } }),
+  ]);
+  for (const t of zeroTracks) {
+    issues.push({
+      id: `zeroDuration:track:${t.id}`,
+      kind: "zeroDuration",
+      entity: "track",
+      rowId: t.id,
+      label: t.title,
+      path: t.filePath,
+      candidates: [],
+      fixes: ["deleteRow"],
+    });
+  }
+  for (const jt of zeroJamTracks) {
+    issues.push({
+      id: `zeroDuration:jamTrack:${jt.id}`,
+      kind: "zeroDuration",
+      entity: "jamTrack",
+      rowId: jt.id,
+      label: jt.title,
+      path: jt.filePath,
+      candidates: [],
+      fixes: ["deleteRow"],
+    });
+  }
+
+  for (const orphan of orphans) {
+    // Backing tracks need a YouTube URL and key, so they can't be imported from a bare file
+    const fixes: IntegrityFix[] = orphan.entity === "backingTrack" ? [] : ["import"];
+    issues.push({
+      id: `orphanFile:${orphan.entity}:${orphan.path}`,
+      kind: "orphanFile",
+      entity: orphan.entity,
+      rowId: null,
+      label: path.basename(orphan.path),
+      path: orphan.path,
+      candidates: [],
+      fixes,
+    });
+  }
+
+  return { checkedAt: new Date().toISOString(), issues };
+}
+
+export interface IntegrityFixRequest {
+  fix: IntegrityFix;
+  kind: IntegrityIssue["kind"];
+  entity: IntegrityEntity;
+  rowId?: string | null;
+  path?: string;
+  /** New relative path for `relink`. */
+  target?: string;
+}
+
+/** Resolve a client-supplied relative path, refusing anything outside MUSIC_DIR. */
+function resolveInMusicDir(relativePath: string): string {
+  const musicPath = path.resolve(MUSIC_DIR);
+  const fullPath = path.resolve(musicPath, relativePath);
+  if (!fullPath.startsWith(musicPath + path.sep)) {
+    throw new IntegrityFixError("Path is outside the music folder");
+  }
+  return fullPath;
+}
+
+async function relinkRow(entity: IntegrityEntity, rowId: string, target: string) {
+  const fullPath = resolveInMusicDir(target);
+  if (!(await fileExists(fullPath))) throw new IntegrityFixError("Target file does not exist");
+  if (classifyDiskFile(target) !== entity) throw new IntegrityFixError("Target file is the wrong type");
+
+  switch (entity) {
+    case "track":
+      return prisma.track.update({ where: { id: rowId }, data: { filePath: target } });
+    case "jamTrack":
+      return prisma.jamTrack.update({ where: { id: rowId }, data: { filePath: target } });
+    case "bookPdf":
+      return prisma.book.update({ where: { id: rowId }, data: { pdfPath: target } });
+    case "bookVideo":
+      return prisma.bookVideo.update({
+        where: { id: rowId },
+        data: { filePath: target, filename: path.basename(target) },
+      });
+    case "recording":
+      return prisma.recording.update({ where: { id: rowId }, data: { filePath: target } });
+    case "backingTrack":
+      return prisma.backingTrack.update({ where: { id: rowId }, data: { audioPath: target } });
+  }
+}
+
+async function deleteRow(kind: IntegrityIssue["kind"], entity: IntegrityEntity, rowId: string) {
+  // Path columns on rows that carry other data are cleared rather than deleting the row
+  if (kind === "brokenGpLink") {
+    return prisma.jamTrack.update({ where: { id: rowId }, data: { gpFilePath: null } });
+  }
+  switch (entity) {
+    case "track":
+      return prisma.track.delete({ where: { id: rowId } });
+    case "jamTrack":
+      return prisma.jamTrack.delete({ where: { id: rowId } });
+    case "bookPdf":
+      return prisma.book.update({ where: { id: rowId }, data: { pdfPath: null } });
+    case "bookVideo":
+      return prisma.bookVideo.delete({ where: { id: rowId } });
+    case "recording":
+      return prisma.recording.delete({ where: { id: rowId } });
+    case "backingTrack":
+      return prisma.backingTrack.delete({ where: { id: rowId } });
+  }
+}
+
+async function importFile(entity: IntegrityEntity, relativePath: string) {
+  const fullPath = resolveInMusicDir(relativePath);
+  if (!(await fileExists(fullPath))) throw new IntegrityFixError("File no longer exists");
+
+  if (SCANNED_ENTITIES.includes(entity)) {
+    // The incremental scan only touches new or changed files, so this is cheap
+    return runLibraryScan();
+  }
+
+  if (entity === "recording") {
+    const ext = path.extname(relativePath).toLowerCase();
+    let duration = 0;
+    try {
+      const metadata = await mm.parseFile(fullPath);
+      duration = metadata.format.duration || 0;
+    } catch (err) {
+      console.error(`Error parsing recording ${fullPath}:`, err);
+    }
+    return prisma.recording.create({
+      data: {
+        title: path.basename(relativePath, ext),
+        filePath: relativePath,
+        duration,
+        mimeType: RECORDING_MIME_TYPES[ext] || "audio/webm",
+      },
+    });
+  }
+
+  if (entity === "bookPdf") {
+    const [authorName, bookName] = relativePath.split(path.sep);
+    const author = await prisma.author.upsert({
+      where: { name: authorName },
+      update: {},
+      create: { name: authorName },
+    });
+    const book = await prisma.book.findUnique({
+      where: { name_authorId: { name: bookName, authorId: author.id } },
+    });
+    if (book?.pdfPath) throw new IntegrityFixError("This book already has a PDF; relink it instead");
+    return prisma.book.upsert({
+      where: { name_authorId: { name: bookName, authorId: author.id } },
+      update: { pdfPath: relativePath },
+      create: { name: bookName, authorId: author.id, pdfPath: relativePath },
+    });
+  }
+
+  throw new IntegrityFixError("This file can't be imported automatically");
+}
+
+export async function applyIntegrityFix(request: IntegrityFixRequest) {
+  switch (request.fix) {
+    case "relink":
+      if (!request.rowId || !request.target) throw new IntegrityFixError("rowId and target are required");
+      return relinkRow(request.entity, request.rowId, request.target);
+    case "deleteRow":
+      if (!request.rowId) throw new IntegrityFixError("rowId is required");
+      return deleteRow(request.kind, request.entity, request.rowId);
+    case "import":
+      if (!request.path) throw new IntegrityFixError("path is required");
+      return importFile(request.entity, request.path);
+    default:
+      throw new IntegrityFixError("Unknown fix");
+  }
+}
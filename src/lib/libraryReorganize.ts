@@ -0,0 +1,381 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import NodeID3 from "node-id3";
+import { prisma } from "@/lib/prisma";
+import { withLibraryScanQueue } from "@/lib/libraryScanner";
+import {
+  buildTrackFilename,
+  extractTrackNumberFromFilename,
+  sanitizeFilename,
+  stripTrackNumberPrefix,
+} from "@/lib/trackNaming";
+import { peaksPathFor } from "@/lib/waveformPeaks";
+import type {
+  ReorganizeChange,
+  ReorganizeJournalStatus,
+  ReorganizeJournalSummary,
+  ReorganizePlan,
+} from "@/types";
+
+const MUSIC_DIR = process.env.MUSIC_DIR || "./music";
+// Hidden, so the scanner, watcher and integrity check leave it alone
+const JOURNAL_DIR_NAME = ".reorganize-journal";
+const JOURNAL_RETENTION = 20;
+
+export class ReorganizeError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+  }
+}
+
+export interface ReorganizeResult {
+  track: string;
+  oldPath: string;
+  newPath: string;
+  success: boolean;
+  error?: string;
+}
+
+type JournalEntryStatus = "pending" | "done" | "failed";
+
+interface JournalEntry {
+  change: ReorganizeChange;
+  /** Tags as they were before, for MP3s whose tags get rewritten. */
+  oldTags: { title: string | null; trackNumber: string | null } | null;
+  status: JournalEntryStatus;
+  error?: string;
+}
+
+interface Journal {
+  id: string;
+  createdAt: string;
+  status: ReorganizeJournalStatus;
+  rolledBackAt: string | null;
+  entries: JournalEntry[];
+}
+
+function journalDir(): string {
+  return path.join(path.resolve(MUSIC_DIR), JOURNAL_DIR_NAME);
+}
+
+function journalPath(id: string): string {
+  if (id !== path.basename(id) || !id.endsWith(".json")) throw new ReorganizeError("Invalid journal id");
+  return path.join(journalDir(), id);
+}
+
+async function writeJournal(journal: Journal) {
+  await fs.mkdir(journalDir(), { recursive: true });
+  await fs.writeFile(journalPath(journal.id), JSON.stringify(journal, null, 2));
+}
+
+async function readJournal(id: string): Promise<Journal> {
+  try {
+    return JSON.parse(await fs.readFile(journalPath(id), "utf-8"));
+  } catch (err) {
+    if (err instanceof ReorganizeError) throw err;
+    throw new ReorganizeError("Journal not found", 404);
+  }
+}
+
+async function exists(fullPath: string): Promise<boolean> {
+  try {
+    await fs.access(fullPath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Remove now-empty folders from `dir` up to (not including) the music root. */
+async function removeEmptyDirs(dir: string, musicPath: string) {
+  try {
+    let dirToClean = dir;
+    while (dirToClean !== musicPath && dirToClean.startsWith(musicPath)) {
+      const files = await fs.readdir(dirToClean);
+      if (files.length > 0) break;
+      await fs.rmdir(dirToClean);
+      dirToClean = path.dirname(dirToClean);
+    }
+  } catch {
+    // Ignore cleanup errors
+  }
+}
+
+/**
+ * Work out every track whose file name, folder, title or number differs from
+ * the Author/Book/NN - Title layout. Nothing is touched. With `onlyTrackIds`,
+ * other tracks are treated as staying where they are, so name clashes are
+ * resolved the same way they will be when just those changes are applied.
+ */
+export async function planReorganize(onlyTrackIds?: Set<string>): Promise<ReorganizePlan> {
+  const musicPath = path.resolve(MUSIC_DIR);
+
+  // Get all tracks with their book and author info
+  const tracks = await prisma.track.findMany({
+    include: {
+      book: {
+        include: {
+          author: true,
+          tracks: { select: { id: true } }, // Get track count for book
+        },
+      },
+    },
+    orderBy: [{ bookId: "asc" }, { trackNumber: "asc" }],
+  });
+
+  const changes: ReorganizeChange[] = [];
+  const claimed = new Set<string>();
+  let unchanged = 0;
+
+  for (const track of tracks) {
+    const authorName = sanitizeFilename(track.book.author.name);
+    const bookName = sanitizeFilename(track.book.name);
+    const ext = path.extname(track.filePath);
+    const totalTracksInBook = track.book.tracks.length;
+
+    // If no track number, try to extract from filename
+    let trackNumber = track.trackNumber;
+    if (!trackNumber || trackNumber === 0) {
+      trackNumber = extractTrackNumberFromFilename(track.filePath) ?? trackNumber;
+    }
+
+    // Clean up the title by removing any track number prefix
+    const cleanTitle = stripTrackNumberPrefix(track.title);
+
+    // Build new path: Author/Book/XX - track.mp3
+    let newPath = path.join(authorName, bookName, buildTrackFilename(cleanTitle, trackNumber, totalTracksInBook, ext));
+
+    if (track.filePath === newPath && track.trackNumber === (trackNumber || 0) && cleanTitle === track.title) {
+      unchanged++;
+      continue;
+    }
+    if (onlyTrackIds && !onlyTrackIds.has(track.id)) continue;
+
+    // Avoid overwriting another file, or a file another change moves to
+    if (newPath !== track.filePath) {
+      for (let counter = 1; claimed.has(newPath) || (await exists(path.join(musicPath, newPath))); counter++) {
+        newPath = path.join(
+          authorName,
+          bookName,
+          buildTrackFilename(cleanTitle, trackNumber, totalTracksInBook, ext, counter)
+        );
+      }
+    }
+    claimed.add(newPath);
+
+    const numberChanged = !!trackNumber && trackNumber !== track.trackNumber;
+    const titleChanged = cleanTitle !== track.title;
+    changes.push({
+      id: track.id,
+      label: track.title,
+      oldPath: track.filePath,
+      newPath,
+      movesFolder: path.dirname(newPath) !== path.dirname(track.filePath),
+      title: titleChanged ? { from: track.title, to: cleanTitle } : null,
+      trackNumber: track.trackNumber !== (trackNumber || 0) ? { from: track.trackNumber, to: trackNumber || 0 } : null,
+      tags:
+        ext.toLowerCase() === ".mp3" && (numberChanged || titleChanged)
+          ? { title: cleanTitle, trackNumber: trackNumber ? String(trackNumber) : null }
+          : null,
+    });
+  }
+
+  return { changes, unchanged };
+}
+
+async function applyEntry(entry: JournalEntry, musicPath: string) {
+  const { change } = entry;
+  const oldFullPath = path.join(musicPath, change.oldPath);
+  const newFullPath = path.join(musicPath, change.newPath);
+
+  // Check if source file exists
+  await fs.access(oldFullPath);
+
+  // Update metadata in file if it's an MP3 and something changed
+  if (change.tags) {
+    const current = NodeID3.read(oldFullPath);
+    entry.oldTags = { title: current.title ?? null, trackNumber: current.trackNumber ?? null };
+    NodeID3.update(
+      { title: change.tags.title, trackNumber: change.tags.trackNumber ?? undefined },
+      oldFullPath
+    );
+  }
+
+  if (oldFullPath !== newFullPath) {
+    if (await exists(newFullPath)) throw new Error(`${change.newPath} already exists`);
+    await fs.mkdir(path.dirname(newFullPath), { recursive: true });
+    await fs.rename(oldFullPath, newFullPath);
+    await fs.rm(peaksPathFor(oldFullPath), { force: true });
+  }
+
+  await prisma.track.update({
+    where: { id: change.id },
+    data: {
+      title: change.title?.to ?? change.label,
+      filePath: change.newPath,
+      trackNumber: change.trackNumber?.to ?? undefined,
+    },
+  });
+
+  if (oldFullPath !== newFullPath) await removeEmptyDirs(path.dirname(oldFullPath), musicPath);
+}
+
+async function pruneJournals() {
+  const journals = await listReorganizeJournals();
+  for (const journal of journals.slice(JOURNAL_RETENTION)) {
+    await fs.rm(journalPath(journal.id), { force: true });
+  }
+}
+
+/**
+ * Apply planned changes (all of them, or only `trackIds`). A journal of
+ * every change is written before anything moves and updated as each one
+ * finishes, so the run can be rolled back even if it was interrupted. Runs on
+ * the scan queue, so a scan never walks the library while files are moving.
+ */
+export function applyReorganize(trackIds?: string[]): Promise<{ journalId: string | null; results: ReorganizeResult[] }> {
+  return withLibraryScanQueue(() => moveToPlannedPaths(trackIds));
+}
+
+async function moveToPlannedPaths(trackIds?: string[]): Promise<{ journalId: string | null; results: ReorganizeResult[] }> {
+  const musicPath = path.resolve(MUSIC_DIR);
+  const plan = await planReorganize(trackIds ? new Set(trackIds) : undefined);
+  if (plan.changes.length === 0) return { journalId: null, results: [] };
+
+  const createdAt = new Date().toISOString();
+  const journal: Journal = {
+    id: `${createdAt.replace(/[:.]/g, "-")}.json`,
+    createdAt,
+    status: "applying",
+    rolledBackAt: null,
+    entries: plan.changes.map((change) => ({ change, oldTags: null, status: "pending" })),
+  };
+  await writeJournal(journal);
+
+  const results: ReorganizeResult[] = [];
+  for (const entry of journal.entries) {
+    try {
+      await applyEntry(entry, musicPath);
+      entry.status = "done";
+      results.push({ track: entry.change.label, oldPath: entry.change.oldPath, newPath: entry.change.newPath, success: true });
+    } catch (err) {
+      entry.status = "failed";
+      entry.error = err instanceof Error ? err.message : "Unknown error";
+      results.push({
+        track: entry.change.label,
+        oldPath: entry.change.oldPath,
+        newPath: entry.change.newPath,
+        success: false,
+        error: entry.error,
+      });
+    }
+    await writeJournal(journal);
+  }
+
+  journal.status = "applied";
+  await writeJournal(journal);
+  await pruneJournals();
+
+  return { journalId: journal.id, results };
+}
+
+export async function listReorganizeJournals(): Promise<ReorganizeJournalSummary[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(journalDir());
+  } catch {
+    return [];
+  }
+
+  const summaries: ReorganizeJournalSummary[] = [];
+  for (const name of names.filter((n) => n.endsWith(".json"))) {
+    try {
+      const journal = await readJournal(name);
+      summaries.push({
+        id: journal.id,
+        createdAt: journal.createdAt,
+        status: journal.status,
+        changes: journal.entries.length,
+        failed: journal.entries.filter((entry) => entry.status === "failed").length,
+        rolledBackAt: journal.rolledBackAt,
+      });
+    } catch {
+      // Skip unreadable journals
+    }
+  }
+  return summaries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Undo a reorganize: move files back, restore their old tags and database
+ * paths. Each step checks the current state first, so entries that never
+ * ran, or a run that stopped midway, are handled the same way. Only the
+ * most recent reorganize can be rolled back, since a later one may have
+ * moved the same files again. Runs on the scan queue, like applyReorganize.
+ */
+export function rollbackReorganize(id: string): Promise<ReorganizeResult[]> {
+  return withLibraryScanQueue(() => moveBackFromJournal(id));
+}
+
+async function moveBackFromJournal(id: string): Promise<ReorganizeResult[]> {
+  const musicPath = path.resolve(MUSIC_DIR);
+  const journal = await readJournal(id);
+  if (journal.status === "rolledBack") throw new ReorganizeError("This reorganize was already rolled back", 409);
+
+  const latest = (await listReorganizeJournals()).find((j) => j.status !== "rolledBack");
+  if (latest?.id !== journal.id) {
+    throw new ReorganizeError("Only the most recent reorganize can be rolled back", 409);
+  }
+
+  // Entries after the first pending one never started
+  const firstPending = journal.entries.findIndex((entry) => entry.status === "pending");
+  const touched = firstPending === -1 ? journal.entries : journal.entries.slice(0, firstPending + 1);
+
+  const results: ReorganizeResult[] = [];
+  for (const entry of [...touched].reverse()) {
+    const { change } = entry;
+    const oldFullPath = path.join(musicPath, change.oldPath);
+    const newFullPath = path.join(musicPath, change.newPath);
+    try {
+      if (oldFullPath !== newFullPath && (await exists(newFullPath))) {
+        if (await exists(oldFullPath)) throw new Error(`${change.oldPath} already exists`);
+        await fs.mkdir(path.dirname(oldFullPath), { recursive: true });
+        await fs.rename(newFullPath, oldFullPath);
+        await fs.rm(peaksPathFor(newFullPath), { force: true });
+        await removeEmptyDirs(path.dirname(newFullPath), musicPath);
+      }
+
+      if (entry.oldTags && (await exists(oldFullPath))) {
+        NodeID3.update(
+          { title: entry.oldTags.title ?? undefined, trackNumber: entry.oldTags.trackNumber ?? undefined },
+          oldFullPath
+        );
+      }
+
+      await prisma.track.updateMany({
+        where: { id: change.id },
+        data: {
+          title: change.title?.from ?? change.label,
+          filePath: change.oldPath,
+          trackNumber: change.trackNumber?.from ?? undefined,
+        },
+      });
+
+      results.push({ track: change.label, oldPath: change.newPath, newPath: change.oldPath, success: true });
+    } catch (err) {
+      results.push({
+        track: change.label,
+        oldPath: change.newPath,
+        newPath: change.oldPath,
+        success: false,
+        error: err instanceof Error ? err.message : "Unknown error",
+      });
+    }
+  }
+
+  journal.status = "rolledBack";
+  journal.rolledBackAt = new Date().toISOString();
+  await writeJournal(journal);
+
+  return results.reverse();
+}
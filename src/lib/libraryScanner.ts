@@ -0,0 +1,975 @@
+import { prisma } from "@/lib/prisma";
+import { loadScanCache, type FileMove, type ScanCache } from "@/lib/scanCache";
+import { getMediaDuration } from "@/lib/mediaAnalysis";
+import { enqueueMissingMediaJobs } from "@/lib/mediaJobs";
+import { padTrackNumber, sanitizeFilename } from "@/lib/trackNaming";
+import { peaksPathFor } from "@/lib/waveformPeaks";
+import type { ScanEvent, ScanResult } from "@/lib/scanStream";
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as mm from "music-metadata";
+import NodeID3 from "node-id3";
+import { File as TagFile } from "node-taglib-sharp";
+
+const MUSIC_DIR = process.env.MUSIC_DIR || "./music";
+export const SUPPORTED_EXTENSIONS = [".mp3", ".flac", ".wav", ".ogg", ".m4a", ".aac"];
+export const SUPPORTED_VIDEO_EXTENSIONS = [".mp4", ".mov", ".webm", ".m4v"];
+export const GP_EXTENSIONS = [".gp", ".gp3", ".gp4", ".gp5", ".gpx", ".gp7"];
+
+// Extract track number from video filename (e.g., "001 - First String Notes.mp4" → 1)
+function extractTrackNumberFromFilename(filename: string): number | null {
+  // Match leading digits followed by optional separator (space, dash, underscore, dot)
+  const match = filename.match(/^(\d+)[\s\-_.]*/);
+  if (match) {
+    const num = parseInt(match[1], 10);
+    return isNaN(num) ? null : num;
+  }
+  return null;
+}
+
+// Extract title from video filename (e.g., "001 - Power Chords 1.mp4" → "Power Chords 1")
+function extractTitleFromFilename(filename: string): string {
+  // Remove extension
+  const withoutExt = filename.replace(/\.[^.]+$/, "");
+  // Remove leading track number and separator (digits followed by space/dash/underscore/dot combinations)
+  const withoutNumber = withoutExt.replace(/^\d+[\s\-_.]*/, "");
+  // Return the cleaned title, or the filename without extension if nothing left
+  return withoutNumber.trim() || withoutExt;
+}
+
+interface ScannedTrack {
+  title: string;
+  trackNumber: number;
+  duration: number;
+  filePath: string;
+  author: string;
+  book: string;
+  lufs: number | null;
+}
+
+interface ScannedJamTrack {
+  title: string;
+  duration: number;
+  filePath: string;
+  lufs: number | null;
+  gpFilePath: string | null;
+}
+
+interface ScannedVideo {
+  filename: string;
+  title: string;
+  filePath: string;
+  duration: number | null;
+  bookId: string;
+  trackNumber: number | null;
+}
+
+export const JAM_TRACKS_FOLDER = "JamTracks";
+
+// Thrown at checkpoints once the caller's signal has aborted
+export class ScanCancelledError extends Error {}
+
+interface ScanContext {
+  cache: ScanCache;
+  send: (event: ScanEvent) => void;
+  signal: AbortSignal;
+  /** Set once the scan starts writing; a later cancel must still commit the cache. */
+  dbWritten: boolean;
+}
+
+function throwIfCancelled(ctx: ScanContext) {
+  if (ctx.signal.aborted) throw new ScanCancelledError("Scan cancelled");
+}
+
+function reportFileError(ctx: ScanContext, filePath: string, err: unknown) {
+  ctx.send({ type: "fileError", path: filePath, error: err instanceof Error ? err.message : String(err) });
+}
+
+async function findPdfInFolder(folderPath: string): Promise<string | null> {
+  try {
+    const entries = await fs.readdir(folderPath, { withFileTypes: true });
+    for (const entry of entries) {
+      if (entry.isFile() && entry.name.toLowerCase().endsWith(".pdf")) {
+        return path.join(folderPath, entry.name);
+      }
+    }
+  } catch {
+    // Folder doesn't exist or can't be read
+  }
+  return null;
+}
+
+async function findAudioFiles(dir: string, skipJamTracks: boolean = true): Promise<string[]> {
+  const audioFiles: string[] = [];
+  const musicPath = path.resolve(MUSIC_DIR);
+
+  async function scanDir(currentDir: string) {
+    const entries = await fs.readdir(currentDir, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const fullPath = path.join(currentDir, entry.name);
+
+      if (entry.isDirectory()) {
+        // Skip JamTracks folder during regular scanning
+        if (skipJamTracks && currentDir === musicPath && entry.name === JAM_TRACKS_FOLDER) {
+          continue;
+        }
+        await scanDir(fullPath);
+      } else if (entry.isFile()) {
+        const ext = path.extname(entry.name).toLowerCase();
+        if (SUPPORTED_EXTENSIONS.includes(ext)) {
+          audioFiles.push(fullPath);
+        }
+      }
+    }
+  }
+
+  await scanDir(dir);
+  return audioFiles;
+}
+
+async function scanJamTracksFolder(ctx: ScanContext): Promise<ScannedJamTrack[]> {
+  const jamTracks: ScannedJamTrack[] = [];
+  const musicPath = path.resolve(MUSIC_DIR);
+  const jamTracksPath = path.join(musicPath, JAM_TRACKS_FOLDER);
+
+  try {
+    await fs.access(jamTracksPath);
+  } catch {
+    // JamTracks folder doesn't exist, return empty array
+    return jamTracks;
+  }
+
+  const entries = await fs.readdir(jamTracksPath, { withFileTypes: true });
+  const folders = entries.filter((entry) => entry.isDirectory());
+  ctx.send({ type: "discovered", files: folders.length });
+
+  for (const [index, entry] of folders.entries()) {
+    throwIfCancelled(ctx);
+
+    const trackFolder = path.join(jamTracksPath, entry.name);
+    const folderEntries = await fs.readdir(trackFolder, { withFileTypes: true });
+
+    let audioFile: string | null = null;
+    let gpFile: string | null = null;
+
+    for (const fileEntry of folderEntries) {
+      if (!fileEntry.isFile()) continue;
+      const ext = path.extname(fileEntry.name).toLowerCase();
+      if (SUPPORTED_EXTENSIONS.includes(ext) && !audioFile) {
+        audioFile = path.join(trackFolder, fileEntry.name);
+      } else if (GP_EXTENSIONS.includes(ext) && !gpFile) {
+        gpFile = path.join(trackFolder, fileEntry.name);
+      }
+    }
+
+    if (!audioFile) continue;
+
+    try {
+      const relativePath = path.relative(musicPath, audioFile);
+      const gpFilePath = gpFile ? path.relative(musicPath, gpFile) : null;
+      const cached = await ctx.cache.check<ScannedJamTrack>("jamTrack", relativePath, audioFile);
+      ctx.send({ type: "parsed", path: relativePath, status: cached.status, index: index + 1, total: folders.length });
+      if (cached.metadata) {
+        // The .gp file sits next to the audio and isn't part of the audio's hash
+        jamTracks.push({ ...cached.metadata, filePath: relativePath, gpFilePath });
+        continue;
+      }
+
+      const metadata = await mm.parseFile(audioFile);
+      const title = metadata.common.title || entry.name;
+      const duration = metadata.format.duration || 0;
+
+      const jamTrack: ScannedJamTrack = {
+        title,
+        duration,
+        filePath: relativePath,
+        lufs: null,
+        gpFilePath,
+      };
+      ctx.cache.record("jamTrack", relativePath, jamTrack);
+      jamTracks.push(jamTrack);
+    } catch (err) {
+      console.error(`Error parsing jam track ${audioFile}:`, err);
+      reportFileError(ctx, path.relative(musicPath, audioFile), err);
+    }
+  }
+
+  return jamTracks;
+}
+
+async function scanBookVideos(bookId: string, bookFolderPath: string, ctx: ScanContext): Promise<ScannedVideo[]> {
+  const videos: ScannedVideo[] = [];
+  const musicPath = path.resolve(MUSIC_DIR);
+  const videosPath = path.join(bookFolderPath, "videos");
+
+  try {
+    await fs.access(videosPath);
+  } catch {
+    // No videos folder for this book
+    return videos;
+  }
+
+  try {
+    const entries = await fs.readdir(videosPath, { withFileTypes: true });
+
+    for (const entry of entries) {
+      if (!entry.isFile()) continue;
+
+      const ext = path.extname(entry.name).toLowerCase();
+      if (!SUPPORTED_VIDEO_EXTENSIONS.includes(ext)) continue;
+      throwIfCancelled(ctx);
+
+      const videoFullPath = path.join(videosPath, entry.name);
+      const relativePath = path.relative(musicPath, videoFullPath);
+      let duration: number | null = null;
+
+      // Only the ffprobe duration is cached; title/number come from the filename
+      const cached = await ctx.cache.check<{ duration: number | null }>("video", relativePath, videoFullPath);
+      ctx.send({ type: "video", path: relativePath, status: cached.status });
+      if (cached.metadata) {
+        duration = cached.metadata.duration;
+      } else {
+        try {
+          duration = await getMediaDuration(videoFullPath);
+          ctx.cache.record("video", relativePath, { duration });
+        } catch (err) {
+          console.error(`Error getting video duration for ${videoFullPath}:`, err);
+          reportFileError(ctx, relativePath, err);
+        }
+      }
+
+      const trackNumber = extractTrackNumberFromFilename(entry.name);
+      const title = extractTitleFromFilename(entry.name);
+      videos.push({
+        filename: entry.name,
+        title,
+        filePath: relativePath,
+        duration,
+        bookId,
+        trackNumber,
+      });
+    }
+  } catch (err) {
+    if (err instanceof ScanCancelledError) throw err;
+    console.error(`Error scanning videos in ${videosPath}:`, err);
+  }
+
+  return videos;
+}
+
+async function scanMusicFolder(ctx: ScanContext): Promise<ScannedTrack[]> {
+  const tracks: ScannedTrack[] = [];
+  const musicPath = path.resolve(MUSIC_DIR);
+
+  try {
+    const audioFiles = await findAudioFiles(musicPath);
+    ctx.send({ type: "discovered", files: audioFiles.length });
+    ctx.send({ type: "phase", phase: "parsing" });
+
+    for (const [index, filePath] of audioFiles.entries()) {
+      throwIfCancelled(ctx);
+      const relativePath = path.relative(musicPath, filePath);
+      try {
+        const cached = await ctx.cache.check<ScannedTrack>("track", relativePath, filePath);
+        ctx.send({ type: "parsed", path: relativePath, status: cached.status, index: index + 1, total: audioFiles.length });
+        if (cached.metadata) {
+          tracks.push({ ...cached.metadata, filePath: relativePath });
+          continue;
+        }
+
+        const metadata = await mm.parseFile(filePath);
+        const ext = path.extname(filePath);
+        // Remove extension case-insensitively
+        const baseName = path.basename(filePath);
+        const fileName = baseName.replace(new RegExp(ext.replace('.', '\\.') + '$', 'i'), '');
+
+        // Clean up title for display: strip extension, replace dashes/underscores with spaces
+        const cleanTitle = (raw: string) => {
+          // Remove any file extension
+          const withoutExt = raw.replace(/\.(mp3|wav|flac|ogg|m4a|aac)$/i, '');
+          // Replace dashes/underscores with spaces
+          return withoutExt.replace(/[-_]/g, ' ').trim();
+        };
+
+        // Get folder structure as fallback: music/Author/Book/track.ext
+        const pathParts = relativePath.split(path.sep);
+        const folderAuthor = pathParts.length >= 3 ? pathParts[0] : null;
+        const folderBook = pathParts.length >= 3 ? pathParts[1] : null;
+
+        // Use metadata as primary source, fall back to folder structure, then defaults
+        const rawTitle = metadata.common.title || fileName;
+        const title = cleanTitle(rawTitle);
+        const author = metadata.common.artist || folderAuthor || "Unknown Author";
+        const book = metadata.common.album || folderBook || "Unknown Book";
+        const trackNumber = metadata.common.track?.no || 0;
+        const duration = metadata.format.duration || 0;
+
+        const track: ScannedTrack = {
+          title,
+          trackNumber,
+          duration,
+          filePath: relativePath,
+          author,
+          book,
+          lufs: null,
+        };
+        ctx.cache.record("track", relativePath, track);
+        tracks.push(track);
+      } catch (err) {
+        console.error(`Error parsing ${filePath}:`, err);
+        reportFileError(ctx, relativePath, err);
+      }
+    }
+  } catch (err) {
+    if (err instanceof ScanCancelledError) throw err;
+    console.error("Error scanning music folder:", err);
+  }
+
+  return tracks;
+}
+
+async function discoverVideoOnlyBooks(): Promise<Map<string, Set<string>>> {
+  const musicPath = path.resolve(MUSIC_DIR);
+  const videoOnlyBooks = new Map<string, Set<string>>();
+
+  try {
+    const authorDirs = await fs.readdir(musicPath, { withFileTypes: true });
+
+    for (const authorEntry of authorDirs) {
+      if (!authorEntry.isDirectory()) continue;
+      if (authorEntry.name === JAM_TRACKS_FOLDER) continue;
+
+      const authorPath = path.join(musicPath, authorEntry.name);
+      const bookDirs = await fs.readdir(authorPath, { withFileTypes: true });
+
+      for (const bookEntry of bookDirs) {
+        if (!bookEntry.isDirectory()) continue;
+
+        const bookPath = path.join(authorPath, bookEntry.name);
+        const videosPath = path.join(bookPath, "videos");
+
+        // Check if book has a videos folder with video files
+        try {
+          await fs.access(videosPath);
+          const videoEntries = await fs.readdir(videosPath, { withFileTypes: true });
+          const hasVideos = videoEntries.some(entry => {
+            const ext = path.extname(entry.name).toLowerCase();
+            return entry.isFile() && SUPPORTED_VIDEO_EXTENSIONS.includes(ext);
+          });
+
+          if (hasVideos) {
+            if (!videoOnlyBooks.has(authorEntry.name)) {
+              videoOnlyBooks.set(authorEntry.name, new Set());
+            }
+            videoOnlyBooks.get(authorEntry.name)!.add(bookEntry.name);
+          }
+        } catch {
+          // No videos folder, skip
+        }
+      }
+    }
+  } catch (err) {
+    console.error("Error discovering video-only books:", err);
+  }
+
+  return videoOnlyBooks;
+}
+
+async function discoverPdfOnlyBooks(): Promise<Map<string, Set<string>>> {
+  const musicPath = path.resolve(MUSIC_DIR);
+  const pdfBooks = new Map<string, Set<string>>();
+
+  try {
+    const authorDirs = await fs.readdir(musicPath, { withFileTypes: true });
+
+    for (const authorEntry of authorDirs) {
+      if (!authorEntry.isDirectory()) continue;
+      if (authorEntry.name === JAM_TRACKS_FOLDER) continue;
+
+      const authorPath = path.join(musicPath, authorEntry.name);
+      const bookDirs = await fs.readdir(authorPath, { withFileTypes: true });
+
+      for (const bookEntry of bookDirs) {
+        if (!bookEntry.isDirectory()) continue;
+
+        const bookPath = path.join(authorPath, bookEntry.name);
+        const pdfPath = await findPdfInFolder(bookPath);
+        if (pdfPath) {
+          if (!pdfBooks.has(authorEntry.name)) {
+            pdfBooks.set(authorEntry.name, new Set());
+          }
+          pdfBooks.get(authorEntry.name)!.add(bookEntry.name);
+        }
+      }
+    }
+  } catch (err) {
+    console.error("Error discovering PDF-only books:", err);
+  }
+
+  return pdfBooks;
+}
+
+// Carry DB rows over to the new path of a moved file so markers, tabs and
+// practice history survive instead of being deleted and re-created
+async function applyFileMoves(moves: FileMove[]): Promise<number> {
+  let applied = 0;
+  for (const move of moves) {
+    const where = { filePath: move.from };
+    const data = { filePath: move.to };
+    try {
+      let result: { count: number };
+      if (move.kind === "track") {
+        result = await prisma.track.updateMany({ where, data });
+      } else if (move.kind === "jamTrack") {
+        result = await prisma.jamTrack.updateMany({ where, data });
+      } else {
+        result = await prisma.bookVideo.updateMany({ where, data: { ...data, filename: path.basename(move.to) } });
+      }
+      applied += result.count;
+    } catch (err) {
+      // A row already exists at the new path; the regular upsert/cleanup handles it
+      console.error(`Failed to carry over moved file ${move.from} -> ${move.to}:`, err);
+    }
+  }
+  return applied;
+}
+
+async function runScan(ctx: ScanContext): Promise<ScanResult> {
+  const { cache } = ctx;
+  const musicPath = path.resolve(MUSIC_DIR);
+  ctx.send({ type: "phase", phase: "discovering" });
+  const tracks = await scanMusicFolder(ctx);
+  ctx.send({ type: "phase", phase: "jamTracks" });
+  const jamTracks = await scanJamTracksFolder(ctx);
+
+  // Discover books that might have only videos (no audio tracks)
+  const videoOnlyBooks = await discoverVideoOnlyBooks();
+
+  // Discover books that have a PDF (covers PDF-only books with no audio/video)
+  const pdfBooks = await discoverPdfOnlyBooks();
+
+  // Group tracks by author and book
+  const authorBookMap = new Map<
+    string,
+    Map<string, ScannedTrack[]>
+  >();
+
+  for (const track of tracks) {
+    if (!authorBookMap.has(track.author)) {
+      authorBookMap.set(track.author, new Map());
+    }
+    const bookMap = authorBookMap.get(track.author)!;
+    if (!bookMap.has(track.book)) {
+      bookMap.set(track.book, []);
+    }
+    bookMap.get(track.book)!.push(track);
+  }
+
+  // Add video-only books to the map with empty track arrays
+  for (const [authorName, bookNames] of videoOnlyBooks) {
+    if (!authorBookMap.has(authorName)) {
+      authorBookMap.set(authorName, new Map());
+    }
+    const bookMap = authorBookMap.get(authorName)!;
+    for (const bookName of bookNames) {
+      if (!bookMap.has(bookName)) {
+        bookMap.set(bookName, []);
+      }
+    }
+  }
+
+  // Add PDF-only books to the map with empty track arrays
+  for (const [authorName, bookNames] of pdfBooks) {
+    if (!authorBookMap.has(authorName)) {
+      authorBookMap.set(authorName, new Map());
+    }
+    const bookMap = authorBookMap.get(authorName)!;
+    for (const bookName of bookNames) {
+      if (!bookMap.has(bookName)) {
+        bookMap.set(bookName, []);
+      }
+    }
+  }
+
+  if (authorBookMap.size === 0 && jamTracks.length === 0) {
+    await cache.commit();
+    return {
+      message: "No tracks or videos found in music folder",
+      count: 0,
+    };
+  }
+
+  // Pre-scan all book videos (file I/O) before the transaction
+  ctx.send({ type: "phase", phase: "videos" });
+  const bookVideoMap = new Map<string, ScannedVideo[]>();
+  const bookPdfMap = new Map<string, string | null>();
+
+  for (const [authorName, books] of authorBookMap) {
+    for (const [bookName] of books) {
+      const bookKey = `${authorName}/${bookName}`;
+      const bookFolderPath = path.join(musicPath, authorName, bookName);
+      const pdfFullPath = await findPdfInFolder(bookFolderPath);
+      bookPdfMap.set(bookKey, pdfFullPath ? path.relative(musicPath, pdfFullPath) : null);
+      // Use a placeholder bookId; we'll set the real one inside the transaction
+      bookVideoMap.set(bookKey, await scanBookVideos("", bookFolderPath, ctx));
+    }
+  }
+
+  // Last chance to cancel without touching the database
+  throwIfCancelled(ctx);
+  ctx.send({ type: "phase", phase: "saving" });
+  ctx.dbWritten = true;
+  const movedCount = await applyFileMoves(cache.moves());
+
+  // Upsert authors, books, tracks, and videos in a single transaction
+  await prisma.$transaction(async (tx) => {
+    for (const [authorName, books] of authorBookMap) {
+      const author = await tx.author.upsert({
+        where: { name: authorName },
+        update: {},
+        create: { name: authorName },
+      });
+
+      for (const [bookName, bookTracks] of books) {
+        const bookKey = `${authorName}/${bookName}`;
+        const pdfPath = bookPdfMap.get(bookKey) ?? null;
+
+        const book = await tx.book.upsert({
+          where: {
+            name_authorId: {
+              name: bookName,
+              authorId: author.id,
+            },
+          },
+          update: { pdfPath },
+          create: {
+            name: bookName,
+            authorId: author.id,
+            pdfPath,
+          },
+        });
+
+        // Batch upsert all tracks for this book in parallel
+        await Promise.all(
+          bookTracks.map((track) =>
+            tx.track.upsert({
+              where: { filePath: track.filePath },
+              update: {
+                title: track.title,
+                trackNumber: track.trackNumber,
+                duration: track.duration,
+                bookId: book.id,
+              },
+              create: {
+                title: track.title,
+                trackNumber: track.trackNumber,
+                duration: track.duration,
+                filePath: track.filePath,
+                bookId: book.id,
+              },
+            })
+          )
+        );
+
+        // Batch upsert all videos for this book in parallel
+        const bookVideos = bookVideoMap.get(bookKey) || [];
+        await Promise.all(
+          bookVideos.map((video) =>
+            tx.bookVideo.upsert({
+              where: { filePath: video.filePath },
+              update: {
+                filename: video.filename,
+                title: video.title,
+                duration: video.duration,
+                bookId: book.id,
+                trackNumber: video.trackNumber,
+                sortOrder: video.trackNumber ?? 0,
+              },
+              create: {
+                filename: video.filename,
+                title: video.title,
+                filePath: video.filePath,
+                duration: video.duration,
+                bookId: book.id,
+                trackNumber: video.trackNumber,
+                sortOrder: video.trackNumber ?? 0,
+              },
+            })
+          )
+        );
+
+        ctx.send({ type: "saved", author: authorName, book: bookName, tracks: bookTracks.length, videos: bookVideos.length });
+      }
+    }
+  });
+
+  ctx.send({ type: "phase", phase: "cleanup" });
+
+  // Clean up: remove tracks that no longer exist on disk
+  const validPaths = new Set(tracks.map((t: ScannedTrack) => t.filePath));
+  const allDbTracks = await prisma.track.findMany({ select: { id: true, filePath: true } });
+  const tracksToDelete = allDbTracks.filter((t: { id: string; filePath: string }) => !validPaths.has(t.filePath));
+
+  if (tracksToDelete.length > 0) {
+    await prisma.track.deleteMany({
+      where: { id: { in: tracksToDelete.map((t: { id: string }) => t.id) } },
+    });
+  }
+
+  // Clean up: remove videos that no longer exist on disk
+  const allDbVideos = await prisma.bookVideo.findMany({ select: { id: true, filePath: true } });
+  const videosToDelete: { id: string }[] = [];
+
+  for (const video of allDbVideos) {
+    const videoFullPath = path.join(musicPath, video.filePath);
+    try {
+      await fs.access(videoFullPath);
+    } catch {
+      // Video file doesn't exist, mark for deletion
+      videosToDelete.push({ id: video.id });
+    }
+  }
+
+  if (videosToDelete.length > 0) {
+    await prisma.bookVideo.deleteMany({
+      where: { id: { in: videosToDelete.map((v) => v.id) } },
+    });
+  }
+
+  // Clean up empty books (only delete if no tracks AND no videos AND no PDF)
+  await prisma.book.deleteMany({
+    where: {
+      AND: [
+        { tracks: { none: {} } },
+        { videos: { none: {} } },
+        { pdfPath: null },
+      ],
+    },
+  });
+
+  // Clean up empty authors
+  await prisma.author.deleteMany({
+    where: { books: { none: {} } },
+  });
+
+  // Reconcile video-track links: re-link tracks to their source videos
+  // Handles cases where track records were recreated by scan without sourceVideoId
+  const unlinkedTracks = await prisma.track.findMany({
+    where: { sourceVideoId: null },
+    select: { id: true, bookId: true, trackNumber: true },
+  });
+  const unlinkedVideos = await prisma.bookVideo.findMany({
+    where: { extractedTrack: null },
+    select: { id: true, bookId: true, trackNumber: true },
+  });
+
+  if (unlinkedTracks.length > 0 && unlinkedVideos.length > 0) {
+    // Index videos by bookId + trackNumber for fast lookup
+    const videoIndex = new Map<string, string>();
+    for (const v of unlinkedVideos) {
+      if (v.trackNumber !== null && v.trackNumber > 0) {
+        videoIndex.set(`${v.bookId}:${v.trackNumber}`, v.id);
+      }
+    }
+
+    for (const track of unlinkedTracks) {
+      if (track.trackNumber > 0) {
+        const videoId = videoIndex.get(`${track.bookId}:${track.trackNumber}`);
+        if (videoId) {
+          await prisma.track.update({
+            where: { id: track.id },
+            data: { sourceVideoId: videoId },
+          }).catch(() => {}); // Ignore unique constraint violations
+          videoIndex.delete(`${track.bookId}:${track.trackNumber}`);
+        }
+      }
+    }
+  }
+
+  // Reorganize: move files into Author/Book/XX - Title.ext structure
+  ctx.send({ type: "phase", phase: "reorganizing" });
+  const allTracks = await prisma.track.findMany({
+    include: {
+      book: {
+        include: {
+          author: true,
+          tracks: { select: { id: true } },
+        },
+      },
+    },
+  });
+
+  let reorganizedCount = 0;
+  // Files untouched since the last scan already carry the right tags
+  const dirtyPaths = cache.dirtyPaths();
+
+  for (const track of allTracks) {
+    throwIfCancelled(ctx);
+    const authorName = sanitizeFilename(track.book.author.name);
+    const bookName = sanitizeFilename(track.book.name);
+    const ext = path.extname(track.filePath);
+    const totalTracksInBook = track.book.tracks.length;
+
+    // Build filename with track number prefix if available
+    let trackFilename: string;
+    if (track.trackNumber && track.trackNumber > 0) {
+      const paddedTrack = padTrackNumber(track.trackNumber, totalTracksInBook);
+      trackFilename = `${paddedTrack} - ${sanitizeFilename(track.title)}${ext}`;
+    } else {
+      trackFilename = sanitizeFilename(track.title) + ext;
+    }
+
+    // Build new path: Author/Book/XX - track.mp3
+    const newRelativePath = path.join(authorName, bookName, trackFilename);
+    const oldFullPath = path.join(musicPath, track.filePath);
+    const newFullPath = path.join(musicPath, newRelativePath);
+
+    if (track.filePath === newRelativePath && !dirtyPaths.has(track.filePath)) {
+      continue;
+    }
+
+    try {
+      // Check if source file exists
+      await fs.access(oldFullPath);
+
+      // Update embedded metadata to match database values
+      if (ext.toLowerCase() === ".mp3") {
+        const tags: NodeID3.Tags = {
+          title: track.title,
+          artist: track.book.author.name,
+          album: track.book.name,
+          trackNumber: track.trackNumber ? String(track.trackNumber) : undefined,
+        };
+        NodeID3.update(tags, oldFullPath);
+      } else if (ext.toLowerCase() === ".m4a") {
+        try {
+          const tagFile = TagFile.createFromPath(oldFullPath);
+          tagFile.tag.title = track.title;
+          tagFile.tag.performers = [track.book.author.name];
+          tagFile.tag.album = track.book.name;
+          if (track.trackNumber) {
+            tagFile.tag.track = track.trackNumber;
+          }
+          tagFile.save();
+          tagFile.dispose();
+        } catch (tagErr) {
+          console.error(`Failed to update m4a metadata for ${oldFullPath}:`, tagErr);
+        }
+      }
+
+      // Skip file move if already in correct location
+      if (track.filePath === newRelativePath) {
+        await cache.refresh(track.filePath, oldFullPath);
+        continue;
+      }
+
+      // Create directory structure
+      const newDir = path.dirname(newFullPath);
+      await fs.mkdir(newDir, { recursive: true });
+
+      // Handle filename conflicts
+      let finalPath = newFullPath;
+      let finalRelativePath = newRelativePath;
+      let counter = 1;
+
+      while (oldFullPath !== finalPath) {
+        try {
+          await fs.access(finalPath);
+          // File exists, add counter
+          let newFilename: string;
+          if (track.trackNumber && track.trackNumber > 0) {
+            const paddedTrack = padTrackNumber(track.trackNumber, totalTracksInBook);
+            newFilename = `${paddedTrack} - ${sanitizeFilename(track.title)} (${counter})${ext}`;
+          } else {
+            newFilename = `${sanitizeFilename(track.title)} (${counter})${ext}`;
+          }
+          finalRelativePath = path.join(authorName, bookName, newFilename);
+          finalPath = path.join(musicPath, finalRelativePath);
+          counter++;
+        } catch {
+          // File doesn't exist, we can use this path
+          break;
+        }
+      }
+
+      // Move the file
+      if (oldFullPath !== finalPath) {
+        await fs.rename(oldFullPath, finalPath);
+        await fs.rm(peaksPathFor(oldFullPath), { force: true });
+        await cache.refresh(track.filePath, finalPath, finalRelativePath);
+
+        // Update database with new path
+        await prisma.track.update({
+          where: { id: track.id },
+          data: { filePath: finalRelativePath },
+        });
+
+        reorganizedCount++;
+
+        // Clean up empty directories
+        try {
+          let dirToClean = path.dirname(oldFullPath);
+          while (dirToClean !== musicPath && dirToClean.startsWith(musicPath)) {
+            const files = await fs.readdir(dirToClean);
+            if (files.length === 0) {
+              await fs.rmdir(dirToClean);
+              dirToClean = path.dirname(dirToClean);
+            } else {
+              break;
+            }
+          }
+        } catch {
+          // Ignore cleanup errors
+        }
+      }
+    } catch (err) {
+      console.error(`Failed to reorganize ${track.filePath}:`, err);
+      reportFileError(ctx, track.filePath, err);
+    }
+  }
+
+  // Process jam tracks scanned up front
+  let jamTracksRemoved = 0;
+
+  await prisma.$transaction(async (tx) => {
+    for (const jamTrack of jamTracks) {
+      await tx.jamTrack.upsert({
+        where: { filePath: jamTrack.filePath },
+        update: {
+          title: jamTrack.title,
+          duration: jamTrack.duration,
+          gpFilePath: jamTrack.gpFilePath,
+        },
+        create: {
+          title: jamTrack.title,
+          duration: jamTrack.duration,
+          filePath: jamTrack.filePath,
+          gpFilePath: jamTrack.gpFilePath,
+        },
+      });
+    }
+  });
+
+  // Clean up orphaned jam tracks
+  const validJamPaths = new Set(jamTracks.map((t) => t.filePath));
+  const allDbJamTracks = await prisma.jamTrack.findMany({ select: { id: true, filePath: true } });
+  const jamTracksToDelete = allDbJamTracks.filter((t) => !validJamPaths.has(t.filePath));
+
+  if (jamTracksToDelete.length > 0) {
+    await prisma.jamTrack.deleteMany({
+      where: { id: { in: jamTracksToDelete.map((t) => t.id) } },
+    });
+    jamTracksRemoved = jamTracksToDelete.length;
+  }
+
+  // Clean up empty folders in JamTracks directory
+  let emptyFoldersRemoved = 0;
+  try {
+    const jamTracksPath = path.join(musicPath, JAM_TRACKS_FOLDER);
+    await fs.access(jamTracksPath);
+
+    const entries = await fs.readdir(jamTracksPath, { withFileTypes: true });
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+
+      const trackFolder = path.join(jamTracksPath, entry.name);
+      try {
+        const folderEntries = await fs.readdir(trackFolder);
+
+        // Check if folder is empty or only contains README.txt
+        const meaningfulFiles = folderEntries.filter(
+          f => f.toLowerCase() !== "readme.txt" && !f.startsWith(".")
+        );
+
+        if (meaningfulFiles.length === 0) {
+          // Empty folder or only README, delete it
+          await fs.rm(trackFolder, { recursive: true, force: true });
+          emptyFoldersRemoved++;
+          console.log(`Removed empty jam track folder: ${entry.name}`);
+        }
+      } catch (err) {
+        console.error(`Error checking folder ${trackFolder}:`, err);
+      }
+    }
+  } catch {
+    // JamTracks folder doesn't exist, nothing to clean
+  }
+
+  // Loudness, durations, covers and waveforms are slow; hand them to the job queue
+  ctx.send({ type: "phase", phase: "queueing" });
+  const jobsQueued = await enqueueMissingMediaJobs();
+
+  const fileStats = await cache.commit();
+
+  return {
+    message: "Library scan complete",
+    count: tracks.length,
+    files: { ...fileStats, movedRowsKept: movedCount },
+    removed: tracksToDelete.length,
+    reorganized: reorganizedCount,
+    videos: {
+      removed: videosToDelete.length,
+    },
+    jamTracks: {
+      found: jamTracks.length,
+      removed: jamTracksRemoved,
+      emptyFoldersRemoved,
+    },
+    jobs: {
+      queued: jobsQueued,
+    },
+  };
+}
+
+export interface LibraryScanOptions {
+  /** Ignore the change cache and re-parse every file. */
+  full?: boolean;
+  send?: (event: ScanEvent) => void;
+  signal?: AbortSignal;
+}
+
+// Shared across route bundles and the watcher (same trick as lib/prisma.ts)
+const globalForScan = globalThis as unknown as {
+  libraryScanQueue: Promise<unknown> | undefined;
+};
+
+/**
+ * Run `task` on the library scan queue: it waits for any scan in progress, and
+ * scans requested meanwhile (manual, queued or from the watcher) wait for it.
+ */
+export function withLibraryScanQueue<T>(task: () => Promise<T>): Promise<T> {
+  const previous = globalForScan.libraryScanQueue ?? Promise.resolve();
+  const current = previous.catch(() => {}).then(task);
+  const queued = current.catch(() => {});
+  globalForScan.libraryScanQueue = queued;
+  queued.then(() => {
+    if (globalForScan.libraryScanQueue === queued) globalForScan.libraryScanQueue = undefined;
+  });
+  return current;
+}
+
+/**
+ * Run one library scan. Scans never overlap: a scan requested while another is
+ * running (manual or from the watcher) waits for it, reporting a `queued` phase.
+ * Throws ScanCancelledError if `signal` aborts before the scan finishes.
+ */
+export function runLibraryScan(options: LibraryScanOptions = {}): Promise<ScanResult> {
+  const send = options.send ?? (() => {});
+  const signal = options.signal ?? new AbortController().signal;
+
+  if (globalForScan.libraryScanQueue) send({ type: "phase", phase: "queued" });
+  return withLibraryScanQueue(async (): Promise<ScanResult> => {
+    let ctx: ScanContext | null = null;
+    try {
+      const cache = await loadScanCache(path.resolve(MUSIC_DIR), options.full ?? false);
+      ctx = { cache, send, signal, dbWritten: false };
+      throwIfCancelled(ctx);
+      return await runScan(ctx);
+    } catch (error) {
+      // Keep the cache in step with whatever already reached the database
+      if (error instanceof ScanCancelledError && ctx?.dbWritten) await ctx.cache.commit();
+      throw error;
+    }
+  });
+}
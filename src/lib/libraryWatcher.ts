@@ -0,0 +1,137 @@
+import { watch, type FSWatcher } from "fs";
+import * as path from "path";
+import {
+  runLibraryScan,
+  GP_EXTENSIONS,
+  JAM_TRACKS_FOLDER,
+  SUPPORTED_EXTENSIONS,
+  SUPPORTED_VIDEO_EXTENSIONS,
+} from "@/lib/libraryScanner";
+
+const MUSIC_DIR = process.env.MUSIC_DIR || "./music";
+// Quiet period after the last change before importing; a bulk copy keeps resetting it
+const DEBOUNCE_MS = Number(process.env.LIBRARY_WATCH_DEBOUNCE_MS) || 5000;
+// Import at least this often during a copy that never goes quiet
+const MAX_WAIT_MS = 60_000;
+const RESTART_DELAY_MS = 10_000;
+
+// Top-level folders owned by their own upload routes, not the Author/Book scan rules
+const IGNORED_TOP_FOLDERS = ["Recordings", "BackingTracks", "Videos"];
+
+interface WatcherState {
+  watcher: FSWatcher | null;
+  timer: ReturnType<typeof setTimeout> | null;
+  firstChangeAt: number | null;
+  pending: Set<string>;
+  running: boolean;
+}
+
+// Survives dev-mode module reloads so we never end up with two watchers
+const globalForWatcher = globalThis as unknown as {
+  libraryWatcher: WatcherState | undefined;
+};
+
+/**
+ * Whether a path (relative to MUSIC_DIR) can affect what the scanner imports.
+ * Mirrors the scanner's folder rules: audio anywhere outside JamTracks, PDFs and
+ * `videos/` inside Author/Book folders, and audio/.gp inside JamTracks/<track>/.
+ * Extension-less paths are treated as folders (moved or deleted directories).
+ */
+export function isWatchedLibraryPath(relativePath: string): boolean {
+  const parts = relativePath.split(path.sep).filter(Boolean);
+  if (parts.length === 0) return false;
+  if (parts.some((part) => part.startsWith("."))) return false;
+  if (IGNORED_TOP_FOLDERS.includes(parts[0])) return false;
+
+  const ext = path.extname(relativePath).toLowerCase();
+  if (!ext) return true;
+
+  if (parts[0] === JAM_TRACKS_FOLDER) {
+    return parts.length === 3 && (SUPPORTED_EXTENSIONS.includes(ext) || GP_EXTENSIONS.includes(ext));
+  }
+  if (SUPPORTED_EXTENSIONS.includes(ext)) return true;
+  if (ext === ".pdf") return parts.length === 3;
+  if (SUPPORTED_VIDEO_EXTENSIONS.includes(ext)) return parts.length === 4 && parts[2] === "videos";
+  return false;
+}
+
+function scheduleImport(state: WatcherState) {
+  if (state.timer) clearTimeout(state.timer);
+  const now = Date.now();
+  state.firstChangeAt ??= now;
+  const delay = Math.max(0, Math.min(DEBOUNCE_MS, state.firstChangeAt + MAX_WAIT_MS - now));
+  state.timer = setTimeout(() => {
+    state.timer = null;
+    void runImport(state);
+  }, delay);
+}
+
+async function runImport(state: WatcherState) {
+  // A change that lands mid-import is picked up by a follow-up pass
+  if (state.running) return;
+  state.running = true;
+  const changed = state.pending.size;
+  state.pending.clear();
+  state.firstChangeAt = null;
+
+  try {
+    console.log(`Library watcher: importing after ${changed} change(s)`);
+    const result = await runLibraryScan();
+    const files = result.files;
+    console.log(
+      files
+        ? `Library watcher: ${files.added} added, ${files.changed} changed, ${files.moved} moved, ${files.removed} removed`
+        : `Library watcher: ${result.message}`
+    );
+  } catch (err) {
+    console.error("Library watcher import failed:", err);
+  } finally {
+    state.running = false;
+    // The scan's own renames and tag writes land here too; the follow-up pass
+    // finds them unchanged in the scan cache and settles
+    if (state.pending.size > 0) scheduleImport(state);
+  }
+}
+
+/**
+ * Watch MUSIC_DIR and run an incremental library scan once changes settle.
+ * Safe to call more than once; only the first call starts a watcher.
+ */
+export function startLibraryWatcher() {
+  if (globalForWatcher.libraryWatcher) return;
+
+  const state: WatcherState = {
+    watcher: null,
+    timer: null,
+    firstChangeAt: null,
+    pending: new Set(),
+    running: false,
+  };
+  globalForWatcher.libraryWatcher = state;
+
+  const musicPath = path.resolve(MUSIC_DIR);
+
+  const attach = () => {
+    try {
+      state.watcher = watch(musicPath, { recursive: true }, (_eventType, filename) => {
+        if (!filename) return;
+        const relativePath = filename.toString();
+        if (!isWatchedLibraryPath(relativePath)) return;
+        state.pending.add(relativePath);
+        if (!state.running) scheduleImport(state);
+      });
+      state.watcher.on("error", (err) => {
+        console.error("Library watcher error, restarting:", err);
+        state.watcher?.close();
+        state.watcher = null;
+        setTimeout(attach, RESTART_DELAY_MS);
+      });
+      console.log(`Library watcher: watching ${musicPath}`);
+    } catch (err) {
+      console.error(`Library watcher could not watch ${musicPath}, retrying:`, err);
+      setTimeout(attach, RESTART_DELAY_MS);
+    }
+  };
+
+  attach();
+}
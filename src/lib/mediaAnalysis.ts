@@ -0,0 +1,44 @@
+import { execFile } from "child_process";
+import ffmpeg from "fluent-ffmpeg";
+
+// ffmpeg is installed in the system PATH via Docker
+
+// Helper function to get audio/video duration via ffprobe
+export function getMediaDuration(filePath: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (err, metadata) => {
+      if (err) {
+        reject(err);
+      } else {
+        const duration = metadata.format.duration || 0;
+        resolve(duration);
+      }
+    });
+  });
+}
+
+// Helper to measure integrated loudness (LUFS) via ffmpeg's loudnorm filter
+export function getLufs(filePath: string): Promise<number | null> {
+  return new Promise((resolve) => {
+    execFile(
+      "ffmpeg",
+      ["-i", filePath, "-af", "loudnorm=print_format=json", "-f", "null", "-"],
+      { timeout: 60000, maxBuffer: 10 * 1024 * 1024 },
+      (error: Error | null, _stdout: string, stderr: string) => {
+        if (error) {
+          console.error(`LUFS analysis failed for ${filePath}:`, error.message);
+          resolve(null);
+          return;
+        }
+        // Parse input_i (integrated loudness) from loudnorm JSON output in stderr
+        const match = stderr.match(/"input_i"\s*:\s*"([-\d.]+)"/);
+        if (match) {
+          const lufs = parseFloat(match[1]);
+          resolve(isFinite(lufs) ? lufs : null);
+        } else {
+          resolve(null);
+        }
+      }
+    );
+  });
+}
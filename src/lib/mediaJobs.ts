@@ -0,0 +1,509 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as mm from "music-metadata";
+import { prisma } from "@/lib/prisma";
+import { getLufs, getMediaDuration } from "@/lib/mediaAnalysis";
+import { getWaveformPeaks, hasFreshWaveformPeaks } from "@/lib/waveformPeaks";
+import { detectBeatGrid } from "@/lib/beatDetection";
+import { detectChords } from "@/lib/chordDetection";
+import { detectKey } from "@/lib/keyDetection";
+import { getBeatGrid } from "@/lib/beatGrid";
+import type { MediaJobEntity, MediaJobStatus, MediaJobType, MediaJobsStatus } from "@/types";
+
+const MUSIC_DIR = process.env.MUSIC_DIR || "./music";
+// ffmpeg is CPU-bound; more than a couple at once starves the web server
+const CONCURRENCY = Math.max(1, Number(process.env.MEDIA_JOB_CONCURRENCY) || 2);
+const MAX_ATTEMPTS = 3;
+// Backoff doubles per attempt: 30s, 60s, ...
+const RETRY_BASE_MS = 30_000;
+
+const JOB_TYPES: MediaJobType[] = ["lufs", "duration", "cover", "waveform", "tempo", "chords", "key"];
+const JOB_STATUSES: MediaJobStatus[] = ["pending", "running", "done", "failed"];
+
+const COVER_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/jpg": ".jpg",
+  "image/png": ".png",
+  "image/webp": ".webp",
+};
+
+export interface MediaJobSpec {
+  type: MediaJobType;
+  entity: MediaJobEntity;
+  entityId: string;
+  /** File the job is about, relative to MUSIC_DIR. A different path re-runs a finished job. */
+  filePath: string;
+  /** Re-run even if a finished job exists for the same file. */
+  force?: boolean;
+}
+
+interface ClaimedJob {
+  id: string;
+  type: string;
+  entity: string;
+  entityId: string;
+  attempts: number;
+}
+
+interface WorkerState {
+  started: boolean;
+  active: number;
+  pumping: boolean;
+  pumpAgain: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+  /** Set while a database restore swaps the file; no jobs are started. */
+  paused: boolean;
+}
+
+// One worker per server process, even across dev-mode module reloads
+const globalForJobs = globalThis as unknown as {
+  mediaJobWorker: WorkerState | undefined;
+};
+
+function workerState(): WorkerState {
+  globalForJobs.mediaJobWorker ??= {
+    started: false,
+    active: 0,
+    pumping: false,
+    pumpAgain: false,
+    timer: null,
+    paused: false,
+  };
+  return globalForJobs.mediaJobWorker;
+}
+
+/**
+ * Queue media jobs, skipping ones already queued. A finished or failed job is
+ * re-queued when its file path changed or `force` is set.
+ */
+export async function enqueueMediaJobs(specs: MediaJobSpec[]): Promise<number> {
+  let queued = 0;
+
+  for (const spec of specs) {
+    const key = { type: spec.type, entity: spec.entity, entityId: spec.entityId };
+    const existing = await prisma.mediaJob.findUnique({ where: { type_entity_entityId: key } });
+
+    if (!existing) {
+      await prisma.mediaJob.create({ data: { ...key, filePath: spec.filePath } });
+      queued++;
+      continue;
+    }
+    if (existing.status === "pending" || existing.status === "running") continue;
+    if (!spec.force && existing.filePath === spec.filePath) continue;
+
+    await prisma.mediaJob.update({
+      where: { id: existing.id },
+      data: {
+        filePath: spec.filePath,
+        status: "pending",
+        attempts: 0,
+        lastError: null,
+        runAfter: new Date(),
+        startedAt: null,
+        finishedAt: null,
+      },
+    });
+    queued++;
+  }
+
+  if (queued > 0) startMediaJobWorker();
+  return queued;
+}
+
+/**
+ * Queue analysis for everything in the library that is missing it: loudness,
+ * a real duration, a beat grid, jam track chords and key, a cover image for books
+ * without one, and waveform peaks that are missing or older than their audio file.
+ */
+export async function enqueueMissingMediaJobs(): Promise<number> {
+  const musicPath = path.resolve(MUSIC_DIR);
+
+  const [tracks, jamTracks, videos, books] = await Promise.all([
+    prisma.track.findMany({ select: { id: true, filePath: true, lufs: true, duration: true, beatOffset: true } }),
+    prisma.jamTrack.findMany({
+      select: {
+        id: true,
+        filePath: true,
+        lufs: true,
+        duration: true,
+        beatOffset: true,
+        keyConfidence: true,
+        _count: { select: { chords: true } },
+      },
+    }),
+    prisma.bookVideo.findMany({ where: { duration: null }, select: { id: true, filePath: true } }),
+    prisma.book.findMany({
+      where: { coverPath: null },
+      select: {
+        id: true,
+        tracks: { orderBy: { trackNumber: "asc" }, take: 1, select: { filePath: true } },
+      },
+    }),
+  ]);
+
+  const specs: MediaJobSpec[] = [];
+  const audio = [
+    ...tracks.map((t) => ({ entity: "track" as const, ...t })),
+    ...jamTracks.map((jt) => ({ entity: "jamTrack" as const, ...jt })),
+  ];
+
+  for (const row of audio) {
+    const base = { entity: row.entity, entityId: row.id, filePath: row.filePath };
+    if (row.lufs === null) specs.push({ type: "lufs", ...base });
+    if (row.duration <= 0) specs.push({ type: "duration", ...base });
+    if (row.beatOffset === null) specs.push({ type: "tempo", ...base });
+    if (!(await hasFreshWaveformPeaks(path.join(musicPath, row.filePath)))) {
+      specs.push({ type: "waveform", ...base, force: true });
+    }
+  }
+  // Chords follow the beat grid; if the tempo job finishes after them they are
+  // detected again (see runJob)
+  for (const jt of jamTracks) {
+    if (jt._count.chords === 0) {
+      specs.push({ type: "chords", entity: "jamTrack", entityId: jt.id, filePath: jt.filePath });
+    }
+    if (jt.keyConfidence === null) {
+      specs.push({ type: "key", entity: "jamTrack", entityId: jt.id, filePath: jt.filePath });
+    }
+  }
+  for (const video of videos) {
+    specs.push({ type: "duration", entity: "bookVideo", entityId: video.id, filePath: video.filePath });
+  }
+  for (const book of books) {
+    const firstTrack = book.tracks[0];
+    if (firstTrack) {
+      specs.push({ type: "cover", entity: "book", entityId: book.id, filePath: firstTrack.filePath });
+    }
+  }
+
+  return enqueueMediaJobs(specs);
+}
+
+async function resolveJobFile(entity: string, entityId: string): Promise<string | null> {
+  switch (entity) {
+    case "track":
+      return (await prisma.track.findUnique({ where: { id: entityId }, select: { filePath: true } }))?.filePath ?? null;
+    case "jamTrack":
+      return (await prisma.jamTrack.findUnique({ where: { id: entityId }, select: { filePath: true } }))?.filePath ?? null;
+    case "bookVideo":
+      return (await prisma.bookVideo.findUnique({ where: { id: entityId }, select: { filePath: true } }))?.filePath ?? null;
+    default:
+      return null;
+  }
+}
+
+async function runLufsJob(job: ClaimedJob, fullPath: string) {
+  const lufs = await getLufs(fullPath);
+  if (lufs === null) throw new Error("Loudness could not be measured");
+  if (job.entity === "track") {
+    await prisma.track.update({ where: { id: job.entityId }, data: { lufs } });
+  } else {
+    await prisma.jamTrack.update({ where: { id: job.entityId }, data: { lufs } });
+  }
+}
+
+async function runDurationJob(job: ClaimedJob, fullPath: string) {
+  const duration = await getMediaDuration(fullPath);
+  if (!(duration > 0)) throw new Error("ffprobe reported no duration");
+  if (job.entity === "track") {
+    await prisma.track.update({ where: { id: job.entityId }, data: { duration } });
+  } else if (job.entity === "jamTrack") {
+    await prisma.jamTrack.update({ where: { id: job.entityId }, data: { duration } });
+  } else {
+    await prisma.bookVideo.update({ where: { id: job.entityId }, data: { duration } });
+  }
+}
+
+/** Save the first track's embedded art as the book's cover file. No art is not an error. */
+async function runCoverJob(job: ClaimedJob, musicPath: string) {
+  const book = await prisma.book.findUnique({
+    where: { id: job.entityId },
+    include: {
+      author: true,
+      tracks: { orderBy: { trackNumber: "asc" }, take: 1, select: { filePath: true } },
+    },
+  });
+  // Deleted, or a cover was uploaded while the job waited
+  if (!book || book.coverPath || !book.tracks[0]) return;
+
+  const metadata = await mm.parseFile(path.join(musicPath, book.tracks[0].filePath));
+  const picture = metadata.common.picture?.[0];
+  const ext = picture ? COVER_EXTENSIONS[picture.format.toLowerCase()] : undefined;
+  if (!picture || !ext) return;
+
+  const coverRelativePath = path.join(book.author.name, book.name, `cover${ext}`);
+  await fs.mkdir(path.join(musicPath, book.author.name, book.name), { recursive: true });
+  await fs.writeFile(path.join(musicPath, coverRelativePath), picture.data);
+  await prisma.book.update({ where: { id: book.id }, data: { coverPath: coverRelativePath } });
+}
+
+/**
+ * Detect the beat grid of a track or jam track and store it. A hand-entered
+ * tempo is kept unless `replaceTempo` is set; an empty one is filled in.
+ */
+export async function analyzeBeatGrid(entity: "track" | "jamTrack", entityId: string, replaceTempo = false) {
+  const row =
+    entity === "track"
+      ? await prisma.track.findUnique({ where: { id: entityId }, select: { filePath: true, tempo: true, timeSignature: true } })
+      : await prisma.jamTrack.findUnique({ where: { id: entityId }, select: { filePath: true, tempo: true, timeSignature: true } });
+  if (!row) return null;
+
+  const beatsPerBar = parseInt(row.timeSignature.split("/")[0]) || 4;
+  const { bpm, beatOffset } = await detectBeatGrid(path.join(path.resolve(MUSIC_DIR), row.filePath), beatsPerBar);
+  const data = {
+    detectedTempo: bpm,
+    beatOffset,
+    ...((replaceTempo || row.tempo === null) && { tempo: Math.round(bpm) }),
+  };
+  return entity === "track"
+    ? prisma.track.update({ where: { id: entityId }, data })
+    : prisma.jamTrack.update({ where: { id: entityId }, data });
+}
+
+/**
+ * Detect a jam track's chords and replace its chord timeline with them,
+ * changing chords on the beat when the track has a beat grid.
+ */
+export async function analyzeChords(jamTrackId: string) {
+  const jamTrack = await prisma.jamTrack.findUnique({
+    where: { id: jamTrackId },
+    select: { filePath: true, tempo: true, detectedTempo: true, beatOffset: true, timeSignature: true },
+  });
+  if (!jamTrack) return null;
+
+  const chords = await detectChords(path.join(path.resolve(MUSIC_DIR), jamTrack.filePath), getBeatGrid(jamTrack));
+  await prisma.$transaction([
+    prisma.jamTrackChord.deleteMany({ where: { jamTrackId } }),
+    prisma.jamTrackChord.createMany({ data: chords.map((chord) => ({ ...chord, jamTrackId })) }),
+  ]);
+  return prisma.jamTrackChord.findMany({ where: { jamTrackId }, orderBy: { start: "asc" } });
+}
+
+/** Detect a jam track's key. A key set by hand is left as it is. */
+async function runKeyJob(job: ClaimedJob, fullPath: string) {
+  const { rootNote, scaleType, confidence } = await detectKey(fullPath);
+  await prisma.jamTrack.update({
+    where: { id: job.entityId },
+    data: { detectedRootNote: rootNote, detectedScaleType: scaleType, keyConfidence: confidence },
+  });
+}
+
+async function jamTrackHasBeatGrid(jamTrackId: string): Promise<boolean> {
+  const jamTrack = await prisma.jamTrack.findUnique({ where: { id: jamTrackId }, select: { beatOffset: true } });
+  return jamTrack?.beatOffset != null;
+}
+
+async function runJob(job: ClaimedJob) {
+  const musicPath = path.resolve(MUSIC_DIR);
+
+  if (job.type === "cover") {
+    await runCoverJob(job, musicPath);
+    return;
+  }
+  if (job.type === "tempo") {
+    const hadGrid = job.entity === "jamTrack" && (await jamTrackHasBeatGrid(job.entityId));
+    const updated = await analyzeBeatGrid(job.entity as "track" | "jamTrack", job.entityId);
+    // Chords detected before there was a grid go again so they change on the beat
+    if (job.entity === "jamTrack" && updated && !hadGrid) {
+      await enqueueMediaJobs([
+        { type: "chords", entity: "jamTrack", entityId: job.entityId, filePath: updated.filePath, force: true },
+      ]);
+    }
+    return;
+  }
+  if (job.type === "chords") {
+    const hadGrid = await jamTrackHasBeatGrid(job.entityId);
+    await analyzeChords(job.entityId);
+    // The tempo job finished while this one ran, so it couldn't re-queue it
+    if (!hadGrid && (await jamTrackHasBeatGrid(job.entityId))) await analyzeChords(job.entityId);
+    return;
+  }
+
+  // Look the path up now rather than trusting the queued one: the file may have moved
+  const relativePath = await resolveJobFile(job.entity, job.entityId);
+  if (!relativePath) return;
+  const fullPath = path.join(musicPath, relativePath);
+
+  switch (job.type) {
+    case "lufs":
+      return runLufsJob(job, fullPath);
+    case "duration":
+      return runDurationJob(job, fullPath);
+    case "key":
+      return runKeyJob(job, fullPath);
+    case "waveform":
+      await getWaveformPeaks(fullPath);
+      return;
+    default:
+      throw new Error(`Unknown job type: ${job.type}`);
+  }
+}
+
+/** Atomically move the next due job from pending to running. */
+async function claimNextJob(): Promise<ClaimedJob | null> {
+  for (;;) {
+    const next = await prisma.mediaJob.findFirst({
+      where: { status: "pending", runAfter: { lte: new Date() } },
+      orderBy: { createdAt: "asc" },
+    });
+    if (!next) return null;
+
+    const { count } = await prisma.mediaJob.updateMany({
+      where: { id: next.id, status: "pending" },
+      data: { status: "running", startedAt: new Date(), attempts: { increment: 1 } },
+    });
+    if (count === 1) return { ...next, attempts: next.attempts + 1 };
+  }
+}
+
+async function executeJob(state: WorkerState, job: ClaimedJob) {
+  try {
+    await runJob(job);
+    await prisma.mediaJob.update({
+      where: { id: job.id },
+      data: { status: "done", lastError: null, finishedAt: new Date() },
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const giveUp = job.attempts >= MAX_ATTEMPTS;
+    console.error(`Media job ${job.type} for ${job.entity} ${job.entityId} failed (attempt ${job.attempts}):`, message);
+    await prisma.mediaJob
+      .update({
+        where: { id: job.id },
+        data: giveUp
+          ? { status: "failed", lastError: message, finishedAt: new Date() }
+          : {
+              status: "pending",
+              lastError: message,
+              runAfter: new Date(Date.now() + RETRY_BASE_MS * 2 ** (job.attempts - 1)),
+            },
+      })
+      .catch((updateErr) => console.error("Failed to record media job failure:", updateErr));
+  } finally {
+    state.active--;
+    void pump(state);
+  }
+}
+
+/** Start jobs until the concurrency limit is reached, then sleep until the next retry is due. */
+async function pump(state: WorkerState) {
+  if (state.paused) return;
+  // Overlapping pumps could each claim a job and overshoot the limit
+  if (state.pumping) {
+    state.pumpAgain = true;
+    return;
+  }
+  state.pumping = true;
+  state.pumpAgain = false;
+  if (state.timer) {
+    clearTimeout(state.timer);
+    state.timer = null;
+  }
+
+  try {
+    while (state.active < CONCURRENCY && !state.paused) {
+      const job = await claimNextJob();
+      if (!job) break;
+      state.active++;
+      void executeJob(state, job);
+    }
+
+    if (state.active === 0) {
+      const nextRetry = await prisma.mediaJob.findFirst({
+        where: { status: "pending" },
+        orderBy: { runAfter: "asc" },
+        select: { runAfter: true },
+      });
+      if (nextRetry) {
+        const delay = Math.max(1000, nextRetry.runAfter.getTime() - Date.now());
+        state.timer = setTimeout(() => void pump(state), delay);
+      }
+    }
+  } catch (err) {
+    console.error("Media job worker error:", err);
+    state.timer = setTimeout(() => void pump(state), RETRY_BASE_MS);
+  } finally {
+    state.pumping = false;
+    if (state.pumpAgain) void pump(state);
+  }
+}
+
+/**
+ * Start the background worker, or wake it if it's idle. Jobs left `running`
+ * by a previous process that died mid-job are put back in the queue.
+ */
+export function startMediaJobWorker() {
+  const state = workerState();
+  if (state.started) {
+    void pump(state);
+    return;
+  }
+  state.started = true;
+
+  void prisma.mediaJob
+    .updateMany({ where: { status: "running" }, data: { status: "pending" } })
+    .catch((err) => console.error("Failed to requeue interrupted media jobs:", err))
+    .then(() => pump(state));
+}
+
+/**
+ * Stop starting jobs and wait for the running ones to finish. Returns a
+ * function that lets the worker carry on.
+ */
+export async function pauseMediaJobWorker(): Promise<() => void> {
+  const state = workerState();
+  state.paused = true;
+  if (state.timer) {
+    clearTimeout(state.timer);
+    state.timer = null;
+  }
+  while (state.active > 0 || state.pumping) {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  return () => {
+    state.paused = false;
+    if (state.started) void pump(state);
+  };
+}
+
+/** Put failed jobs back in the queue. */
+export async function retryFailedMediaJobs(): Promise<number> {
+  const { count } = await prisma.mediaJob.updateMany({
+    where: { status: "failed" },
+    data: { status: "pending", attempts: 0, lastError: null, runAfter: new Date(), finishedAt: null },
+  });
+  if (count > 0) startMediaJobWorker();
+  return count;
+}
+
+export async function getMediaJobsStatus(): Promise<MediaJobsStatus> {
+  const [grouped, failed] = await Promise.all([
+    prisma.mediaJob.groupBy({ by: ["type", "status"], _count: { _all: true } }),
+    prisma.mediaJob.findMany({
+      where: { status: "failed" },
+      orderBy: { finishedAt: "desc" },
+      take: 50,
+      select: { id: true, type: true, entity: true, filePath: true, attempts: true, lastError: true, finishedAt: true },
+    }),
+  ]);
+
+  const counts = Object.fromEntries(
+    JOB_TYPES.map((type) => [type, Object.fromEntries(JOB_STATUSES.map((status) => [status, 0]))])
+  ) as MediaJobsStatus["counts"];
+  for (const row of grouped) {
+    const byType = counts[row.type as MediaJobType];
+    if (byType && row.status in byType) byType[row.status as MediaJobStatus] = row._count._all;
+  }
+
+  return {
+    concurrency: CONCURRENCY,
+    active: workerState().active,
+    counts,
+    failed: failed.map((job) => ({
+      ...job,
+      type: job.type as MediaJobType,
+      entity: job.entity as MediaJobEntity,
+      finishedAt: job.finishedAt?.toISOString() ?? null,
+    })),
+  };
+}
@@ -0,0 +1,213 @@
+// Media Session API helpers, so headphone buttons, media keys and the lock
+// screen control whichever player is active. The session is global while
+// several players can be mounted at once, so each player claims it and only
+// the most recent claim writes to it. Browsers without the API (or without a
+// given action) are silently ignored.
+
+export interface MediaSessionInfo {
+  title: string;
+  /** Book name, shown as the album. */
+  album?: string | null;
+  /** Author name, shown as the artist. */
+  artist?: string | null;
+  artworkUrl?: string | null;
+}
+
+export interface MediaSessionHandlers {
+  play: () => void;
+  pause: () => void;
+  seekTo: (time: number) => void;
+  /** Relative seek in seconds, negative to go back. */
+  seekBy: (offset: number) => void;
+  next: () => void;
+  previous: () => void;
+}
+
+/** Seconds the skip backward/forward actions move when the browser doesn't say. */
+const DEFAULT_SEEK_OFFSET = 10;
+/** Past this many seconds into a section, "previous" restarts it instead of going back one. */
+const PREVIOUS_RESTART_WINDOW = 2;
+
+export function hasMediaSession(): boolean {
+  return typeof navigator !== "undefined" && "mediaSession" in navigator;
+}
+
+function setMediaSessionMetadata(info: MediaSessionInfo | null): void {
+  if (!hasMediaSession()) return;
+  if (!info || typeof MediaMetadata === "undefined") {
+    navigator.mediaSession.metadata = null;
+    return;
+  }
+  navigator.mediaSession.metadata = new MediaMetadata({
+    title: info.title,
+    album: info.album ?? undefined,
+    artist: info.artist ?? undefined,
+    artwork: info.artworkUrl ? [{ src: new URL(info.artworkUrl, window.location.href).href }] : [],
+  });
+}
+
+function setMediaSessionPlaybackState(state: MediaSessionPlaybackState): void {
+  if (!hasMediaSession()) return;
+  navigator.mediaSession.playbackState = state;
+}
+
+function setMediaSessionPosition(duration: number, position: number, playbackRate: number): void {
+  if (!hasMediaSession() || !navigator.mediaSession.setPositionState) return;
+  try {
+    if (!(duration > 0) || !(playbackRate > 0)) {
+      navigator.mediaSession.setPositionState();
+      return;
+    }
+    navigator.mediaSession.setPositionState({
+      duration,
+      position: Math.min(duration, Math.max(0, position)),
+      playbackRate,
+    });
+  } catch {
+    // Rejected states (e.g. while the duration is still unknown) keep the old one
+  }
+}
+
+/** Register action handlers; returns a function that removes them. */
+function setMediaSessionHandlers(handlers: MediaSessionHandlers): () => void {
+  if (!hasMediaSession()) return () => {};
+  const session = navigator.mediaSession;
+  const actions: [MediaSessionAction, MediaSessionActionHandler][] = [
+    ["play", () => handlers.play()],
+    ["pause", () => handlers.pause()],
+    ["stop", () => handlers.pause()],
+    ["seekto", (details) => {
+      if (details.seekTime != null) handlers.seekTo(details.seekTime);
+    }],
+    ["seekbackward", (details) => handlers.seekBy(-(details.seekOffset ?? DEFAULT_SEEK_OFFSET))],
+    ["seekforward", (details) => handlers.seekBy(details.seekOffset ?? DEFAULT_SEEK_OFFSET)],
+    ["nexttrack", () => handlers.next()],
+    ["previoustrack", () => handlers.previous()],
+  ];
+
+  const registered: MediaSessionAction[] = [];
+  for (const [action, handler] of actions) {
+    try {
+      session.setActionHandler(action, handler);
+      registered.push(action);
+    } catch {
+      // Action not supported by this browser
+    }
+  }
+  return () => {
+    for (const action of registered) {
+      try { session.setActionHandler(action, null); } catch { /* ignore */ }
+    }
+  };
+}
+
+/** A player's hold on the media session, from claimMediaSession. */
+export interface MediaSessionClaim {
+  setMetadata: (info: MediaSessionInfo | null) => void;
+  /** Reporting "playing" hands the session back to this player if another took it. */
+  setPlaybackState: (state: MediaSessionPlaybackState) => void;
+  /**
+   * Tell the browser where playback is so the lock screen scrubber follows it.
+   * Call on load, play/pause, seeks and speed changes; the browser extrapolates
+   * in between from the rate.
+   */
+  setPosition: (duration: number, position: number, playbackRate: number) => void;
+  release: () => void;
+}
+
+interface Registration {
+  handlers: MediaSessionHandlers;
+  info: MediaSessionInfo | null;
+  state: MediaSessionPlaybackState;
+  position: { duration: number; position: number; playbackRate: number; reportedAt: number } | null;
+}
+
+// Claims in the order they were made; the last one owns the session
+const registrations: Registration[] = [];
+let removeOwnerHandlers: () => void = () => {};
+
+function applyRegistration(registration: Registration | undefined): void {
+  removeOwnerHandlers();
+  removeOwnerHandlers = () => {};
+  if (!registration) {
+    setMediaSessionMetadata(null);
+    setMediaSessionPlaybackState("none");
+    setMediaSessionPosition(0, 0, 0);
+    return;
+  }
+  removeOwnerHandlers = setMediaSessionHandlers(registration.handlers);
+  setMediaSessionMetadata(registration.info);
+  setMediaSessionPlaybackState(registration.state);
+  const reported = registration.position;
+  if (!reported) {
+    setMediaSessionPosition(0, 0, 0);
+    return;
+  }
+  // Carry a playing player's last report forward to now
+  const elapsed = registration.state === "playing" ? (Date.now() - reported.reportedAt) / 1000 : 0;
+  setMediaSessionPosition(reported.duration, reported.position + elapsed * reported.playbackRate, reported.playbackRate);
+}
+
+/**
+ * Take over the media session, routing media keys to `handlers`. Whoever
+ * claimed before keeps its metadata and position on record and gets the
+ * session back, as it last reported it, when this claim is released.
+ */
+export function claimMediaSession(handlers: MediaSessionHandlers): MediaSessionClaim {
+  const registration: Registration = { handlers, info: null, state: "none", position: null };
+  registrations.push(registration);
+  applyRegistration(registration);
+
+  const isOwner = () => registrations[registrations.length - 1] === registration;
+
+  return {
+    setMetadata: (info) => {
+      registration.info = info;
+      if (isOwner()) setMediaSessionMetadata(info);
+    },
+    setPlaybackState: (state) => {
+      registration.state = state;
+      if (isOwner()) {
+        setMediaSessionPlaybackState(state);
+      } else if (state === "playing" && registrations.includes(registration)) {
+        registrations.splice(registrations.indexOf(registration), 1);
+        registrations.push(registration);
+        applyRegistration(registration);
+      }
+    },
+    setPosition: (duration, position, playbackRate) => {
+      registration.position = { duration, position, playbackRate, reportedAt: Date.now() };
+      if (isOwner()) setMediaSessionPosition(duration, position, playbackRate);
+    },
+    release: () => {
+      const index = registrations.indexOf(registration);
+      if (index === -1) return;
+      const wasOwner = isOwner();
+      registrations.splice(index, 1);
+      if (wasOwner) applyRegistration(registrations[registrations.length - 1]);
+    },
+  };
+}
+
+/**
+ * Where next/previous should go among a recording's markers: the next marker
+ * after the playhead, or the start of the current section (the previous
+ * marker when just past its start). "end" means there is no later marker and
+ * "start" that previous has nothing earlier to go to, so the caller can move
+ * to the next or previous track instead.
+ */
+export function markerSkipTarget(
+  markerTimes: number[],
+  currentTime: number,
+  direction: "next" | "previous"
+): number | "start" | "end" {
+  const times = [...markerTimes].sort((a, b) => a - b);
+  if (direction === "next") {
+    // Small tolerance so a marker just jumped to doesn't count as "next"
+    const next = times.find((t) => t > currentTime + 0.5);
+    return next ?? "end";
+  }
+  const earlier = times.filter((t) => t < currentTime - PREVIOUS_RESTART_WINDOW);
+  if (earlier.length > 0) return earlier[earlier.length - 1];
+  return currentTime > PREVIOUS_RESTART_WINDOW ? 0 : "start";
+}
@@ -341,6 +341,42 @@ export function getDiatonicChords(
   return { chords, parentScale };
 }
 
+// ---------------------------------------------------------------------------
+// Scales for soloing over a key
+// ---------------------------------------------------------------------------
+
+/** A scale on the key's tonic that fits the key. */
+export interface ScaleSuggestion {
+  scaleType: ScaleType;
+  /** Scale notes that fall outside the key (0 or 1). */
+  outsideNotes: number;
+}
+
+/**
+ * Scales from SCALE_FORMULAS to solo with over a key: built on the same tonic
+ * with the same third, and at most one note outside the key. Scales wholly
+ * inside the key come first, smaller (easier) scales before larger ones.
+ * @param scaleType - the key's scale, e.g. "Major" or "Minor"
+ */
+export function suggestScalesForKey(scaleType: string): ScaleSuggestion[] {
+  const keyIntervals = SCALE_FORMULAS[scaleType]?.intervals ?? [];
+  if (keyIntervals.length === 0) return [];
+  const hasMajorThird = keyIntervals.includes(4);
+
+  return Object.entries(SCALE_FORMULAS)
+    .filter(([, { intervals }]) => intervals.length > 0 && intervals.includes(hasMajorThird ? 4 : 3))
+    .map(([name, { intervals }]) => ({
+      scaleType: name,
+      outsideNotes: intervals.filter((i) => !keyIntervals.includes(i)).length,
+    }))
+    .filter((s) => s.outsideNotes <= 1)
+    .sort(
+      (a, b) =>
+        a.outsideNotes - b.outsideNotes ||
+        SCALE_FORMULAS[a.scaleType].intervals.length - SCALE_FORMULAS[b.scaleType].intervals.length
+    );
+}
+
 /**
  * Check whether a note belongs to a given scale.
  * When scaleType is "None" or unrecognized, returns true (all notes pass).
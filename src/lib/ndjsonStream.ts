@@ -5,19 +5,30 @@ export type NdjsonSend = (obj: unknown) => void;
  * enqueues one JSON object per line. The stream closes when `run` settles.
  * Errors thrown inside `run` should be sent as a final `{type:"error"}` line
  * by the caller before returning (the stream cannot change HTTP status once open).
+ *
+ * `signal` aborts when the client goes away (fetch aborted, tab closed); long
+ * runs should check it and stop early. `send` is a no-op after that point.
  */
-export function ndjsonStreamResponse(run: (send: NdjsonSend) => Promise<void>): Response {
+export function ndjsonStreamResponse(
+  run: (send: NdjsonSend, signal: AbortSignal) => Promise<void>,
+): Response {
   const encoder = new TextEncoder();
+  const abort = new AbortController();
   const stream = new ReadableStream({
     async start(controller) {
-      const send: NdjsonSend = (obj) =>
+      const send: NdjsonSend = (obj) => {
+        if (abort.signal.aborted) return;
         controller.enqueue(encoder.encode(JSON.stringify(obj) + "\n"));
+      };
       try {
-        await run(send);
+        await run(send, abort.signal);
       } finally {
-        controller.close();
+        if (!abort.signal.aborted) controller.close();
       }
     },
+    cancel() {
+      abort.abort();
+    },
   });
   return new Response(stream, {
     headers: {
@@ -27,3 +38,33 @@ export function ndjsonStreamResponse(run: (send: NdjsonSend) => Promise<void>):
     },
   });
 }
+
+/**
+ * Read an NDJSON response body line by line, calling `onMessage` with each
+ * parsed object. Resolves when the stream ends; rejects if the fetch was aborted.
+ */
+export async function readNdjson<T>(res: Response, onMessage: (msg: T) => void): Promise<void> {
+  if (!res.body) throw new Error("Stream had no body");
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const handleLine = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+    onMessage(JSON.parse(trimmed) as T);
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let idx: number;
+    while ((idx = buffer.indexOf("\n")) >= 0) {
+      handleLine(buffer.slice(0, idx));
+      buffer = buffer.slice(idx + 1);
+    }
+  }
+  if (buffer.trim()) handleLine(buffer);
+}
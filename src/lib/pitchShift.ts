@@ -0,0 +1,52 @@
+// Pitch shifting for Web Audio graphs, via the AudioWorklet in
+// public/pitch-shift-processor.js. Works alongside HTMLMediaElement speed
+// changes (which keep pitch), so speed and key can be set independently.
+
+const WORKLET_URL = "/pitch-shift-processor.js";
+const PROCESSOR_NAME = "pitch-shift-processor";
+
+/** One octave either way; the processor's pitchRatio range is 0.5–2. */
+export const MAX_TRANSPOSE_CENTS = 1200;
+
+// addModule only needs to run once per context
+const moduleLoads = new WeakMap<BaseAudioContext, Promise<void>>();
+
+export function centsToPitchRatio(cents: number): number {
+  return Math.pow(2, cents / 1200);
+}
+
+export function clampTransposeCents(cents: number): number {
+  return Math.max(-MAX_TRANSPOSE_CENTS, Math.min(MAX_TRANSPOSE_CENTS, Math.round(cents)));
+}
+
+/** "+2", "-1", "+1 +25¢", "0". */
+export function formatTranspose(cents: number): string {
+  if (cents === 0) return "0";
+  const semitones = Math.trunc(cents / 100);
+  const rest = cents - semitones * 100;
+  const parts: string[] = [];
+  if (semitones !== 0) parts.push(`${semitones > 0 ? "+" : ""}${semitones}`);
+  if (rest !== 0) parts.push(`${rest > 0 ? "+" : ""}${rest}¢`);
+  return parts.join(" ");
+}
+
+/** Create a pitch shift node on `ctx`, loading the worklet module the first time. */
+export async function createPitchShiftNode(ctx: AudioContext, cents: number = 0): Promise<AudioWorkletNode> {
+  let load = moduleLoads.get(ctx);
+  if (!load) {
+    load = ctx.audioWorklet.addModule(WORKLET_URL);
+    moduleLoads.set(ctx, load);
+    // Let a failed load be retried on the next call
+    load.catch(() => moduleLoads.delete(ctx));
+  }
+  await load;
+
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, { outputChannelCount: [2] });
+  setPitchShiftCents(node, cents);
+  return node;
+}
+
+export function setPitchShiftCents(node: AudioWorkletNode, cents: number): void {
+  const param = node.parameters.get("pitchRatio");
+  param?.setValueAtTime(centsToPitchRatio(clampTransposeCents(cents)), node.context.currentTime);
+}
@@ -0,0 +1,207 @@
+// Tone shaping for the player's Web Audio graph: a four-band parametric EQ,
+// mid/side levels to pull out or isolate what's panned to the center, and
+// left/right channel solo. Saved per track as JSON in `toneSettings`.
+
+export type EqBandType = "lowshelf" | "peaking" | "highshelf";
+export type ChannelSolo = "both" | "left" | "right";
+
+export interface EqBand {
+  type: EqBandType;
+  /** Hz */
+  frequency: number;
+  /** dB */
+  gain: number;
+  q: number;
+}
+
+export interface ToneSettings {
+  /** Always four bands: low shelf, two peaks, high shelf. */
+  eq: EqBand[];
+  /** Level of the center (mid) signal, 0–1; lower it to cancel a centered part. */
+  center: number;
+  /** Level of the sides, 0–1; zero leaves only the center. */
+  sides: number;
+  channel: ChannelSolo;
+}
+
+export const EQ_GAIN_RANGE = 18;
+const BAND_TYPES: EqBandType[] = ["lowshelf", "peaking", "peaking", "highshelf"];
+const CHANNELS: ChannelSolo[] = ["both", "left", "right"];
+
+const FLAT_EQ: EqBand[] = [
+  { type: "lowshelf", frequency: 120, gain: 0, q: 0.7 },
+  { type: "peaking", frequency: 500, gain: 0, q: 1 },
+  { type: "peaking", frequency: 2500, gain: 0, q: 1 },
+  { type: "highshelf", frequency: 6000, gain: 0, q: 0.7 },
+];
+
+export const DEFAULT_TONE_SETTINGS: ToneSettings = {
+  eq: FLAT_EQ,
+  center: 1,
+  sides: 1,
+  channel: "both",
+};
+
+export interface EqPreset {
+  id: string;
+  label: string;
+  eq: EqBand[];
+}
+
+export const EQ_PRESETS: EqPreset[] = [
+  { id: "flat", label: "Flat", eq: FLAT_EQ },
+  {
+    id: "guitarFocus",
+    label: "Guitar focus",
+    eq: [
+      { type: "lowshelf", frequency: 150, gain: -9, q: 0.7 },
+      { type: "peaking", frequency: 400, gain: -2, q: 1 },
+      { type: "peaking", frequency: 2000, gain: 6, q: 0.9 },
+      { type: "highshelf", frequency: 7000, gain: -6, q: 0.7 },
+    ],
+  },
+  {
+    id: "cutBass",
+    label: "Cut bass",
+    eq: [
+      { type: "lowshelf", frequency: 200, gain: -18, q: 0.7 },
+      { type: "peaking", frequency: 500, gain: 0, q: 1 },
+      { type: "peaking", frequency: 2500, gain: 0, q: 1 },
+      { type: "highshelf", frequency: 6000, gain: 0, q: 0.7 },
+    ],
+  },
+  {
+    id: "cutHighs",
+    label: "Cut highs",
+    eq: [
+      { type: "lowshelf", frequency: 120, gain: 0, q: 0.7 },
+      { type: "peaking", frequency: 500, gain: 0, q: 1 },
+      { type: "peaking", frequency: 2500, gain: 0, q: 1 },
+      { type: "highshelf", frequency: 3500, gain: -18, q: 0.7 },
+    ],
+  },
+];
+
+function clampNumber(value: unknown, min: number, max: number, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+}
+
+/**
+ * Read stored tone settings, clamping values into range. Null for missing or
+ * malformed JSON.
+ */
+export function parseToneSettings(value: string | null | undefined): ToneSettings | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    if (!parsed || !Array.isArray(parsed.eq) || parsed.eq.length !== BAND_TYPES.length) return null;
+    return {
+      eq: BAND_TYPES.map((type, i) => {
+        const band = parsed.eq[i] ?? {};
+        return {
+          type,
+          frequency: clampNumber(band.frequency, 20, 20000, FLAT_EQ[i].frequency),
+          gain: clampNumber(band.gain, -EQ_GAIN_RANGE, EQ_GAIN_RANGE, 0),
+          q: clampNumber(band.q, 0.1, 18, FLAT_EQ[i].q),
+        };
+      }),
+      center: clampNumber(parsed.center, 0, 1, 1),
+      sides: clampNumber(parsed.sides, 0, 1, 1),
+      channel: CHANNELS.includes(parsed.channel) ? parsed.channel : "both",
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function isFlatEq(eq: EqBand[]): boolean {
+  return eq.every((band) => band.gain === 0);
+}
+
+export function isDefaultTone(settings: ToneSettings): boolean {
+  return isFlatEq(settings.eq) && settings.center === 1 && settings.sides === 1 && settings.channel === "both";
+}
+
+/** JSON to store for a track, or null when the settings change nothing. */
+export function serializeToneSettings(settings: ToneSettings): string | null {
+  return isDefaultTone(settings) ? null : JSON.stringify(settings);
+}
+
+export interface ToneChain {
+  input: AudioNode;
+  output: AudioNode;
+  filters: BiquadFilterNode[];
+  /** Channel matrix gains: L→L, R→L, L→R, R→R. */
+  matrix: GainNode[];
+}
+
+/**
+ * Build the EQ and channel matrix: input → four filters → splitter →
+ * matrix gains → merger → output. Call applyToneSettings to change it.
+ */
+export function createToneChain(ctx: BaseAudioContext, settings: ToneSettings = DEFAULT_TONE_SETTINGS): ToneChain {
+  const filters = BAND_TYPES.map((type) => {
+    const filter = ctx.createBiquadFilter();
+    filter.type = type;
+    return filter;
+  });
+  for (let i = 1; i < filters.length; i++) filters[i - 1].connect(filters[i]);
+
+  // Upmix mono files so both sides of the matrix carry signal
+  const splitter = ctx.createChannelSplitter(2);
+  splitter.channelCount = 2;
+  splitter.channelCountMode = "explicit";
+  splitter.channelInterpretation = "speakers";
+  const merger = ctx.createChannelMerger(2);
+  filters[filters.length - 1].connect(splitter);
+
+  const matrix = [0, 1, 2, 3].map(() => ctx.createGain());
+  splitter.connect(matrix[0], 0);
+  matrix[0].connect(merger, 0, 0);
+  splitter.connect(matrix[1], 1);
+  matrix[1].connect(merger, 0, 0);
+  splitter.connect(matrix[2], 0);
+  matrix[2].connect(merger, 0, 1);
+  splitter.connect(matrix[3], 1);
+  matrix[3].connect(merger, 0, 1);
+
+  const chain = { input: filters[0], output: merger, filters, matrix };
+  applyToneSettings(chain, settings, true);
+  return chain;
+}
+
+/** Update the chain in place, gliding gains so changes don't click. */
+export function applyToneSettings(chain: ToneChain, settings: ToneSettings, immediate = false): void {
+  const now = chain.input.context.currentTime;
+  const set = (param: AudioParam, value: number) => {
+    if (immediate) param.value = value;
+    else param.setTargetAtTime(value, now, 0.02);
+  };
+
+  settings.eq.forEach((band, i) => {
+    const filter = chain.filters[i];
+    set(filter.frequency, band.frequency);
+    set(filter.gain, band.gain);
+    set(filter.Q, band.q);
+  });
+
+  // Mid/side: L' = pL + qR, R' = qL + pR, then solo copies one side to both
+  const p = (settings.center + settings.sides) / 2;
+  const q = (settings.center - settings.sides) / 2;
+  const [leftToLeft, rightToLeft, leftToRight, rightToRight] =
+    settings.channel === "left"
+      ? [p, q, p, q]
+      : settings.channel === "right"
+        ? [q, p, q, p]
+        : [p, q, q, p];
+  set(chain.matrix[0].gain, leftToLeft);
+  set(chain.matrix[1].gain, rightToLeft);
+  set(chain.matrix[2].gain, leftToRight);
+  set(chain.matrix[3].gain, rightToRight);
+}
+
+export function disconnectToneChain(chain: ToneChain): void {
+  for (const node of [...chain.filters, ...chain.matrix, chain.output]) {
+    try { node.disconnect(); } catch { /* ignore */ }
+  }
+}
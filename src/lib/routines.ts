@@ -0,0 +1,170 @@
+import type { RoutineBlock, RoutineBlockKind, RoutineTool } from "@/types";
+import { NOTES, SCALE_FORMULAS } from "@/lib/musicTheory";
+
+export const ROUTINE_BLOCK_KINDS: RoutineBlockKind[] = ["track", "jamTrack", "chapter", "bookVideo", "video", "metronome", "tool"];
+export const ROUTINE_TOOLS: RoutineTool[] = ["fretboard", "noteTrainer", "exercise", "chords", "circle", "caged"];
+
+export const ROUTINE_BLOCK_KIND_LABELS: Record<RoutineBlockKind, string> = {
+  track: "Track",
+  jamTrack: "Jam track",
+  chapter: "Book chapter",
+  bookVideo: "Book video",
+  video: "Video",
+  metronome: "Metronome",
+  tool: "Tool",
+};
+
+export const ROUTINE_TOOL_LABELS: Record<RoutineTool, string> = {
+  fretboard: "Scale Explorer",
+  noteTrainer: "Note Trainer",
+  exercise: "Practice exercise",
+  chords: "Chord Builder",
+  circle: "Circle of 5ths",
+  caged: "CAGED System",
+};
+
+// The id column each library kind points at
+const TARGET_KEYS: Partial<Record<RoutineBlockKind, "trackId" | "jamTrackId" | "chapterId" | "bookVideoId" | "videoId">> = {
+  track: "trackId",
+  jamTrack: "jamTrackId",
+  chapter: "chapterId",
+  bookVideo: "bookVideoId",
+  video: "videoId",
+};
+
+const MAX_BLOCK_SECONDS = 4 * 60 * 60;
+
+export interface RoutineBlockInput {
+  kind: RoutineBlockKind;
+  label?: string | null;
+  durationSeconds: number;
+  trackId?: string | null;
+  jamTrackId?: string | null;
+  chapterId?: string | null;
+  bookVideoId?: string | null;
+  videoId?: string | null;
+  tool?: RoutineTool | null;
+  rootNote?: string | null;
+  scaleType?: string | null;
+  bpm?: number | null;
+  timeSignature?: string | null;
+}
+
+/** What a block does, for lists and the runner. */
+export function describeRoutineBlock(block: RoutineBlock): string {
+  if (block.label) return block.label;
+  if (block.kind === "metronome") return `Metronome at ${block.bpm} BPM`;
+  if (block.kind === "tool" && block.tool) {
+    const key = block.rootNote && block.scaleType && block.scaleType !== "None" ? ` - ${block.rootNote} ${block.scaleType}` : "";
+    return ROUTINE_TOOL_LABELS[block.tool] + key;
+  }
+  return block.targetTitle ?? ROUTINE_BLOCK_KIND_LABELS[block.kind];
+}
+
+/** Page a tool block opens, with its key and scale for the scale tools. */
+export function routineToolUrl(block: RoutineBlock): string {
+  const params = new URLSearchParams();
+  if (block.tool === "fretboard" || block.tool === "exercise") {
+    if (block.rootNote) params.set("key", block.rootNote);
+    if (block.scaleType) params.set("scale", block.scaleType);
+  }
+  if (block.tool === "noteTrainer") params.set("mode", "trainer");
+  if (block.tool === "exercise") params.set("mode", "exercise");
+  const section = block.tool === "chords" || block.tool === "circle" || block.tool === "caged" ? block.tool : "fretboard";
+  const query = params.toString();
+  return query ? `/${section}?${query}` : `/${section}`;
+}
+
+/** Why a block can't be saved, or null when it's valid. */
+export function routineBlockError(block: RoutineBlockInput): string | null {
+  if (!block || !ROUTINE_BLOCK_KINDS.includes(block.kind)) {
+    return `kind must be one of ${ROUTINE_BLOCK_KINDS.join(", ")}`;
+  }
+  if (!Number.isInteger(block.durationSeconds) || block.durationSeconds < 1 || block.durationSeconds > MAX_BLOCK_SECONDS) {
+    return "durationSeconds must be a whole number of seconds, at most 4 hours";
+  }
+  const targetKey = TARGET_KEYS[block.kind];
+  if (targetKey && !block[targetKey]) return `${block.kind} blocks need a ${targetKey}`;
+  if (block.kind === "tool" && (!block.tool || !ROUTINE_TOOLS.includes(block.tool))) {
+    return `tool must be one of ${ROUTINE_TOOLS.join(", ")}`;
+  }
+  if (block.kind === "metronome" && block.bpm == null) return "metronome blocks need a bpm";
+  if (block.bpm != null && (!Number.isInteger(block.bpm) || block.bpm < 20 || block.bpm > 300)) {
+    return "bpm must be between 20 and 300";
+  }
+  if (block.rootNote != null && !(NOTES as readonly string[]).includes(block.rootNote)) {
+    return "rootNote must be a note name";
+  }
+  if (block.scaleType != null && !(block.scaleType in SCALE_FORMULAS)) {
+    return "scaleType must be a known scale";
+  }
+  return null;
+}
+
+/** Columns to store for a block; ids that don't belong to its kind are dropped. */
+export function routineBlockData(block: RoutineBlockInput, sortOrder: number) {
+  const targetKey = TARGET_KEYS[block.kind];
+  return {
+    sortOrder,
+    kind: block.kind,
+    label: block.label?.trim() || null,
+    durationSeconds: block.durationSeconds,
+    trackId: targetKey === "trackId" ? block.trackId : null,
+    jamTrackId: targetKey === "jamTrackId" ? block.jamTrackId : null,
+    chapterId: targetKey === "chapterId" ? block.chapterId : null,
+    bookVideoId: targetKey === "bookVideoId" ? block.bookVideoId : null,
+    videoId: targetKey === "videoId" ? block.videoId : null,
+    tool: block.kind === "tool" ? block.tool : null,
+    rootNote: block.rootNote ?? null,
+    scaleType: block.scaleType ?? null,
+    bpm: block.bpm ?? null,
+    timeSignature: block.bpm != null ? block.timeSignature || "4/4" : null,
+  };
+}
+
+/** Prisma include that loads what the runner needs to open each block. */
+export const routineInclude = {
+  blocks: {
+    orderBy: { sortOrder: "asc" as const },
+    include: {
+      track: { select: { title: true, bookId: true, book: { select: { authorId: true } } } },
+      jamTrack: { select: { title: true } },
+      chapter: {
+        select: {
+          name: true,
+          bookId: true,
+          book: { select: { authorId: true } },
+          tracks: { select: { id: true }, orderBy: { trackNumber: "asc" as const }, take: 1 },
+        },
+      },
+      bookVideo: { select: { title: true, filename: true, bookId: true, book: { select: { authorId: true } } } },
+      video: { select: { title: true } },
+    },
+  },
+};
+
+interface LoadedBlock {
+  track: { title: string; bookId: string; book: { authorId: string } } | null;
+  jamTrack: { title: string } | null;
+  chapter: { name: string; bookId: string; book: { authorId: string }; tracks: { id: string }[] } | null;
+  bookVideo: { title: string | null; filename: string; bookId: string; book: { authorId: string } } | null;
+  video: { title: string } | null;
+}
+
+/** Flatten a block's loaded target into the fields the client reads. */
+export function serializeRoutineBlock<T extends LoadedBlock>(block: T) {
+  const { track, jamTrack, chapter, bookVideo, video, ...rest } = block;
+  const inBook = track ?? chapter ?? bookVideo;
+  return {
+    ...rest,
+    targetTitle:
+      track?.title ?? jamTrack?.title ?? chapter?.name ?? (bookVideo ? bookVideo.title || bookVideo.filename : null) ?? video?.title ?? null,
+    authorId: inBook?.book.authorId ?? null,
+    bookId: inBook?.bookId ?? null,
+    firstTrackId: chapter?.tracks[0]?.id ?? null,
+  };
+}
+
+export function serializeRoutine<T extends { blocks: LoadedBlock[] }>(routine: T) {
+  return { ...routine, blocks: routine.blocks.map(serializeRoutineBlock) };
+}
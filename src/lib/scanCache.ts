@@ -0,0 +1,230 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { createReadStream } from "fs";
+import { createHash } from "crypto";
+import { prisma } from "@/lib/prisma";
+
+/** Which scanner produced a cache entry; the shape of `metadata` depends on it. */
+export type LibraryFileKind = "track" | "jamTrack" | "video";
+
+/**
+ * How a file compares to the last scan:
+ * - `unchanged`: same size/mtime, or same content hash after a touch
+ * - `moved`: a new path whose content matches a file that disappeared
+ * - `changed` / `added`: needs a fresh metadata parse
+ */
+export type FileChangeStatus = "added" | "changed" | "unchanged" | "moved";
+
+export interface FileCheck<T> {
+  status: FileChangeStatus;
+  /** Cached metadata when it can be reused; null when the caller must re-parse. */
+  metadata: T | null;
+  /** Previous relative path for `moved` files. */
+  movedFrom: string | null;
+}
+
+export interface ScanCacheStats {
+  added: number;
+  changed: number;
+  unchanged: number;
+  moved: number;
+  removed: number;
+}
+
+export interface FileMove {
+  kind: LibraryFileKind;
+  from: string;
+  to: string;
+}
+
+interface CacheEntry {
+  filePath: string;
+  kind: LibraryFileKind;
+  size: number;
+  mtimeMs: number;
+  hash: string;
+  metadata: string;
+}
+
+export interface ScanCache {
+  /** Compare a file on disk against the cache. Stats and (if needed) hashes it. */
+  check<T>(kind: LibraryFileKind, relativePath: string, fullPath: string): Promise<FileCheck<T>>;
+  /** Store freshly parsed metadata for a file previously passed to `check`. */
+  record<T>(kind: LibraryFileKind, relativePath: string, metadata: T): void;
+  /** Re-stat and re-hash a file the scan itself modified (tag rewrite, rename). */
+  refresh(relativePath: string, fullPath: string, newRelativePath?: string): Promise<void>;
+  /** Paths that were added, changed or moved during this scan. */
+  dirtyPaths(): Set<string>;
+  moves(): FileMove[];
+  /** Persist updated entries and drop entries for files no longer seen. */
+  commit(): Promise<ScanCacheStats>;
+}
+
+/** SHA-1 of the file contents, streamed so large videos don't load into memory. */
+export function hashFile(fullPath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash("sha1");
+    const stream = createReadStream(fullPath);
+    stream.on("data", (chunk) => hash.update(chunk));
+    stream.on("error", reject);
+    stream.on("end", () => resolve(hash.digest("hex")));
+  });
+}
+
+/**
+ * Load the per-file change cache for a library scan. With `full` set, every
+ * file is reported as added/changed so the caller re-parses it, but hashes are
+ * still recorded so the next incremental scan can skip unchanged files.
+ */
+export async function loadScanCache(musicPath: string, full: boolean = false): Promise<ScanCache> {
+  const rows = await prisma.libraryFile.findMany();
+  const byPath = new Map<string, CacheEntry>();
+  const byHash = new Map<string, CacheEntry[]>();
+
+  for (const row of rows) {
+    const entry: CacheEntry = {
+      filePath: row.filePath,
+      kind: row.kind as LibraryFileKind,
+      size: row.size,
+      mtimeMs: row.mtimeMs,
+      hash: row.hash,
+      metadata: row.metadata,
+    };
+    byPath.set(entry.filePath, entry);
+    const sameHash = byHash.get(entry.hash) ?? [];
+    sameHash.push(entry);
+    byHash.set(entry.hash, sameHash);
+  }
+
+  const seen = new Set<string>();
+  const dirty = new Set<string>();
+  const consumed = new Set<string>();
+  const pending = new Map<string, CacheEntry>();
+  const updated = new Map<string, CacheEntry>();
+  const moveList: FileMove[] = [];
+  const stats: ScanCacheStats = { added: 0, changed: 0, unchanged: 0, moved: 0, removed: 0 };
+
+  async function findMoveSource(kind: LibraryFileKind, hash: string): Promise<CacheEntry | null> {
+    for (const candidate of byHash.get(hash) ?? []) {
+      if (candidate.kind !== kind || seen.has(candidate.filePath) || consumed.has(candidate.filePath)) {
+        continue;
+      }
+      try {
+        await fs.access(path.join(musicPath, candidate.filePath));
+      } catch {
+        return candidate;
+      }
+    }
+    return null;
+  }
+
+  return {
+    async check<T>(kind: LibraryFileKind, relativePath: string, fullPath: string): Promise<FileCheck<T>> {
+      seen.add(relativePath);
+      const stat = await fs.stat(fullPath);
+      const entry = byPath.get(relativePath);
+
+      if (!full && entry && entry.kind === kind && entry.size === stat.size && entry.mtimeMs === stat.mtimeMs) {
+        stats.unchanged++;
+        return { status: "unchanged", metadata: JSON.parse(entry.metadata) as T, movedFrom: null };
+      }
+
+      const hash = await hashFile(fullPath);
+      const next: CacheEntry = {
+        filePath: relativePath,
+        kind,
+        size: stat.size,
+        mtimeMs: stat.mtimeMs,
+        hash,
+        metadata: entry?.metadata ?? "null",
+      };
+
+      if (!full && entry && entry.kind === kind && entry.hash === hash) {
+        // Touched but identical content: keep the metadata, remember the new stat
+        updated.set(relativePath, next);
+        stats.unchanged++;
+        return { status: "unchanged", metadata: JSON.parse(entry.metadata) as T, movedFrom: null };
+      }
+
+      if (!entry) {
+        const source = await findMoveSource(kind, hash);
+        if (source) {
+          consumed.add(source.filePath);
+          moveList.push({ kind, from: source.filePath, to: relativePath });
+          dirty.add(relativePath);
+          stats.moved++;
+          if (!full) {
+            updated.set(relativePath, { ...next, metadata: source.metadata });
+            return { status: "moved", metadata: JSON.parse(source.metadata) as T, movedFrom: source.filePath };
+          }
+          pending.set(relativePath, next);
+          return { status: "moved", metadata: null, movedFrom: source.filePath };
+        }
+      }
+
+      pending.set(relativePath, next);
+      dirty.add(relativePath);
+      if (entry) stats.changed++;
+      else stats.added++;
+      return { status: entry ? "changed" : "added", metadata: null, movedFrom: null };
+    },
+
+    record<T>(kind: LibraryFileKind, relativePath: string, metadata: T) {
+      const entry = pending.get(relativePath);
+      if (!entry) return;
+      pending.delete(relativePath);
+      updated.set(relativePath, { ...entry, kind, metadata: JSON.stringify(metadata) });
+    },
+
+    async refresh(relativePath: string, fullPath: string, newRelativePath?: string) {
+      const entry = updated.get(relativePath) ?? byPath.get(relativePath);
+      if (!entry) return;
+      const targetPath = newRelativePath ?? relativePath;
+      try {
+        const stat = await fs.stat(fullPath);
+        const hash = await hashFile(fullPath);
+        if (targetPath !== relativePath) {
+          updated.delete(relativePath);
+          seen.delete(relativePath);
+          consumed.add(relativePath);
+          seen.add(targetPath);
+        }
+        updated.set(targetPath, { ...entry, filePath: targetPath, size: stat.size, mtimeMs: stat.mtimeMs, hash });
+      } catch (err) {
+        console.error(`Failed to refresh scan cache for ${fullPath}:`, err);
+      }
+    },
+
+    dirtyPaths() {
+      return new Set(dirty);
+    },
+
+    moves() {
+      return [...moveList];
+    },
+
+    async commit() {
+      const removedPaths = [...byPath.keys()].filter((p) => !seen.has(p));
+      stats.removed = removedPaths.filter((p) => !consumed.has(p)).length;
+
+      await prisma.$transaction([
+        prisma.libraryFile.deleteMany({ where: { filePath: { in: removedPaths } } }),
+        ...[...updated.values()].map((entry) =>
+          prisma.libraryFile.upsert({
+            where: { filePath: entry.filePath },
+            update: {
+              kind: entry.kind,
+              size: entry.size,
+              mtimeMs: entry.mtimeMs,
+              hash: entry.hash,
+              metadata: entry.metadata,
+            },
+            create: entry,
+          })
+        ),
+      ]);
+
+      return { ...stats };
+    },
+  };
+}
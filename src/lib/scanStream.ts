@@ -0,0 +1,134 @@
+import { readNdjson } from "@/lib/ndjsonStream";
+
+/** Stages of `POST /api/library/scan`, in the order the server runs them. */
+export type ScanPhase =
+  | "queued"
+  | "discovering"
+  | "parsing"
+  | "jamTracks"
+  | "videos"
+  | "saving"
+  | "cleanup"
+  | "reorganizing"
+  | "queueing";
+
+/** Final summary sent with the `done` event. */
+export interface ScanResult {
+  message: string;
+  count: number;
+  removed?: number;
+  reorganized?: number;
+  files?: {
+    added: number;
+    changed: number;
+    unchanged: number;
+    moved: number;
+    removed: number;
+    movedRowsKept: number;
+  };
+  videos?: { removed: number };
+  jamTracks?: { found: number; removed: number; emptyFoldersRemoved: number };
+  /** Background analysis jobs (loudness, duration, cover, waveform) queued by this scan. */
+  jobs?: { queued: number };
+}
+
+/**
+ * One line of the scan NDJSON stream:
+ *   {"type":"phase","phase":"parsing"}
+ *   {"type":"discovered","files":1200}
+ *   {"type":"parsed","path":"Author/Book/01 - Intro.mp3","status":"unchanged","index":3,"total":1200}
+ *   {"type":"video","path":"Author/Book/videos/01.mp4","status":"added"}
+ *   {"type":"saved","author":"...","book":"...","tracks":12,"videos":3}
+ *   {"type":"fileError","path":"...","error":"..."}
+ *   {"type":"done","result":{...}} | {"type":"error","error":"..."}
+ */
+export type ScanEvent =
+  | { type: "phase"; phase: ScanPhase }
+  | { type: "discovered"; files: number }
+  | { type: "parsed"; path: string; status: string; index: number; total: number }
+  | { type: "video"; path: string; status: string }
+  | { type: "saved"; author: string; book: string; tracks: number; videos: number }
+  | { type: "fileError"; path: string; error: string }
+  | { type: "done"; result: ScanResult }
+  | { type: "error"; error: string };
+
+/** Client-side view of a running or finished scan, folded from `ScanEvent`s. */
+export interface ScanProgress {
+  status: "running" | "done" | "cancelled" | "error";
+  phase: ScanPhase;
+  filesDiscovered: number;
+  filesParsed: number;
+  /** Files that were added, changed or moved (i.e. actually re-read). */
+  filesChanged: number;
+  videosFound: number;
+  booksSaved: number;
+  currentFile: string | null;
+  errors: { path: string; error: string }[];
+  result: ScanResult | null;
+  errorMessage: string | null;
+}
+
+export function initialScanProgress(): ScanProgress {
+  return {
+    status: "running",
+    phase: "discovering",
+    filesDiscovered: 0,
+    filesParsed: 0,
+    filesChanged: 0,
+    videosFound: 0,
+    booksSaved: 0,
+    currentFile: null,
+    errors: [],
+    result: null,
+    errorMessage: null,
+  };
+}
+
+function applyScanEvent(progress: ScanProgress, event: ScanEvent): ScanProgress {
+  switch (event.type) {
+    case "phase":
+      return { ...progress, phase: event.phase, currentFile: null };
+    case "discovered":
+      return { ...progress, filesDiscovered: progress.filesDiscovered + event.files };
+    case "parsed":
+      return {
+        ...progress,
+        filesParsed: progress.filesParsed + 1,
+        filesChanged: progress.filesChanged + (event.status === "unchanged" ? 0 : 1),
+        currentFile: event.path,
+      };
+    case "video":
+      return { ...progress, videosFound: progress.videosFound + 1, currentFile: event.path };
+    case "saved":
+      return { ...progress, booksSaved: progress.booksSaved + 1, currentFile: `${event.author}/${event.book}` };
+    case "fileError":
+      return { ...progress, errors: [...progress.errors, { path: event.path, error: event.error }] };
+    case "done":
+      return { ...progress, status: "done", result: event.result, currentFile: null };
+    case "error":
+      return { ...progress, status: "error", errorMessage: event.error, currentFile: null };
+  }
+}
+
+/**
+ * Consume the scan NDJSON stream, calling `onProgress` with the folded state
+ * after every event. Resolves with the final state; rejects with an AbortError
+ * if the caller aborted the fetch to cancel the scan.
+ */
+export async function consumeScanStream(
+  res: Response,
+  onProgress: (progress: ScanProgress) => void,
+): Promise<ScanProgress> {
+  let progress = initialScanProgress();
+
+  await readNdjson<ScanEvent>(res, (event) => {
+    progress = applyScanEvent(progress, event);
+    onProgress(progress);
+  });
+
+  if (progress.status === "running") {
+    progress = { ...progress, status: "error", errorMessage: "Scan ended unexpectedly" };
+    onProgress(progress);
+  }
+  return progress;
+}
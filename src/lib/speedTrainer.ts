@@ -0,0 +1,59 @@
+// Progressive speed trainer for A-B loops: start slow and raise the speed by
+// a fixed step after a number of clean passes, until the target is reached.
+// Settings are a per-browser preference, persisted in localStorage.
+
+const STORAGE_KEY = "speedTrainerSettings";
+
+export interface SpeedTrainerSettings {
+  startSpeed: number; // %
+  targetSpeed: number; // %
+  stepPercent: number; // added after each completed step
+  repsPerStep: number; // clean passes needed before stepping up
+  countIn: boolean; // play a count-in bar before every pass
+}
+
+export const DEFAULT_SPEED_TRAINER_SETTINGS: SpeedTrainerSettings = {
+  startSpeed: 60,
+  targetSpeed: 100,
+  stepPercent: 5,
+  repsPerStep: 3,
+  countIn: false,
+};
+
+function clamp(value: unknown, min: number, max: number, fallback: number): number {
+  const n = typeof value === "number" && Number.isFinite(value) ? Math.round(value) : fallback;
+  return Math.max(min, Math.min(max, n));
+}
+
+export function normalizeSpeedTrainerSettings(raw: Partial<SpeedTrainerSettings>): SpeedTrainerSettings {
+  const d = DEFAULT_SPEED_TRAINER_SETTINGS;
+  const startSpeed = clamp(raw.startSpeed, 10, 200, d.startSpeed);
+  return {
+    startSpeed,
+    targetSpeed: clamp(raw.targetSpeed, startSpeed, 200, Math.max(startSpeed, d.targetSpeed)),
+    stepPercent: clamp(raw.stepPercent, 1, 50, d.stepPercent),
+    repsPerStep: clamp(raw.repsPerStep, 1, 50, d.repsPerStep),
+    countIn: typeof raw.countIn === "boolean" ? raw.countIn : d.countIn,
+  };
+}
+
+export function getSpeedTrainerSettings(): SpeedTrainerSettings {
+  if (typeof window === "undefined") return DEFAULT_SPEED_TRAINER_SETTINGS;
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? normalizeSpeedTrainerSettings(JSON.parse(saved)) : DEFAULT_SPEED_TRAINER_SETTINGS;
+  } catch {
+    return DEFAULT_SPEED_TRAINER_SETTINGS;
+  }
+}
+
+export function setSpeedTrainerSettings(settings: SpeedTrainerSettings): void {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+/** Speed for the step after `speed`, or null once the target has been reached. */
+export function nextTrainerSpeed(settings: SpeedTrainerSettings, speed: number): number | null {
+  if (speed >= settings.targetSpeed) return null;
+  return Math.min(settings.targetSpeed, speed + settings.stepPercent);
+}
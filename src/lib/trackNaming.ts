@@ -0,0 +1,51 @@
+import * as path from "path";
+
+export function sanitizeFilename(name: string): string {
+  // Remove or replace characters that are invalid in filenames
+  return name
+    .replace(/[<>:"/\\|?*]/g, "-")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function extractTrackNumberFromFilename(filename: string): number | null {
+  // Try to extract track number from start of filename
+  // Patterns: "02_Track.mp3", "02 - Track.mp3", "02. Track.mp3", "02 Track.mp3"
+  const basename = path.basename(filename, path.extname(filename));
+  const match = basename.match(/^(\d{1,3})[\s_.\-]+/);
+  if (match) {
+    return parseInt(match[1], 10);
+  }
+  return null;
+}
+
+export function stripTrackNumberPrefix(title: string): string {
+  // Remove track number prefix from title
+  // Patterns: "02_Track", "02 - Track", "02. Track", "02 Track"
+  return title.replace(/^(\d{1,3})[\s_.\-]+/, "").trim();
+}
+
+export function padTrackNumber(trackNumber: number, totalTracks: number): string {
+  if (totalTracks >= 100) {
+    return trackNumber.toString().padStart(3, "0");
+  }
+  return trackNumber.toString().padStart(2, "0");
+}
+
+/**
+ * Library file name for a track: "07 - Title.mp3", or "Title.mp3" without a
+ * track number. `counter` disambiguates clashes: "07 - Title (2).mp3".
+ */
+export function buildTrackFilename(
+  title: string,
+  trackNumber: number | null,
+  totalTracks: number,
+  ext: string,
+  counter?: number
+): string {
+  const baseName = sanitizeFilename(title) + (counter ? ` (${counter})` : "");
+  if (trackNumber && trackNumber > 0) {
+    return `${padTrackNumber(trackNumber, totalTracks)} - ${baseName}${ext}`;
+  }
+  return baseName + ext;
+}
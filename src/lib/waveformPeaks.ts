@@ -0,0 +1,167 @@
+import { spawn } from "child_process";
+import * as fs from "fs/promises";
+import * as path from "path";
+
+// Decode at a low rate; peaks only need the envelope, not the audio
+const DECODE_SAMPLE_RATE = 8000;
+const BASE_PEAKS_PER_SECOND = 100;
+const SAMPLES_PER_PEAK = DECODE_SAMPLE_RATE / BASE_PEAKS_PER_SECOND;
+// Coarser levels are max-pooled from the base: 100, 25 and 5 peaks per second
+const LEVEL_FACTORS = [1, 4, 20];
+const PEAKS_VERSION = 2;
+
+export interface WaveformPeaksLevel {
+  peaksPerSecond: number;
+  /** Max absolute amplitude per window, 0..1, mono. */
+  peaks: number[];
+}
+
+export interface WaveformPeaks {
+  version: number;
+  /** Size and mtime of the source file, so edits invalidate the cache. */
+  size: number;
+  mtimeMs: number;
+  duration: number;
+  /** Finest first. */
+  levels: WaveformPeaksLevel[];
+}
+
+// Concurrent requests for the same file share one ffmpeg run
+const globalForPeaks = globalThis as unknown as {
+  waveformPeaksInFlight: Map<string, Promise<WaveformPeaks>> | undefined;
+};
+
+/**
+ * Peaks are cached as a hidden file next to the media (`.song.mp3.peaks.json`),
+ * so they follow the file through manual moves and the scanner ignores them.
+ */
+export function peaksPathFor(fullPath: string): string {
+  return path.join(path.dirname(fullPath), `.${path.basename(fullPath)}.peaks.json`);
+}
+
+/** Cached peaks for a file, or null if missing or stale. */
+export async function readWaveformPeaks(fullPath: string): Promise<WaveformPeaks | null> {
+  try {
+    const [stat, raw] = await Promise.all([fs.stat(fullPath), fs.readFile(peaksPathFor(fullPath), "utf-8")]);
+    const cached = JSON.parse(raw) as WaveformPeaks;
+    if (cached.version !== PEAKS_VERSION || cached.size !== stat.size || cached.mtimeMs !== stat.mtimeMs) {
+      return null;
+    }
+    return cached;
+  } catch {
+    return null;
+  }
+}
+
+/** Cheap staleness check (two stats, no parse) for deciding whether to queue a job. */
+export async function hasFreshWaveformPeaks(fullPath: string): Promise<boolean> {
+  try {
+    const [source, peaks] = await Promise.all([fs.stat(fullPath), fs.stat(peaksPathFor(fullPath))]);
+    return peaks.mtimeMs >= source.mtimeMs;
+  } catch {
+    return false;
+  }
+}
+
+/** The finest level with at most `maxPeaks` values, or the coarsest if none fit. */
+export function pickPeaksLevel(data: WaveformPeaks, maxPeaks: number): WaveformPeaksLevel {
+  return data.levels.find((level) => level.peaks.length <= maxPeaks) ?? data.levels[data.levels.length - 1];
+}
+
+function roundPeak(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function decodePeaks(fullPath: string): Promise<{ peaks: number[]; samples: number }> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn("ffmpeg", [
+      "-v", "error",
+      "-i", fullPath,
+      "-ac", "1",
+      "-ar", String(DECODE_SAMPLE_RATE),
+      "-f", "s16le",
+      "-",
+    ]);
+
+    const peaks: number[] = [];
+    let samples = 0;
+    let windowMax = 0;
+    let windowCount = 0;
+    let leftover: Buffer | null = null;
+    let stderr = "";
+
+    proc.stdout.on("data", (chunk: Buffer) => {
+      const data: Buffer = leftover ? Buffer.concat([leftover, chunk]) : chunk;
+      const usable = data.length - (data.length % 2);
+      for (let i = 0; i < usable; i += 2) {
+        const sample = Math.abs(data.readInt16LE(i)) / 32768;
+        if (sample > windowMax) windowMax = sample;
+        samples++;
+        if (++windowCount === SAMPLES_PER_PEAK) {
+          peaks.push(windowMax);
+          windowMax = 0;
+          windowCount = 0;
+        }
+      }
+      leftover = usable < data.length ? data.subarray(usable) : null;
+    });
+    proc.stderr.on("data", (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+    proc.on("error", reject);
+    proc.on("close", (code) => {
+      if (code !== 0) {
+        reject(new Error(stderr.trim() || `ffmpeg exited with code ${code}`));
+        return;
+      }
+      if (windowCount > 0) peaks.push(windowMax);
+      resolve({ peaks, samples });
+    });
+  });
+}
+
+function poolPeaks(base: number[], factor: number): number[] {
+  if (factor === 1) return base.map(roundPeak);
+  const pooled: number[] = [];
+  for (let i = 0; i < base.length; i += factor) {
+    let max = 0;
+    for (let j = i; j < Math.min(i + factor, base.length); j++) {
+      if (base[j] > max) max = base[j];
+    }
+    pooled.push(roundPeak(max));
+  }
+  return pooled;
+}
+
+/** Decode the file with ffmpeg and write its peaks cache. */
+export async function generateWaveformPeaks(fullPath: string): Promise<WaveformPeaks> {
+  const stat = await fs.stat(fullPath);
+  const { peaks, samples } = await decodePeaks(fullPath);
+  const result: WaveformPeaks = {
+    version: PEAKS_VERSION,
+    size: stat.size,
+    mtimeMs: stat.mtimeMs,
+    duration: samples / DECODE_SAMPLE_RATE,
+    levels: LEVEL_FACTORS.map((factor) => ({
+      peaksPerSecond: BASE_PEAKS_PER_SECOND / factor,
+      peaks: poolPeaks(peaks, factor),
+    })),
+  };
+  await fs.writeFile(peaksPathFor(fullPath), JSON.stringify(result));
+  return result;
+}
+
+/** Cached peaks, generating them first if they're missing or stale. */
+export async function getWaveformPeaks(fullPath: string): Promise<WaveformPeaks> {
+  const cached = await readWaveformPeaks(fullPath);
+  if (cached) return cached;
+
+  globalForPeaks.waveformPeaksInFlight ??= new Map();
+  const inFlight = globalForPeaks.waveformPeaksInFlight;
+  let pending = inFlight.get(fullPath);
+  if (!pending) {
+    pending = generateWaveformPeaks(fullPath).finally(() => inFlight.delete(fullPath));
+    inFlight.set(fullPath, pending);
+  }
+  return pending;
+}
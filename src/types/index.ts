@@ -31,8 +31,16 @@ export interface Track {
   inProgress: boolean;
   favorite: boolean;
   tempo: number | null;
+  /** Tempo measured from the audio; the beat grid uses it while it agrees with `tempo`. */
+  detectedTempo: number | null;
+  /** Seconds to the first downbeat, from beat detection. */
+  beatOffset: number | null;
   timeSignature: string;
   playbackSpeed: number | null;
+  /** Pitch shift in cents (100 per semitone), independent of playback speed. */
+  transposeCents: number | null;
+  /** JSON player tone settings; read with parseToneSettings. */
+  toneSettings?: string | null;
   volume: number | null;
   lufs: number | null;
   notes: string | null;
@@ -125,6 +133,50 @@ export interface JamTrackMarker {
   jamTrackId: string;
 }
 
+/** One chord in a jam track's chord timeline. */
+export interface JamTrackChord {
+  id: string;
+  start: number;
+  end: number;
+  /** Note name from NOTES, e.g. "F#". */
+  root: string;
+  /** Key into CHORD_FORMULAS, e.g. "Min7"; pairs with root for getChordNotes. */
+  chordType: string;
+  jamTrackId: string;
+}
+
+/** Playback passing `timestamp` turns the PDF to `page`. */
+export interface PageSyncPoint {
+  id: string;
+  timestamp: number;
+  page: number;
+  pdfId: string;
+}
+
+/** A named sheet music PDF for a jam track, e.g. "Rhythm Guitar". */
+export interface JamTrackPdf {
+  id: string;
+  name: string;
+  filePath: string;
+  sortOrder: number;
+  jamTrackId: string;
+  syncPoints: PageSyncPoint[];
+}
+
+/** A saved, named A-B loop; exactly one of the owner ids is set. */
+export interface LoopRegion {
+  id: string;
+  name: string;
+  start: number;
+  end: number;
+  playbackSpeed: number | null; // preferred speed %, null keeps the current one
+  leadIn: number | null; // seconds before start, null uses the player's lead-in
+  trackId: string | null;
+  jamTrackId: string | null;
+  bookVideoId: string | null;
+  createdAt: string;
+}
+
 export interface JamTrack {
   id: string;
   title: string;
@@ -134,12 +186,30 @@ export interface JamTrack {
   inProgress: boolean;
   favorite: boolean;
   tempo: number | null;
+  /** Tempo measured from the audio; the beat grid uses it while it agrees with `tempo`. */
+  detectedTempo: number | null;
+  /** Seconds to the first downbeat, from beat detection. */
+  beatOffset: number | null;
   timeSignature: string;
+  /** Key set by hand (a NOTES name and "Major"/"Minor"); wins over the detected key. */
+  rootNote: string | null;
+  scaleType: string | null;
+  /** Key estimated from the audio. */
+  detectedRootNote: string | null;
+  detectedScaleType: string | null;
+  /** 0..1, how clearly the detected key stood out. */
+  keyConfidence: number | null;
   playbackSpeed: number | null;
+  /** Pitch shift in cents (100 per semitone), independent of playback speed. */
+  transposeCents: number | null;
+  /** JSON player tone settings; read with parseToneSettings. */
+  toneSettings?: string | null;
   volume: number | null;
   lufs: number | null;
   gpFilePath: string | null;
   markers: JamTrackMarker[];
+  /** Ordered by sortOrder; missing where a route doesn't load them. */
+  pdfs?: JamTrackPdf[];
   createdAt: string;
 }
 
@@ -171,6 +241,18 @@ export interface Recording {
   mimeType: string;
   notes: string | null;
   createdAt: string;
+  /** Record-along takes: the track or jam track that played under the take. */
+  trackId?: string | null;
+  jamTrackId?: string | null;
+  /** Track position lined up with `alignOffset` seconds into the take. */
+  sourceStart?: number | null;
+  alignOffset?: number | null;
+  /** Round-trip latency the take was corrected for. */
+  latencyMs?: number | null;
+  /** Track speed (percent) during the take. */
+  playbackSpeed?: number | null;
+  loopStart?: number | null;
+  loopEnd?: number | null;
 }
 
 export interface PracticeSession {
@@ -178,6 +260,7 @@ export interface PracticeSession {
   trackId: string | null;
   jamTrackId: string | null;
   bookVideoId: string | null;
+  loopRegionId: string | null;
   startTime: string;
   durationSeconds: number;
   playbackSpeed: number;
@@ -186,6 +269,53 @@ export interface PracticeSession {
   createdAt: string;
 }
 
+export type RoutineBlockKind = "track" | "jamTrack" | "chapter" | "bookVideo" | "video" | "metronome" | "tool";
+export type RoutineTool = "fretboard" | "noteTrainer" | "exercise" | "chords" | "circle" | "caged";
+
+export interface RoutineBlock {
+  id: string;
+  routineId: string;
+  sortOrder: number;
+  kind: RoutineBlockKind;
+  label: string | null;
+  durationSeconds: number;
+  trackId: string | null;
+  jamTrackId: string | null;
+  chapterId: string | null;
+  bookVideoId: string | null;
+  videoId: string | null;
+  tool: RoutineTool | null;
+  rootNote: string | null; // key for fretboard/exercise tools
+  scaleType: string | null;
+  bpm: number | null; // starts the metronome for the block when set
+  timeSignature: string | null;
+  // Where the block's target lives, filled in by /api/routines
+  targetTitle: string | null;
+  authorId: string | null;
+  bookId: string | null;
+  firstTrackId: string | null; // chapter blocks open their first track
+}
+
+export interface Routine {
+  id: string;
+  name: string;
+  blocks: RoutineBlock[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RoutineRun {
+  id: string;
+  routineId: string | null;
+  routineName: string;
+  startTime: string;
+  durationSeconds: number;
+  blocksCompleted: number;
+  blocksTotal: number;
+  completed: boolean;
+  createdAt: string;
+}
+
 // Search result types (lightweight, only fields returned by /api/search)
 export interface SearchResultTrack {
   id: string;
@@ -235,6 +365,116 @@ export interface BackingTrack {
   updatedAt: string;
 }
 
+// Library integrity report (/api/library/integrity)
+export type IntegrityIssueKind = "missingFile" | "orphanFile" | "zeroDuration" | "brokenGpLink";
+
+// Which DB column a path belongs to (or would belong to, for orphan files)
+export type IntegrityEntity = "track" | "jamTrack" | "bookPdf" | "bookVideo" | "recording" | "backingTrack";
+
+export type IntegrityFix = "relink" | "deleteRow" | "import";
+
+export interface IntegrityIssue {
+  id: string;
+  kind: IntegrityIssueKind;
+  entity: IntegrityEntity;
+  rowId: string | null;
+  label: string;
+  path: string;
+  // Unreferenced files on disk with the same filename (for relink)
+  candidates: string[];
+  fixes: IntegrityFix[];
+}
+
+export interface IntegrityReport {
+  checkedAt: string;
+  issues: IntegrityIssue[];
+}
+
+export type MediaJobType = "lufs" | "duration" | "cover" | "waveform" | "tempo" | "chords" | "key";
+export type MediaJobEntity = "track" | "jamTrack" | "bookVideo" | "book";
+export type MediaJobStatus = "pending" | "running" | "done" | "failed";
+
+export interface FailedMediaJob {
+  id: string;
+  type: MediaJobType;
+  entity: MediaJobEntity;
+  filePath: string;
+  attempts: number;
+  lastError: string | null;
+  finishedAt: string | null;
+}
+
+export interface MediaJobsStatus {
+  concurrency: number;
+  /** Jobs running in this server process right now. */
+  active: number;
+  counts: Record<MediaJobType, Record<MediaJobStatus, number>>;
+  failed: FailedMediaJob[];
+}
+
+/** Response of `GET /api/audio/peaks/[...path]`, ready for WaveSurfer's `peaks` option. */
+export interface WaveformPeaksResponse {
+  duration: number;
+  peaksPerSecond: number;
+  peaks: number[];
+}
+
+export type DatabaseBackupReason = "manual" | "scheduled" | "pre-restore";
+
+export interface DatabaseBackup {
+  /** File name inside the backup folder. */
+  id: string;
+  createdAt: string;
+  size: number;
+  reason: DatabaseBackupReason;
+  /** Hash of the tables and columns, or null for snapshots without metadata. */
+  schemaVersion: string | null;
+}
+
+/** Where the cut points of `POST /api/library/split` and `POST /api/tracks/[id]/split` come from. */
+export type AudioSplitMode = "cue" | "silence" | "markers";
+
+export interface AudioSplitSegment {
+  /** Seconds into the source file. */
+  start: number;
+  end: number;
+  title: string;
+  /** Carried over from the marker the piece starts at. */
+  pdfPage?: number | null;
+}
+
+/** One track's planned rename/move in a library reorganize, as shown for review. */
+export interface ReorganizeChange {
+  /** Track id. */
+  id: string;
+  label: string;
+  oldPath: string;
+  newPath: string;
+  /** The file lands in a different folder, not just a new name. */
+  movesFolder: boolean;
+  title: { from: string; to: string } | null;
+  trackNumber: { from: number; to: number } | null;
+  /** ID3 tags rewritten in the file (MP3 only). */
+  tags: { title: string; trackNumber: string | null } | null;
+}
+
+export interface ReorganizePlan {
+  changes: ReorganizeChange[];
+  /** Tracks already named and placed correctly. */
+  unchanged: number;
+}
+
+export type ReorganizeJournalStatus = "applying" | "applied" | "rolledBack";
+
+export interface ReorganizeJournalSummary {
+  id: string;
+  createdAt: string;
+  status: ReorganizeJournalStatus;
+  changes: number;
+  failed: number;
+  rolledBackAt: string | null;
+}
+
 // Backwards compatibility aliases (for gradual migration)
 export type Song = Track;
 export type Album = Book;